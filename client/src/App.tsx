@@ -35,7 +35,10 @@ const StudentFavorites = lazy(() => import("@/pages/student-favorites"));
 const StudentBooks = lazy(() => import("@/pages/student-books"));
 const StudentDueSoon = lazy(() => import("@/pages/student-due-soon"));
 const LibrarianProfile = lazy(() => import("@/pages/librarian-profile"));
+const LibrarianDesk = lazy(() => import("@/pages/librarian-desk"));
 const AIAnalyticsPage = lazy(() => import("@/pages/ai-analytics-page"));
+const AIUsagePage = lazy(() => import("@/pages/ai-usage-page"));
+const AIContentReviewPage = lazy(() => import("@/pages/ai-content-review-page"));
 
 // Loading component with library theme
 function LoadingSpinner() {
@@ -118,6 +121,11 @@ function Router() {
           component={() => <OverdueBooksPage />} 
           allowedRoles={[Role.LIBRARIAN, Role.ADMIN]} 
         />
+        <ProtectedRoute 
+          path="/librarian/desk" 
+          component={() => <LibrarianDesk />} 
+          allowedRoles={[Role.LIBRARIAN, Role.ADMIN]} 
+        />
         <ProtectedRoute 
           path="/librarian/profile" 
           component={() => <LibrarianProfile />} 
@@ -128,6 +136,11 @@ function Router() {
           component={() => <AIAnalyticsPage />} 
           allowedRoles={[Role.LIBRARIAN, Role.ADMIN]} 
         />
+        <ProtectedRoute 
+          path="/librarian/content-review" 
+          component={() => <AIContentReviewPage />} 
+          allowedRoles={[Role.LIBRARIAN, Role.ADMIN]} 
+        />
         <ProtectedRoute 
           path="/admin" 
           component={() => <AdminDashboard />} 
@@ -138,6 +151,11 @@ function Router() {
           component={() => <AIAnalyticsPage />} 
           allowedRoles={[Role.ADMIN]} 
         />
+        <ProtectedRoute 
+          path="/admin/ai-usage" 
+          component={() => <AIUsagePage />} 
+          allowedRoles={[Role.ADMIN]} 
+        />
         <Route path="/auth" component={() => <AuthPage />} />
         <Route path="/forgot-password" component={() => <ForgotPasswordPage />} />
         <Route path="/verify-otp" component={() => <VerifyOtpPage />} />
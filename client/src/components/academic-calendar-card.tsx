@@ -0,0 +1,280 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarEvent, CalendarEventInput, CalendarEventType, CalendarImportResult } from "@shared/schema";
+import { CalendarDays, Trash2, Upload } from "lucide-react";
+
+const TYPE_LABELS: Record<CalendarEventType, string> = {
+  [CalendarEventType.TERM]: "Term",
+  [CalendarEventType.EXAM_WEEK]: "Exam week",
+  [CalendarEventType.HOLIDAY]: "Holiday",
+  [CalendarEventType.CLOSURE]: "Closure",
+};
+
+// Holidays and closures close the library; terms and exam weeks only inform the predictions
+const CLOSED_TYPES = [CalendarEventType.HOLIDAY, CalendarEventType.CLOSURE];
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function formatDays(event: CalendarEvent): string {
+  const start = new Date(event.startDate).toLocaleDateString();
+  const end = new Date(event.endDate).toLocaleDateString();
+  return start === end ? start : `${start} – ${end}`;
+}
+
+const emptyForm = {
+  type: CalendarEventType.HOLIDAY,
+  name: "",
+  startDate: "",
+  endDate: "",
+};
+
+export function AcademicCalendarCard() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [importType, setImportType] = useState(CalendarEventType.HOLIDAY);
+  const [from] = useState(today);
+
+  const { data: events = [], isLoading } = useQuery<CalendarEvent[]>({
+    queryKey: ["/api/calendar/events", { from }],
+  });
+
+  const createEventMutation = useMutation({
+    mutationFn: async (event: CalendarEventInput) => {
+      const res = await apiRequest("POST", "/api/calendar/events", event);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events"] });
+      setForm(emptyForm);
+      toast({
+        title: "Event added",
+        description: "Due dates falling on closed days move to the next open day",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/calendar/events/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("defaultType", importType);
+
+      const baseUrl = import.meta.env.PROD ? window.location.origin : "";
+      const response = await fetch(`${baseUrl}/api/calendar/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Import failed");
+      }
+
+      return await response.json();
+    },
+    onSuccess: (result: CalendarImportResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events"] });
+      const skipped = result.skipped.length
+        ? ` Skipped ${result.skipped.length}: ${result.skipped.map(item => `${item.name} (${item.reason})`).join(", ")}`
+        : "";
+      toast({
+        title: "Calendar imported",
+        description: `${result.created} added, ${result.updated} updated.${skipped}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    // Lets the same file be picked again after it changes
+    e.target.value = "";
+  };
+
+  const handleAdd = () => {
+    createEventMutation.mutate({
+      type: form.type,
+      name: form.name.trim(),
+      startDate: form.startDate,
+      endDate: form.endDate || form.startDate,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-academic-calendar">
+          <CalendarDays className="h-5 w-5" />
+          Academic Calendar
+        </CardTitle>
+        <CardDescription>
+          Holidays and closures move due dates to the next open day and are not charged as late days.
+          Terms and exam weeks inform due-date suggestions, overdue risk and demand forecasts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading calendar...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming events - the library is treated as open every day</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {events.map((event) => (
+              <div key={event.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`row-calendar-event-${event.id}`}>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={CLOSED_TYPES.includes(event.type) ? "destructive" : "outline"}>{TYPE_LABELS[event.type]}</Badge>
+                    <span className="text-sm font-medium text-foreground">{event.name}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDays(event)}{event.icalUid ? " · Imported" : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteEventMutation.mutate(event.id)}
+                  disabled={deleteEventMutation.isPending}
+                  data-testid={`button-delete-calendar-event-${event.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end border-t pt-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as CalendarEventType })}>
+              <SelectTrigger data-testid="select-calendar-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(CalendarEventType).map((type) => (
+                  <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calendar-name" className="text-xs">Name</Label>
+            <Input
+              id="calendar-name"
+              placeholder="Winter break"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-calendar-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calendar-start" className="text-xs">First day</Label>
+            <Input
+              id="calendar-start"
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              data-testid="input-calendar-start"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calendar-end" className="text-xs">Last day</Label>
+            <Input
+              id="calendar-end"
+              type="date"
+              min={form.startDate}
+              value={form.endDate}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              data-testid="input-calendar-end"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            onClick={handleAdd}
+            disabled={createEventMutation.isPending || !form.name.trim() || !form.startDate}
+            data-testid="button-add-calendar-event"
+          >
+            Add Event
+          </Button>
+          <div className="flex items-center gap-2 ml-auto">
+            <Label className="text-xs whitespace-nowrap">Unlabelled events are</Label>
+            <Select value={importType} onValueChange={(type) => setImportType(type as CalendarEventType)}>
+              <SelectTrigger className="w-36" data-testid="select-calendar-import-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(CalendarEventType).map((type) => (
+                  <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-calendar"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import .ics"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
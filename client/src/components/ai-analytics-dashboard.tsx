@@ -43,7 +43,8 @@ import {
   Download,
   Database,
   Lightbulb,
-  ArrowLeft
+  ArrowLeft,
+  GraduationCap
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
@@ -51,6 +52,9 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { AIAnalytics, AIPrediction, Role } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { useLocation } from "wouter";
+import { QuizStatsCard } from "@/components/quiz-stats-card";
+import { OverdueRiskModelCard } from "@/components/overdue-risk-model-card";
+import { DemandForecastCard } from "@/components/demand-forecast-card";
 
 interface DashboardData {
   analytics: {
@@ -346,7 +350,7 @@ export function AIAnalyticsDashboard() {
 
           {/* Main Analytics Tabs */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="overview" data-testid="tab-overview">
                 <Eye className="mr-1 h-4 w-4" />
                 Overview
@@ -367,6 +371,14 @@ export function AIAnalyticsDashboard() {
                 <Zap className="mr-1 h-4 w-4" />
                 Predictions
               </TabsTrigger>
+              <TabsTrigger value="demand" data-testid="tab-demand">
+                <TrendingUp className="mr-1 h-4 w-4" />
+                Demand
+              </TabsTrigger>
+              <TabsTrigger value="quizzes" data-testid="tab-quizzes">
+                <GraduationCap className="mr-1 h-4 w-4" />
+                Quizzes
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4">
@@ -762,6 +774,16 @@ export function AIAnalyticsDashboard() {
                   </CardContent>
                 </Card>
               </div>
+
+              <OverdueRiskModelCard />
+            </TabsContent>
+
+            <TabsContent value="demand" className="space-y-4">
+              <DemandForecastCard />
+            </TabsContent>
+
+            <TabsContent value="quizzes" className="space-y-4">
+              <QuizStatsCard />
             </TabsContent>
           </Tabs>
         </>
@@ -21,13 +21,15 @@ import {
   CheckCircle, 
   AlertTriangle,
   Clock,
-  Sparkles 
+  Sparkles,
+  GraduationCap
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Book, BookAIContent, Role } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { BookQuiz } from "@/components/book-quiz";
 
 interface AIBookContentProps {
   book: Book;
@@ -59,10 +61,10 @@ export function AIBookContent({ book }: AIBookContentProps) {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/ai/content", book.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/content-review"] });
       toast({
-        title: "AI Content Generated",
-        description: "Book analysis completed successfully!",
+        title: "Drafts Ready for Review",
+        description: "Students will see the new content once it is approved in AI Content Review.",
       });
     },
     onError: (error: Error) => {
@@ -209,7 +211,7 @@ export function AIBookContent({ book }: AIBookContentProps) {
 
         {aiContent && (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="summary" data-testid="tab-summary">
                 <BookOpen className="mr-1 h-4 w-4" />
                 Summary
@@ -226,6 +228,10 @@ export function AIBookContent({ book }: AIBookContentProps) {
                 <MessageSquare className="mr-1 h-4 w-4" />
                 Q&A
               </TabsTrigger>
+              <TabsTrigger value="quiz" data-testid="tab-quiz">
+                <GraduationCap className="mr-1 h-4 w-4" />
+                Quiz
+              </TabsTrigger>
             </TabsList>
 
             <div className="mt-6">
@@ -336,6 +342,25 @@ export function AIBookContent({ book }: AIBookContentProps) {
                   </ScrollArea>
                 </div>
               </TabsContent>
+
+              <TabsContent value="quiz" className="space-y-4">
+                <h3 className="text-lg font-semibold">Comprehension Quiz</h3>
+                {user?.role === Role.STUDENT ? (
+                  <BookQuiz book={book} />
+                ) : aiContent.comprehensionQA && aiContent.comprehensionQA.length > 0 ? (
+                  // Staff see the questions with their answers
+                  aiContent.comprehensionQA.map((qa, index) => (
+                    <Card key={index} className="p-4 space-y-1">
+                      <div className="text-sm font-medium">{index + 1}. {qa.question}</div>
+                      <div className="text-sm text-muted-foreground">{qa.answer}</div>
+                    </Card>
+                  ))
+                ) : (
+                  <div className="text-muted-foreground text-sm">
+                    No comprehension questions yet.
+                  </div>
+                )}
+              </TabsContent>
             </div>
           </Tabs>
         )}
@@ -1,12 +1,18 @@
 import { useState, useRef, useEffect } from "react";
-import { MessageCircle, Send, X, BookOpen, ExternalLink, Download, ShoppingCart, Bot, User } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { MessageCircle, Send, Square, X, BookOpen, History, Plus, ExternalLink, Download, ShoppingCart, Bot, User, Check, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { BookDetailModal } from "@/components/book-detail-modal";
+import { ChatConversationList } from "@/components/chat-conversation-list";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import { Book, ChatPendingAction, ChatSession } from "@shared/schema";
 
 interface ChatMessage {
   id: string;
@@ -14,6 +20,53 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   bookLinks?: BookLink[];
+  // Catalog books cited in the reply
+  books?: Book[];
+  // Account change waiting for the student's confirmation
+  pendingAction?: ChatPendingAction;
+}
+
+type ActionState = 'working' | 'confirmed' | 'cancelled';
+
+// Added to a reply the student stopped, matching what the server keeps in the chat history
+const STOPPED_MARKER = " …(stopped)";
+
+// What the assistant is doing while a tool runs
+const TOOL_LABELS: Record<string, string> = {
+  search_catalog: "Searching the catalog...",
+  list_my_loans: "Checking your loans...",
+};
+
+// Streamed text still has the [book:<id>] citations the final reply replaces with cards, and may end in
+// half of one
+const toDisplayText = (raw: string) =>
+  raw
+    .replace(/\s*\[book:[A-Za-z0-9_-]+\]/g, "")
+    .replace(/\s*\[(b(o(o(k(:[A-Za-z0-9_-]*)?)?)?)?)?$/, "");
+
+/**
+ * Read a Server-Sent Events response, calling onEvent with each event's name and parsed data
+ */
+async function readEventStream(response: Response, onEvent: (event: string, data: any) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() || "";
+    for (const frame of frames) {
+      let event = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
 }
 
 interface BookLink {
@@ -24,28 +77,41 @@ interface BookLink {
   price?: string;
 }
 
-export function AIChatAssistant() {
-  const { user } = useAuth();
-  const [isOpen, setIsOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState("");
-  const [animatedText, setAnimatedText] = useState("");
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      type: 'assistant',
-      content: `Hello ${user?.fullName || 'there'}! I'm your AI Library Assistant. I can help you with:
+const greeting = (name?: string): ChatMessage => ({
+  id: 'greeting',
+  type: 'assistant',
+  content: `Hello ${name || 'there'}! I'm your AI Library Assistant. I can help you with:
 
 • Checking when your books are due
-• Finding book recommendations
-• Library policies and hours
+• Finding books in our catalog and recommendations
+• Library policies, renewals, holds and fines
 • Finding free or paid e-book downloads
 • Book availability and reservations
+• Renewing loans, requesting books and extensions for you
 
 How can I assist you today?`,
-      timestamp: new Date(),
-    }
-  ]);
+  timestamp: new Date(),
+});
+
+export function AIChatAssistant() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [requestedBookIds, setRequestedBookIds] = useState<Set<string>>(new Set());
+  const [actionStates, setActionStates] = useState<Record<string, ActionState>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState("");
+  const [animatedText, setAnimatedText] = useState("");
+  // Reply text received so far while the assistant is answering
+  const [streamingText, setStreamingText] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped when another conversation is opened, so a reply still arriving for the old one is dropped
+  const conversationRef = useRef(0);
+  const [messages, setMessages] = useState<ChatMessage[]>([greeting(user?.fullName)]);
+  // The open conversation; null until the first message of a new one is answered
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionTitle, setSessionTitle] = useState<string | null>(null);
+  const [showConversations, setShowConversations] = useState(false);
   const [inputMessage, setInputMessage] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -106,7 +172,7 @@ How can I assist you today?`,
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingText]);
 
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
@@ -126,31 +192,71 @@ How can I assist you today?`,
     setIsLoading(true);
     setLoadingMessage(isBookSearchQuery ? "Finding your book..." : "Thinking...");
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Text of the reply so far; reset when the assistant calls a tool, as the server drops it too
+    let raw = "";
+    const conversation = conversationRef.current;
+    const addReply = (data: any) => {
+      if (conversationRef.current !== conversation) return;
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        content: data.response,
+        timestamp: new Date(),
+        bookLinks: data.bookLinks,
+        books: data.books,
+        pendingAction: data.pendingAction,
+      }]);
+    };
+
     try {
-      const response = await fetch('/api/ai-chat', {
+      const response = await fetch('/api/ai-chat/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ message: inputMessage }),
+        body: JSON.stringify({ message: inputMessage, sessionId }),
+        signal: controller.signal,
       });
 
+      // Errors before the stream starts, e.g. over the daily AI quota, come as JSON with a reply to show
       if (!response.ok) {
-        throw new Error('Failed to get response');
+        const data = await response.json().catch(() => ({}));
+        if (!data.response) throw new Error('Failed to get response');
+        addReply(data);
+        return;
       }
 
-      const data = await response.json();
-      
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: data.response,
-        timestamp: new Date(),
-        bookLinks: data.bookLinks,
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+      let finished = false;
+      await readEventStream(response, (event, data) => {
+        if (event === 'token') {
+          raw += data.text;
+          setStreamingText(raw);
+        } else if (event === 'session') {
+          if (conversationRef.current !== conversation) return;
+          setSessionId(data.sessionId);
+          setSessionTitle(data.title);
+          queryClient.invalidateQueries({ queryKey: ["/api/ai-chat/sessions"] });
+        } else if (event === 'tool') {
+          raw = "";
+          setStreamingText("");
+          setLoadingMessage(TOOL_LABELS[data.name] || "Working on it...");
+        } else if (event === 'done' || event === 'error') {
+          finished = true;
+          addReply(data);
+          if (data.title && conversationRef.current === conversation) {
+            setSessionTitle(data.title);
+            queryClient.invalidateQueries({ queryKey: ["/api/ai-chat/sessions"] });
+          }
+        }
+      });
+      if (!finished) throw new Error('The reply ended early');
     } catch (error) {
+      if (controller.signal.aborted) {
+        addReply({ response: toDisplayText(raw).trim() + STOPPED_MARKER });
+        return;
+      }
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
@@ -159,12 +265,19 @@ How can I assist you today?`,
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      abortRef.current = null;
+      setStreamingText("");
       setIsLoading(false);
       setLoadingMessage("");
       setAnimatedText("");
     }
   };
 
+  // The server stops the model when the connection closes and keeps what was written so far
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -172,19 +285,190 @@ How can I assist you today?`,
     }
   };
 
-  const handleCloseChat = async () => {
+  // Conversations are kept, so closing the chat only stops a reply in progress
+  const handleCloseChat = () => {
+    handleStop();
+    setIsOpen(false);
+  };
+
+  const startNewConversation = () => {
+    handleStop();
+    conversationRef.current++;
+    setSessionId(null);
+    setSessionTitle(null);
+    setMessages([greeting(user?.fullName)]);
+    setShowConversations(false);
+  };
+
+  const openConversation = async (id: string) => {
+    handleStop();
     try {
-      // Clear chat history on server when closing
-      await fetch('/api/ai-chat/history', {
-        method: 'DELETE',
+      const res = await apiRequest("GET", `/api/ai-chat/sessions/${id}`);
+      const session: ChatSession = await res.json();
+      conversationRef.current++;
+      setSessionId(session.id);
+      setSessionTitle(session.title);
+      setMessages(session.messages.map((message, index) => ({
+        id: `${session.id}-${index}`,
+        type: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+      })));
+      setShowConversations(false);
+    } catch (error) {
+      toast({
+        title: "Failed to open conversation",
+        description: error instanceof Error ? error.message : "Please try again in a moment.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async (bookId: string) => {
+      const res = await apiRequest("POST", "/api/book-requests", { bookId });
+      return await res.json();
+    },
+    onSuccess: (_, bookId) => {
+      setRequestedBookIds(prev => new Set(prev).add(bookId));
+      queryClient.invalidateQueries({ queryKey: ["/api/book-requests/my"] });
+      toast({
+        title: "Book request submitted",
+        description: "Your request has been sent to the librarian for approval",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to request book",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
+
+  // Confirm or cancel a proposed account change; the server replies with a message to show either way
+  const resolveAction = async (action: ChatPendingAction, decision: 'confirm' | 'cancel') => {
+    setActionStates(prev => ({ ...prev, [action.id]: 'working' }));
+    try {
+      const response = await fetch(`/api/ai-chat/actions/${action.id}/${decision}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (decision === 'cancel') {
+        setActionStates(prev => ({ ...prev, [action.id]: 'cancelled' }));
+        return;
+      }
+
+      setActionStates(prev => ({ ...prev, [action.id]: 'confirmed' }));
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'assistant',
+        content: data.response || data.message,
+        timestamp: new Date(),
+        books: data.books,
+      }]);
+      if (response.ok) {
+        ["/api/transactions/my", "/api/book-requests/my", "/api/extension-requests/my", "/api/notifications"].forEach(key =>
+          queryClient.invalidateQueries({ queryKey: [key] })
+        );
+      }
     } catch (error) {
-      console.log('Failed to clear chat history:', error);
-    } finally {
-      setIsOpen(false);
+      setActionStates(prev => {
+        const { [action.id]: _, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Something went wrong",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
     }
   };
 
+  const renderPendingAction = (action?: ChatPendingAction) => {
+    if (!action) return null;
+    const state = actionStates[action.id];
+
+    return (
+      <div className="mt-3 p-2 sm:p-3 border rounded-md bg-card/50 space-y-2" data-testid={`chat-action-${action.id}`}>
+        <div className="flex items-start gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+          <p className="text-xs sm:text-sm font-medium break-words">{action.summary}</p>
+        </div>
+        {state === 'confirmed' || state === 'cancelled' ? (
+          <p className="text-xs text-muted-foreground">{state === 'confirmed' ? 'Confirmed' : 'Cancelled'}</p>
+        ) : (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="h-7 px-3 text-xs"
+              onClick={() => resolveAction(action, 'confirm')}
+              disabled={state === 'working'}
+              data-testid={`chat-action-confirm-${action.id}`}
+            >
+              {state === 'working' ? 'Working...' : 'Confirm'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-3 text-xs"
+              onClick={() => resolveAction(action, 'cancel')}
+              disabled={state === 'working'}
+              data-testid={`chat-action-cancel-${action.id}`}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderCatalogBooks = (books?: Book[]) => {
+    if (!books || books.length === 0) return null;
+
+    return (
+      <div className="mt-3 space-y-2">
+        <p className="text-xs sm:text-sm font-semibold text-foreground mb-2">In Our Library:</p>
+        {books.map((book) => {
+          const requested = requestedBookIds.has(book.id);
+          const isRequesting = requestMutation.isPending && requestMutation.variables === book.id;
+          return (
+            <div key={book.id} className="flex items-center gap-2 sm:gap-3 p-2 sm:p-3 border rounded-md bg-card/50 hover:bg-accent/30 transition-colors overflow-hidden">
+              <BookDetailModal
+                book={book}
+                onRequestBook={(bookId) => requestMutation.mutate(bookId)}
+                isRequesting={isRequesting}
+              >
+                <button className="flex-1 min-w-0 space-y-1 text-left" data-testid={`chat-book-${book.id}`}>
+                  <p className="text-xs sm:text-sm font-medium break-words leading-tight line-clamp-2">{book.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">{book.author}</p>
+                  <Badge variant={book.availableCopies > 0 ? "secondary" : "outline"} className="text-xs px-1.5 py-0">
+                    {book.availableCopies > 0 ? `${book.availableCopies} available` : "On loan"}
+                  </Badge>
+                </button>
+              </BookDetailModal>
+              <Button
+                size="sm"
+                variant={requested ? "ghost" : "outline"}
+                className="h-7 px-2 text-xs flex-shrink-0"
+                onClick={() => requestMutation.mutate(book.id)}
+                disabled={requested || isRequesting || book.availableCopies === 0}
+                data-testid={`chat-request-book-${book.id}`}
+              >
+                {requested ? (
+                  <>
+                    <Check className="h-3 w-3 mr-1" />
+                    Requested
+                  </>
+                ) : isRequesting ? "Requesting..." : "Request"}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   const renderBookLinks = (bookLinks?: BookLink[]) => {
     if (!bookLinks || bookLinks.length === 0) return null;
 
@@ -267,23 +551,62 @@ How can I assist you today?`,
             <Card className="h-full flex flex-col shadow-2xl sm:border-2 border-0 sm:rounded-lg rounded-none bg-background">
             <CardHeader className="pb-3 bg-primary text-primary-foreground sm:rounded-t-lg rounded-none px-4 py-3">
               <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <BookOpen className="h-5 w-5" />
-                  <CardTitle className="text-sm font-semibold">AI Library Assistant</CardTitle>
+                <div className="flex items-center gap-2 min-w-0">
+                  <BookOpen className="h-5 w-5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <CardTitle className="text-sm font-semibold">AI Library Assistant</CardTitle>
+                    {sessionTitle && (
+                      <p className="text-xs text-primary-foreground/80 truncate" data-testid="chat-session-title">{sessionTitle}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={startNewConversation}
+                    className="h-6 w-6 p-0 hover:bg-primary-foreground/20 text-primary-foreground"
+                    title="New conversation"
+                    data-testid="chat-new-button"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowConversations(show => !show)}
+                    className={cn(
+                      "h-6 w-6 p-0 hover:bg-primary-foreground/20 text-primary-foreground",
+                      showConversations && "bg-primary-foreground/20"
+                    )}
+                    title="Conversations"
+                    data-testid="chat-history-button"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleCloseChat}
+                    className="h-6 w-6 p-0 hover:bg-primary-foreground/20 text-primary-foreground"
+                    data-testid="chat-close-button"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
                 </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={handleCloseChat}
-                  className="h-6 w-6 p-0 hover:bg-primary-foreground/20 text-primary-foreground"
-                  data-testid="chat-close-button"
-                >
-                  <X className="h-4 w-4" />
-                </Button>
               </div>
             </CardHeader>
             
             <CardContent className="flex-1 flex flex-col p-0 min-h-0 overflow-hidden">
+              {showConversations ? (
+                <ChatConversationList
+                  activeId={sessionId}
+                  onSelect={openConversation}
+                  onNew={startNewConversation}
+                  onDeleted={(id) => id === sessionId && startNewConversation()}
+                />
+              ) : (
+              <>
               <ScrollArea className="flex-1 p-4 sm:p-6">
                 <div className="space-y-4 sm:space-y-6">
                   {messages.map((message) => (
@@ -310,6 +633,8 @@ How can I assist you today?`,
                         <div className="overflow-hidden">
                           <p className="whitespace-pre-wrap break-words hyphens-auto mb-0">{message.content}</p>
                         </div>
+                        {renderPendingAction(message.pendingAction)}
+                        {renderCatalogBooks(message.books)}
                         {renderBookLinks(message.bookLinks)}
                       </div>
                       {message.type === 'user' && (
@@ -319,7 +644,22 @@ How can I assist you today?`,
                       )}
                     </div>
                   ))}
-                  {isLoading && (
+                  {isLoading && streamingText && (
+                    <div className="flex gap-2 sm:gap-3 justify-start" data-testid="chat-streaming-message">
+                      <div className="h-7 w-7 sm:h-8 sm:w-8 flex-shrink-0 bg-primary/10 rounded-lg flex items-center justify-center">
+                        <Bot className="h-4 w-4 text-primary" />
+                      </div>
+                      <div className="max-w-[85%] sm:max-w-[90%] rounded-lg p-3 sm:p-4 text-sm leading-relaxed shadow-sm bg-muted/50 border border-border/50 rounded-bl-sm">
+                        <div className="overflow-hidden">
+                          <p className="whitespace-pre-wrap break-words hyphens-auto mb-0">
+                            {toDisplayText(streamingText)}
+                            <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-muted-foreground/60 animate-pulse" />
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  {isLoading && !streamingText && (
                     <div className="flex gap-2 sm:gap-3 justify-start">
                       <div className="h-7 w-7 sm:h-8 sm:w-8 flex-shrink-0 bg-primary/10 rounded-lg flex items-center justify-center">
                         <Bot className="h-4 w-4 text-primary" />
@@ -351,17 +691,32 @@ How can I assist you today?`,
                     className="text-sm flex-1 min-h-[2.5rem] resize-none"
                     data-testid="chat-input"
                   />
-                  <Button
-                    size="sm"
-                    onClick={handleSendMessage}
-                    disabled={isLoading || !inputMessage.trim()}
-                    className="shrink-0 h-10 w-10 p-0"
-                    data-testid="chat-send-button"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  {isLoading ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleStop}
+                      className="shrink-0 h-10 w-10 p-0"
+                      title="Stop"
+                      data-testid="chat-stop-button"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={handleSendMessage}
+                      disabled={!inputMessage.trim()}
+                      className="shrink-0 h-10 w-10 p-0"
+                      data-testid="chat-send-button"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
+              </>
+              )}
             </CardContent>
             </Card>
             </div>
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Play, RotateCcw, Square } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AIContentJob, AIContentJobDetail, AIContentJobStatus, CatalogSearchResult } from "@shared/schema";
+
+const ALL_CATEGORIES = "all";
+// How often progress is refreshed while a job is queued or running
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_VARIANTS: Record<AIContentJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  QUEUED: "secondary",
+  RUNNING: "default",
+  COMPLETED: "outline",
+  CANCELLED: "destructive",
+};
+
+function isActive(job: AIContentJob): boolean {
+  return job.status === AIContentJobStatus.QUEUED || job.status === AIContentJobStatus.RUNNING;
+}
+
+function JobFailures({ jobId }: { jobId: string }) {
+  const { data: detail } = useQuery<AIContentJobDetail>({
+    queryKey: ["/api/ai/content-jobs", jobId],
+  });
+
+  if (!detail) return null;
+  return (
+    <ul className="text-xs space-y-1 max-h-48 overflow-y-auto" data-testid={`job-failures-${jobId}`}>
+      {detail.failures.map(item => (
+        <li key={item.id} className="rounded border p-2">
+          <span className="font-medium">{item.bookTitle}</span>
+          <span className="text-muted-foreground"> · {item.attempts} {item.attempts === 1 ? "attempt" : "attempts"}</span>
+          <p className="text-destructive break-words">{item.error}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function JobRow({ job }: { job: AIContentJob }) {
+  const { toast } = useToast();
+  const [showFailures, setShowFailures] = useState(false);
+  const done = job.succeeded + job.failed;
+  const percent = job.total > 0 ? Math.round((done / job.total) * 100) : 0;
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "cancel" | "retry") => {
+      const res = await apiRequest("POST", `/api/ai/content-jobs/${job.id}/${action}`, {});
+      return await res.json();
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/content-jobs"] });
+      toast({ title: action === "cancel" ? "Job cancelled" : "Job queued again" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Job update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="rounded-md border p-3 space-y-2" data-testid={`content-job-${job.id}`}>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{job.category || "All categories"}</span>
+        {job.onlyMissing && <span className="text-xs text-muted-foreground">books without content</span>}
+        <Badge variant={STATUS_VARIANTS[job.status]}>{job.status.toLowerCase()}</Badge>
+        <span className="text-xs text-muted-foreground ml-auto">{new Date(job.createdAt).toLocaleString()}</span>
+      </div>
+      <Progress value={percent} />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span data-testid={`job-progress-${job.id}`}>
+          {done} of {job.total} books · {job.succeeded} generated · {job.failed} failed
+        </span>
+        <div className="ml-auto flex gap-1">
+          {job.failed > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowFailures(!showFailures)} data-testid={`button-job-failures-${job.id}`}>
+              {showFailures ? "Hide failures" : "Show failures"}
+            </Button>
+          )}
+          {isActive(job) ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => actionMutation.mutate("cancel")}
+              disabled={actionMutation.isPending}
+              data-testid={`button-cancel-job-${job.id}`}
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          ) : done < job.total || job.failed > 0 ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => actionMutation.mutate("retry")}
+              disabled={actionMutation.isPending}
+              data-testid={`button-retry-job-${job.id}`}
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry unfinished
+            </Button>
+          ) : null}
+        </div>
+      </div>
+      {showFailures && <JobFailures jobId={job.id} />}
+    </div>
+  );
+}
+
+/**
+ * Start batch generation for the catalog or one category, and follow the progress of earlier jobs
+ */
+export function AIContentJobs() {
+  const { toast } = useToast();
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [onlyMissing, setOnlyMissing] = useState(true);
+
+  const { data: jobs = [] } = useQuery<AIContentJob[]>({
+    queryKey: ["/api/ai/content-jobs"],
+    refetchInterval: (query) => (query.state.data?.some(isActive) ? POLL_INTERVAL_MS : false),
+  });
+  // Category facets of the whole catalog
+  const { data: catalog } = useQuery<CatalogSearchResult>({
+    queryKey: ["/api/books/search", { pageSize: 1 }],
+  });
+
+  const hasActiveJob = jobs.some(isActive);
+  // New drafts show up in the review queue as a job makes progress
+  const generated = jobs.reduce((sum, job) => sum + job.succeeded, 0);
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ai/content-review"] });
+  }, [generated]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/ai/content-jobs", {
+        category: category === ALL_CATEGORIES ? undefined : category,
+        onlyMissing,
+      });
+      return await res.json() as AIContentJob;
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/content-jobs"] });
+      toast({
+        title: "Generation queued",
+        description: `${job.total} ${job.total === 1 ? "book" : "books"} will be generated in the background`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start generation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Batch generation
+        </CardTitle>
+        <CardDescription>
+          Generate content for many books in the background. Jobs carry on after a server restart.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-48" data-testid="select-job-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {catalog?.facets.category.map(({ value, count }) => (
+                  <SelectItem key={value} value={value}>{value} ({count})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="only-missing" checked={onlyMissing} onCheckedChange={setOnlyMissing} data-testid="switch-only-missing" />
+            <Label htmlFor="only-missing">Only books without content</Label>
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            className="ml-auto"
+            data-testid="button-start-job"
+          >
+            <Play className="h-4 w-4 mr-1" />
+            {hasActiveJob ? "Queue generation" : "Start generation"}
+          </Button>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="space-y-2">
+            {jobs.slice(0, 5).map(job => <JobRow key={job.id} job={job} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
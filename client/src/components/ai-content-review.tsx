@@ -0,0 +1,426 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Check, ClipboardCheck, History, Pencil, RotateCcw, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { contentToText, diffWords, textToContent } from "@/lib/text-diff";
+import { AIContentJobs } from "@/components/ai-content-jobs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  AIContentField,
+  AIContentReviewDetail,
+  AIContentReviewItem,
+  AIContentStatus,
+  BookAIContent,
+  BookAIContentVersion,
+  Role
+} from "@shared/schema";
+
+const FIELD_LABELS: Record<AIContentField, string> = {
+  summary: "Summary",
+  studyGuide: "Study guide",
+  quotes: "Key quotes",
+  comprehensionQA: "Comprehension Q&A",
+};
+
+const STATUS_VARIANTS: Record<AIContentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  DRAFT: "secondary",
+  PUBLISHED: "default",
+  REJECTED: "destructive",
+  SUPERSEDED: "outline",
+};
+
+function invalidateReview(bookId: string) {
+  queryClient.invalidateQueries({ queryKey: ["/api/ai/content-review"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/ai/content", bookId] });
+}
+
+function publishedText(published: BookAIContent | null, field: AIContentField): string {
+  return contentToText(field, published?.[field] ?? null);
+}
+
+function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <div className="text-sm whitespace-pre-wrap rounded-md border bg-muted/30 p-3 max-h-72 overflow-y-auto" data-testid="content-diff">
+      {diffWords(before, after).map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === "added" && "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100",
+            segment.type === "removed" && "bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100"
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function DraftCard({ draft, published }: { draft: BookAIContentVersion; published: BookAIContent | null }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState("");
+  const draftText = contentToText(draft.field, draft.value);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: "approve" | "reject") => {
+      const res = await apiRequest("POST", `/api/ai/content-review/versions/${draft.id}/${action}`, { note: note.trim() || undefined });
+      return await res.json();
+    },
+    onSuccess: (_, action) => {
+      invalidateReview(draft.bookId);
+      toast({
+        title: action === "approve" ? "Published" : "Draft rejected",
+        description: `${FIELD_LABELS[draft.field]} ${action === "approve" ? "is now visible to students" : "was discarded"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async (publish: boolean) => {
+      const res = await apiRequest("PUT", `/api/ai/content-review/versions/${draft.id}`, {
+        value: textToContent(draft.field, editText),
+        publish,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (_, publish) => {
+      setEditing(false);
+      invalidateReview(draft.bookId);
+      toast({
+        title: publish ? "Edited and published" : "Draft updated",
+        description: `${FIELD_LABELS[draft.field]} was saved as a new version`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save edit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const busy = reviewMutation.isPending || editMutation.isPending;
+
+  return (
+    <Card data-testid={`draft-${draft.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">{FIELD_LABELS[draft.field]}</CardTitle>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline">v{draft.version}</Badge>
+            <span>{draft.source.toLowerCase()} {new Date(draft.createdAt).toLocaleString()}</span>
+          </div>
+        </div>
+        <CardDescription>
+          {published?.[draft.field] ? "Changes against the published version" : "Nothing published yet for this field"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editing ? (
+          <>
+            <Textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              rows={10}
+              className="font-mono text-sm"
+              data-testid={`textarea-edit-${draft.id}`}
+            />
+            {draft.field === "quotes" && (
+              <p className="text-xs text-muted-foreground">One quote per line.</p>
+            )}
+            {draft.field === "comprehensionQA" && (
+              <p className="text-xs text-muted-foreground">Each pair as "Q: ..." and "A: ...", separated by a blank line.</p>
+            )}
+          </>
+        ) : (
+          <TextDiff before={publishedText(published, draft.field)} after={draftText} />
+        )}
+
+        <Input
+          placeholder="Review note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          data-testid={`input-note-${draft.id}`}
+        />
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {editing ? (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => editMutation.mutate(false)} disabled={busy} data-testid={`button-save-draft-${draft.id}`}>
+                Save draft
+              </Button>
+              <Button size="sm" onClick={() => editMutation.mutate(true)} disabled={busy} data-testid={`button-save-publish-${draft.id}`}>
+                <Check className="h-4 w-4 mr-1" />
+                Save & publish
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => reviewMutation.mutate("reject")}
+                disabled={busy}
+                data-testid={`button-reject-${draft.id}`}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditText(draftText);
+                  setEditing(true);
+                }}
+                disabled={busy}
+                data-testid={`button-edit-${draft.id}`}
+              >
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <Button size="sm" onClick={() => reviewMutation.mutate("approve")} disabled={busy} data-testid={`button-approve-${draft.id}`}>
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function VersionHistory({ detail }: { detail: AIContentReviewDetail }) {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<BookAIContentVersion | null>(null);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/ai/content-review/versions/${id}/rollback`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateReview(detail.book.id);
+      toast({ title: "Version restored", description: "The earlier version is published again" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Each version is compared with the one before it of the same field
+  const previousOf = (version: BookAIContentVersion) =>
+    detail.history.find(other => other.field === version.field && other.version < version.version);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Version history
+        </CardTitle>
+        <CardDescription>Every generated, edited and restored version of this book's content</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {detail.history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions yet.</p>
+        ) : detail.history.map(version => {
+          const previous = previousOf(version);
+          // Superseded versions with a review were published before; drafts replaced unreviewed were not
+          const canRestore = version.status === AIContentStatus.SUPERSEDED && !!version.reviewedAt;
+          return (
+            <div key={version.id} className="rounded-md border p-3 space-y-2" data-testid={`version-${version.id}`}>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{FIELD_LABELS[version.field]}</span>
+                <Badge variant="outline">v{version.version}</Badge>
+                <Badge variant={STATUS_VARIANTS[version.status]}>{version.status.toLowerCase()}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {version.source.toLowerCase()} {new Date(version.createdAt).toLocaleString()}
+                </span>
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === version.id ? null : version.id)}
+                    data-testid={`button-diff-${version.id}`}
+                  >
+                    {expandedId === version.id ? "Hide" : previous ? `Diff with v${previous.version}` : "Show"}
+                  </Button>
+                  {canRestore && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRestoring(version)}
+                      disabled={rollbackMutation.isPending}
+                      data-testid={`button-rollback-${version.id}`}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {version.reviewNote && (
+                <p className="text-xs text-muted-foreground">Note: {version.reviewNote}</p>
+              )}
+              {expandedId === version.id && (
+                <TextDiff
+                  before={previous ? contentToText(previous.field, previous.value) : ""}
+                  after={contentToText(version.field, version.value)}
+                />
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <AlertDialog open={!!restoring} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent data-testid="dialog-rollback-version">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Version {restoring?.version} of the {restoring && FIELD_LABELS[restoring.field].toLowerCase()} will be published again
+              and replace what students currently see.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoring && rollbackMutation.mutate(restoring.id)}
+              data-testid="button-confirm-rollback"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+function ReviewDetail({ bookId }: { bookId: string }) {
+  const { data: detail, isLoading } = useQuery<AIContentReviewDetail>({
+    queryKey: ["/api/ai/content-review", bookId],
+  });
+
+  if (isLoading || !detail) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold" data-testid="review-book-title">{detail.book.title}</h2>
+        <p className="text-sm text-muted-foreground">by {detail.book.author}</p>
+      </div>
+      {detail.drafts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No drafts waiting for review.</p>
+      ) : detail.drafts.map(draft => (
+        <DraftCard key={draft.id} draft={draft} published={detail.published} />
+      ))}
+      <VersionHistory detail={detail} />
+    </div>
+  );
+}
+
+/**
+ * Librarians' queue of generated book content waiting for review. Drafts are approved, edited or rejected
+ * field by field, and earlier published versions can be restored from the history.
+ */
+export function AIContentReview() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
+
+  const { data: queue = [], isLoading } = useQuery<AIContentReviewItem[]>({
+    queryKey: ["/api/ai/content-review"],
+  });
+
+  // Keep showing a book after its last draft is reviewed, so its history stays in view
+  const activeBookId = selectedBookId ?? queue[0]?.book.id ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          onClick={() => setLocation(user?.role === Role.ADMIN ? "/admin" : "/librarian")}
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-2"
+          data-testid="button-back"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3" data-testid="title-content-review">
+            <ClipboardCheck className="h-8 w-8 text-primary" />
+            AI Content Review
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Generated summaries, study guides, quotes and questions reach students only after review
+          </p>
+        </div>
+      </div>
+
+      <AIContentJobs />
+
+      <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Waiting for review</CardTitle>
+            <CardDescription>{queue.length} {queue.length === 1 ? "book" : "books"}, longest waiting first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : queue.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The queue is empty.</p>
+            ) : queue.map(item => (
+              <button
+                key={item.book.id}
+                onClick={() => setSelectedBookId(item.book.id)}
+                className={cn(
+                  "w-full text-left rounded-md p-2 hover:bg-accent/40 transition-colors",
+                  item.book.id === activeBookId && "bg-accent/60"
+                )}
+                data-testid={`queue-item-${item.book.id}`}
+              >
+                <p className="text-sm font-medium truncate">{item.book.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {item.drafts.map(draft => FIELD_LABELS[draft.field]).join(", ")}
+                </p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {activeBookId ? (
+          <ReviewDetail bookId={activeBookId} />
+        ) : !isLoading && (
+          <p className="text-sm text-muted-foreground">Generate content for a book to start a review.</p>
+        )}
+      </div>
+    </div>
+  );
+}
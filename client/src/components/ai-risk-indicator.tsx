@@ -12,11 +12,13 @@ import {
   TrendingUp, 
   Clock,
   User,
-  Info
+  Info,
+  ArrowUp,
+  ArrowDown
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
-import { AIPrediction, Role } from "@shared/schema";
+import { AIPrediction, OverdueRiskContribution, OverdueRiskPrediction, Role } from "@shared/schema";
 
 interface AIRiskIndicatorProps {
   userId: string;
@@ -35,8 +37,11 @@ interface RiskLevel {
   label: string;
 }
 
-const getRiskLevel = (confidence: number): RiskLevel => {
-  if (confidence >= 0.7) {
+// How many of a prediction's largest contributions are listed
+const TOP_FACTORS = 3;
+
+const getRiskLevel = (riskScore: number): RiskLevel => {
+  if (riskScore >= 0.7) {
     return {
       level: 'high',
       color: 'text-red-600',
@@ -44,7 +49,7 @@ const getRiskLevel = (confidence: number): RiskLevel => {
       icon: AlertTriangle,
       label: 'High Risk'
     };
-  } else if (confidence >= 0.4) {
+  } else if (riskScore >= 0.4) {
     return {
       level: 'medium',
       color: 'text-amber-600',
@@ -63,6 +68,18 @@ const getRiskLevel = (confidence: number): RiskLevel => {
   }
 };
 
+// One feature's effect on the prediction, with an arrow for whether it raises or lowers the risk
+function RiskFactor({ factor }: { factor: OverdueRiskContribution }) {
+  const raises = factor.contribution > 0;
+  const Arrow = raises ? ArrowUp : ArrowDown;
+  return (
+    <li className="flex items-center gap-1 text-xs" title={`${factor.label}: ${raises ? "+" : ""}${factor.contribution.toFixed(2)} log-odds`}>
+      <Arrow className={cn("h-3 w-3 flex-shrink-0", raises ? "text-red-600" : "text-green-600")} />
+      <span>{factor.description}</span>
+    </li>
+  );
+}
+
 export function AIRiskIndicator({ 
   userId, 
   userName, 
@@ -114,7 +131,10 @@ export function AIRiskIndicator({
     );
   }
 
-  const risk = getRiskLevel(latestPrediction.confidence);
+  const details = (latestPrediction.prediction || {}) as Partial<OverdueRiskPrediction>;
+  const riskScore = details.riskScore ?? latestPrediction.confidence;
+  const topFactors = (details.contributions || []).slice(0, TOP_FACTORS);
+  const risk = getRiskLevel(riskScore);
   const IconComponent = risk.icon;
 
   if (compact) {
@@ -143,9 +163,13 @@ export function AIRiskIndicator({
               </div>
               <div className="text-sm">
                 <div className="mb-1">
-                  <strong>{userName}</strong> - {(latestPrediction.confidence * 100).toFixed(0)}% risk
+                  <strong>{userName}</strong> - {(riskScore * 100).toFixed(0)}% risk
                 </div>
-                {latestPrediction.reasoning && (
+                {topFactors.length > 0 ? (
+                  <ul className="space-y-0.5">
+                    {topFactors.map(factor => <RiskFactor key={factor.feature} factor={factor} />)}
+                  </ul>
+                ) : latestPrediction.reasoning && (
                   <div className="text-muted-foreground">{latestPrediction.reasoning}</div>
                 )}
               </div>
@@ -177,12 +201,12 @@ export function AIRiskIndicator({
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Overdue Probability:</span>
             <span className={cn("font-medium", risk.color)}>
-              {(latestPrediction.confidence * 100).toFixed(0)}%
+              {(riskScore * 100).toFixed(0)}%
             </span>
           </div>
           
           <Progress 
-            value={latestPrediction.confidence * 100} 
+            value={riskScore * 100} 
             className={cn(
               "h-2",
               risk.level === 'high' ? 'bg-red-100' : 
@@ -190,6 +214,15 @@ export function AIRiskIndicator({
             )}
           />
 
+          {topFactors.length > 0 && (
+            <div className="mt-2" data-testid={`ai-risk-factors-${userId}`}>
+              <span className="text-xs text-muted-foreground">Top factors:</span>
+              <ul className="mt-1 space-y-0.5">
+                {topFactors.map(factor => <RiskFactor key={factor.feature} factor={factor} />)}
+              </ul>
+            </div>
+          )}
+
           {showDetails && latestPrediction.reasoning && (
             <div className="mt-2">
               <div className="flex items-center gap-1 mb-1">
@@ -0,0 +1,433 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertTriangle, ArrowLeft, Clock, Coins, Gauge, RefreshCw, Trash2, Zap } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AIQuota, AIUsageSummary, InsertAIQuota, Role } from "@shared/schema";
+
+type QuotaLimits = Pick<AIQuota, "dailyRequests" | "dailyTokens">;
+
+interface QuotasResponse {
+  defaults: Record<Role, QuotaLimits>;
+  quotas: AIQuota[];
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const FEATURE_LABELS: Record<string, string> = {
+  chat: "Chat assistant",
+  content: "Book content",
+  insights: "Analytics & predictions",
+};
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? "< $0.01" : `$${usd.toFixed(2)}`;
+}
+
+function formatLimit(limits: QuotaLimits): string {
+  const requests = limits.dailyRequests == null ? "unlimited requests" : `${limits.dailyRequests} requests`;
+  const tokens = limits.dailyTokens == null ? "unlimited tokens" : `${formatTokens(limits.dailyTokens)} tokens`;
+  return `${requests} · ${tokens} per day`;
+}
+
+function AIQuotasCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ role: Role.STUDENT, dailyRequests: "", dailyTokens: "" });
+
+  const { data, isLoading } = useQuery<QuotasResponse>({
+    queryKey: ["/api/admin/ai-quotas"],
+  });
+  const quotas = data?.quotas ?? [];
+
+  const saveQuotaMutation = useMutation({
+    mutationFn: async (quota: InsertAIQuota) => {
+      const res = await apiRequest("PUT", "/api/admin/ai-quotas", quota);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-quotas"] });
+      setForm({ role: Role.STUDENT, dailyRequests: "", dailyTokens: "" });
+      toast({
+        title: "Quota saved",
+        description: "The new limits apply to today's usage straight away",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save quota",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteQuotaMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/ai-quotas/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-quotas"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete quota",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Blank fields mean no limit
+  const handleSave = () => {
+    saveQuotaMutation.mutate({
+      role: form.role,
+      dailyRequests: form.dailyRequests.trim() ? parseInt(form.dailyRequests, 10) : null,
+      dailyTokens: form.dailyTokens.trim() ? parseInt(form.dailyTokens, 10) : null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-ai-quotas">
+          <Gauge className="h-5 w-5" />
+          Daily Quotas
+        </CardTitle>
+        <CardDescription>
+          Per-user limits on AI requests and tokens, by role. Usage resets at midnight.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground">Loading quotas...</p>
+        ) : (
+          <div className="space-y-2">
+            {Object.values(Role).map((role) => {
+              const quota = quotas.find((entry) => entry.role === role);
+              return (
+                <div key={role} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`row-quota-${role}`}>
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{role}</Badge>
+                      {!quota && <span className="text-xs text-muted-foreground">Default</span>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{formatLimit(quota ?? data.defaults[role])}</p>
+                  </div>
+                  {quota && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteQuotaMutation.mutate(quota.id)}
+                      disabled={deleteQuotaMutation.isPending}
+                      data-testid={`button-delete-quota-${role}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t pt-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Role</Label>
+            <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as Role })}>
+              <SelectTrigger data-testid="select-quota-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(Role).map((role) => (
+                  <SelectItem key={role} value={role}>{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quota-requests" className="text-xs">Requests per day</Label>
+            <Input
+              id="quota-requests"
+              type="number"
+              min={0}
+              placeholder="Unlimited"
+              value={form.dailyRequests}
+              onChange={(e) => setForm({ ...form, dailyRequests: e.target.value })}
+              data-testid="input-quota-requests"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quota-tokens" className="text-xs">Tokens per day</Label>
+            <Input
+              id="quota-tokens"
+              type="number"
+              min={0}
+              placeholder="Unlimited"
+              value={form.dailyTokens}
+              onChange={(e) => setForm({ ...form, dailyTokens: e.target.value })}
+              data-testid="input-quota-tokens"
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saveQuotaMutation.isPending} data-testid="button-save-quota">
+          Save Quota
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AIUsageDashboard() {
+  const [, setLocation] = useLocation();
+  const [days, setDays] = useState(30);
+
+  const { data: summary, isLoading, error, refetch } = useQuery<AIUsageSummary>({
+    queryKey: ["/api/admin/ai-usage", { days }],
+  });
+
+  const statCards = summary ? [
+    { label: "Requests", value: summary.totals.requests.toLocaleString(), detail: `${summary.totals.failures} failed`, icon: Zap, testId: "stat-ai-requests" },
+    { label: "Tokens", value: formatTokens(summary.totals.inputTokens + summary.totals.outputTokens), detail: `${formatTokens(summary.totals.inputTokens)} in · ${formatTokens(summary.totals.outputTokens)} out`, icon: Gauge, testId: "stat-ai-tokens" },
+    { label: "Estimated cost", value: formatCost(summary.totals.estimatedCostUsd), detail: "At list prices", icon: Coins, testId: "stat-ai-cost" },
+    { label: "Average latency", value: `${(summary.totals.averageLatencyMs / 1000).toFixed(1)}s`, detail: "Per model call", icon: Clock, testId: "stat-ai-latency" },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            onClick={() => setLocation("/admin")}
+            variant="ghost"
+            size="sm"
+            className="flex items-center gap-2"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3" data-testid="title-ai-usage">
+              <Gauge className="h-8 w-8 text-primary" />
+              AI Usage & Costs
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Model calls, tokens and estimated spend across all AI features
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+            <SelectTrigger className="w-36" data-testid="select-usage-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => refetch()} variant="outline" size="sm" data-testid="button-refresh-usage">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Usage</AlertTitle>
+          <AlertDescription>
+            Failed to load AI usage data. Please try refreshing the page.
+          </AlertDescription>
+        </Alert>
+      ) : isLoading || !summary ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-4 w-20 mb-2" />
+                  <Skeleton className="h-8 w-16" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <Skeleton className="h-80 w-full" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {statCards.map(({ label, value, detail, icon: Icon, testId }) => (
+              <Card key={label}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                      <p className="text-2xl font-bold" data-testid={testId}>{value}</p>
+                      <p className="text-xs text-muted-foreground">{detail}</p>
+                    </div>
+                    <Icon className="h-8 w-8 text-primary" />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Trend</CardTitle>
+              <CardDescription>Tokens and requests per day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <AreaChart data={summary.daily.map((day) => ({ ...day, tokens: day.inputTokens + day.outputTokens }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} />
+                  <YAxis yAxisId="tokens" tickFormatter={formatTokens} />
+                  <YAxis yAxisId="requests" orientation="right" allowDecimals={false} />
+                  <Tooltip />
+                  <Area yAxisId="tokens" type="monotone" dataKey="tokens" name="Tokens" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.2} />
+                  <Area yAxisId="requests" type="monotone" dataKey="requests" name="Requests" stroke="#10b981" fill="#10b981" fillOpacity={0.1} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>By Feature</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feature</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.byFeature.map((row) => (
+                      <TableRow key={row.feature} data-testid={`row-usage-feature-${row.feature}`}>
+                        <TableCell>{FEATURE_LABELS[row.feature] ?? row.feature}</TableCell>
+                        <TableCell className="text-right">{row.requests}</TableCell>
+                        <TableCell className="text-right">{formatTokens(row.inputTokens + row.outputTokens)}</TableCell>
+                        <TableCell className="text-right">{formatCost(row.estimatedCostUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.byModel.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No model calls in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Latency</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.byModel.map((row) => (
+                        <TableRow key={`${row.provider}-${row.model}`}>
+                          <TableCell>
+                            <span className="font-medium">{row.model}</span>
+                            <span className="text-xs text-muted-foreground ml-2">{row.provider}</span>
+                          </TableCell>
+                          <TableCell className="text-right">{row.requests}</TableCell>
+                          <TableCell className="text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+                          <TableCell className="text-right">{formatCost(row.estimatedCostUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Consumers</CardTitle>
+                <CardDescription>Users with the most tokens in this period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {summary.topUsers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No usage by signed-in users in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.topUsers.map((row) => (
+                        <TableRow key={row.userId} data-testid={`row-top-user-${row.userId}`}>
+                          <TableCell>
+                            <span className="font-medium">{row.username || row.userId}</span>
+                            {row.role && <Badge variant="outline" className="ml-2">{row.role}</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">{row.requests}</TableCell>
+                          <TableCell className="text-right">{formatTokens(row.inputTokens + row.outputTokens)}</TableCell>
+                          <TableCell className="text-right">{formatCost(row.estimatedCostUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <AIQuotasCard />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
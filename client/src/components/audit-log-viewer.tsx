@@ -0,0 +1,202 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toQueryString } from "@/lib/queryClient";
+import { AuditEntityType, AuditLog } from "@shared/schema";
+import { ChevronDown, ChevronRight, Download, History } from "lucide-react";
+
+const ALL_ENTITIES = "ALL";
+
+const emptyFilters = {
+  actor: "",
+  action: "",
+  entityType: ALL_ENTITIES,
+  from: "",
+  to: "",
+};
+
+function formatSnapshot(snapshot: unknown) {
+  return snapshot === undefined || snapshot === null ? "—" : JSON.stringify(snapshot, null, 2);
+}
+
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = useMemo(() => ({
+    actor: filters.actor.trim(),
+    action: filters.action.trim().toUpperCase(),
+    entityType: filters.entityType === ALL_ENTITIES ? undefined : filters.entityType,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+  }), [filters]);
+
+  const { data: logs = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: ["/api/admin/audit-logs", params],
+  });
+
+  const queryString = toQueryString(params);
+  const exportUrl = `/api/admin/audit-logs/export${queryString ? `?${queryString}` : ""}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-audit-log">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Every state-changing action with who did it, when, from where and what changed. Newest first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor" className="text-xs">Actor</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Username"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              data-testid="input-audit-actor"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-action" className="text-xs">Action</Label>
+            <Input
+              id="audit-action"
+              placeholder="e.g. BOOK_DELETED"
+              value={filters.action}
+              onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+              data-testid="input-audit-action"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Entity</Label>
+            <Select value={filters.entityType} onValueChange={(entityType) => setFilters({ ...filters, entityType })}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ENTITIES}>All entities</SelectItem>
+                {Object.values(AuditEntityType).map((entityType) => (
+                  <SelectItem key={entityType} value={entityType}>{entityType}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setFilters(emptyFilters)} data-testid="button-audit-clear">
+            Clear Filters
+          </Button>
+          <Button variant="outline" size="sm" asChild data-testid="button-audit-export">
+            <a href={exportUrl} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading audit log...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No audit entries match these filters</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="w-8" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Entity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">IP</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {logs.map((log) => {
+                  const expanded = expandedId === log.id;
+                  return (
+                    <Fragment key={log.id}>
+                      <tr
+                        className="hover:bg-muted/50 cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : log.id)}
+                        data-testid={`row-audit-${log.id}`}
+                      >
+                        <td className="pl-3 text-muted-foreground">
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-foreground whitespace-nowrap">
+                          {new Date(log.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-foreground">{log.actorUsername || "Anonymous"}</div>
+                          {log.actorRole && <div className="text-xs text-muted-foreground">{log.actorRole}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-foreground">{log.action}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <Badge variant="outline">{log.entityType}</Badge>
+                          {log.entityId && <div className="text-xs text-muted-foreground font-mono mt-1">{log.entityId}</div>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge variant={log.statusCode >= 400 ? "destructive" : "secondary"}>{log.statusCode}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-muted-foreground font-mono">{log.ip || "—"}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-muted/30" data-testid={`row-audit-details-${log.id}`}>
+                          <td colSpan={7} className="px-4 py-3 space-y-2">
+                            {log.userAgent && <p className="text-xs text-muted-foreground">{log.userAgent}</p>}
+                            <div className="grid md:grid-cols-2 gap-3">
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">Before</p>
+                                <pre className="text-xs bg-background border rounded p-2 max-h-64 overflow-auto">{formatSnapshot(log.before)}</pre>
+                              </div>
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">After</p>
+                                <pre className="text-xs bg-background border rounded p-2 max-h-64 overflow-auto">{formatSnapshot(log.after)}</pre>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Item, ItemStatus, ItemCondition } from "@shared/schema";
+import { Barcode, Plus } from "lucide-react";
+
+interface BookCopiesPanelProps {
+  bookId: string;
+}
+
+const statusLabels: Record<ItemStatus, string> = {
+  AVAILABLE: "Available",
+  ON_LOAN: "On loan",
+  ON_HOLD: "On hold shelf",
+  LOST: "Lost",
+  WITHDRAWN: "Withdrawn",
+  IN_REPAIR: "In repair",
+};
+
+// Statuses a librarian may set by hand; loan and hold status come from circulation
+const editableStatuses = [ItemStatus.AVAILABLE, ItemStatus.IN_REPAIR, ItemStatus.LOST, ItemStatus.WITHDRAWN];
+
+export function BookCopiesPanel({ bookId }: BookCopiesPanelProps) {
+  const { toast } = useToast();
+  const [newBarcode, setNewBarcode] = useState("");
+  const [newShelfLocation, setNewShelfLocation] = useState("");
+
+  const { data: items = [], isLoading } = useQuery<Item[]>({
+    queryKey: [`/api/books/${bookId}/items`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/books/${bookId}/items`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/books/available"] });
+  };
+
+  const addCopyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/books/${bookId}/items`, {
+        barcode: newBarcode.trim() || undefined,
+        shelfLocation: newShelfLocation.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (item: Item) => {
+      invalidate();
+      setNewBarcode("");
+      toast({
+        title: "Copy added",
+        description: `Barcode ${item.barcode}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add copy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<Item, "status" | "condition">> }) => {
+      const res = await apiRequest("PUT", `/api/items/${id}`, updates);
+      return await res.json();
+    },
+    onSuccess: () => invalidate(),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update copy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 border-t pt-4" data-testid="panel-book-copies">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Barcode className="h-4 w-4" />
+        Copies ({items.length})
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading copies...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No copies recorded for this book</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {items.map((item) => {
+            const inCirculation = item.status === ItemStatus.ON_LOAN || item.status === ItemStatus.ON_HOLD;
+            return (
+              <div key={item.id} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg" data-testid={`row-item-${item.id}`}>
+                <div className="flex-1 min-w-[8rem]">
+                  <p className="font-mono text-sm" data-testid={`text-item-barcode-${item.id}`}>{item.barcode}</p>
+                  <p className="text-xs text-muted-foreground">{item.shelfLocation || "No shelf location"}</p>
+                </div>
+                {inCirculation ? (
+                  <Badge variant="secondary">{statusLabels[item.status]}</Badge>
+                ) : (
+                  <Select
+                    value={item.status}
+                    onValueChange={(status) => updateItemMutation.mutate({ id: item.id, updates: { status: status as ItemStatus } })}
+                  >
+                    <SelectTrigger className="w-36 h-8" data-testid={`select-item-status-${item.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {editableStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select
+                  value={item.condition}
+                  onValueChange={(condition) => updateItemMutation.mutate({ id: item.id, updates: { condition: condition as ItemCondition } })}
+                >
+                  <SelectTrigger className="w-28 h-8" data-testid={`select-item-condition-${item.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(ItemCondition).map((condition) => (
+                      <SelectItem key={condition} value={condition}>
+                        {condition.charAt(0) + condition.slice(1).toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="new-copy-barcode" className="text-xs">Barcode</Label>
+          <Input
+            id="new-copy-barcode"
+            placeholder="Auto-generate"
+            value={newBarcode}
+            onChange={(e) => setNewBarcode(e.target.value)}
+            data-testid="input-new-copy-barcode"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-copy-shelf" className="text-xs">Shelf location</Label>
+          <Input
+            id="new-copy-shelf"
+            placeholder="e.g. A3-12"
+            value={newShelfLocation}
+            onChange={(e) => setNewShelfLocation(e.target.value)}
+            data-testid="input-new-copy-shelf"
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => addCopyMutation.mutate()}
+          disabled={addCopyMutation.isPending}
+          data-testid="button-add-copy"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Copy
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, GraduationCap, RefreshCw, RotateCcw, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Book, QuizAnswerResult, QuizAttempt, QuizGrader, QuizOverview } from "@shared/schema";
+
+interface BookQuizProps {
+  book: Book;
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * One graded answer: the student's answer, the stored answer and the grader's feedback
+ */
+export function QuizAnswerFeedback({ result }: { result: QuizAnswerResult }) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-3 space-y-2 text-sm",
+        result.correct ? "border-green-300 bg-green-50 dark:bg-green-950/30" : "border-red-300 bg-red-50 dark:bg-red-950/30"
+      )}
+      data-testid="quiz-answer-result"
+    >
+      <div className="flex items-start gap-2">
+        {result.correct ? (
+          <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+        ) : (
+          <XCircle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />
+        )}
+        <p className="font-medium flex-1">{result.question}</p>
+        <Badge variant="outline">{formatScore(result.score)}</Badge>
+      </div>
+      <p><span className="text-muted-foreground">Your answer:</span> {result.answer || <em>blank</em>}</p>
+      <p><span className="text-muted-foreground">Answer:</span> {result.expectedAnswer}</p>
+      {result.feedback && <p className="text-muted-foreground italic">{result.feedback}</p>}
+    </div>
+  );
+}
+
+/**
+ * Study mode for a book's comprehension questions. Answers are graded against the stored answers, and
+ * missed questions come back later in the student's reviews.
+ */
+export function BookQuiz({ book }: BookQuizProps) {
+  const { toast } = useToast();
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [result, setResult] = useState<QuizAttempt | null>(null);
+
+  const { data: overview, isLoading, error } = useQuery<QuizOverview>({
+    queryKey: ["/api/quiz", book.id],
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quiz/${book.id}/attempts`, {
+        // Only answered questions are graded; skipped ones are neither scored nor scheduled for review
+        answers: (overview?.questions || [])
+          .filter(question => answers[question.index]?.trim())
+          .map(question => ({ questionIndex: question.index, answer: answers[question.index] })),
+      });
+      return await res.json() as QuizAttempt;
+    },
+    onSuccess: (attempt) => {
+      setResult(attempt);
+      queryClient.invalidateQueries({ queryKey: ["/api/quiz", book.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quiz/reviews"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Grading Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restart = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+  if (error || !overview) {
+    return (
+      <div className="text-center text-muted-foreground py-8">
+        <GraduationCap className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p>No quiz is available for this book yet.</p>
+      </div>
+    );
+  }
+
+  const best = overview.attempts.reduce((max, attempt) => Math.max(max, attempt.score), 0);
+
+  if (result) {
+    return (
+      <div className="space-y-4" data-testid="quiz-result">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-lg font-semibold">
+            {result.correctCount} of {result.answers.length} correct · {formatScore(result.score)}
+          </h3>
+          {result.grader === QuizGrader.KEYWORD && (
+            <Badge variant="outline" title="The AI grader was unavailable, so answers were matched on key words">Keyword grading</Badge>
+          )}
+          <Button variant="outline" size="sm" className="ml-auto" onClick={restart} data-testid="button-quiz-retake">
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Try again
+          </Button>
+        </div>
+        {result.correctCount < result.answers.length && (
+          <p className="text-sm text-muted-foreground">Missed questions will come back in your reviews, starting tomorrow.</p>
+        )}
+        {result.answers.map(answer => <QuizAnswerFeedback key={answer.questionIndex} result={answer} />)}
+      </div>
+    );
+  }
+
+  const answeredCount = overview.questions.filter(question => answers[question.index]?.trim()).length;
+
+  return (
+    <div className="space-y-4" data-testid="quiz-form">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        <span>{overview.questions.length} questions</span>
+        {overview.attempts.length > 0 && (
+          <span>· {overview.attempts.length} {overview.attempts.length === 1 ? "attempt" : "attempts"}, best {formatScore(best)}</span>
+        )}
+        {overview.dueReviews > 0 && (
+          <Badge variant="secondary">{overview.dueReviews} due for review</Badge>
+        )}
+      </div>
+
+      {overview.questions.map((question, position) => (
+        <div key={question.index} className="space-y-2">
+          <p className="text-sm font-medium">{position + 1}. {question.question}</p>
+          <Textarea
+            value={answers[question.index] || ""}
+            onChange={(e) => setAnswers(prev => ({ ...prev, [question.index]: e.target.value }))}
+            placeholder="Your answer..."
+            rows={2}
+            maxLength={2000}
+            disabled={submitMutation.isPending}
+            data-testid={`input-quiz-answer-${question.index}`}
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => submitMutation.mutate()}
+          disabled={answeredCount === 0 || submitMutation.isPending}
+          data-testid="button-quiz-submit"
+        >
+          {submitMutation.isPending ? (
+            <>
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              Grading...
+            </>
+          ) : (
+            `Submit ${answeredCount} of ${overview.questions.length} answers`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCirculationError } from "@/lib/policy";
 import { useToast } from "@/hooks/use-toast";
 import { Book, User } from "@shared/schema";
 import { AIDueDateSuggestion } from "@/components/ai-due-date-suggestion";
@@ -20,6 +21,7 @@ import { cn } from "@/lib/utils";
 
 const borrowSchema = z.object({
   bookId: z.string().min(1, "Book is required"),
+  barcode: z.string().optional(), // Specific copy; any available copy when left blank
   userId: z.string().min(1, "Student is required"),
   dueDate: z.date({
     required_error: "Due date is required",
@@ -44,6 +46,7 @@ export function BorrowModal({ open, onOpenChange }: BorrowModalProps) {
     resolver: zodResolver(borrowSchema),
     defaultValues: {
       bookId: "",
+      barcode: "",
       userId: "",
     },
   });
@@ -58,7 +61,10 @@ export function BorrowModal({ open, onOpenChange }: BorrowModalProps) {
 
   const borrowMutation = useMutation({
     mutationFn: async (borrowData: BorrowForm) => {
-      const res = await apiRequest("POST", "/api/transactions/borrow", borrowData);
+      const res = await apiRequest("POST", "/api/transactions/borrow", {
+        ...borrowData,
+        barcode: borrowData.barcode?.trim() || undefined,
+      });
       return await res.json();
     },
     onSuccess: () => {
@@ -78,8 +84,7 @@ export function BorrowModal({ open, onOpenChange }: BorrowModalProps) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to borrow book",
-        description: error.message,
+        ...describeCirculationError(error, "Failed to borrow book"),
         variant: "destructive",
       });
     },
@@ -192,6 +197,20 @@ export function BorrowModal({ open, onOpenChange }: BorrowModalProps) {
             )}
           </div>
 
+          {/* Copy Barcode */}
+          {selectedBook && (
+            <div className="space-y-2">
+              <Label htmlFor="copy-barcode">Copy Barcode (optional)</Label>
+              <Input
+                id="copy-barcode"
+                placeholder="Scan or type the barcode of the copy being lent"
+                {...form.register("barcode")}
+                data-testid="input-copy-barcode"
+              />
+              <p className="text-xs text-muted-foreground">Leave blank to lend any available copy.</p>
+            </div>
+          )}
+
           {/* Student Selection */}
           <div className="space-y-2">
             <Label htmlFor="student-search">Select Student</Label>
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { CatalogAvailability, CatalogFacets, HighlightSegment } from "@shared/schema";
+
+export type CatalogFilters = Record<keyof CatalogFacets, string>;
+
+export const emptyCatalogFilters: CatalogFilters = {
+  category: "",
+  author: "",
+  publisher: "",
+  availability: "",
+};
+
+const FACET_LABELS: Record<keyof CatalogFacets, string> = {
+  availability: "Availability",
+  category: "Category",
+  author: "Author",
+  publisher: "Publisher",
+};
+
+const AVAILABILITY_LABELS: Record<string, string> = {
+  [CatalogAvailability.AVAILABLE]: "Available now",
+  [CatalogAvailability.CHECKED_OUT]: "All copies out",
+};
+
+interface CatalogFacetFiltersProps {
+  facets?: CatalogFacets;
+  filters: CatalogFilters;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+// One row of chips per facet; clicking a chip toggles it as a filter
+export function CatalogFacetFilters({ facets, filters, onChange }: CatalogFacetFiltersProps) {
+  if (!facets) return null;
+
+  return (
+    <div className="space-y-3" data-testid="catalog-facets">
+      {(Object.keys(FACET_LABELS) as (keyof CatalogFacets)[]).map((facet) => {
+        if (facets[facet].length === 0) return null;
+        return (
+          <div key={facet} className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider w-24">
+              {FACET_LABELS[facet]}
+            </span>
+            {facets[facet].map(({ value, count }) => {
+              const selected = filters[facet].toLowerCase() === value.toLowerCase();
+              return (
+                <Button
+                  key={value}
+                  variant={selected ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 rounded-full text-xs"
+                  onClick={() => onChange({ ...filters, [facet]: selected ? "" : value })}
+                  data-testid={`chip-${facet}-${value}`}
+                >
+                  {facet === "availability" ? AVAILABILITY_LABELS[value] || value : value}
+                  <span className="ml-1.5 opacity-70">{count}</span>
+                </Button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Renders search highlight segments, falling back to the plain text when there are none
+export function HighlightedText({ segments, text }: { segments?: HighlightSegment[]; text: string }) {
+  if (!segments) return <>{text}</>;
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, MessageSquare, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { ChatSessionSummary } from "@shared/schema";
+
+interface ChatConversationListProps {
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  // Called after a conversation is deleted, e.g. to leave it if it was open
+  onDeleted: (id: string) => void;
+}
+
+function formatActivity(date: Date | string): string {
+  const value = new Date(date);
+  return value.toDateString() === new Date().toDateString()
+    ? value.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : value.toLocaleDateString();
+}
+
+/**
+ * The student's past conversations with the assistant, with search, rename, delete and Markdown export
+ */
+export function ChatConversationList({ activeId, onSelect, onNew, onDeleted }: ChatConversationListProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [deleting, setDeleting] = useState<ChatSessionSummary | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim());
+
+  const { data: sessions = [], isLoading } = useQuery<ChatSessionSummary[]>({
+    queryKey: ["/api/ai-chat/sessions", { q: debouncedSearch }],
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const res = await apiRequest("PATCH", `/api/ai-chat/sessions/${id}`, { title });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-chat/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to rename conversation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/ai-chat/sessions/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-chat/sessions"] });
+      onDeleted(id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete conversation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startEditing = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const saveTitle = (id: string) => {
+    if (editTitle.trim()) {
+      renameMutation.mutate({ id, title: editTitle.trim() });
+    } else {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0" data-testid="chat-conversation-list">
+      <div className="p-3 border-b space-y-2">
+        <Button size="sm" className="w-full" onClick={onNew} data-testid="chat-new-conversation">
+          <Plus className="h-4 w-4 mr-1" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search conversations..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8 text-sm h-9"
+            data-testid="chat-conversation-search"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground p-3">Loading conversations...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-3">
+              {debouncedSearch ? "No conversations match your search." : "No conversations yet."}
+            </p>
+          ) : sessions.map((session) => (
+            <div
+              key={session.id}
+              className={cn(
+                "group flex items-start gap-2 p-2 rounded-md hover:bg-accent/40 transition-colors",
+                session.id === activeId && "bg-accent/60"
+              )}
+              data-testid={`chat-conversation-${session.id}`}
+            >
+              <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+              {editingId === session.id ? (
+                <Input
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveTitle(session.id);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  onBlur={() => saveTitle(session.id)}
+                  maxLength={100}
+                  autoFocus
+                  className="h-7 text-sm flex-1"
+                  data-testid={`chat-conversation-title-input-${session.id}`}
+                />
+              ) : (
+                <button className="flex-1 min-w-0 text-left" onClick={() => onSelect(session.id)}>
+                  <p className="text-sm font-medium truncate">{session.title}</p>
+                  {session.snippet ? (
+                    <p className="text-xs text-muted-foreground line-clamp-2 break-words">{session.snippet}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {formatActivity(session.lastActivity)} · {session.messageCount} messages
+                    </p>
+                  )}
+                </button>
+              )}
+              <div className="flex gap-0.5 flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  title="Rename"
+                  onClick={() => startEditing(session)}
+                  data-testid={`chat-conversation-rename-${session.id}`}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  title="Export as Markdown"
+                  onClick={() => window.open(`/api/ai-chat/sessions/${session.id}/export`, "_blank")}
+                  data-testid={`chat-conversation-export-${session.id}`}
+                >
+                  <Download className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                  title="Delete"
+                  onClick={() => setDeleting(session)}
+                  disabled={deleteMutation.isPending && deleteMutation.variables === session.id}
+                  data-testid={`chat-conversation-delete-${session.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent data-testid="dialog-delete-conversation">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.title}" and all its messages will be deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-conversation"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CirculationPolicy, InsertCirculationPolicy, Role } from "@shared/schema";
+import { Scale, Trash2 } from "lucide-react";
+
+type PolicyLimits = Omit<CirculationPolicy, "id" | "role" | "category" | "updatedAt">;
+
+interface PoliciesResponse {
+  defaults: PolicyLimits;
+  policies: CirculationPolicy[];
+}
+
+const emptyForm = {
+  role: Role.STUDENT,
+  category: "",
+  loanPeriodDays: "14",
+  maxConcurrentLoans: "5",
+  maxRenewals: "2",
+  holdsAllowed: true,
+};
+
+export function CirculationPoliciesCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data, isLoading } = useQuery<PoliciesResponse>({
+    queryKey: ["/api/circulation/policies"],
+  });
+  const policies = data?.policies ?? [];
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (policy: InsertCirculationPolicy) => {
+      const res = await apiRequest("PUT", "/api/circulation/policies", policy);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation/policies"] });
+      setForm(emptyForm);
+      toast({
+        title: "Policy saved",
+        description: "New loans and renewals will follow the updated policy",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/circulation/policies/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation/policies"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    savePolicyMutation.mutate({
+      role: form.role,
+      category: form.category.trim() || null,
+      loanPeriodDays: parseInt(form.loanPeriodDays, 10),
+      maxConcurrentLoans: parseInt(form.maxConcurrentLoans, 10),
+      maxRenewals: parseInt(form.maxRenewals, 10),
+      holdsAllowed: form.holdsAllowed,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-circulation-policies">
+          <Scale className="h-5 w-5" />
+          Circulation Policies
+        </CardTitle>
+        <CardDescription>
+          Loan periods and limits per role and book category. The most specific policy applies, and a category's loans also count toward the role's overall limit.
+          {data && ` Without a policy: ${data.defaults.loanPeriodDays}-day loans, ${data.defaults.maxConcurrentLoans} loans at once, ${data.defaults.maxRenewals} renewals.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading policies...</p>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No policies configured - the defaults apply to everyone</p>
+        ) : (
+          <div className="space-y-2">
+            {policies.map((policy) => (
+              <div key={policy.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`row-policy-${policy.id}`}>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{policy.role}</Badge>
+                    <span className="text-sm font-medium text-foreground">{policy.category || "All categories"}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {policy.loanPeriodDays}-day loans · {policy.maxConcurrentLoans} at once · {policy.maxRenewals} renewal{policy.maxRenewals === 1 ? "" : "s"} · {policy.holdsAllowed ? "Holds allowed" : "No holds"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deletePolicyMutation.mutate(policy.id)}
+                  disabled={deletePolicyMutation.isPending}
+                  data-testid={`button-delete-policy-${policy.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 items-end border-t pt-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Role</Label>
+            <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as Role })}>
+              <SelectTrigger data-testid="select-policy-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(Role).map((role) => (
+                  <SelectItem key={role} value={role}>{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-category" className="text-xs">Category</Label>
+            <Input
+              id="policy-category"
+              placeholder="All categories"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              data-testid="input-policy-category"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-loan-days" className="text-xs">Loan period (days)</Label>
+            <Input
+              id="policy-loan-days"
+              type="number"
+              min={1}
+              value={form.loanPeriodDays}
+              onChange={(e) => setForm({ ...form, loanPeriodDays: e.target.value })}
+              data-testid="input-policy-loan-days"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-max-loans" className="text-xs">Max loans at once</Label>
+            <Input
+              id="policy-max-loans"
+              type="number"
+              min={0}
+              value={form.maxConcurrentLoans}
+              onChange={(e) => setForm({ ...form, maxConcurrentLoans: e.target.value })}
+              data-testid="input-policy-max-loans"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-max-renewals" className="text-xs">Max renewals</Label>
+            <Input
+              id="policy-max-renewals"
+              type="number"
+              min={0}
+              value={form.maxRenewals}
+              onChange={(e) => setForm({ ...form, maxRenewals: e.target.value })}
+              data-testid="input-policy-max-renewals"
+            />
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Switch
+              id="policy-holds"
+              checked={form.holdsAllowed}
+              onCheckedChange={(holdsAllowed) => setForm({ ...form, holdsAllowed })}
+              data-testid="switch-policy-holds"
+            />
+            <Label htmlFor="policy-holds" className="text-xs">Holds allowed</Label>
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={savePolicyMutation.isPending} data-testid="button-save-policy">
+          Save Policy
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { ShoppingCart, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { BookDemandForecast, DemandForecast, DemandForecastOverview } from "@shared/schema";
+
+const HORIZON_OPTIONS = [8, 16, 26];
+// Past weeks plotted before the forecast
+const HISTORY_WEEKS_SHOWN = 52;
+const ALL_BOOKS = "all";
+
+const TREND_ICONS = {
+  increasing: TrendingUp,
+  decreasing: TrendingDown,
+  stable: Minus,
+};
+
+interface ChartPoint {
+  week: string;
+  loans?: number;
+  expected?: number;
+  interval?: [number, number];
+}
+
+function formatWeek(date: Date | string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// History and forecast on one axis; the forecast line starts at the last observed week so the two connect
+function toChartPoints(series: DemandForecast): ChartPoint[] {
+  const history = series.history.slice(-HISTORY_WEEKS_SHOWN);
+  const points: ChartPoint[] = history.map(week => ({ week: formatWeek(week.weekStart), loans: week.loans }));
+  const last = points[points.length - 1];
+  if (last) {
+    last.expected = last.loans;
+    last.interval = [last.loans!, last.loans!];
+  }
+  return points.concat(series.forecast.map(week => ({
+    week: formatWeek(week.weekStart),
+    expected: week.expected,
+    interval: [week.lower, week.upper],
+  })));
+}
+
+/**
+ * Weekly loans against the forecast for the coming weeks, for the library, a category or a book on the purchase list
+ */
+export function DemandForecastCard() {
+  const [weeks, setWeeks] = useState(16);
+  const [scope, setScope] = useState(ALL_BOOKS);
+  const [bookId, setBookId] = useState<string | null>(null);
+
+  const { data: overview, isLoading } = useQuery<DemandForecastOverview>({
+    queryKey: ["/api/ai/forecasts/demand", { weeks }],
+    staleTime: 10 * 60 * 1000, // Forecasting reads every loan
+  });
+  const { data: bookForecast } = useQuery<BookDemandForecast>({
+    queryKey: ["/api/ai/forecasts/demand/books", bookId!, { weeks }],
+    enabled: !!bookId,
+  });
+
+  const series: DemandForecast | undefined = bookId
+    ? bookForecast
+    : scope === ALL_BOOKS ? overview?.library : overview?.categories.find(category => category.key === scope);
+  const TrendIcon = series ? TREND_ICONS[series.trendDirection] : Minus;
+
+  return (
+    <div className="space-y-4">
+      <Card data-testid="card-demand-forecast">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Demand Forecast
+          </CardTitle>
+          <CardDescription>
+            Weekly loans with an 80% prediction interval.{" "}
+            {overview && (overview.seasonality === "calendar"
+              ? "Seasonality is learned per academic calendar period: start, middle and end of term, exam weeks and breaks."
+              : overview.seasonality === "weekOfYear"
+                ? "Seasonality is learned from past years' loans; enter terms in the academic calendar to learn it per term period."
+                : "Seasonality will be learned once there is a year of loans, or half a year with terms in the academic calendar.")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Scope</Label>
+              <Select value={scope} onValueChange={(value) => { setScope(value); setBookId(null); }}>
+                <SelectTrigger className="w-56" data-testid="select-forecast-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_BOOKS}>All books</SelectItem>
+                  {overview?.categories.map(category => (
+                    <SelectItem key={category.key} value={category.key}>{category.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Horizon</Label>
+              <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+                <SelectTrigger className="w-32" data-testid="select-forecast-weeks">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HORIZON_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option} weeks</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {series && (
+              <div className="flex items-center gap-2 pb-2 text-sm">
+                {bookId && (
+                  <Button variant="ghost" size="sm" onClick={() => setBookId(null)} data-testid="button-forecast-clear-book">
+                    Back to {scope === ALL_BOOKS ? "all books" : scope}
+                  </Button>
+                )}
+                <span className="font-medium">{series.label}</span>
+                <Badge variant="outline">
+                  <TrendIcon className="mr-1 h-3 w-3" />
+                  {series.trendDirection}
+                </Badge>
+                <span className="text-muted-foreground">{series.expectedLoans.toFixed(0)} loans expected</span>
+              </div>
+            )}
+          </div>
+
+          {isLoading || !series ? (
+            <Skeleton className="h-72 w-full" />
+          ) : (
+            <div className="h-72" data-testid="chart-demand-forecast">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={toChartPoints(series)}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" minTickGap={24} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip formatter={(value: number | number[]) => Array.isArray(value) ? value.join(" – ") : value} />
+                  <Legend />
+                  <Area dataKey="interval" name="80% interval" stroke="none" fill="#3b82f6" fillOpacity={0.15} />
+                  <Line dataKey="loans" name="Loans" stroke="#10b981" dot={false} strokeWidth={2} />
+                  <Line dataKey="expected" name="Forecast" stroke="#3b82f6" dot={false} strokeWidth={2} strokeDasharray="5 5" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {bookForecast && bookId && (
+            <p className="text-sm text-muted-foreground" data-testid="text-book-copies">
+              {bookForecast.totalCopies} copies now, {bookForecast.recommendedCopies} recommended, at about {bookForecast.averageLoanWeeks} weeks per loan
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-purchase-list">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5 text-primary" />
+            Purchase List
+          </CardTitle>
+          <CardDescription>
+            Books whose forecast busiest week needs more copies than the library has. Select a book to see its forecast.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !overview?.purchaseList.length ? (
+            <p className="text-sm text-muted-foreground">No book is expected to need more copies over the next {weeks} weeks.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Book</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Copies</TableHead>
+                  <TableHead className="text-right">Recommended</TableHead>
+                  <TableHead className="text-right">To buy</TableHead>
+                  <TableHead className="text-right">Expected loans</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.purchaseList.map(item => (
+                  <TableRow
+                    key={item.bookId}
+                    className="cursor-pointer"
+                    onClick={() => setBookId(item.bookId)}
+                    data-state={item.bookId === bookId ? "selected" : undefined}
+                    data-testid={`purchase-${item.bookId}`}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{item.title}</p>
+                      <p className="text-xs text-muted-foreground">{item.author}</p>
+                    </TableCell>
+                    <TableCell>{item.category}</TableCell>
+                    <TableCell className="text-right">{item.totalCopies}</TableCell>
+                    <TableCell className="text-right">{item.recommendedCopies}</TableCell>
+                    <TableCell className="text-right font-medium">+{item.copiesToBuy}</TableCell>
+                    <TableCell className="text-right">{item.expectedLoans.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
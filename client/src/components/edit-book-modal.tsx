@@ -12,6 +12,7 @@ import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect } from "react";
+import { BookCopiesPanel } from "@/components/book-copies-panel";
 
 type BookForm = z.infer<typeof insertBookSchema>;
 
@@ -77,7 +78,9 @@ export function EditBookModal({ open, onOpenChange, book }: EditBookModalProps)
   });
 
   const onSubmit = (data: BookForm) => {
-    updateBookMutation.mutate(data);
+    // Copies are item records, so only resize the collection when the count was actually edited
+    const { totalCopies, ...details } = data;
+    updateBookMutation.mutate(form.formState.dirtyFields.totalCopies ? data : details as BookForm);
   };
 
   return (
@@ -215,6 +218,8 @@ export function EditBookModal({ open, onOpenChange, book }: EditBookModalProps)
             </Button>
           </div>
         </form>
+
+        {book && <BookCopiesPanel bookId={book.id} />}
       </DialogContent>
     </Dialog>
   );
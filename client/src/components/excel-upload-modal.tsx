@@ -8,8 +8,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { CatalogFormat, CatalogImportDiff, CatalogImportResult, CatalogImportRowStatus } from "@shared/schema";
 import { Upload, FileSpreadsheet, Download, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 
 interface ExcelUploadModalProps {
@@ -17,40 +20,72 @@ interface ExcelUploadModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
-interface UploadResult {
-  message: string;
-  imported: number;
-  errors: string[];
-  books: any[];
+const STATUS_LABELS: Record<CatalogImportRowStatus, string> = {
+  [CatalogImportRowStatus.NEW]: "New",
+  [CatalogImportRowStatus.CHANGED]: "Changed",
+  [CatalogImportRowStatus.UNCHANGED]: "Unchanged",
+  [CatalogImportRowStatus.INVALID]: "Invalid",
+};
+
+const STATUS_VARIANTS: Record<CatalogImportRowStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  [CatalogImportRowStatus.NEW]: "default",
+  [CatalogImportRowStatus.CHANGED]: "secondary",
+  [CatalogImportRowStatus.UNCHANGED]: "outline",
+  [CatalogImportRowStatus.INVALID]: "destructive",
+};
+
+// Rows listed in the preview; the counts cover every row
+const PREVIEW_ROWS = 200;
+
+// Sends the file for a dry run or for the import itself
+async function postCatalogFile(path: string, file: File) {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const baseUrl = import.meta.env.PROD ? window.location.origin : '';
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Upload failed');
+  }
+
+  return await response.json();
+}
+
+function formatValue(value: string | number | null) {
+  return value === null ? "(empty)" : String(value);
 }
 
 export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
+  const [preview, setPreview] = useState<CatalogImportDiff | null>(null);
+  const [uploadResult, setUploadResult] = useState<CatalogImportResult | null>(null);
   const [dragOver, setDragOver] = useState(false);
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      const baseUrl = import.meta.env.PROD ? window.location.origin : '';
-      const response = await fetch(`${baseUrl}/api/books/bulk-upload`, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include',
+  const previewMutation = useMutation({
+    mutationFn: (file: File) => postCatalogFile('/api/books/bulk-upload/preview', file),
+    onSuccess: (diff: CatalogImportDiff) => {
+      setPreview(diff);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not read file",
+        description: error.message,
+        variant: "destructive",
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Upload failed');
-      }
-      
-      return await response.json();
     },
-    onSuccess: (result: UploadResult) => {
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => postCatalogFile('/api/books/bulk-upload', file),
+    onSuccess: (result: CatalogImportResult) => {
       setUploadResult(result);
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
       queryClient.invalidateQueries({ queryKey: ["/api/books/available"] });
@@ -94,7 +129,9 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
     }
 
     setSelectedFile(file);
+    setPreview(null);
     setUploadResult(null);
+    previewMutation.mutate(file);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -160,6 +197,7 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
 
   const resetForm = () => {
     setSelectedFile(null);
+    setPreview(null);
     setUploadResult(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -190,6 +228,7 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
                 Upload an Excel (.xlsx, .xls) or CSV file containing book information. Your file should include the following columns:
               </p>
               <div className="grid grid-cols-2 gap-2 text-sm">
+                <div><strong>ID</strong> (optional, from an export)</div>
                 <div><strong>Title</strong> (required)</div>
                 <div><strong>Author</strong> (required)</div>
                 <div><strong>ISBN</strong> (optional)</div>
@@ -198,18 +237,31 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
                 <div><strong>Publisher</strong> (optional)</div>
                 <div><strong>Total Copies</strong> (default: 1)</div>
               </div>
+              <p className="text-sm text-muted-foreground mt-3">
+                Rows with the ID of a book, or without one the ISBN of a book, update that book; other rows add new books.
+                To edit the catalog in bulk, export it, change the file and upload it again. You will see what changes before anything is saved.
+              </p>
             </div>
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={downloadTemplate}
-              data-testid="button-download-template"
-              className="w-full"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Download Template
-            </Button>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={downloadTemplate}
+                data-testid="button-download-template"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Template
+              </Button>
+              {Object.values(CatalogFormat).map(format => (
+                <Button key={format} variant="outline" size="sm" asChild data-testid={`button-export-catalog-${format.toLowerCase()}`}>
+                  <a href={`/api/books/export?format=${format}`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export Catalog ({format})
+                  </a>
+                </Button>
+              ))}
+            </div>
           </div>
 
           <Separator />
@@ -278,6 +330,66 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
             )}
           </div>
 
+          {/* Dry-run preview */}
+          {previewMutation.isPending && (
+            <p className="text-sm text-muted-foreground" data-testid="preview-loading">Checking file against the catalog...</p>
+          )}
+
+          {preview && !uploadResult && (
+            <div className="space-y-3" data-testid="upload-preview">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant={STATUS_VARIANTS[CatalogImportRowStatus.NEW]} data-testid="preview-count-new">{preview.new} new</Badge>
+                <Badge variant={STATUS_VARIANTS[CatalogImportRowStatus.CHANGED]} data-testid="preview-count-changed">{preview.changed} changed</Badge>
+                <Badge variant={STATUS_VARIANTS[CatalogImportRowStatus.UNCHANGED]} data-testid="preview-count-unchanged">{preview.unchanged} unchanged</Badge>
+                <Badge variant={STATUS_VARIANTS[CatalogImportRowStatus.INVALID]} data-testid="preview-count-invalid">{preview.invalid} invalid</Badge>
+              </div>
+              {preview.invalid > 0 && (
+                <p className="text-sm text-muted-foreground">Invalid rows are skipped. Fix them in the file and select it again to include them.</p>
+              )}
+              {preview.rows.some(row => row.status !== CatalogImportRowStatus.UNCHANGED) && (
+                <div className="max-h-72 overflow-y-auto border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead className="w-24">Status</TableHead>
+                        <TableHead>Book</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows
+                        .filter(row => row.status !== CatalogImportRowStatus.UNCHANGED)
+                        .slice(0, PREVIEW_ROWS)
+                        .map(row => (
+                          <TableRow key={row.row} data-testid={`preview-row-${row.row}`}>
+                            <TableCell>{row.row}</TableCell>
+                            <TableCell>
+                              <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                            </TableCell>
+                            <TableCell className="font-medium">{row.title || "—"}</TableCell>
+                            <TableCell className="text-xs">
+                              {row.errors.length > 0 ? (
+                                <span className="text-destructive">{row.errors.join(", ")}</span>
+                              ) : (
+                                row.changes.map(change => (
+                                  <div key={change.field}>
+                                    <span className="font-medium">{change.field}:</span>{" "}
+                                    <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>{" → "}
+                                    {formatValue(change.after)}
+                                  </div>
+                                ))
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Upload Progress */}
           {uploadMutation.isPending && (
             <div className="space-y-2">
@@ -319,7 +431,7 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
               )}
 
               <div className="text-sm text-muted-foreground" data-testid="upload-summary">
-                Successfully imported {uploadResult.imported} books.
+                Added {uploadResult.imported} new books and updated {uploadResult.updated}.
                 {uploadResult.errors.length > 0 && ` ${uploadResult.errors.length} errors occurred.`}
               </div>
             </div>
@@ -334,13 +446,13 @@ export function ExcelUploadModal({ open, onOpenChange }: ExcelUploadModalProps)
             >
               {uploadResult ? 'Close' : 'Cancel'}
             </Button>
-            {selectedFile && !uploadResult && (
+            {selectedFile && preview && !uploadResult && (
               <Button
                 onClick={handleUpload}
-                disabled={uploadMutation.isPending}
+                disabled={uploadMutation.isPending || preview.new + preview.changed === 0}
                 data-testid="button-upload-file"
               >
-                {uploadMutation.isPending ? "Uploading..." : "Upload Books"}
+                {uploadMutation.isPending ? "Uploading..." : `Add ${preview.new} and Update ${preview.changed} Books`}
               </Button>
             )}
           </div>
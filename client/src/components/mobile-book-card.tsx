@@ -8,6 +8,7 @@ import { cn } from "@/lib/utils";
 interface MobileBookCardProps {
   book: Book;
   onRequest: (bookId: string) => void;
+  onPlaceHold?: (bookId: string) => void; // Offered instead of a request when no copies are available
   onToggleFavorite?: (bookId: string) => void;
   isFavorite?: boolean;
   isRequesting?: boolean;
@@ -16,6 +17,7 @@ interface MobileBookCardProps {
 export function MobileBookCard({ 
   book, 
   onRequest, 
+  onPlaceHold,
   onToggleFavorite, 
   isFavorite = false,
   isRequesting = false 
@@ -86,8 +88,8 @@ export function MobileBookCard({
           
           <Button
             size="sm"
-            onClick={() => onRequest(book.id)}
-            disabled={isRequesting || book.availableCopies === 0}
+            onClick={() => book.availableCopies === 0 && onPlaceHold ? onPlaceHold(book.id) : onRequest(book.id)}
+            disabled={isRequesting || (book.availableCopies === 0 && !onPlaceHold)}
             className="w-full text-xs transition-all duration-200 hover:scale-105 active:scale-95"
             data-testid={`button-request-book-${book.id}`}
           >
@@ -97,7 +99,7 @@ export function MobileBookCard({
                 Requesting...
               </div>
             ) : book.availableCopies === 0 ? (
-              "Unavailable"
+              onPlaceHold ? "Place Hold" : "Unavailable"
             ) : (
               "Request Book"
             )}
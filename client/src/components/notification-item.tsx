@@ -1,4 +1,4 @@
-import { BookOpen, CheckCircle, Clock, AlertTriangle, X, Bell } from "lucide-react";
+import { BookOpen, CheckCircle, Clock, AlertTriangle, X, Bell, Bookmark, Timer, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -17,6 +17,10 @@ const notificationIcons: Record<NotificationType, any> = {
   BOOK_REQUEST_REJECTED: X,
   EXTENSION_REQUEST_APPROVED: CheckCircle,
   EXTENSION_REQUEST_REJECTED: X,
+  HOLD_PLACED: Bookmark,
+  HOLD_READY: BookOpen,
+  HOLD_EXPIRED: Timer,
+  BOOK_RENEWED: RefreshCw,
 };
 
 const notificationColors: Record<NotificationType, string> = {
@@ -27,6 +31,10 @@ const notificationColors: Record<NotificationType, string> = {
   BOOK_REQUEST_REJECTED: "text-red-600",
   EXTENSION_REQUEST_APPROVED: "text-green-600",
   EXTENSION_REQUEST_REJECTED: "text-red-600",
+  HOLD_PLACED: "text-blue-600",
+  HOLD_READY: "text-green-600",
+  HOLD_EXPIRED: "text-amber-600",
+  BOOK_RENEWED: "text-green-600",
 };
 
 export function NotificationItem({ notification }: NotificationItemProps) {
@@ -0,0 +1,94 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Target } from "lucide-react";
+import { OverdueRiskModelReport } from "@shared/schema";
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint: string }) {
+  return (
+    <div className="rounded-md border p-3" title={hint}>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * What the overdue-risk model has learned from past loans, and how it did on the most recent ones it was not trained on
+ */
+export function OverdueRiskModelCard() {
+  const { data: report, isLoading } = useQuery<OverdueRiskModelReport>({
+    queryKey: ["/api/ai/predictions/overdue-risk/backtest"],
+    staleTime: 10 * 60 * 1000, // Retraining reads every loan
+  });
+
+  const backtest = report?.backtest;
+  const maxWeight = Math.max(...(report?.weights || []).map(item => Math.abs(item.weight)), 0.01);
+
+  return (
+    <Card data-testid="card-overdue-risk-model">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-primary" />
+          Overdue Risk Model
+        </CardTitle>
+        <CardDescription>
+          {report?.trained
+            ? `Trained on ${report.trainingLoans} past loans, ${formatRate(report.lateRate)} of them late. Loans from ${formatRate(report.threshold)} risk are flagged.`
+            : "Learns from past loans once enough of them have been returned."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !report?.trained ? (
+          <p className="text-sm text-muted-foreground">Not enough loan history to train the model yet.</p>
+        ) : (
+          <>
+            {backtest ? (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Backtest on {backtest.testLoans} loans from {new Date(backtest.heldOutFrom).toLocaleDateString()} on ({backtest.lateLoans} late),
+                  trained only on the {backtest.trainingLoans} loans settled before then
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2" data-testid="overdue-risk-backtest">
+                  <Metric label="Precision" value={formatRate(backtest.precision)} hint="Of the loans flagged, the share that came back late" />
+                  <Metric label="Recall" value={formatRate(backtest.recall)} hint="Of the late loans, the share that was flagged" />
+                  <Metric label="Accuracy" value={formatRate(backtest.accuracy)} hint="Loans flagged or not flagged correctly" />
+                  <Metric label="AUC" value={backtest.auc === null ? "—" : backtest.auc.toFixed(2)} hint="Chance that a late loan scores higher than an on-time one; 0.5 is guessing" />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Not enough loan history to hold some out for a backtest yet.</p>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Feature weights</p>
+              {report.weights.map(item => (
+                <div key={item.feature} className="flex items-center gap-2 text-sm">
+                  <span className="w-44 flex-shrink-0">{item.label}</span>
+                  <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                    <div
+                      className={item.weight > 0 ? "h-full bg-red-500" : "h-full bg-green-500"}
+                      style={{ width: `${(Math.abs(item.weight) / maxWeight) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-14 text-right text-xs text-muted-foreground">
+                    {item.weight > 0 ? "+" : ""}{item.weight.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Change in log-odds of a late return per standard deviation of the feature. Red raises the risk, green lowers it.
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
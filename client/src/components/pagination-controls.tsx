@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import { Page } from "@shared/schema";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface PaginationControlsProps {
+  page?: Page<unknown>;
+  onPageChange: (page: number) => void;
+  testId: string;
+}
+
+export function PaginationControls({ page, onPageChange, testId }: PaginationControlsProps) {
+  if (!page || page.total === 0) return null;
+
+  const first = (page.page - 1) * page.pageSize + 1;
+  const last = Math.min(page.page * page.pageSize, page.total);
+
+  return (
+    <div className="flex items-center justify-between gap-2 px-6 py-3 border-t border-border" data-testid={`pagination-${testId}`}>
+      <p className="text-sm text-muted-foreground" data-testid={`text-pagination-range-${testId}`}>
+        {first}–{last} of {page.total}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page.page - 1)}
+          disabled={page.page <= 1}
+          data-testid={`button-previous-page-${testId}`}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-foreground">
+          Page {page.page} of {page.totalPages}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page.page + 1)}
+          disabled={page.page >= page.totalPages}
+          data-testid={`button-next-page-${testId}`}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
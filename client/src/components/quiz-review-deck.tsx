@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { GraduationCap, RefreshCw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QuizAnswerFeedback } from "@/components/book-quiz";
+import { QuizReviewCard, QuizReviewResult } from "@shared/schema";
+
+/**
+ * The student's missed quiz questions that are due again, one at a time. Hidden when nothing is due.
+ */
+export function QuizReviewDeck({ className }: { className?: string }) {
+  const { toast } = useToast();
+  const [answer, setAnswer] = useState("");
+  const [graded, setGraded] = useState<QuizReviewResult | null>(null);
+
+  const { data: reviews = [] } = useQuery<QuizReviewCard[]>({
+    queryKey: ["/api/quiz/reviews"],
+  });
+  const current = reviews[0];
+
+  const answerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quiz/reviews/${current!.id}`, { answer });
+      return await res.json() as QuizReviewResult;
+    },
+    onSuccess: (result) => setGraded(result),
+    onError: (error: Error) => {
+      toast({ title: "Grading Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The answered card stays on screen until the student moves on
+  const next = () => {
+    setGraded(null);
+    setAnswer("");
+    queryClient.invalidateQueries({ queryKey: ["/api/quiz/reviews"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/quiz"] });
+  };
+
+  if (!current && !graded) return null;
+
+  return (
+    <Card className={className} data-testid="quiz-review-deck">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GraduationCap className="h-4 w-4 text-primary" />
+          Quiz review
+          <Badge variant="secondary" className="ml-auto">{reviews.length} due</Badge>
+        </CardTitle>
+        {current && <CardDescription>From {current.bookTitle}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {graded ? (
+          <>
+            <QuizAnswerFeedback result={graded.result} />
+            <p className="text-xs text-muted-foreground">
+              {graded.item
+                ? `Next review ${new Date(graded.item.dueAt).toLocaleDateString()}`
+                : "Mastered. This question won't come back."}
+            </p>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={next} data-testid="button-review-next">
+                {reviews.length > 1 ? "Next question" : "Done"}
+              </Button>
+            </div>
+          </>
+        ) : current && (
+          <>
+            <p className="text-sm font-medium">{current.question}</p>
+            <Textarea
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              placeholder="Your answer..."
+              rows={2}
+              maxLength={2000}
+              disabled={answerMutation.isPending}
+              data-testid="input-review-answer"
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => answerMutation.mutate()}
+                disabled={!answer.trim() || answerMutation.isPending}
+                data-testid="button-review-submit"
+              >
+                {answerMutation.isPending ? <RefreshCw className="h-4 w-4 animate-spin" /> : "Check answer"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GraduationCap } from "lucide-react";
+import { QuizBookStats } from "@shared/schema";
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Students' quiz results per book, with the questions they find hardest
+ */
+export function QuizStatsCard() {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: stats = [], isLoading } = useQuery<QuizBookStats[]>({
+    queryKey: ["/api/quiz/stats"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GraduationCap className="h-5 w-5 text-primary" />
+          Comprehension Quiz Scores
+        </CardTitle>
+        <CardDescription>Average scores per book, most attempted first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : stats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No quiz attempts yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Book</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead className="text-right">Students</TableHead>
+                <TableHead className="w-40">Average score</TableHead>
+                <TableHead className="text-right">Last attempt</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map(book => (
+                <Fragment key={book.bookId}>
+                  <TableRow data-testid={`quiz-stats-${book.bookId}`}>
+                    <TableCell>
+                      <p className="font-medium">{book.title}</p>
+                      <p className="text-xs text-muted-foreground">{book.author}</p>
+                    </TableCell>
+                    <TableCell className="text-right">{book.attempts}</TableCell>
+                    <TableCell className="text-right">{book.students}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={book.averageScore * 100} className="h-2" />
+                        <span className="text-xs w-10 text-right">{formatScore(book.averageScore)}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {new Date(book.lastAttemptAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === book.bookId ? null : book.bookId)}
+                        data-testid={`button-quiz-questions-${book.bookId}`}
+                      >
+                        {expandedId === book.bookId ? "Hide" : "Questions"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === book.bookId && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-muted/30">
+                        <ul className="space-y-1 text-sm">
+                          {book.questions.map(question => (
+                            <li key={question.question} className="flex gap-3">
+                              <span className="w-10 text-right font-medium">{formatScore(question.averageScore)}</span>
+                              <span className="flex-1">{question.question}</span>
+                              <span className="text-xs text-muted-foreground">{question.answered} answers</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ReportDefinition, ReportFormat, ReportFrequency, ReportSchedule, ReportScheduleInput, ReportType } from "@shared/schema";
+import { Mail, Send, Trash2 } from "lucide-react";
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  [ReportFrequency.WEEKLY]: "Weekly, on Mondays",
+  [ReportFrequency.MONTHLY]: "Monthly, on the 1st",
+};
+
+const emptyForm = {
+  name: "",
+  reportType: ReportType.CIRCULATION_BY_CATEGORY,
+  format: ReportFormat.PDF,
+  frequency: ReportFrequency.MONTHLY,
+  recipients: "",
+};
+
+function toInput(schedule: ReportSchedule): ReportScheduleInput {
+  return {
+    name: schedule.name,
+    reportType: schedule.reportType,
+    format: schedule.format,
+    frequency: schedule.frequency,
+    recipients: schedule.recipients,
+    enabled: schedule.enabled,
+  };
+}
+
+/**
+ * Reports emailed to a list of recipients every week or month, each covering the period just ended
+ */
+export function ReportSchedulesCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: definitions = [] } = useQuery<ReportDefinition[]>({
+    queryKey: ["/api/reports"],
+  });
+  const { data: schedules = [], isLoading } = useQuery<ReportSchedule[]>({
+    queryKey: ["/api/reports/schedules"],
+  });
+
+  const titleOf = (type: ReportType) => definitions.find(item => item.type === type)?.title ?? type;
+
+  const createScheduleMutation = useMutation({
+    mutationFn: async (schedule: ReportScheduleInput) => {
+      const res = await apiRequest("POST", "/api/reports/schedules", schedule);
+      return await res.json();
+    },
+    onSuccess: (schedule: ReportSchedule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+      setForm(emptyForm);
+      toast({
+        title: "Report scheduled",
+        description: `First sent ${new Date(schedule.nextRunAt).toLocaleString()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to schedule report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async ({ id, schedule }: { id: string; schedule: ReportScheduleInput }) => {
+      const res = await apiRequest("PUT", `/api/reports/schedules/${id}`, schedule);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/reports/schedules/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendNowMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/reports/schedules/${id}/send`);
+      return await res.json();
+    },
+    onSuccess: (schedule: ReportSchedule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+      toast({
+        title: "Report sent",
+        description: `Emailed to ${schedule.recipients.join(", ")}`,
+      });
+    },
+    onError: (error: Error) => {
+      // A failed send is recorded on the schedule as well
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+      toast({
+        title: "Failed to send report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    createScheduleMutation.mutate({
+      name: form.name.trim(),
+      reportType: form.reportType,
+      format: form.format,
+      frequency: form.frequency,
+      recipients: form.recipients.split(/[,;\s]+/).filter(Boolean),
+      enabled: true,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-report-schedules">
+          <Mail className="h-5 w-5" />
+          Scheduled Reports
+        </CardTitle>
+        <CardDescription>
+          Weekly reports cover the week before and monthly ones the month before. A failed delivery is shown here
+          and tried again at the next check; weeks or months missed in the meantime are each sent once it goes out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading schedules...</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reports are scheduled</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`row-report-schedule-${schedule.id}`}>
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{schedule.name}</span>
+                    <Badge variant="outline">{titleOf(schedule.reportType)}</Badge>
+                    <Badge variant="secondary">{schedule.format}</Badge>
+                    {schedule.lastError && <Badge variant="destructive">Last delivery failed</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {FREQUENCY_LABELS[schedule.frequency]} to {schedule.recipients.join(", ")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.enabled ? `Next ${new Date(schedule.nextRunAt).toLocaleString()}` : "Paused"}
+                    {schedule.lastRunAt ? ` · Last ${new Date(schedule.lastRunAt).toLocaleString()}` : ""}
+                  </p>
+                  {schedule.lastError && (
+                    <p className="text-xs text-destructive" data-testid={`text-report-schedule-error-${schedule.id}`}>{schedule.lastError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.enabled}
+                    onCheckedChange={(enabled) => updateScheduleMutation.mutate({ id: schedule.id, schedule: { ...toInput(schedule), enabled } })}
+                    disabled={updateScheduleMutation.isPending}
+                    aria-label="Enabled"
+                    data-testid={`switch-report-schedule-${schedule.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => sendNowMutation.mutate(schedule.id)}
+                    disabled={sendNowMutation.isPending}
+                    data-testid={`button-send-report-schedule-${schedule.id}`}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Send now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                    disabled={deleteScheduleMutation.isPending}
+                    data-testid={`button-delete-report-schedule-${schedule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end border-t pt-4">
+          <div className="space-y-1">
+            <Label htmlFor="report-schedule-name" className="text-xs">Name</Label>
+            <Input
+              id="report-schedule-name"
+              placeholder="Monthly circulation"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-report-schedule-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Report</Label>
+            <Select value={form.reportType} onValueChange={(reportType) => setForm({ ...form, reportType: reportType as ReportType })}>
+              <SelectTrigger data-testid="select-report-schedule-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {definitions.map(item => (
+                  <SelectItem key={item.type} value={item.type}>{item.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Format</Label>
+            <Select value={form.format} onValueChange={(format) => setForm({ ...form, format: format as ReportFormat })}>
+              <SelectTrigger data-testid="select-report-schedule-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ReportFormat).map(format => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Frequency</Label>
+            <Select value={form.frequency} onValueChange={(frequency) => setForm({ ...form, frequency: frequency as ReportFrequency })}>
+              <SelectTrigger data-testid="select-report-schedule-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ReportFrequency).map(frequency => (
+                  <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <Label htmlFor="report-schedule-recipients" className="text-xs">Recipients</Label>
+            <Input
+              id="report-schedule-recipients"
+              placeholder="dean@example.edu, ..."
+              value={form.recipients}
+              onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+              data-testid="input-report-schedule-recipients"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={handleAdd}
+          disabled={createScheduleMutation.isPending || !form.name.trim() || !form.recipients.trim()}
+          data-testid="button-add-report-schedule"
+        >
+          Schedule Report
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toQueryString } from "@/lib/queryClient";
+import { Report, ReportDefinition, ReportFormat, ReportType } from "@shared/schema";
+import { Download, FileSpreadsheet } from "lucide-react";
+
+// Rows shown in the preview; the downloads hold every row
+const PREVIEW_ROWS = 50;
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// The month so far, which is what the monthly circulation report usually covers
+function defaultRange() {
+  const now = new Date();
+  return { from: formatDay(new Date(now.getFullYear(), now.getMonth(), 1)), to: formatDay(now) };
+}
+
+/**
+ * Predefined reports over a date range, previewed here and downloaded as CSV, Excel or PDF
+ */
+export function ReportsCard() {
+  const [type, setType] = useState(ReportType.CIRCULATION_BY_CATEGORY);
+  const [range, setRange] = useState(defaultRange);
+
+  const { data: definitions = [] } = useQuery<ReportDefinition[]>({
+    queryKey: ["/api/reports"],
+  });
+
+  const params = useMemo(() => ({
+    from: new Date(`${range.from}T00:00:00`),
+    to: new Date(`${range.to}T23:59:59.999`),
+  }), [range]);
+  const validRange = !!range.from && !!range.to && range.from <= range.to;
+
+  const { data: report, isLoading } = useQuery<Report>({
+    queryKey: ["/api/reports", type, params],
+    enabled: validRange,
+  });
+
+  const definition = definitions.find(item => item.type === type);
+  const downloadUrl = (format: ReportFormat) => `/api/reports/${type}?${toQueryString({ ...params, format })}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2" data-testid="title-reports">
+          <FileSpreadsheet className="h-5 w-5" />
+          Reports
+        </CardTitle>
+        <CardDescription>
+          {definition?.description ?? "Circulation, overdue and collection reports for a date range"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Report</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ReportType)}>
+              <SelectTrigger data-testid="select-report-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {definitions.map(item => (
+                  <SelectItem key={item.type} value={item.type}>{item.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-from" className="text-xs">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              data-testid="input-report-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to" className="text-xs">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              min={range.from}
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              data-testid="input-report-to"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {Object.values(ReportFormat).map(format => (
+            <Button key={format} variant="outline" size="sm" asChild={validRange} disabled={!validRange} data-testid={`button-report-download-${format.toLowerCase()}`}>
+              {validRange ? (
+                <a href={downloadUrl(format)} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  {format}
+                </a>
+              ) : (
+                <span>{format}</span>
+              )}
+            </Button>
+          ))}
+        </div>
+
+        {!validRange ? (
+          <p className="text-sm text-muted-foreground">Choose a start day on or before the end day</p>
+        ) : isLoading || !report ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm" data-testid="report-summary">
+              {report.summary.map(item => (
+                <span key={item.label}>
+                  <span className="text-muted-foreground">{item.label}:</span>{" "}
+                  <span className="font-medium">{item.value ?? "—"}</span>
+                </span>
+              ))}
+            </div>
+            {report.rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing to report for these days</p>
+            ) : (
+              <div className="max-h-96 overflow-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {report.columns.map(column => (
+                        <TableHead key={column}>{column}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <TableRow key={index} data-testid={`row-report-${index}`}>
+                        {row.map((cell, column) => (
+                          <TableCell key={column} className={typeof cell === "number" ? "text-right" : undefined}>
+                            {cell ?? "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {report.rows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing {PREVIEW_ROWS} of {report.rows.length} rows. Download the report for all of them.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
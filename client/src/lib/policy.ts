@@ -0,0 +1,33 @@
+import { PolicyViolationCode, type PolicyViolation } from "@shared/schema";
+
+const policyTitles: Record<PolicyViolationCode, string> = {
+  LOAN_LIMIT_REACHED: "Loan limit reached",
+  RENEWAL_LIMIT_REACHED: "No renewals left",
+  HOLDS_NOT_ALLOWED: "Holds not allowed",
+  OUTSTANDING_FINES: "Outstanding fines",
+};
+
+// apiRequest errors look like `403: {"message":"...","code":"LOAN_LIMIT_REACHED"}`
+export function getPolicyViolation(error: Error): PolicyViolation | null {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.message === "string" && parsed.code in policyTitles) {
+      return parsed as PolicyViolation;
+    }
+  } catch {
+    // Not a JSON body
+  }
+  return null;
+}
+
+/**
+ * Toast title and description for a failed circulation request. Policy rejections get a title for their code;
+ * anything else falls back to the given title and the raw error.
+ */
+export function describeCirculationError(error: Error, fallbackTitle: string): { title: string; description: string } {
+  const violation = getPolicyViolation(error);
+  return violation
+    ? { title: policyTitles[violation.code], description: violation.message }
+    : { title: fallbackTitle, description: error.message };
+}
@@ -30,6 +30,16 @@ export async function apiRequest(
   return res;
 }
 
+// Skips empty values so optional filters can be passed straight from form state
+export function toQueryString(params: Record<string, unknown>): string {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "") continue;
+    searchParams.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  return searchParams.toString();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -38,9 +48,14 @@ export const getQueryFn: <T>(options: {
   async ({ queryKey }) => {
     // Ensure URL is absolute for production
     const baseUrl = import.meta.env.PROD ? window.location.origin : '';
-    // Construct URL properly - first element should be the base path, remaining elements are parameters
-    const [basePath, ...params] = queryKey;
-    const url = params.length > 0 ? `${basePath}/${params.join('/')}` : basePath as string;
+    // Construct URL properly - first element should be the base path, remaining elements are path segments,
+    // and an object element becomes the query string (e.g. ["/api/books", { page: 2 }])
+    const [basePath, ...rest] = queryKey;
+    const params = rest.filter(param => typeof param !== "object" || param === null);
+    const searchParams = rest.find((param): param is Record<string, unknown> => typeof param === "object" && param !== null);
+    const path = params.length > 0 ? `${basePath}/${params.join('/')}` : basePath as string;
+    const query = searchParams ? toQueryString(searchParams) : "";
+    const url = query ? `${path}?${query}` : path;
     const fullUrl = (url as string).startsWith('http') ? url : `${baseUrl}${url}`;
     
     const res = await fetch(fullUrl, {
@@ -0,0 +1,82 @@
+import type { AIContentField, AIContentValue } from "@shared/schema";
+
+export type DiffSegment = { type: "same" | "added" | "removed"; text: string };
+
+/**
+ * Word-level diff of two texts, from the longest common subsequence of their words. Whitespace is kept
+ * with the word before it so the segments join back into readable text.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\S+\s*/g) || [];
+  const b = after.match(/\S+\s*/g) || [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return segments;
+}
+
+/**
+ * A content value as editable text: quotes one per line, questions as "Q:" and "A:" pairs
+ */
+export function contentToText(field: AIContentField, value: AIContentValue | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (field === "quotes" && Array.isArray(value)) {
+    return (value as string[]).join("\n");
+  }
+  if (field === "comprehensionQA" && Array.isArray(value)) {
+    return (value as { question: string; answer: string }[])
+      .map(qa => `Q: ${qa.question}\nA: ${qa.answer}`)
+      .join("\n\n");
+  }
+  return String(value);
+}
+
+/**
+ * The reverse of contentToText. The server validates the result, so malformed text is passed through as is.
+ */
+export function textToContent(field: AIContentField, text: string): AIContentValue {
+  if (field === "quotes") {
+    return text.split("\n").map(line => line.trim()).filter(Boolean);
+  }
+  if (field === "comprehensionQA") {
+    return text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean).map(block => {
+      const match = block.match(/^Q:\s*([\s\S]*?)\nA:\s*([\s\S]*)$/);
+      return match
+        ? { question: match[1].trim(), answer: match[2].trim() }
+        : { question: block.replace(/^Q:\s*/, ""), answer: "" };
+    });
+  }
+  return text.trim();
+}
@@ -1,5 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,20 +7,29 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { BookOpen, Users, Shield, TrendingUp, LogOut, UserPlus, Edit, Trash2, ChevronUp, Bell, Send, Brain } from "lucide-react";
-import { useState, useMemo, memo } from "react";
+import { BookOpen, Users, Shield, TrendingUp, LogOut, UserPlus, Edit, Trash2, ChevronUp, Bell, Send, Brain, Clock, Play, Gauge, ClipboardCheck } from "lucide-react";
+import { useState, memo } from "react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Book, Transaction, User, TransactionStatus, Role } from "@shared/schema";
+import { Book, Transaction, User, TransactionStatus, Role, BackgroundJobStatus, Page, UserListItem } from "@shared/schema";
 import { AddBookModal } from "@/components/add-book-modal";
 import { AddUserModal } from "@/components/add-user-modal";
+import { CirculationPoliciesCard } from "@/components/circulation-policies-card";
+import { AcademicCalendarCard } from "@/components/academic-calendar-card";
+import { ReportsCard } from "@/components/reports-card";
+import { ReportSchedulesCard } from "@/components/report-schedules-card";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+import { PaginationControls } from "@/components/pagination-controls";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import FloatingLibraryElements from "@/components/FloatingLibraryElements";
 import { useLocation } from "wouter";
 
+const PAGE_SIZE = 20;
+
 const pushNotificationSchema = z.object({
   userId: z.string().optional(),
   title: z.string().min(1, "Title is required").max(100, "Title must be less than 100 characters"),
@@ -35,17 +44,72 @@ function AdminDashboard() {
   const [showAddUserModal, setShowAddUserModal] = useState(false);
   const [userSearchQuery, setUserSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState("");
+  const [userPage, setUserPage] = useState(1);
+  const [transactionStatusFilter, setTransactionStatusFilter] = useState("all");
+  const [transactionPage, setTransactionPage] = useState(1);
+  const debouncedUserSearch = useDebouncedValue(userSearchQuery);
+
+  const { data: usersPage, isLoading: usersLoading } = useQuery<Page<UserListItem>>({
+    queryKey: ["/api/users", {
+      page: userPage,
+      pageSize: PAGE_SIZE,
+      search: debouncedUserSearch,
+      role: roleFilter === "all" ? undefined : roleFilter,
+    }],
+    placeholderData: keepPreviousData,
+  });
+  const users = usersPage?.items ?? [];
 
-  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+  // Every user, for the push notification target picker
+  const { data: allUsers = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
 
-  const { data: books = [], isLoading: booksLoading } = useQuery<Book[]>({
-    queryKey: ["/api/books"],
+  const { data: transactionsPage, isLoading: transactionsLoading } = useQuery<Page<Transaction & { user: User; book: Book }>>({
+    queryKey: ["/api/transactions", {
+      page: transactionPage,
+      pageSize: PAGE_SIZE,
+      status: transactionStatusFilter === "all" ? undefined : transactionStatusFilter,
+    }],
+    placeholderData: keepPreviousData,
+  });
+  const transactions = transactionsPage?.items ?? [];
+
+  const { data: recentTransactions } = useQuery<Page<Transaction & { user: User; book: Book }>>({
+    queryKey: ["/api/transactions", { pageSize: 5 }],
+  });
+
+  // Dashboard counts come from page totals, so only one record per query is fetched
+  const { data: userCount } = useQuery<Page<UserListItem>>({ queryKey: ["/api/users", { pageSize: 1 }] });
+  const { data: librarianCount } = useQuery<Page<UserListItem>>({ queryKey: ["/api/users", { pageSize: 1, role: Role.LIBRARIAN }] });
+  const { data: bookCount } = useQuery<Page<Book>>({ queryKey: ["/api/books", { pageSize: 1 }] });
+  const { data: activeLoanCount } = useQuery<Page<Transaction>>({ queryKey: ["/api/transactions", { pageSize: 1, active: true }] });
+
+  const { data: backgroundJobs = [] } = useQuery<BackgroundJobStatus[]>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 60 * 1000,
   });
 
-  const { data: allTransactions = [], isLoading: transactionsLoading } = useQuery<(Transaction & { user: User; book: Book })[]>({
-    queryKey: ["/api/transactions"],
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Job completed",
+        description: "The background job ran successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to run job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const promoteUserMutation = useMutation({
@@ -123,24 +187,10 @@ function AdminDashboard() {
     },
   });
 
-  const filteredUsers = useMemo(() => {
-    return users.filter(u => {
-      const matchesSearch = userSearchQuery === "" || 
-        u.fullName.toLowerCase().includes(userSearchQuery.toLowerCase()) ||
-        u.email.toLowerCase().includes(userSearchQuery.toLowerCase());
-      const matchesRole = roleFilter === "" || roleFilter === "all" || u.role === roleFilter;
-      return matchesSearch && matchesRole;
-    });
-  }, [users, userSearchQuery, roleFilter]);
-
-  const { totalUsers, totalBooks, activeLoans, librarians } = useMemo(() => {
-    return {
-      totalUsers: users.length,
-      totalBooks: books.length,
-      activeLoans: allTransactions.filter(t => t.status === "BORROWED").length,
-      librarians: users.filter(u => u.role === "LIBRARIAN").length
-    };
-  }, [users, books, allTransactions]);
+  const totalUsers = userCount?.total ?? 0;
+  const totalBooks = bookCount?.total ?? 0;
+  const activeLoans = activeLoanCount?.total ?? 0;
+  const librarians = librarianCount?.total ?? 0;
 
   const handlePromoteUser = (userId: string, currentRole: Role) => {
     const nextRole = currentRole === "STUDENT" ? "LIBRARIAN" : "ADMIN";
@@ -202,12 +252,14 @@ function AdminDashboard() {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-5">
+          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-7">
             <TabsTrigger value="dashboard" data-testid="tab-dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="users" data-testid="tab-users">User Management</TabsTrigger>
             <TabsTrigger value="books" data-testid="tab-books">Book Management</TabsTrigger>
             <TabsTrigger value="transactions" data-testid="tab-transactions">All Transactions</TabsTrigger>
             <TabsTrigger value="notifications" data-testid="tab-notifications">Push Notifications</TabsTrigger>
+            <TabsTrigger value="reports" data-testid="tab-reports">Reports</TabsTrigger>
+            <TabsTrigger value="audit" data-testid="tab-audit">Audit Log</TabsTrigger>
           </TabsList>
 
           <TabsContent value="dashboard" className="space-y-6">
@@ -279,7 +331,25 @@ function AdminDashboard() {
             </div>
 
             {/* Quick Actions */}
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end gap-2 mb-4">
+              <Button
+                onClick={() => setLocation("/librarian/content-review")}
+                variant="outline"
+                className="flex items-center gap-2"
+                data-testid="button-content-review"
+              >
+                <ClipboardCheck className="h-4 w-4" />
+                AI Content Review
+              </Button>
+              <Button
+                onClick={() => setLocation("/admin/ai-usage")}
+                variant="outline"
+                className="flex items-center gap-2"
+                data-testid="button-ai-usage"
+              >
+                <Gauge className="h-4 w-4" />
+                AI Usage & Quotas
+              </Button>
               <Button
                 onClick={() => setLocation("/admin/ai-analytics")}
                 variant="outline"
@@ -299,12 +369,12 @@ function AdminDashboard() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {allTransactions.slice(0, 5).map((transaction) => (
+                    {(recentTransactions?.items ?? []).map((transaction) => (
                       <div key={transaction.id} className="flex items-center justify-between" data-testid={`activity-${transaction.id}`}>
                         <div className="flex items-center space-x-3">
                           <div className="w-2 h-2 bg-accent rounded-full"></div>
                           <span className="text-sm text-foreground">
-                            {transaction.status === "BORROWED" ? "New borrowing" : "Book returned"} by {transaction.user.fullName}
+                            {transaction.status !== "RETURNED" ? "New borrowing" : "Book returned"} by {transaction.user.fullName}
                           </span>
                         </div>
                         <span className="text-xs text-muted-foreground">
@@ -338,6 +408,62 @@ function AdminDashboard() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Background Jobs */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2" data-testid="title-background-jobs">
+                  <Clock className="h-5 w-5" />
+                  Background Jobs
+                </CardTitle>
+                <CardDescription>Scheduled maintenance tasks such as the overdue sweep</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {backgroundJobs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No background jobs registered</p>
+                ) : (
+                  <div className="space-y-4">
+                    {backgroundJobs.map((job) => (
+                      <div key={job.name} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2" data-testid={`job-${job.name}`}>
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-foreground">{job.name}</span>
+                            <Badge variant={job.lastError ? "destructive" : job.running ? "secondary" : "default"}>
+                              {job.running ? "Running" : job.lastError ? "Failed" : job.lastFinishedAt ? "OK" : "Pending"}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Last run: {job.lastFinishedAt ? new Date(job.lastFinishedAt).toLocaleString() : "never"}
+                            {job.lastDurationMs !== null && ` (${job.lastDurationMs}ms)`}
+                            {" · "}Every {Math.round(job.intervalMs / 60000)} min
+                          </p>
+                          {job.lastError && (
+                            <p className="text-xs text-destructive">{job.lastError}</p>
+                          )}
+                          {!job.lastError && job.lastResult != null && (
+                            <p className="text-xs text-muted-foreground font-mono">{JSON.stringify(job.lastResult)}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => runJobMutation.mutate(job.name)}
+                          disabled={job.running || runJobMutation.isPending}
+                          data-testid={`button-run-job-${job.name}`}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Run now
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <CirculationPoliciesCard />
+
+            <AcademicCalendarCard />
           </TabsContent>
 
           <TabsContent value="users" className="space-y-6">
@@ -363,11 +489,20 @@ function AdminDashboard() {
                     type="text"
                     placeholder="Search users by name or email..."
                     value={userSearchQuery}
-                    onChange={(e) => setUserSearchQuery(e.target.value)}
+                    onChange={(e) => {
+                      setUserSearchQuery(e.target.value);
+                      setUserPage(1);
+                    }}
                     data-testid="input-search-users"
                     className="flex-1"
                   />
-                  <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <Select
+                    value={roleFilter}
+                    onValueChange={(role) => {
+                      setRoleFilter(role);
+                      setUserPage(1);
+                    }}
+                  >
                     <SelectTrigger className="w-48" data-testid="select-role-filter">
                       <SelectValue placeholder="All Roles" />
                     </SelectTrigger>
@@ -403,9 +538,7 @@ function AdminDashboard() {
                         </tr>
                       </thead>
                       <tbody className="bg-card divide-y divide-border">
-                        {filteredUsers.map((u) => {
-                          const userTransactions = allTransactions.filter(t => t.userId === u.id && t.status === "BORROWED");
-                          
+                        {users.map((u) => {
                           return (
                             <tr key={u.id} className="hover:bg-muted/50" data-testid={`row-user-${u.id}`}>
                               <td className="px-6 py-4">
@@ -436,7 +569,7 @@ function AdminDashboard() {
                                 <Badge variant="default" data-testid={`badge-user-status-${u.id}`}>Active</Badge>
                               </td>
                               <td className="px-6 py-4 text-sm text-foreground" data-testid={`text-user-books-count-${u.id}`}>
-                                {userTransactions.length}
+                                {u.activeLoans}
                               </td>
                               <td className="px-6 py-4">
                                 <div className="flex space-x-2">
@@ -479,6 +612,7 @@ function AdminDashboard() {
                     </table>
                   </div>
                 )}
+                <PaginationControls page={usersPage} onPageChange={setUserPage} testId="users" />
               </CardContent>
             </Card>
           </TabsContent>
@@ -513,6 +647,25 @@ function AdminDashboard() {
               <p className="text-muted-foreground">Complete transaction oversight with administrative controls</p>
             </div>
 
+            <Select
+              value={transactionStatusFilter}
+              onValueChange={(status) => {
+                setTransactionStatusFilter(status);
+                setTransactionPage(1);
+              }}
+            >
+              <SelectTrigger className="w-48" data-testid="select-transaction-status-filter">
+                <SelectValue placeholder="All Statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value={TransactionStatus.BORROWED}>Borrowed</SelectItem>
+                <SelectItem value={TransactionStatus.OVERDUE}>Overdue</SelectItem>
+                <SelectItem value={TransactionStatus.RETURNED}>Returned</SelectItem>
+                <SelectItem value={TransactionStatus.CANCELLED}>Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+
             <Card>
               <CardContent className="p-0">
                 {transactionsLoading ? (
@@ -532,10 +685,9 @@ function AdminDashboard() {
                         </tr>
                       </thead>
                       <tbody className="bg-card divide-y divide-border">
-                        {allTransactions.map((transaction) => {
+                        {transactions.map((transaction) => {
                           const dueDate = new Date(transaction.dueDate);
-                          const today = new Date();
-                          const isOverdue = transaction.status === "BORROWED" && dueDate < today;
+                          const isOverdue = transaction.status === "OVERDUE";
 
                           return (
                             <tr key={transaction.id} className="hover:bg-muted/50" data-testid={`row-transaction-${transaction.id}`}>
@@ -574,11 +726,13 @@ function AdminDashboard() {
                                 <Badge 
                                   variant={
                                     transaction.status === "RETURNED" ? "default" :
+                                    transaction.status === "CANCELLED" ? "outline" :
                                     isOverdue ? "destructive" : "secondary"
                                   }
                                   data-testid={`badge-status-${transaction.id}`}
                                 >
                                   {transaction.status === "RETURNED" ? "Returned" :
+                                   transaction.status === "CANCELLED" ? "Cancelled" :
                                    isOverdue ? "Overdue" : "Borrowed"}
                                 </Badge>
                               </td>
@@ -589,6 +743,7 @@ function AdminDashboard() {
                     </table>
                   </div>
                 )}
+                <PaginationControls page={transactionsPage} onPageChange={setTransactionPage} testId="transactions" />
               </CardContent>
             </Card>
           </TabsContent>
@@ -632,7 +787,7 @@ function AdminDashboard() {
                                 <SelectItem value="all" data-testid="option-all-users">
                                   All Users
                                 </SelectItem>
-                                {users.map((user) => (
+                                {allUsers.map((user) => (
                                   <SelectItem 
                                     key={user.id} 
                                     value={user.id}
@@ -713,6 +868,17 @@ function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Reports Tab */}
+          <TabsContent value="reports" className="space-y-6">
+            <ReportsCard />
+            <ReportSchedulesCard />
+          </TabsContent>
+
+          {/* Audit Log Tab */}
+          <TabsContent value="audit" className="space-y-6">
+            <AuditLogViewer />
+          </TabsContent>
         </Tabs>
 
         <AddBookModal 
@@ -0,0 +1,11 @@
+import { AIContentReview } from "@/components/ai-content-review";
+
+export default function AIContentReviewPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <AIContentReview />
+      </div>
+    </div>
+  );
+}
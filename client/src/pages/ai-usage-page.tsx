@@ -0,0 +1,11 @@
+import { AIUsageDashboard } from "@/components/ai-usage-dashboard";
+
+export default function AIUsagePage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <AIUsageDashboard />
+      </div>
+    </div>
+  );
+}
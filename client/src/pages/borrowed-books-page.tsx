@@ -19,7 +19,7 @@ export default function BorrowedBooksPage() {
   });
 
   // Filter for currently borrowed books only
-  const borrowedTransactions = allTransactions.filter(t => t.status === "BORROWED");
+  const borrowedTransactions = allTransactions.filter(t => t.status !== "RETURNED");
 
   const returnBookMutation = useMutation({
     mutationFn: async (transactionId: string) => {
@@ -1,5 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,12 +9,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Calendar } from "@/components/ui/calendar";
-import { BookOpen, Users, Clock, TrendingUp, LogOut, Plus, Edit, Trash2, Upload, CheckCircle, CalendarIcon, Brain } from "lucide-react";
+import { BookOpen, Users, Clock, TrendingUp, LogOut, Plus, Edit, Trash2, Upload, CheckCircle, CalendarIcon, Brain, ScanBarcode, ClipboardCheck } from "lucide-react";
 import { useLocation } from "wouter";
-import { useState, useMemo, memo } from "react";
+import { useState, memo } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCirculationError } from "@/lib/policy";
 import { useToast } from "@/hooks/use-toast";
-import { Book, Transaction, User, BookRequest, ExtensionRequest, TransactionStatus, BookRequestStatus, ExtensionRequestStatus, Role } from "@shared/schema";
+import { Book, Transaction, User, BookRequest, ExtensionRequest, TransactionStatus, BookRequestStatus, ExtensionRequestStatus, Role, HoldStatus, HoldWithUserAndBook, Page } from "@shared/schema";
 import { AddBookModal } from "@/components/add-book-modal";
 import { EditBookModal } from "@/components/edit-book-modal";
 import { BorrowModal } from "@/components/borrow-modal";
@@ -24,6 +25,11 @@ import { ProfileDropdown } from "@/components/profile-dropdown";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { AIPopularityBadge } from "@/components/ai-popularity-badge";
 import { AIDueDateSuggestion } from "@/components/ai-due-date-suggestion";
+import { ReportsCard } from "@/components/reports-card";
+import { PaginationControls } from "@/components/pagination-controls";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+const PAGE_SIZE = 20;
 
 function LibrarianDashboard() {
   const { user, logoutMutation } = useAuth();
@@ -41,22 +47,55 @@ function LibrarianDashboard() {
   const [selectedDueDate, setSelectedDueDate] = useState<Date>();
   const [requestType, setRequestType] = useState<'book' | 'extension'>('book');
 
-  const { data: books = [], isLoading: booksLoading } = useQuery<Book[]>({
-    queryKey: ["/api/books"],
+  const [bookPage, setBookPage] = useState(1);
+  const [transactionPage, setTransactionPage] = useState(1);
+  const [requestPage, setRequestPage] = useState(1);
+  const debouncedSearchQuery = useDebouncedValue(searchQuery);
+
+  const { data: booksPage, isLoading: booksLoading } = useQuery<Page<Book>>({
+    queryKey: ["/api/books", {
+      page: bookPage,
+      pageSize: PAGE_SIZE,
+      search: debouncedSearchQuery,
+      category: categoryFilter === "all" ? undefined : categoryFilter,
+    }],
+    placeholderData: keepPreviousData,
+  });
+  const books = booksPage?.items ?? [];
+
+  const { data: transactionsPage, isLoading: transactionsLoading } = useQuery<Page<Transaction & { user: User; book: Book }>>({
+    queryKey: ["/api/transactions", { page: transactionPage, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+  });
+  const transactions = transactionsPage?.items ?? [];
+
+  const { data: recentTransactions, isLoading: recentTransactionsLoading } = useQuery<Page<Transaction & { user: User; book: Book }>>({
+    queryKey: ["/api/transactions", { pageSize: 5 }],
+  });
+
+  // Open loans drive the borrowed, overdue and active-user counts
+  const { data: activeTransactions = [] } = useQuery<Transaction[]>({
+    queryKey: ["/api/transactions/active"],
   });
 
-  const { data: allTransactions = [], isLoading: transactionsLoading } = useQuery<(Transaction & { user: User; book: Book })[]>({
-    queryKey: ["/api/transactions"],
+  const { data: bookCount } = useQuery<Page<Book>>({
+    queryKey: ["/api/books", { pageSize: 1 }],
   });
 
-  const { data: bookRequests = [], isLoading: requestsLoading } = useQuery<(BookRequest & { user: User; book: Book })[]>({
-    queryKey: ["/api/book-requests"],
+  const { data: bookRequestsPage, isLoading: requestsLoading } = useQuery<Page<BookRequest & { user: User; book: Book }>>({
+    queryKey: ["/api/book-requests", { page: requestPage, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
   });
+  const bookRequests = bookRequestsPage?.items ?? [];
 
   const { data: pendingRequests = [], isLoading: pendingRequestsLoading } = useQuery<(BookRequest & { user: User; book: Book })[]>({
     queryKey: ["/api/book-requests/pending"],
   });
 
+  const { data: activeHolds = [], isLoading: holdsLoading } = useQuery<HoldWithUserAndBook[]>({
+    queryKey: ["/api/holds"],
+  });
+
   const { data: extensionRequests = [], isLoading: extensionRequestsLoading } = useQuery<(ExtensionRequest & { user: User; transaction: Transaction & { book: Book } })[]>({
     queryKey: ["/api/extension-requests"],
   });
@@ -90,11 +129,21 @@ function LibrarianDashboard() {
       const res = await apiRequest("POST", `/api/book-requests/${requestId}/approve`, { dueDate: dueDate.toISOString() });
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/book-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/book-requests/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      // No copies were available, so the student was queued instead
+      if (result?.hold) {
+        toast({
+          title: "Student added to hold queue",
+          description: result.message,
+        });
+        return;
+      }
       toast({
         title: "Request approved successfully",
         description: "The book has been borrowed by the student",
@@ -102,7 +151,50 @@ function LibrarianDashboard() {
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to approve request",
+        ...describeCirculationError(error, "Failed to approve request"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkoutHoldMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      const res = await apiRequest("POST", `/api/holds/${holdId}/checkout`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/active"] });
+      toast({
+        title: "Hold checked out",
+        description: "The reserved copy has been borrowed by the student",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        ...describeCirculationError(error, "Failed to check out hold"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelHoldMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      const res = await apiRequest("POST", `/api/holds/${holdId}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      toast({
+        title: "Hold cancelled",
+        description: "Any reserved copy has been passed to the next patron",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel hold",
         description: error.message,
         variant: "destructive",
       });
@@ -140,6 +232,7 @@ function LibrarianDashboard() {
       queryClient.invalidateQueries({ queryKey: ["/api/extension-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/extension-requests/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/active"] });
       toast({
         title: "Extension approved successfully",
         description: "The extension request has been approved and the due date updated",
@@ -147,8 +240,7 @@ function LibrarianDashboard() {
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to approve extension",
-        description: error.message,
+        ...describeCirculationError(error, "Failed to approve extension"),
         variant: "destructive",
       });
     },
@@ -213,31 +305,11 @@ function LibrarianDashboard() {
     }
   };
 
-  const filteredBooks = useMemo(() => {
-    return books.filter(book => {
-      const matchesSearch = searchQuery === "" || 
-        book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        book.author.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesCategory = categoryFilter === "" || categoryFilter === "all" || book.category === categoryFilter;
-      return matchesSearch && matchesCategory;
-    }).slice(0, 10);
-  }, [books, searchQuery, categoryFilter]);
-
-  const { totalBooks, borrowedBooks, overdueBooks, activeUsers, totalPendingRequests } = useMemo(() => {
-    const borrowedTransactions = allTransactions.filter(t => t.status === "BORROWED");
-    const today = new Date();
-    
-    return {
-      totalBooks: books.length,
-      borrowedBooks: borrowedTransactions.length,
-      overdueBooks: borrowedTransactions.filter(t => {
-        const dueDate = new Date(t.dueDate);
-        return dueDate < today;
-      }).length,
-      activeUsers: new Set(borrowedTransactions.map(t => t.userId)).size,
-      totalPendingRequests: pendingRequests.length
-    };
-  }, [books, allTransactions, pendingRequests]);
+  const totalBooks = bookCount?.total ?? 0;
+  const borrowedBooks = activeTransactions.length;
+  const overdueBooks = activeTransactions.filter(t => t.status === "OVERDUE").length;
+  const activeUsers = new Set(activeTransactions.map(t => t.userId)).size;
+  const totalPendingRequests = pendingRequests.length;
 
   return (
     <div className="min-h-screen bg-background library-pattern relative pb-20 md:pb-0">
@@ -431,6 +503,15 @@ function LibrarianDashboard() {
               <BookOpen className="h-4 w-4 mr-2" />
               Borrow Book
             </Button>
+            <Button 
+              variant="outline" 
+              className="w-full justify-start" 
+              onClick={() => setLocation("/librarian/desk")}
+              data-testid="mobile-circulation-desk"
+            >
+              <ScanBarcode className="h-4 w-4 mr-2" />
+              Circulation Desk
+            </Button>
             <Button 
               variant="outline" 
               className="w-full justify-start" 
@@ -449,6 +530,15 @@ function LibrarianDashboard() {
               <Brain className="h-4 w-4 mr-2" />
               AI Analytics Dashboard
             </Button>
+            <Button 
+              variant="outline" 
+              className="w-full justify-start" 
+              onClick={() => setLocation("/librarian/content-review")}
+              data-testid="mobile-content-review"
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              AI Content Review
+            </Button>
           </CardContent>
         </Card>
       </div>
@@ -456,17 +546,27 @@ function LibrarianDashboard() {
       {/* Desktop Layout */}
       <div className="hidden md:block max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 md:py-8">
         <Tabs defaultValue="dashboard" className="space-y-4 md:space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-5 h-11 bg-muted p-1 rounded-lg">
+          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-6 h-11 bg-muted p-1 rounded-lg">
             <TabsTrigger value="dashboard" data-testid="tab-dashboard" className="text-xs sm:text-sm font-medium">Dashboard</TabsTrigger>
             <TabsTrigger value="requests" data-testid="tab-requests" className="text-xs sm:text-sm font-medium">Requests</TabsTrigger>
             <TabsTrigger value="extensions" data-testid="tab-extensions" className="text-xs sm:text-sm font-medium">Extensions</TabsTrigger>
             <TabsTrigger value="books" data-testid="tab-books" className="text-xs sm:text-sm font-medium">Books</TabsTrigger>
             <TabsTrigger value="transactions" data-testid="tab-transactions" className="text-xs sm:text-sm font-medium">Transactions</TabsTrigger>
+            <TabsTrigger value="reports" data-testid="tab-reports" className="text-xs sm:text-sm font-medium">Reports</TabsTrigger>
           </TabsList>
 
           <TabsContent value="dashboard" className="space-y-6">
             {/* Quick Actions */}
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end gap-2 mb-4">
+              <Button
+                onClick={() => setLocation("/librarian/content-review")}
+                variant="outline"
+                className="flex items-center gap-2"
+                data-testid="button-content-review-librarian"
+              >
+                <ClipboardCheck className="h-4 w-4" />
+                AI Content Review
+              </Button>
               <Button
                 onClick={() => setLocation("/librarian/ai-analytics")}
                 variant="outline"
@@ -575,13 +675,13 @@ function LibrarianDashboard() {
                 <CardTitle data-testid="title-recent-activity" className="library-heading">Recent Activity</CardTitle>
               </CardHeader>
               <CardContent>
-                {transactionsLoading ? (
+                {recentTransactionsLoading ? (
                   <div className="text-center py-8">
                     <p className="text-muted-foreground">Loading recent activity...</p>
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {allTransactions.slice(0, 5).map((transaction) => (
+                    {(recentTransactions?.items ?? []).map((transaction) => (
                       <div key={transaction.id} className="flex items-center space-x-4" data-testid={`activity-${transaction.id}`}>
                         <div className="w-8 h-8 bg-accent/10 rounded-full flex items-center justify-center">
                           <BookOpen className="h-4 w-4 text-accent" />
@@ -591,7 +691,7 @@ function LibrarianDashboard() {
                             <span className="font-medium" data-testid={`text-activity-user-${transaction.id}`}>
                               {transaction.user.fullName}
                             </span>{" "}
-                            {transaction.status === "BORROWED" ? "borrowed" : "returned"}{" "}
+                            {transaction.status !== "RETURNED" ? "borrowed" : "returned"}{" "}
                             <span className="font-medium" data-testid={`text-activity-book-${transaction.id}`}>
                               "{transaction.book.title}"
                             </span>
@@ -707,6 +807,90 @@ function LibrarianDashboard() {
               </CardContent>
             </Card>
 
+            {/* Hold Queue */}
+            <Card>
+              <CardHeader>
+                <CardTitle data-testid="title-hold-queue">Hold Queue ({activeHolds.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {holdsLoading ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">Loading holds...</p>
+                  </div>
+                ) : activeHolds.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No active holds</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-muted/50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Student</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Book</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Placed</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-card divide-y divide-border">
+                        {activeHolds.map((hold) => (
+                          <tr key={hold.id} className="hover:bg-muted/50" data-testid={`row-hold-${hold.id}`}>
+                            <td className="px-6 py-4">
+                              <div className="text-sm font-medium text-foreground">{hold.user.fullName}</div>
+                              <div className="text-sm text-muted-foreground">{hold.user.username}</div>
+                            </td>
+                            <td className="px-6 py-4">
+                              <div className="text-sm font-medium text-foreground">{hold.book.title}</div>
+                              <div className="text-sm text-muted-foreground">{hold.book.author}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-foreground">
+                              {new Date(hold.createdAt).toLocaleDateString()}
+                            </td>
+                            <td className="px-6 py-4">
+                              {hold.status === HoldStatus.READY ? (
+                                <Badge variant="default" data-testid={`badge-hold-status-${hold.id}`}>
+                                  On hold shelf until {hold.pickupDeadline ? new Date(hold.pickupDeadline).toLocaleDateString() : "—"}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" data-testid={`badge-hold-status-${hold.id}`}>
+                                  Waiting #{hold.queuePosition}
+                                </Badge>
+                              )}
+                            </td>
+                            <td className="px-6 py-4">
+                              <div className="flex space-x-2">
+                                {hold.status === HoldStatus.READY && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => checkoutHoldMutation.mutate(hold.id)}
+                                    disabled={checkoutHoldMutation.isPending}
+                                    data-testid={`button-checkout-hold-${hold.id}`}
+                                  >
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Check Out
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => cancelHoldMutation.mutate(hold.id)}
+                                  disabled={cancelHoldMutation.isPending}
+                                  data-testid={`button-cancel-hold-${hold.id}`}
+                                >
+                                  Cancel
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* All Requests */}
             <Card>
               <CardHeader>
@@ -785,6 +969,7 @@ function LibrarianDashboard() {
                     </table>
                   </div>
                 )}
+                <PaginationControls page={bookRequestsPage} onPageChange={setRequestPage} testId="book-requests" />
               </CardContent>
             </Card>
           </TabsContent>
@@ -999,6 +1184,14 @@ function LibrarianDashboard() {
                 <p className="text-muted-foreground">Add, edit, and organize the library collection</p>
               </div>
               <div className="flex space-x-2">
+                <Button
+                  onClick={() => setLocation("/librarian/desk")}
+                  variant="outline"
+                  data-testid="button-circulation-desk"
+                >
+                  <ScanBarcode className="h-4 w-4 mr-2" />
+                  Circulation Desk
+                </Button>
                 <Button
                   onClick={() => setShowBorrowModal(true)}
                   variant="outline"
@@ -1033,11 +1226,20 @@ function LibrarianDashboard() {
                     type="text"
                     placeholder="Search books..."
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value);
+                      setBookPage(1);
+                    }}
                     data-testid="input-search-books"
                     className="flex-1"
                   />
-                  <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <Select
+                    value={categoryFilter}
+                    onValueChange={(category) => {
+                      setCategoryFilter(category);
+                      setBookPage(1);
+                    }}
+                  >
                     <SelectTrigger className="w-48" data-testid="select-category-filter">
                       <SelectValue placeholder="All Categories" />
                     </SelectTrigger>
@@ -1090,7 +1292,7 @@ function LibrarianDashboard() {
                         </tr>
                       </thead>
                       <tbody className="bg-card divide-y divide-border">
-                        {filteredBooks.map((book) => (
+                        {books.map((book) => (
                           <tr key={book.id} className="hover:bg-muted/50" data-testid={`row-book-${book.id}`}>
                             <td className="px-6 py-4">
                               <div className="flex items-center">
@@ -1168,6 +1370,7 @@ function LibrarianDashboard() {
                     </table>
                   </div>
                 )}
+                <PaginationControls page={booksPage} onPageChange={setBookPage} testId="books" />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1197,10 +1400,9 @@ function LibrarianDashboard() {
                         </tr>
                       </thead>
                       <tbody className="bg-card divide-y divide-border">
-                        {allTransactions.map((transaction) => {
+                        {transactions.map((transaction) => {
                           const dueDate = new Date(transaction.dueDate);
-                          const today = new Date();
-                          const isOverdue = transaction.status === "BORROWED" && dueDate < today;
+                          const isOverdue = transaction.status === "OVERDUE";
 
                           return (
                             <tr key={transaction.id} className="hover:bg-muted/50" data-testid={`row-transaction-${transaction.id}`}>
@@ -1239,11 +1441,13 @@ function LibrarianDashboard() {
                                 <Badge 
                                   variant={
                                     transaction.status === "RETURNED" ? "default" :
+                                    transaction.status === "CANCELLED" ? "outline" :
                                     isOverdue ? "destructive" : "secondary"
                                   }
                                   data-testid={`badge-status-${transaction.id}`}
                                 >
                                   {transaction.status === "RETURNED" ? "Returned" :
+                                   transaction.status === "CANCELLED" ? "Cancelled" :
                                    isOverdue ? "Overdue" : "Borrowed"}
                                 </Badge>
                               </td>
@@ -1254,9 +1458,14 @@ function LibrarianDashboard() {
                     </table>
                   </div>
                 )}
+                <PaginationControls page={transactionsPage} onPageChange={setTransactionPage} testId="transactions" />
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="reports" className="space-y-6">
+            <ReportsCard />
+          </TabsContent>
         </Tabs>
 
         <AddBookModal 
@@ -0,0 +1,334 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCirculationError } from "@/lib/policy";
+import { useToast } from "@/hooks/use-toast";
+import { DeskAction, DeskItemResult, DeskPatron, DeskScanResult } from "@shared/schema";
+import { ArrowLeft, ScanBarcode, User as UserIcon, Undo2, Printer, CheckCircle, XCircle, BookOpen } from "lucide-react";
+
+interface DeskEvent {
+  id: number;
+  ok: boolean;
+  message: string;
+  at: Date;
+  result?: DeskItemResult;
+  undone?: boolean;
+}
+
+// Short beep for scanner feedback: a high tone on success, a low buzz on errors
+function playTone(ok: boolean) {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context = new AudioContextClass();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = ok ? "sine" : "square";
+    oscillator.frequency.value = ok ? 880 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.onended = () => context.close();
+    oscillator.start();
+    oscillator.stop(context.currentTime + (ok ? 0.12 : 0.35));
+  } catch {
+    // Audio is best effort; the visual feedback still shows
+  }
+}
+
+export default function LibrarianDesk() {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const nextEventId = useRef(1);
+  const [code, setCode] = useState("");
+  const [patronId, setPatronId] = useState<string | null>(null);
+  const [events, setEvents] = useState<DeskEvent[]>([]);
+  const [flash, setFlash] = useState<"ok" | "error" | null>(null);
+
+  const { data: patron } = useQuery<DeskPatron>({
+    queryKey: [`/api/desk/patrons/${patronId}`],
+    enabled: !!patronId,
+  });
+
+  // Scanners type like a keyboard, so the scan field keeps focus between scans
+  const focusScanner = () => setTimeout(() => inputRef.current?.focus(), 0);
+  useEffect(() => {
+    focusScanner();
+  }, []);
+
+  useEffect(() => {
+    if (!flash) return;
+    const timer = setTimeout(() => setFlash(null), 600);
+    return () => clearTimeout(timer);
+  }, [flash]);
+
+  const feedback = (ok: boolean) => {
+    playTone(ok);
+    setFlash(ok ? "ok" : "error");
+  };
+
+  const logEvent = (event: Omit<DeskEvent, "id" | "at">) => {
+    setEvents((current) => [{ ...event, id: nextEventId.current++, at: new Date() }, ...current]);
+  };
+
+  const refreshPatron = () => {
+    if (patronId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/desk/patrons/${patronId}`] });
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async (scannedCode: string) => {
+      const res = await apiRequest("POST", "/api/desk/scan", { code: scannedCode, patronId: patronId || undefined });
+      return (await res.json()) as DeskScanResult;
+    },
+    onSuccess: (result) => {
+      feedback(true);
+      if (result.kind === "PATRON") {
+        // A new patron card starts a new session
+        setPatronId(result.patron.user.id);
+        queryClient.setQueryData([`/api/desk/patrons/${result.patron.user.id}`], result.patron);
+        setEvents([]);
+        logEvent({ ok: true, message: `Patron loaded: ${result.patron.user.fullName}` });
+        return;
+      }
+      logEvent({ ok: true, message: result.message, result });
+      refreshPatron();
+    },
+    onError: (error: Error) => {
+      feedback(false);
+      logEvent({ ok: false, message: describeCirculationError(error, "Scan failed").description });
+    },
+    onSettled: focusScanner,
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (event: DeskEvent) => {
+      const res = await apiRequest("POST", "/api/desk/undo", {
+        action: event.result!.action,
+        transactionId: event.result!.transaction.id,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }, event) => {
+      feedback(true);
+      setEvents((current) => current.map((e) => (e.id === event.id ? { ...e, undone: true } : e)));
+      logEvent({ ok: true, message: `${data.message}: "${event.result!.book.title}"` });
+      refreshPatron();
+    },
+    onError: (error: Error) => {
+      feedback(false);
+      toast({
+        title: "Undo failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: focusScanner,
+  });
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    setCode("");
+    if (scanned) {
+      scanMutation.mutate(scanned);
+    }
+  };
+
+  const checkouts = events.filter((e) => e.result?.action === DeskAction.CHECKED_OUT && !e.undone);
+
+  const endSession = () => {
+    if (checkouts.length > 0) {
+      window.print();
+    }
+    setPatronId(null);
+    setEvents([]);
+    focusScanner();
+  };
+
+  return (
+    <div className="min-h-screen bg-background library-pattern relative">
+      <div className="print:hidden">
+        <header className="bg-card border-b border-border elegant-shadow relative z-10">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <Link href="/librarian">
+                <Button variant="ghost" size="sm" data-testid="button-back-to-dashboard">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+              <div className="flex items-center">
+                <ScanBarcode className="h-6 w-6 sm:h-8 sm:w-8 text-primary mr-2 sm:mr-3" />
+                <h1 className="text-lg sm:text-xl library-heading">Circulation Desk</h1>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          <Card
+            className={`transition-colors ${flash === "ok" ? "border-green-500 bg-green-50 dark:bg-green-950" : flash === "error" ? "border-red-500 bg-red-50 dark:bg-red-950" : ""}`}
+          >
+            <CardContent className="p-6">
+              <form onSubmit={handleScan} className="flex gap-2">
+                <Input
+                  ref={inputRef}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder={patron ? "Scan an item to check it out or in" : "Scan a patron card, or an item to check it in"}
+                  className="text-lg h-12 font-mono"
+                  autoComplete="off"
+                  data-testid="input-desk-scan"
+                />
+                <Button type="submit" className="h-12" disabled={scanMutation.isPending} data-testid="button-desk-scan">
+                  <ScanBarcode className="h-4 w-4 mr-2" />
+                  Scan
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserIcon className="h-5 w-5" />
+                  Patron
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!patron ? (
+                  <p className="text-sm text-muted-foreground">No patron at the desk. Scan a library card to start.</p>
+                ) : (
+                  <>
+                    <div data-testid="desk-patron">
+                      <p className="font-semibold text-foreground">{patron.user.fullName}</p>
+                      <p className="text-sm text-muted-foreground">{patron.user.studentId || patron.user.username}</p>
+                      {patron.borrowingBlocked && (
+                        <Badge variant="destructive" className="mt-2">Borrowing blocked - outstanding fines</Badge>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Loans ({patron.loans.length})</p>
+                      {patron.loans.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No open loans</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {patron.loans.map((loan) => (
+                            <li key={loan.id} className="text-sm flex justify-between gap-2">
+                              <span className="truncate">{loan.book.title}</span>
+                              <span className={loan.status === "OVERDUE" ? "text-red-600" : "text-muted-foreground"}>
+                                {new Date(loan.dueDate).toLocaleDateString()}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    {patron.readyHolds.length > 0 && (
+                      <div>
+                        <p className="text-xs font-medium text-muted-foreground uppercase mb-1">On the hold shelf</p>
+                        <ul className="space-y-1">
+                          {patron.readyHolds.map((hold) => (
+                            <li key={hold.id} className="text-sm">{hold.book.title}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <Button variant="outline" className="w-full" onClick={endSession} data-testid="button-end-session">
+                      <Printer className="h-4 w-4 mr-2" />
+                      {checkouts.length > 0 ? "End Session & Print Slip" : "End Session"}
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  This Session
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Scans will appear here</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {events.map((event) => (
+                      <li
+                        key={event.id}
+                        className={`flex items-center gap-3 p-3 border rounded-lg ${event.undone ? "opacity-50 line-through" : ""}`}
+                        data-testid={`desk-event-${event.id}`}
+                      >
+                        {event.ok ? (
+                          <CheckCircle className="h-5 w-5 text-green-600 shrink-0" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-red-600 shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-foreground">{event.message}</p>
+                          <p className="text-xs text-muted-foreground">{event.at.toLocaleTimeString()}</p>
+                        </div>
+                        {event.result && !event.undone && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => undoMutation.mutate(event)}
+                            disabled={undoMutation.isPending}
+                            data-testid={`button-undo-${event.id}`}
+                          >
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            Undo
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Printable slip; only rendered on paper */}
+      {patron && (
+        <div className="hidden print:block p-8 text-black bg-white" data-testid="desk-slip">
+          <h1 className="text-xl font-bold">Library Assist - Loan Slip</h1>
+          <p className="text-sm">{patron.user.fullName} ({patron.user.studentId || patron.user.username})</p>
+          <p className="text-sm mb-4">{new Date().toLocaleString()}</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-black">
+                <th className="text-left py-1">Title</th>
+                <th className="text-left py-1">Barcode</th>
+                <th className="text-left py-1">Due</th>
+              </tr>
+            </thead>
+            <tbody>
+              {checkouts.map((event) => (
+                <tr key={event.id}>
+                  <td className="py-1">{event.result!.book.title}</td>
+                  <td className="py-1 font-mono">{event.result!.item.barcode}</td>
+                  <td className="py-1">{new Date(event.result!.transaction.dueDate).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs mt-4">Please return items by their due date. Renew online from My Borrowed Books.</p>
+        </div>
+      )}
+    </div>
+  );
+}
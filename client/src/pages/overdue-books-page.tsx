@@ -14,13 +14,8 @@ export default function OverdueBooksPage() {
     queryKey: ["/api/transactions"],
   });
 
-  // Filter for overdue books only
-  const overdueTransactions = allTransactions.filter(t => {
-    if (t.status !== "BORROWED") return false;
-    const dueDate = new Date(t.dueDate);
-    const today = new Date();
-    return dueDate < today;
-  });
+  // Filter for overdue books only (status is set by the server-side overdue sweeper)
+  const overdueTransactions = allTransactions.filter(t => t.status === "OVERDUE");
 
   return (
     <div className="min-h-screen bg-background">
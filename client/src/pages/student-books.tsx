@@ -1,29 +1,63 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { BookOpen, Search, Filter, Sparkles, RefreshCw, ArrowLeft } from "lucide-react";
+import { BookOpen, Search, Sparkles, RefreshCw, ArrowLeft } from "lucide-react";
 import { useState, useMemo, memo, useCallback, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCirculationError } from "@/lib/policy";
 import { useToast } from "@/hooks/use-toast";
 import { useFavorites } from "@/hooks/use-favorites";
-import { Book } from "@shared/schema";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { Book, CatalogAvailability, CatalogSearchHit, CatalogSearchResult } from "@shared/schema";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { MobileBookCard } from "@/components/mobile-book-card";
+import { PaginationControls } from "@/components/pagination-controls";
+import { CatalogFacetFilters, CatalogFilters, HighlightedText, emptyCatalogFilters } from "@/components/catalog-facet-filters";
+
+const PAGE_SIZE = 24;
+
+function matchesFilters(book: Book, filters: CatalogFilters) {
+  const same = (value: string | null | undefined, filter: string) => !filter || value?.toLowerCase() === filter.toLowerCase();
+  const availability = book.availableCopies > 0 ? CatalogAvailability.AVAILABLE : CatalogAvailability.CHECKED_OUT;
+  return same(book.category, filters.category) &&
+    same(book.author, filters.author) &&
+    same(book.publisher, filters.publisher) &&
+    same(availability, filters.availability);
+}
 
 function StudentBooks() {
   const { toast } = useToast();
   const { toggleFavorite, isFavorite } = useFavorites();
   const [searchQuery, setSearchQuery] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState("");
+  const [filters, setFilters] = useState<CatalogFilters>(emptyCatalogFilters);
+  const [page, setPage] = useState(1);
   const [isIntelligentSearch, setIsIntelligentSearch] = useState(false);
   const [intelligentResults, setIntelligentResults] = useState<Book[]>([]);
   const [isSearching, setIsSearching] = useState(false);
 
-  const { data: availableBooks = [], isLoading: booksLoading } = useQuery<Book[]>({
-    queryKey: ["/api/books/available"],
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  // Start from the first page whenever the search changes
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery, filters]);
+
+  const { data: searchResult, isLoading: booksLoading } = useQuery<CatalogSearchResult>({
+    queryKey: ["/api/books/search", {
+      q: debouncedQuery,
+      category: filters.category || undefined,
+      author: filters.author || undefined,
+      publisher: filters.publisher || undefined,
+      availability: filters.availability || undefined,
+      page,
+      pageSize: PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const { data: catalogSize } = useQuery<CatalogSearchResult>({ queryKey: ["/api/books/search", { pageSize: 1 }] });
+  const totalBooks = catalogSize?.total ?? 0;
 
   const requestMutation = useMutation({
     mutationFn: async ({ bookId, notes }: { bookId: string; notes?: string }) => {
@@ -46,6 +80,26 @@ function StudentBooks() {
     },
   });
 
+  const holdMutation = useMutation({
+    mutationFn: async (bookId: string) => {
+      const res = await apiRequest("POST", "/api/holds", { bookId });
+      return await res.json();
+    },
+    onSuccess: (hold) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds/my"] });
+      toast({
+        title: "Hold placed",
+        description: `You are number ${hold.queuePosition} in line. We'll notify you when a copy is ready.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        ...describeCirculationError(error, "Failed to place hold"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Intelligent search function
   const performIntelligentSearch = useCallback(async (query: string) => {
     if (!query.trim()) {
@@ -96,29 +150,23 @@ function StudentBooks() {
     return () => clearTimeout(timeoutId);
   }, [searchQuery, isIntelligentSearch, performIntelligentSearch]);
 
-  const filteredBooks = useMemo(() => {
-    // Use intelligent search results if intelligent search is active and has results
-    const booksToFilter = isIntelligentSearch && intelligentResults.length > 0 
-      ? intelligentResults 
-      : availableBooks;
-
-    // For intelligent search, apply only category filter (search is already done by AI)
-    if (isIntelligentSearch && intelligentResults.length > 0) {
-      return booksToFilter.filter(book => {
-        const matchesCategory = categoryFilter === "" || categoryFilter === "all" || book.category === categoryFilter;
-        return matchesCategory;
-      });
+  // AI search returns a plain ranked list, so the facet chips are applied to it here
+  const showingIntelligentResults = isIntelligentSearch && intelligentResults.length > 0;
+  const hits = useMemo<CatalogSearchHit[]>(() => {
+    if (showingIntelligentResults) {
+      return intelligentResults
+        .filter(book => matchesFilters(book, filters))
+        .map(book => ({ book, score: 0, highlights: {} }));
     }
+    return searchResult?.items ?? [];
+  }, [showingIntelligentResults, intelligentResults, filters, searchResult]);
+  const resultCount = showingIntelligentResults ? hits.length : searchResult?.total ?? 0;
 
-    // For regular search, apply both search and category filters
-    return booksToFilter.filter(book => {
-      const matchesSearch = searchQuery === "" || 
-        book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        book.author.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesCategory = categoryFilter === "" || categoryFilter === "all" || book.category === categoryFilter;
-      return matchesSearch && matchesCategory;
-    });
-  }, [availableBooks, intelligentResults, searchQuery, categoryFilter, isIntelligentSearch]);
+  const clearFilters = () => {
+    setSearchQuery("");
+    setFilters(emptyCatalogFilters);
+    setIntelligentResults([]);
+  };
 
   return (
     <div className="min-h-screen bg-background pb-20 md:pb-0">
@@ -154,7 +202,7 @@ function StudentBooks() {
               </div>
               <h1 className="text-4xl font-bold mb-3">Library Collection</h1>
               <p className="text-xl opacity-90 max-w-2xl mx-auto">
-                Discover and explore our complete catalog of {availableBooks.length} books
+                Discover and explore our complete catalog of {totalBooks} books
               </p>
             </div>
           </div>
@@ -204,7 +252,7 @@ function StudentBooks() {
           </CardHeader>
           <CardContent className="space-y-6 p-6">
             <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
-              <div className="relative md:col-span-8">
+              <div className="relative md:col-span-12">
                 <Input
                   type="text"
                   placeholder={
@@ -230,40 +278,19 @@ function StudentBooks() {
                   )}
                 </div>
               </div>
-              
-              <div className="md:col-span-4">
-                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-                  <SelectTrigger data-testid="books-category-filter" className="h-12 bg-background border-2 focus:border-primary transition-colors">
-                    <Filter className="h-4 w-4 mr-2" />
-                    <SelectValue placeholder="All Categories" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Categories</SelectItem>
-                    <SelectItem value="fiction">Fiction</SelectItem>
-                    <SelectItem value="science">Science</SelectItem>
-                    <SelectItem value="history">History</SelectItem>
-                    <SelectItem value="technology">Technology</SelectItem>
-                    <SelectItem value="non-fiction">Non-Fiction</SelectItem>
-                    <SelectItem value="mystery">Mystery</SelectItem>
-                    <SelectItem value="self-help">Self-Help</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
             </div>
+
+            <CatalogFacetFilters facets={searchResult?.facets} filters={filters} onChange={setFilters} />
             
-            {(searchQuery || categoryFilter) && (
+            {(searchQuery || hasFilters) && (
               <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
                 <div className="flex items-center gap-2">
                   <div className="w-2 h-2 bg-primary rounded-full"></div>
-                  <span className="text-sm font-medium">Showing {filteredBooks.length} of {availableBooks.length} books</span>
+                  <span className="text-sm font-medium" data-testid="text-result-count">Showing {resultCount} of {totalBooks} books</span>
                 </div>
-                {(searchQuery || categoryFilter) && (
+                {(searchQuery || hasFilters) && (
                   <Button
-                    onClick={() => {
-                      setSearchQuery("");
-                      setCategoryFilter("");
-                      setIntelligentResults([]);
-                    }}
+                    onClick={clearFilters}
                     variant="ghost"
                     size="sm"
                     data-testid="clear-filters-button"
@@ -285,11 +312,11 @@ function StudentBooks() {
                 <div className="p-2 bg-primary/10 rounded-lg">
                   <BookOpen className="h-5 w-5 text-primary" />
                 </div>
-                <span>Available Books</span>
+                <span>Books</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="px-3 py-1.5 bg-primary/10 text-primary rounded-full text-sm font-medium">
-                  {filteredBooks.length} books
+                  {resultCount} books
                 </div>
               </div>
             </CardTitle>
@@ -310,27 +337,24 @@ function StudentBooks() {
                   </div>
                 </div>
               </div>
-            ) : filteredBooks.length === 0 ? (
+            ) : hits.length === 0 ? (
               <div className="text-center py-20">
                 <div className="max-w-md mx-auto">
                   <div className="w-24 h-24 bg-muted/50 rounded-full flex items-center justify-center mx-auto mb-6">
                     <BookOpen className="h-12 w-12 text-muted-foreground" />
                   </div>
                   <h3 className="text-2xl font-semibold text-foreground mb-3">
-                    {searchQuery || categoryFilter ? "No books found" : "No books available"}
+                    {searchQuery || hasFilters ? "No books found" : "No books available"}
                   </h3>
                   <p className="text-muted-foreground mb-6 leading-relaxed">
-                    {searchQuery || categoryFilter 
+                    {searchQuery || hasFilters 
                       ? "We couldn't find any books matching your criteria. Try adjusting your search terms or browse different categories." 
                       : "Our library collection is being updated. Check back soon for new additions!"
                     }
                   </p>
-                  {(searchQuery || categoryFilter) && (
+                  {(searchQuery || hasFilters) && (
                     <Button
-                      onClick={() => {
-                        setSearchQuery("");
-                        setCategoryFilter("");
-                      }}
+                      onClick={clearFilters}
                       variant="outline"
                       className="mt-4"
                     >
@@ -341,19 +365,20 @@ function StudentBooks() {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                {filteredBooks.map((book) => (
+                {hits.map(({ book }) => (
                   <div key={book.id} className="md:hidden">
                     <MobileBookCard
                       book={book}
                       onRequest={(bookId) => requestMutation.mutate({ bookId })}
+                      onPlaceHold={(bookId) => holdMutation.mutate(bookId)}
                       onToggleFavorite={toggleFavorite}
                       isFavorite={isFavorite(book.id)}
-                      isRequesting={requestMutation.isPending}
+                      isRequesting={requestMutation.isPending || holdMutation.isPending}
                     />
                   </div>
                 ))}
                 {/* Desktop Book Cards */}
-                {filteredBooks.map((book) => (
+                {hits.map(({ book, highlights }) => (
                   <div key={`desktop-${book.id}`} className="hidden md:block">
                     <Card className="group border-0 shadow-md bg-gradient-to-br from-white to-slate-50 dark:from-card dark:to-slate-900">
                       <CardContent className="p-6">
@@ -367,10 +392,10 @@ function StudentBooks() {
                             </div>
                             <div className="flex-1 min-w-0">
                               <h3 className="font-semibold text-lg text-foreground line-clamp-2 mb-2" data-testid={`text-book-title-${book.id}`}>
-                                {book.title}
+                                <HighlightedText segments={highlights.title} text={book.title} />
                               </h3>
                               <p className="text-muted-foreground text-sm mb-1" data-testid={`text-book-author-${book.id}`}>
-                                by {book.author}
+                                by <HighlightedText segments={highlights.author} text={book.author} />
                               </p>
                               {book.isbn && (
                                 <p className="text-xs text-muted-foreground" data-testid={`text-book-isbn-${book.id}`}>
@@ -380,6 +405,12 @@ function StudentBooks() {
                             </div>
                           </div>
 
+                          {highlights.description && (
+                            <p className="text-xs text-muted-foreground mb-4 line-clamp-3" data-testid={`text-book-snippet-${book.id}`}>
+                              <HighlightedText segments={highlights.description} text={book.description || ""} />
+                            </p>
+                          )}
+
                           {/* Category & Availability */}
                           <div className="flex items-center justify-between mb-4">
                             <div className="px-2.5 py-1 bg-primary/10 text-primary rounded-full text-xs font-medium" data-testid={`badge-book-category-${book.id}`}>
@@ -414,8 +445,8 @@ function StudentBooks() {
                             </button>
                             
                             <Button
-                              onClick={() => requestMutation.mutate({ bookId: book.id })}
-                              disabled={requestMutation.isPending || book.availableCopies === 0}
+                              onClick={() => book.availableCopies === 0 ? holdMutation.mutate(book.id) : requestMutation.mutate({ bookId: book.id })}
+                              disabled={requestMutation.isPending || holdMutation.isPending}
                               data-testid={`button-request-${book.id}`}
                               className="flex-1 ml-3 disabled:opacity-50"
                               size="sm"
@@ -426,7 +457,7 @@ function StudentBooks() {
                                   <span className="text-xs">Requesting...</span>
                                 </div>
                               ) : book.availableCopies === 0 ? (
-                                "Unavailable"
+                                "Place Hold"
                               ) : (
                                 "Request Book"
                               )}
@@ -440,10 +471,13 @@ function StudentBooks() {
               </div>
             )}
           </CardContent>
+          {!showingIntelligentResults && (
+            <PaginationControls page={searchResult} onPageChange={setPage} testId="books" />
+          )}
         </Card>
 
         {/* Library Stats & Info */}
-        {filteredBooks.length > 0 && (
+        {hits.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card className="bg-gradient-to-br from-blue-50 to-cyan-50 dark:from-blue-950 dark:to-cyan-950 border-0 shadow-lg">
               <CardContent className="p-6 text-center">
@@ -451,7 +485,7 @@ function StudentBooks() {
                   <BookOpen className="h-6 w-6 text-white" />
                 </div>
                 <div className="text-2xl font-bold text-blue-900 dark:text-blue-100 mb-1">
-                  {availableBooks.length}
+                  {totalBooks}
                 </div>
                 <p className="text-blue-700 dark:text-blue-300 text-sm font-medium">
                   Total Books
@@ -465,7 +499,7 @@ function StudentBooks() {
                   <Search className="h-6 w-6 text-white" />
                 </div>
                 <div className="text-2xl font-bold text-purple-900 dark:text-purple-100 mb-1">
-                  {filteredBooks.length}
+                  {resultCount}
                 </div>
                 <p className="text-purple-700 dark:text-purple-300 text-sm font-medium">
                   Search Results
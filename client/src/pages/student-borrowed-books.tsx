@@ -1,21 +1,74 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, ArrowLeft, Clock } from "lucide-react";
+import { BookOpen, ArrowLeft, Clock, RefreshCw } from "lucide-react";
 import { Link } from "wouter";
-import { Transaction, Book } from "@shared/schema";
+import { Transaction, Book, RenewalMethod, RenewalResult } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCirculationError } from "@/lib/policy";
+import { useToast } from "@/hooks/use-toast";
+
+function RenewalHistory({ transaction }: { transaction: Transaction }) {
+  const renewals = transaction.renewals || [];
+  if (renewals.length === 0) {
+    return <p className="text-xs text-muted-foreground">Not renewed</p>;
+  }
+
+  return (
+    <div className="space-y-1" data-testid={`list-renewals-${transaction.id}`}>
+      <p className="text-xs font-medium text-foreground">
+        Renewed {renewals.length} time{renewals.length === 1 ? "" : "s"}
+      </p>
+      {renewals.map((renewal, index) => (
+        <p key={index} className="text-xs text-muted-foreground">
+          {new Date(renewal.renewedAt).toLocaleDateString()}: due {new Date(renewal.previousDueDate).toLocaleDateString()} → {new Date(renewal.newDueDate).toLocaleDateString()}
+          {renewal.method === RenewalMethod.EXTENSION_REQUEST ? " (approved by librarian)" : ""}
+        </p>
+      ))}
+    </div>
+  );
+}
 
 export default function StudentBorrowedBooks() {
   const { user } = useAuth();
+  const { toast } = useToast();
 
   const { data: myTransactions = [], isLoading: transactionsLoading } = useQuery<(Transaction & { book: Book })[]>({
     queryKey: ["/api/transactions/my"],
   });
 
+  const renewMutation = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const res = await apiRequest("POST", `/api/transactions/${transactionId}/renew`);
+      return (await res.json()) as RenewalResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/extension-requests/my"] });
+      if (result.renewed) {
+        toast({
+          title: "Book renewed",
+          description: `New due date: ${new Date(result.transaction.dueDate).toLocaleDateString()}`,
+        });
+      } else {
+        toast({
+          title: "Sent for librarian review",
+          description: `This renewal can't be approved automatically because ${result.reason}. An extension request has been submitted.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        ...describeCirculationError(error, "Renewal failed"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter for currently borrowed books only
-  const activeBorrowings = myTransactions.filter(t => t.status === "BORROWED");
+  const activeBorrowings = myTransactions.filter(t => t.status !== "RETURNED");
 
   return (
     <div className="min-h-screen bg-background library-pattern relative">
@@ -123,10 +176,19 @@ export default function StudentBorrowedBooks() {
                           </div>
                         </div>
                         
-                        <div className="mt-3 pt-3 border-t border-border">
-                          <p className="text-xs text-muted-foreground text-center">
-                            Please return this book to the library when you're done reading
-                          </p>
+                        <div className="mt-3 pt-3 border-t border-border space-y-3">
+                          <RenewalHistory transaction={transaction} />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={() => renewMutation.mutate(transaction.id)}
+                            disabled={renewMutation.isPending}
+                            data-testid={`button-renew-${transaction.id}`}
+                          >
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            Renew
+                          </Button>
                         </div>
                       </div>
                     );
@@ -142,6 +204,8 @@ export default function StudentBorrowedBooks() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Borrowed Date</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Due Date</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Renewals</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
                       </tr>
                     </thead>
                     <tbody className="bg-card divide-y divide-border">
@@ -184,6 +248,21 @@ export default function StudentBorrowedBooks() {
                                 {isOverdue ? "Overdue" : isDueSoon ? "Due Soon" : "Active"}
                               </Badge>
                             </td>
+                            <td className="px-6 py-4">
+                              <RenewalHistory transaction={transaction} />
+                            </td>
+                            <td className="px-6 py-4">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => renewMutation.mutate(transaction.id)}
+                                disabled={renewMutation.isPending}
+                                data-testid={`button-renew-desktop-${transaction.id}`}
+                              >
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                Renew
+                              </Button>
+                            </td>
                           </tr>
                         );
                       })}
@@ -17,6 +17,7 @@ import FloatingLibraryElements from "@/components/FloatingLibraryElements";
 import { NotificationBell } from "@/components/notification-bell";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { MobileBookCard } from "@/components/mobile-book-card";
+import { QuizReviewDeck } from "@/components/quiz-review-deck";
 import { ProfileDropdown } from "@/components/profile-dropdown";
 import { useFavorites } from "@/hooks/use-favorites";
 import { BookDetailModal } from "@/components/book-detail-modal";
@@ -75,7 +76,7 @@ function StudentDashboard() {
   }, [availableBooks, searchQuery, categoryFilter]);
 
   const { activeBorrowings, pendingRequests, dueSoon } = useMemo(() => {
-    const active = myTransactions.filter(t => t.status === "BORROWED");
+    const active = myTransactions.filter(t => t.status !== "RETURNED");
     const pending = myRequests.filter(r => r.status === "PENDING");
     const today = new Date();
     
@@ -193,6 +194,8 @@ function StudentDashboard() {
           </Link>
         </div>
 
+        <QuizReviewDeck />
+
         {/* Search Section */}
         <Card>
           <CardHeader className="pb-3">
@@ -389,6 +392,8 @@ function StudentDashboard() {
           </Link>
         </div>
 
+        <QuizReviewDeck className="mb-6 sm:mb-8" />
+
         {/* Search and Filter */}
         <Card className="mb-6 sm:mb-8 modern-card">
           <CardContent className="p-4 sm:p-6">
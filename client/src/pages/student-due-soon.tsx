@@ -8,6 +8,7 @@ import { Transaction, Book, User } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { apiRequest } from "@/lib/queryClient";
+import { getPolicyViolation } from "@/lib/policy";
 
 function StudentDueSoon() {
   const { toast } = useToast();
@@ -44,10 +45,12 @@ function StudentDueSoon() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions/my"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // Policy rejections (e.g. no renewals left) explain themselves; anything else gets the generic message
+      const violation = getPolicyViolation(error);
       toast({
         title: "Request Failed",
-        description: "Failed to submit extension request. Please try again.",
+        description: violation?.message || "Failed to submit extension request. Please try again.",
         variant: "destructive",
       });
     }
@@ -75,7 +78,7 @@ function StudentDueSoon() {
     const today = new Date();
     
     return myTransactions
-      .filter(t => t.status === "BORROWED")
+      .filter(t => t.status !== "RETURNED")
       .map(transaction => {
         const dueDate = new Date(transaction.dueDate);
         const diffTime = dueDate.getTime() - today.getTime();
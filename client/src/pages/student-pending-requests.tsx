@@ -1,21 +1,50 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, ArrowLeft, Send, Clock } from "lucide-react";
+import { BookOpen, ArrowLeft, Send, Clock, Bookmark, CheckCircle } from "lucide-react";
 import { Link } from "wouter";
-import { BookRequest, Book } from "@shared/schema";
+import { BookRequest, Book, HoldWithBook, HoldStatus } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 export default function StudentPendingRequests() {
   const { user } = useAuth();
+  const { toast } = useToast();
 
   const { data: myRequests = [], isLoading: requestsLoading } = useQuery<(BookRequest & { book: Book })[]>({
     queryKey: ["/api/book-requests/my"],
   });
 
+  const { data: myHolds = [], isLoading: holdsLoading } = useQuery<HoldWithBook[]>({
+    queryKey: ["/api/holds/my"],
+  });
+
+  const cancelHoldMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      const res = await apiRequest("POST", `/api/holds/${holdId}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds/my"] });
+      toast({
+        title: "Hold cancelled",
+        description: "You have left the queue for this book",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel hold",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter for pending requests only
   const pendingRequests = myRequests.filter(r => r.status === "PENDING");
+  const activeHolds = myHolds.filter(h => h.status === HoldStatus.WAITING || h.status === HoldStatus.READY);
 
   return (
     <div className="min-h-screen bg-background library-pattern relative">
@@ -168,6 +197,72 @@ export default function StudentPendingRequests() {
             )}
           </CardContent>
         </Card>
+
+        {/* Hold Queue */}
+        <Card className="library-card mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center library-heading">
+              <Bookmark className="h-5 w-5 mr-2" />
+              My Holds ({activeHolds.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {holdsLoading ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">Loading your holds...</p>
+              </div>
+            ) : activeHolds.length === 0 ? (
+              <div className="text-center py-8">
+                <Bookmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">You are not waiting for any books</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {activeHolds.map((hold) => (
+                  <div key={hold.id} className="border border-border rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3" data-testid={`card-hold-${hold.id}`}>
+                    <div className="flex items-start space-x-3">
+                      <div className="h-16 w-10 book-spine-gradient rounded shadow-sm flex items-center justify-center">
+                        <BookOpen className="h-4 w-4 text-white" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground text-sm" data-testid={`text-hold-book-title-${hold.id}`}>
+                          {hold.book.title}
+                        </h3>
+                        <p className="text-sm text-muted-foreground">by {hold.book.author}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Placed {new Date(hold.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3 sm:flex-col sm:items-end">
+                      {hold.status === HoldStatus.READY ? (
+                        <Badge className="bg-green-600 hover:bg-green-600" data-testid={`badge-hold-status-${hold.id}`}>
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Ready - pick up by {hold.pickupDeadline ? new Date(hold.pickupDeadline).toLocaleDateString() : "—"}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" data-testid={`badge-hold-position-${hold.id}`}>
+                          <Clock className="h-3 w-3 mr-1" />
+                          Position {hold.queuePosition} in queue
+                        </Badge>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelHoldMutation.mutate(hold.id)}
+                        disabled={cancelHoldMutation.isPending}
+                        data-testid={`button-cancel-hold-${hold.id}`}
+                      >
+                        Cancel Hold
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -5,17 +5,17 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { User, LogOut, Mail, BookOpen, Settings, Shield, Edit, Save, X, Camera, ArrowLeft } from "lucide-react";
+import { User, LogOut, Mail, BookOpen, Settings, Shield, Edit, Save, X, Camera, ArrowLeft, Wallet, AlertTriangle } from "lucide-react";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { PushNotificationSettings } from "@/components/push-notification-settings";
 import { useState, useRef, memo } from "react";
 import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { updateProfileSchema, UpdateProfile } from "@shared/schema";
+import { updateProfileSchema, UpdateProfile, UserBalance, LedgerEntryType } from "@shared/schema";
 
 function StudentProfile() {
   const { user, logoutMutation } = useAuth();
@@ -24,6 +24,13 @@ function StudentProfile() {
   const [isEditing, setIsEditing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: fines } = useQuery<UserBalance>({
+    queryKey: ["/api/fines/my"],
+  });
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat(undefined, { style: "currency", currency: fines?.currency || "USD" }).format(amount / 100);
+
   const form = useForm<UpdateProfile>({
     resolver: zodResolver(updateProfileSchema),
     defaultValues: {
@@ -427,6 +434,52 @@ function StudentProfile() {
           </CardContent>
         </Card>
 
+        {/* Fines & Fees */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Fines & Fees
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Outstanding balance</span>
+              <span
+                className={`text-xl font-semibold ${fines && fines.balance > 0 ? "text-destructive" : ""}`}
+                data-testid="text-fine-balance"
+              >
+                {formatMoney(fines?.balance || 0)}
+              </span>
+            </div>
+
+            {fines?.borrowingBlocked && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive" data-testid="alert-borrowing-blocked">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>Borrowing is blocked until your balance is paid. Please visit the library desk.</span>
+              </div>
+            )}
+
+            {fines && fines.entries.length > 0 ? (
+              <div className="space-y-2">
+                {fines.entries.slice(0, 5).map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between text-sm" data-testid={`ledger-entry-${entry.id}`}>
+                    <div className="min-w-0">
+                      <p className="truncate">{entry.description}</p>
+                      <p className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleDateString()}</p>
+                    </div>
+                    <Badge variant={entry.type === LedgerEntryType.CHARGE ? "destructive" : "secondary"} className="ml-2 shrink-0">
+                      {entry.type === LedgerEntryType.CHARGE ? "+" : "−"}{formatMoney(entry.amount)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-2">No fines or fees on your account.</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Push Notifications */}
         <PushNotificationSettings />
 
@@ -0,0 +1,292 @@
+import type { IStorage } from "./storage";
+import {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventType,
+  CalendarImportResult,
+  InsertCalendarEvent
+} from "@shared/schema";
+
+/*
+ * Admin-managed academic calendar. Terms and exam weeks are periods the predictive services plan around;
+ * holidays and closures are days the library is closed, which due dates are moved past and late fines skip.
+ * Events cover whole days in server time, from the midnight of the first day to the end of the last.
+ */
+
+// Longest stretch of closed days a due date is moved across; anything longer means the calendar is wrong
+const MAX_CLOSED_RUN_DAYS = 366;
+const CLOSED_TYPES = [CalendarEventType.HOLIDAY, CalendarEventType.CLOSURE];
+
+// Words in an imported event's name or categories that say what kind of event it is, checked in order
+const TYPE_KEYWORDS: [RegExp, CalendarEventType][] = [
+  [/\bexam/i, CalendarEventType.EXAM_WEEK],
+  [/\b(term|semester|trimester|quarter)\b/i, CalendarEventType.TERM],
+  [/\b(closed|closure|closing)\b/i, CalendarEventType.CLOSURE],
+  [/\bholiday/i, CalendarEventType.HOLIDAY]
+];
+
+type CalendarSource = Pick<IStorage, "getCalendarEvents" | "createCalendarEvent" | "updateCalendarEvent" | "deleteCalendarEvent">;
+
+export class CalendarError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CalendarError";
+  }
+}
+
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  // setDate keeps the time of day across daylight saving changes
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// "2026-12-24" as the midnight starting that day, server time
+export function parseCalendarDate(value: string): Date {
+  return new Date(`${value}T00:00:00`);
+}
+
+function importKey(event: Pick<CalendarEvent, "icalUid" | "name" | "startDate">): string {
+  return event.icalUid || `${event.name}@${new Date(event.startDate).getTime()}`;
+}
+
+function covers(event: CalendarEvent, day: Date): boolean {
+  return new Date(event.startDate) <= day && day <= new Date(event.endDate);
+}
+
+/**
+ * The calendar's events as loaded at one moment, for lookups by date
+ */
+export class AcademicCalendar {
+  private closures: CalendarEvent[];
+  private examWeeks: CalendarEvent[];
+  private terms: CalendarEvent[];
+
+  constructor(readonly events: CalendarEvent[]) {
+    this.closures = events.filter(event => CLOSED_TYPES.includes(event.type));
+    this.examWeeks = events.filter(event => event.type === CalendarEventType.EXAM_WEEK);
+    this.terms = events
+      .filter(event => event.type === CalendarEventType.TERM)
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+
+  closureOn(date: Date): CalendarEvent | undefined {
+    const day = startOfDay(date);
+    return this.closures.find(event => covers(event, day));
+  }
+
+  isClosed(date: Date): boolean {
+    return !!this.closureOn(date);
+  }
+
+  examWeekOn(date: Date): CalendarEvent | undefined {
+    const day = startOfDay(date);
+    return this.examWeeks.find(event => covers(event, day));
+  }
+
+  termOn(date: Date): CalendarEvent | undefined {
+    const day = startOfDay(date);
+    return this.terms.find(event => covers(event, day));
+  }
+
+  /**
+   * The first term starting after the given date
+   */
+  nextTerm(after: Date): CalendarEvent | undefined {
+    return this.terms.find(event => new Date(event.startDate) > after);
+  }
+
+  /**
+   * The same time on the first day from the given one that the library is open
+   */
+  rollForward(date: Date): Date {
+    let day = new Date(date);
+    for (let i = 0; i < MAX_CLOSED_RUN_DAYS && this.isClosed(day); i++) {
+      day = addDays(day, 1);
+    }
+    return day;
+  }
+
+  /**
+   * Closed days after the day of `from`, up to and including the day of `to`
+   */
+  closedDaysBetween(from: Date, to: Date): number {
+    if (this.closures.length === 0) return 0;
+    let closed = 0;
+    for (let day = addDays(startOfDay(from), 1); day <= to; day = addDays(day, 1)) {
+      if (this.isClosed(day)) closed++;
+    }
+    return closed;
+  }
+}
+
+/**
+ * Editing and loading the calendar. Storage holds one to move due dates past closures; routes and services
+ * use the exported instance.
+ */
+export class CalendarService {
+  constructor(private source: CalendarSource) {}
+
+  async load(): Promise<AcademicCalendar> {
+    return new AcademicCalendar(await this.source.getCalendarEvents());
+  }
+
+  async rollForward(date: Date): Promise<Date> {
+    return (await this.load()).rollForward(date);
+  }
+
+  /**
+   * Events overlapping the given days, earliest first
+   */
+  async list(from?: string, to?: string): Promise<CalendarEvent[]> {
+    const events = await this.source.getCalendarEvents();
+    return events.filter(event =>
+      (!from || new Date(event.endDate) >= parseCalendarDate(from)) &&
+      (!to || new Date(event.startDate) <= parseCalendarDate(to))
+    );
+  }
+
+  async create(input: CalendarEventInput, createdBy: string): Promise<CalendarEvent> {
+    return this.source.createCalendarEvent({ ...this.toEvent(input), icalUid: null, createdBy });
+  }
+
+  async update(id: string, input: CalendarEventInput): Promise<CalendarEvent> {
+    const event = await this.source.updateCalendarEvent(id, this.toEvent(input));
+    if (!event) {
+      throw new CalendarError("Calendar event not found", 404);
+    }
+    return event;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.source.deleteCalendarEvent(id))) {
+      throw new CalendarError("Calendar event not found", 404);
+    }
+  }
+
+  /**
+   * Import the events of an iCal file. Events already imported under the same UID, or without one under the
+   * same name and start day, are updated, so a calendar feed can be imported again after it changes.
+   * Recurring and cancelled events are skipped.
+   */
+  async importICal(ics: string, defaultType: CalendarEventType, createdBy: string): Promise<CalendarImportResult> {
+    const result: CalendarImportResult = { created: 0, updated: 0, skipped: [] };
+    const existing = await this.source.getCalendarEvents();
+    const byKey = new Map(existing.map(event => [importKey(event), event]));
+
+    const vevents = parseICalEvents(ics);
+    if (vevents.length === 0) {
+      throw new CalendarError("No events found in the iCal file");
+    }
+
+    for (const vevent of vevents) {
+      const name = (vevent.get("SUMMARY") || "Untitled event").slice(0, 200);
+      if (vevent.has("RRULE")) {
+        result.skipped.push({ name, reason: "Recurring events are not supported; add each occurrence" });
+        continue;
+      }
+      if (vevent.get("STATUS")?.toUpperCase() === "CANCELLED") {
+        result.skipped.push({ name, reason: "Cancelled" });
+        continue;
+      }
+      const days = eventDays(vevent);
+      if (!days) {
+        result.skipped.push({ name, reason: "Missing or unreadable start date" });
+        continue;
+      }
+
+      const keywords = `${name} ${vevent.get("CATEGORIES") || ""}`;
+      const event = {
+        type: TYPE_KEYWORDS.find(([pattern]) => pattern.test(keywords))?.[1] ?? defaultType,
+        name,
+        startDate: days.start,
+        endDate: days.end,
+        notes: vevent.get("DESCRIPTION")?.slice(0, 1000) || null,
+        icalUid: vevent.get("UID") || null
+      };
+
+      const previous = byKey.get(importKey(event));
+      if (previous) {
+        await this.source.updateCalendarEvent(previous.id, event);
+        result.updated++;
+      } else {
+        byKey.set(importKey(event), await this.source.createCalendarEvent({ ...event, createdBy }));
+        result.created++;
+      }
+    }
+    return result;
+  }
+
+  private toEvent(input: CalendarEventInput): Omit<InsertCalendarEvent, "icalUid" | "createdBy"> {
+    return {
+      type: input.type,
+      name: input.name,
+      startDate: parseCalendarDate(input.startDate),
+      endDate: parseCalendarDate(input.endDate),
+      notes: input.notes || null
+    };
+  }
+}
+
+/**
+ * The property values of each VEVENT in an iCal file, with escaped text decoded. Only the first of a repeated
+ * property is kept.
+ */
+export function parseICalEvents(ics: string): Map<string, string>[] {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = ics.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: Map<string, string>[] = [];
+  let current: Map<string, string> | null = null;
+
+  for (const line of lines.map(line => line.trimEnd())) {
+    if (line.toUpperCase() === "BEGIN:VEVENT") {
+      current = new Map();
+    } else if (line.toUpperCase() === "END:VEVENT") {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      // Parameters such as TZID and VALUE=DATE are dropped; the value's own format says whether it has a time.
+      // Quoted parameter values may contain colons.
+      const property = line.match(/^([A-Za-z0-9-]+)(?:;(?:[^":]|"[^"]*")*)?:(.*)$/);
+      if (!property || current.has(property[1].toUpperCase())) continue;
+      current.set(property[1].toUpperCase(), property[2].replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char)).trim());
+    }
+  }
+  return events;
+}
+
+// A DATE or DATE-TIME value as the day it falls on. Times with a TZID are read as server time.
+function parseICalDate(value: string): { day: Date; atMidnight: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, date, hours, minutes, seconds, utc] = match;
+  if (!hours) {
+    return { day: new Date(+year, +month - 1, +date), atMidnight: true };
+  }
+  const instant = utc
+    ? new Date(Date.UTC(+year, +month - 1, +date, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +date, +hours, +minutes, +seconds);
+  return { day: startOfDay(instant), atMidnight: instant.getTime() === startOfDay(instant).getTime() };
+}
+
+// First and last day of an event. DTEND is exclusive, so an end at midnight belongs to the day before.
+function eventDays(vevent: Map<string, string>): { start: Date; end: Date } | null {
+  const start = parseICalDate(vevent.get("DTSTART") || "");
+  if (!start) return null;
+
+  let end: Date = start.day;
+  const dtend = parseICalDate(vevent.get("DTEND") || "");
+  const duration = vevent.get("DURATION")?.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (dtend) {
+    end = dtend.atMidnight ? addDays(dtend.day, -1) : dtend.day;
+  } else if (duration && (duration[1] || duration[2])) {
+    end = addDays(start.day, Number(duration[1] || 0) * 7 + Number(duration[2] || 0) - 1);
+  }
+  return { start: start.day, end: end < start.day ? start.day : end };
+}
@@ -1,9 +1,7 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { storage } from "./storage";
-import { AIAnalytics, InsertAIAnalytics, User, Book, Transaction, BookRequest } from "@shared/schema";
-
-// Initialize Google Gemini AI client
-const ai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { llm } from "./llm-provider";
+import { isOverdue } from "./overdue-sweeper";
+import { AIAnalytics, InsertAIAnalytics, User, Book, Transaction, BookRequest, TransactionStatus } from "@shared/schema";
 
 interface UsagePattern {
   totalBorrowed: number;
@@ -183,10 +181,10 @@ export class AIAnalyticsService {
     // Calculate basic metrics
     const totalBorrowed = recentTransactions.length;
     const totalReturned = recentTransactions.filter(t => t.returnedDate).length;
-    const currentlyBorrowed = recentTransactions.filter(t => t.status === 'BORROWED').length;
-    const overdueBooks = recentTransactions.filter(t => 
-      t.status === 'BORROWED' && new Date(t.dueDate) < now
+    const currentlyBorrowed = recentTransactions.filter(t =>
+      t.status === TransactionStatus.BORROWED || t.status === TransactionStatus.OVERDUE
     ).length;
+    const overdueBooks = recentTransactions.filter(t => isOverdue(t, now)).length;
     
     // Category analysis
     const categoryMap = new Map<string, number>();
@@ -394,9 +392,7 @@ export class AIAnalyticsService {
       ? (recentTransactions.filter(t => t.returnedDate).length / recentTransactions.length) * 100 
       : 0;
     
-    const overdueTransactions = recentTransactions.filter(t => 
-      t.status === 'BORROWED' && new Date(t.dueDate) < now
-    );
+    const overdueTransactions = recentTransactions.filter(t => isOverdue(t, now));
     const overdueRate = recentTransactions.length > 0 
       ? (overdueTransactions.length / recentTransactions.length) * 100 
       : 0;
@@ -492,11 +488,9 @@ Instructions:
 
 Analysis:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("insights", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating usage insights:', error);
       return `Based on the current usage patterns:
@@ -540,11 +534,9 @@ Instructions:
 
 Strategic Analysis:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("insights", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating inventory insights:', error);
       return `**Inventory Analysis Summary:**
@@ -587,11 +579,9 @@ Instructions:
 
 Engagement Analysis:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("insights", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating behavior insights:', error);
       return `**User Engagement Analysis:**
@@ -634,11 +624,9 @@ Instructions:
 
 Performance Analysis:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("insights", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating performance insights:', error);
       return `**Performance Analysis Summary:**
@@ -1,9 +1,7 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { storage } from "./storage";
-import { Book, BookAIContent, InsertBookAIContent } from "@shared/schema";
-
-// Initialize Google Gemini AI client
-const ai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { llm } from "./llm-provider";
+import { contentReview } from "./content-review-service";
+import { Book, BookAIContent, BookAIContentVersion } from "@shared/schema";
 
 interface GeneratedContent {
   summary?: string;
@@ -15,30 +13,23 @@ interface GeneratedContent {
 export class AIContentService {
   
   /**
-   * Generate comprehensive AI content for a book
+   * Generate comprehensive AI content for a book. The content is stored as drafts for a librarian to
+   * review; students keep seeing the published content until then.
+   * Without fallbacks a failed model call fails the whole book with the provider's error instead of
+   * filling in generic text, which is what batch jobs need to retry and report failures.
    */
-  async generateBookContent(book: Book): Promise<BookAIContent> {
+  async generateBookContent(book: Book, createdBy: string | null = null, useFallbacks = true): Promise<BookAIContentVersion[]> {
     try {
-      // Check if content already exists
-      const existing = await storage.getBookAIContent(book.id);
-      if (existing) {
-        return existing;
-      }
-
       console.log(`Generating AI content for book: ${book.title} by ${book.author}`);
       
-      // Generate content using Gemini AI
-      const content = await this.generateContentWithAI(book);
-      
-      // Store the generated content
-      const insertData: InsertBookAIContent = {
-        bookId: book.id,
-        ...content
-      };
+      // Generate content with the configured content model
+      const content = await this.generateContentWithAI(book, useFallbacks);
       
-      return await storage.createBookAIContent(insertData);
+      // Store the generated content for review
+      return await contentReview.submitDrafts(book.id, content, createdBy);
     } catch (error) {
       console.error('Error generating book content:', error);
+      if (!useFallbacks) throw error;
       throw new Error('Failed to generate AI content for book');
     }
   }
@@ -46,7 +37,7 @@ export class AIContentService {
   /**
    * Generate book summary
    */
-  async generateBookSummary(book: Book): Promise<string> {
+  async generateBookSummary(book: Book, useFallbacks = true): Promise<string> {
     try {
       const prompt = `Generate a comprehensive and engaging summary for the book "${book.title}" by ${book.author}. 
       Category: ${book.category}
@@ -61,13 +52,12 @@ export class AIContentService {
       
       Summary:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("content", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating book summary:', error);
+      if (!useFallbacks) throw error;
       return `A ${book.category.toLowerCase()} book by ${book.author}. ${book.description || 'This book offers valuable insights and knowledge for readers interested in the subject matter.'}`;
     }
   }
@@ -75,7 +65,7 @@ export class AIContentService {
   /**
    * Generate study guide for a book
    */
-  async generateStudyGuide(book: Book): Promise<string> {
+  async generateStudyGuide(book: Book, useFallbacks = true): Promise<string> {
     try {
       const prompt = `Create a comprehensive study guide for the book "${book.title}" by ${book.author}.
       Category: ${book.category}
@@ -91,13 +81,12 @@ export class AIContentService {
       
       Study Guide:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("content", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating study guide:', error);
+      if (!useFallbacks) throw error;
       return `## Study Guide for ${book.title}
 
 **Key Themes:**
@@ -119,7 +108,7 @@ export class AIContentService {
   /**
    * Generate memorable quotes from a book
    */
-  async generateQuotes(book: Book): Promise<string[]> {
+  async generateQuotes(book: Book, useFallbacks = true): Promise<string[]> {
     try {
       const prompt = `Generate 5-7 inspiring, memorable, or significant quotes that would likely be found in the book "${book.title}" by ${book.author}.
       Category: ${book.category}
@@ -135,11 +124,9 @@ export class AIContentService {
       
       Quotes:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("content", { prompt });
       
-      const quotesText = response.text().trim();
+      const quotesText = response.text.trim();
       // Split by lines and clean up
       const quotes = quotesText
         .split('\n')
@@ -155,6 +142,7 @@ export class AIContentService {
       ];
     } catch (error) {
       console.error('Error generating quotes:', error);
+      if (!useFallbacks) throw error;
       return [
         `"Knowledge is power, and ${book.title} offers valuable insights for personal growth."`,
         `"Every great book opens new doors to understanding and wisdom."`,
@@ -166,7 +154,7 @@ export class AIContentService {
   /**
    * Generate comprehension Q&A for a book
    */
-  async generateComprehensionQA(book: Book): Promise<{ question: string; answer: string }[]> {
+  async generateComprehensionQA(book: Book, useFallbacks = true): Promise<{ question: string; answer: string }[]> {
     try {
       const prompt = `Create 6-8 comprehension questions and answers for the book "${book.title}" by ${book.author}.
       Category: ${book.category}
@@ -182,11 +170,9 @@ export class AIContentService {
       
       Questions and Answers:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("content", { prompt });
       
-      const qaText = response.text().trim();
+      const qaText = response.text.trim();
       const qaArray: { question: string; answer: string }[] = [];
       
       // Parse Q&A format
@@ -234,6 +220,7 @@ export class AIContentService {
       ];
     } catch (error) {
       console.error('Error generating comprehension Q&A:', error);
+      if (!useFallbacks) throw error;
       return [
         {
           question: `What is the main focus of "${book.title}"?`,
@@ -250,12 +237,12 @@ export class AIContentService {
   /**
    * Generate all AI content for a book
    */
-  private async generateContentWithAI(book: Book): Promise<GeneratedContent> {
+  private async generateContentWithAI(book: Book, useFallbacks: boolean): Promise<GeneratedContent> {
     const [summary, studyGuide, quotes, comprehensionQA] = await Promise.all([
-      this.generateBookSummary(book),
-      this.generateStudyGuide(book),
-      this.generateQuotes(book),
-      this.generateComprehensionQA(book)
+      this.generateBookSummary(book, useFallbacks),
+      this.generateStudyGuide(book, useFallbacks),
+      this.generateQuotes(book, useFallbacks),
+      this.generateComprehensionQA(book, useFallbacks)
     ]);
 
     return {
@@ -267,14 +254,14 @@ export class AIContentService {
   }
 
   /**
-   * Update existing book AI content
+   * Publish a librarian's own edits to a book's AI content; each edited field becomes a new version
    */
-  async updateBookContent(bookId: string, updates: Partial<InsertBookAIContent>): Promise<BookAIContent | null> {
-    return await storage.updateBookAIContent(bookId, updates);
+  async updateBookContent(bookId: string, updates: Record<string, unknown>, editorId: string): Promise<BookAIContent | null> {
+    return await contentReview.publishEdits(bookId, updates, editorId);
   }
 
   /**
-   * Get AI content for a book
+   * Get the published AI content for a book
    */
   async getBookContent(bookId: string): Promise<BookAIContent | null> {
     return await storage.getBookAIContent(bookId);
@@ -312,11 +299,9 @@ Instructions:
 
 Answer:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("content", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error answering book question:', error);
       return `I'd be happy to help you learn more about "${book.title}" by ${book.author}. For the most accurate and detailed information, I recommend checking out the book from our library. If you have specific questions about availability or related books, feel free to ask!`;
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AIPredictiveService } from "./ai-predictive-service";
+import { OverdueRiskModel } from "./overdue-risk-model";
+import { storage } from "./storage";
+import { Role, TransactionStatus } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("overdue-risk model", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-02T10:00:00"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("is trained again only when a loan's outcome settles or the fit is a day old", async () => {
+    const aiPredictiveService = new AIPredictiveService();
+    const train = vi.spyOn(OverdueRiskModel, "train");
+    const borrower = await storage.createUser({
+      username: "risk-borrower",
+      email: "risk-borrower@example.edu",
+      fullName: "Risk Borrower",
+      studentId: "risk-borrower",
+      phone: "0000000000",
+      password: "secret",
+      role: Role.STUDENT
+    });
+    const book = await storage.createBook({ title: "Risky Reading", author: "Author", category: "Fiction", totalCopies: 1 });
+
+    await aiPredictiveService.getOverdueRiskModelReport();
+    await aiPredictiveService.predictOverdueRisk();
+    expect(train).toHaveBeenCalledTimes(1);
+
+    // A new loan has no outcome yet, so there is nothing new to learn from
+    const loan = await storage.createTransaction({ userId: borrower.id, bookId: book.id, dueDate: new Date("2026-03-16T10:00:00") });
+    await aiPredictiveService.getOverdueRiskModelReport();
+    expect(train).toHaveBeenCalledTimes(1);
+
+    await storage.updateTransactionStatus(loan.id, TransactionStatus.RETURNED, new Date());
+    await aiPredictiveService.getOverdueRiskModelReport();
+    expect(train).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(new Date(Date.now() + 25 * HOUR_MS));
+    await aiPredictiveService.getOverdueRiskModelReport();
+    expect(train).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,18 +1,8 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { storage } from "./storage";
-import { AIPrediction, InsertAIPrediction, User, Book, Transaction, TransactionWithUserAndBook } from "@shared/schema";
-
-// Initialize Google Gemini AI client
-const ai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-
-interface OverdueRiskPrediction {
-  userId: string;
-  riskScore: number; // 0-1 (0 = low risk, 1 = high risk)
-  factors: string[];
-  recommendedActions: string[];
-  daysUntilDue: number;
-  confidence: number;
-}
+import { storage, academicCalendar } from "./storage";
+import { llm } from "./llm-provider";
+import { OverdueRiskModel, RISK_ALERT_THRESHOLD } from "./overdue-risk-model";
+import { DemandForecaster, DEFAULT_FORECAST_WEEKS } from "./demand-forecast";
+import { AIPrediction, BookDemandForecast, DemandForecastOverview, InsertAIPrediction, OverdueRiskModelReport, OverdueRiskPrediction, User, Book, Transaction, TransactionWithUserAndBook } from "@shared/schema";
 
 interface PopularityForecast {
   bookId: string;
@@ -31,7 +21,11 @@ interface OptimalDueDateSuggestion {
   confidence: number;
 }
 
+// The overdue-risk model is trained again once a loan's outcome settles, and at least this often so calendar changes are picked up
+const RISK_MODEL_MAX_AGE_MS = parseInt(process.env.RISK_MODEL_MAX_AGE_HOURS || '24', 10) * 60 * 60 * 1000;
+
 export class AIPredictiveService {
+  private riskModel: OverdueRiskModel | null = null;
 
   /**
    * Predict overdue risk for active borrowers
@@ -40,23 +34,25 @@ export class AIPredictiveService {
     try {
       console.log('Generating overdue risk predictions...');
       
-      const activeTransactions = await storage.getActiveTransactions();
-      const targetTransactions = userId 
-        ? activeTransactions.filter(t => t.userId === userId)
-        : activeTransactions;
+      const now = new Date();
+      const { model, loans } = await this.loadRiskModel(now);
+      // Loans already past due are late whatever the model says; the overdue notices take care of those
+      const targetTransactions = loans.filter(t =>
+        !t.returnedDate && new Date(t.dueDate) >= now && (!userId || t.userId === userId)
+      );
       
       const predictions: AIPrediction[] = [];
       
       for (const transaction of targetTransactions) {
-        const riskPrediction = await this.calculateOverdueRisk(transaction);
+        const riskPrediction = this.calculateOverdueRisk(transaction, model, now);
         
-        if (riskPrediction.riskScore > 0.3) { // Only store significant risks
+        if (riskPrediction.riskScore >= RISK_ALERT_THRESHOLD) { // Only store significant risks
           const prediction: InsertAIPrediction = {
             type: 'OVERDUE_RISK',
             targetId: transaction.userId,
             prediction: riskPrediction,
             confidence: riskPrediction.confidence,
-            reasoning: `User has ${(riskPrediction.riskScore * 100).toFixed(0)}% risk of returning "${transaction.book.title}" late. Key factors: ${riskPrediction.factors.join(', ')}`,
+            reasoning: `User has ${(riskPrediction.riskScore * 100).toFixed(0)}% risk of returning "${transaction.book.title}" late. ${riskPrediction.factors.length ? `Key factors: ${riskPrediction.factors.join(', ')}` : 'No single factor stands out'}`,
             validUntil: new Date(transaction.dueDate)
           };
           
@@ -72,6 +68,27 @@ export class AIPredictiveService {
     }
   }
 
+  /**
+   * The overdue-risk model's weights and its backtest on the most recent past loans
+   */
+  async getOverdueRiskModelReport(): Promise<OverdueRiskModelReport> {
+    return (await this.loadRiskModel()).model.getReport();
+  }
+
+  /**
+   * The overdue-risk model for the current loans. The last fit is reused, with the borrowers' current track
+   * records, until a loan's outcome settles or it gets too old.
+   */
+  private async loadRiskModel(now = new Date()): Promise<{ model: OverdueRiskModel; loans: TransactionWithUserAndBook[] }> {
+    const [loans, calendar] = await Promise.all([storage.getAllTransactions(), academicCalendar.load()]);
+    const cached = this.riskModel;
+    const fresh = cached && now.getTime() - cached.getReport().trainedAt.getTime() < RISK_MODEL_MAX_AGE_MS
+      ? cached.withLoans(loans, calendar, now)
+      : null;
+    this.riskModel = fresh || OverdueRiskModel.train(loans, calendar, now);
+    return { model: this.riskModel, loans };
+  }
+
   /**
    * Forecast book popularity trends
    */
@@ -81,12 +98,14 @@ export class AIPredictiveService {
       
       const books = await storage.getAllBooks();
       const transactions = await storage.getAllTransactions();
+      const calendar = await academicCalendar.load();
       const targetBooks = bookId ? books.filter(b => b.id === bookId) : books;
       
+      const forecaster = new DemandForecaster(books, transactions, DEFAULT_FORECAST_WEEKS, calendar);
       const predictions: AIPrediction[] = [];
       
       for (const book of targetBooks.slice(0, 20)) { // Limit to top 20 books for performance
-        const forecast = await this.calculatePopularityForecast(book, transactions);
+        const forecast = this.calculatePopularityForecast(book, forecaster);
         
         if (forecast.confidence > 0.5) { // Only store confident predictions
           const prediction: InsertAIPrediction = {
@@ -94,7 +113,7 @@ export class AIPredictiveService {
             targetId: book.id,
             prediction: forecast,
             confidence: forecast.confidence,
-            reasoning: `"${book.title}" is predicted to have ${forecast.trendDirection} demand (${forecast.expectedDemand} requests/month). Factors: ${forecast.seasonalFactors.join(', ')}`,
+            reasoning: `"${book.title}" is predicted to have ${forecast.trendDirection} demand (${forecast.expectedDemand} loans/month). Factors: ${forecast.seasonalFactors.join(', ')}`,
             validUntil: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) // Valid for 90 days
           };
           
@@ -110,6 +129,23 @@ export class AIPredictiveService {
     }
   }
 
+  /**
+   * Weekly loan forecasts for the library and each category, with the books that need more copies
+   */
+  async getDemandForecast(weeks: number): Promise<DemandForecastOverview> {
+    const [books, loans, calendar] = await Promise.all([storage.getAllBooks(), storage.getAllTransactions(), academicCalendar.load()]);
+    return new DemandForecaster(books, loans, weeks, calendar).overview();
+  }
+
+  /**
+   * Weekly loan forecast for one book, or null if there is no such book
+   */
+  async getBookDemandForecast(bookId: string, weeks: number): Promise<BookDemandForecast | null> {
+    const [books, loans, calendar] = await Promise.all([storage.getAllBooks(), storage.getAllTransactions(), academicCalendar.load()]);
+    const book = books.find(b => b.id === bookId);
+    return book ? new DemandForecaster(books, loans, weeks, calendar).forBook(book) : null;
+  }
+
   /**
    * Calculate optimal due dates for new borrowings
    */
@@ -144,74 +180,15 @@ export class AIPredictiveService {
   }
 
   /**
-   * Calculate overdue risk for a specific transaction
+   * Score an active loan with the overdue-risk model and turn its main contributions into factors
    */
-  private async calculateOverdueRisk(transaction: TransactionWithUserAndBook): Promise<OverdueRiskPrediction> {
-    const user = transaction.user;
-    const book = transaction.book;
-    const dueDate = new Date(transaction.dueDate);
-    const today = new Date();
-    const daysUntilDue = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Get user's borrowing history
-    const userTransactions = await storage.getUserTransactions(user.id);
-    const completedTransactions = userTransactions.filter(t => t.returnedDate);
-    
-    let riskScore = 0.1; // Base risk
-    const factors: string[] = [];
-    
-    // Factor 1: Historical overdue rate
-    if (completedTransactions.length > 0) {
-      const overdueCount = completedTransactions.filter(t => {
-        const returned = new Date(t.returnedDate!);
-        const due = new Date(t.dueDate);
-        return returned > due;
-      }).length;
-      
-      const overdueRate = overdueCount / completedTransactions.length;
-      riskScore += overdueRate * 0.4;
-      
-      if (overdueRate > 0.3) {
-        factors.push(`high historical overdue rate (${(overdueRate * 100).toFixed(0)}%)`);
-      }
-    }
-    
-    // Factor 2: Time until due date
-    if (daysUntilDue <= 2) {
-      riskScore += 0.3;
-      factors.push('book due very soon');
-    } else if (daysUntilDue <= 5) {
-      riskScore += 0.15;
-      factors.push('book due soon');
-    }
-    
-    // Factor 3: Book category complexity (fiction vs non-fiction)
-    if (book.category.toLowerCase().includes('textbook') || 
-        book.category.toLowerCase().includes('reference') ||
-        book.category.toLowerCase().includes('technical')) {
-      riskScore += 0.1;
-      factors.push('complex subject matter');
-    }
-    
-    // Factor 4: Current borrowing load
-    const currentBorrowings = userTransactions.filter(t => !t.returnedDate).length;
-    if (currentBorrowings > 3) {
-      riskScore += 0.15;
-      factors.push('multiple active borrowings');
-    }
-    
-    // Factor 5: Student status and timing
-    if (user.role === 'STUDENT') {
-      const now = new Date();
-      const isExamPeriod = now.getMonth() === 4 || now.getMonth() === 11; // May or December
-      if (isExamPeriod) {
-        riskScore += 0.1;
-        factors.push('exam period timing');
-      }
-    }
-    
-    // Cap risk score at 1.0
-    riskScore = Math.min(riskScore, 1.0);
+  private calculateOverdueRisk(transaction: TransactionWithUserAndBook, model: OverdueRiskModel, now: Date): OverdueRiskPrediction {
+    const daysUntilDue = Math.ceil((new Date(transaction.dueDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    const { riskScore, contributions } = model.predict(transaction, now);
+    const factors = contributions
+      .filter(item => item.contribution > 0.1)
+      .slice(0, 3)
+      .map(item => item.description);
     
     // Generate recommendations
     const recommendedActions: string[] = [];
@@ -225,103 +202,39 @@ export class AIPredictiveService {
       recommendedActions.push('Standard reminder schedule');
     }
     
-    const confidence = Math.min(0.9, 0.5 + (completedTransactions.length * 0.05)); // Higher confidence with more history
-    
     return {
-      userId: user.id,
+      userId: transaction.userId,
+      transactionId: transaction.id,
+      bookId: transaction.bookId,
       riskScore,
+      contributions,
       factors,
       recommendedActions,
       daysUntilDue,
-      confidence
+      confidence: model.confidence
     };
   }
 
   /**
-   * Calculate popularity forecast for a book
+   * Summarise a book's weekly demand forecast for the coming month
    */
-  private async calculatePopularityForecast(book: Book, allTransactions: any[]): Promise<PopularityForecast> {
-    // Get borrowing history for this book
-    const bookTransactions = allTransactions.filter(t => t.bookId === book.id);
-    
-    // Calculate monthly demand over last 6 months
-    const sixMonthsAgo = new Date(Date.now() - 6 * 30 * 24 * 60 * 60 * 1000);
-    const recentTransactions = bookTransactions.filter(t => new Date(t.borrowedDate) >= sixMonthsAgo);
-    
-    const monthlyDemand = new Map<string, number>();
-    recentTransactions.forEach(t => {
-      const month = new Date(t.borrowedDate).toISOString().slice(0, 7); // YYYY-MM
-      monthlyDemand.set(month, (monthlyDemand.get(month) || 0) + 1);
-    });
-    
-    const demandData = Array.from(monthlyDemand.values());
-    const avgMonthlyDemand = demandData.length > 0 ? demandData.reduce((sum, val) => sum + val, 0) / demandData.length : 0;
-    
-    // Analyze trend
-    let trendDirection: 'increasing' | 'decreasing' | 'stable' = 'stable';
-    if (demandData.length >= 3) {
-      const recent = demandData.slice(-2).reduce((sum, val) => sum + val, 0) / 2;
-      const older = demandData.slice(0, -2).reduce((sum, val) => sum + val, 0) / Math.max(1, demandData.length - 2);
-      
-      if (recent > older * 1.2) {
-        trendDirection = 'increasing';
-      } else if (recent < older * 0.8) {
-        trendDirection = 'decreasing';
-      }
-    }
-    
-    // Seasonal factors based on category
-    const seasonalFactors: string[] = [];
-    const now = new Date();
-    const month = now.getMonth();
-    
-    if (book.category.toLowerCase().includes('textbook') || book.category.toLowerCase().includes('academic')) {
-      if (month >= 8 && month <= 11) { // Sept-Dec
-        seasonalFactors.push('academic semester peak');
-      } else if (month >= 0 && month <= 4) { // Jan-May
-        seasonalFactors.push('spring semester demand');
-      }
-    }
-    
-    if (book.category.toLowerCase().includes('fiction') || book.category.toLowerCase().includes('novel')) {
-      if (month >= 5 && month <= 7) { // June-Aug
-        seasonalFactors.push('summer reading season');
-      } else if (month >= 10 && month <= 11) { // Nov-Dec
-        seasonalFactors.push('holiday reading period');
-      }
-    }
-    
-    // Calculate expected demand
-    let expectedDemand = avgMonthlyDemand;
-    if (seasonalFactors.length > 0) {
-      expectedDemand *= 1.3; // Boost for seasonal factors
-    }
-    
-    if (trendDirection === 'increasing') {
-      expectedDemand *= 1.2;
-    } else if (trendDirection === 'decreasing') {
-      expectedDemand *= 0.8;
-    }
-    
-    // Recommend optimal number of copies
-    const currentUtilizationRate = (book.totalCopies - book.availableCopies) / book.totalCopies;
-    let recommendedCopies = book.totalCopies;
-    
-    if (expectedDemand > book.totalCopies * 0.8) {
-      recommendedCopies = Math.ceil(expectedDemand * 1.2);
-    } else if (currentUtilizationRate < 0.3 && trendDirection === 'decreasing') {
-      recommendedCopies = Math.max(1, Math.floor(book.totalCopies * 0.8));
-    }
+  private calculatePopularityForecast(book: Book, forecaster: DemandForecaster): PopularityForecast {
+    const demand = forecaster.forBook(book);
+    const expectedDemand = demand.forecast.slice(0, 4).reduce((sum, week) => sum + week.expected, 0);
+    const seasonalFactors = forecaster.seasonalPeaks()
+      .slice(0, 3)
+      .map(start => `seasonal peak in the week of ${start.toLocaleDateString()}`);
     
     // Calculate confidence based on data availability
-    const confidence = Math.min(0.9, 0.3 + (recentTransactions.length * 0.1));
+    const recentLoans = demand.history.slice(-26).reduce((sum, week) => sum + week.loans, 0);
+    const confidence = Math.min(0.9, 0.3 + (recentLoans * 0.1));
     
     return {
       bookId: book.id,
       expectedDemand: Math.round(expectedDemand * 10) / 10,
-      trendDirection,
+      trendDirection: demand.trendDirection,
       seasonalFactors,
-      recommendedCopies,
+      recommendedCopies: demand.recommendedCopies,
       confidence
     };
   }
@@ -390,19 +303,25 @@ export class AIPredictiveService {
       reasoning.push('Multiple active borrowings may extend reading time');
     }
     
-    // Academic calendar considerations
-    if (user.role === 'STUDENT') {
-      const now = new Date();
-      const isExamPeriod = now.getMonth() === 4 || now.getMonth() === 11; // May or December
-      if (isExamPeriod) {
-        adjustedDays *= 1.4;
-        reasoning.push('Exam period requires extended due dates');
-      }
-    }
-    
     // Calculate suggested due date
     const suggestedDays = Math.max(7, Math.min(30, Math.round(adjustedDays))); // Between 7-30 days
-    const suggestedDueDate = new Date(Date.now() + suggestedDays * 24 * 60 * 60 * 1000);
+    let suggestedDueDate = new Date(Date.now() + suggestedDays * 24 * 60 * 60 * 1000);
+    
+    // Academic calendar considerations: students get past exam weeks, and nothing falls due on a closed day
+    const calendar = await academicCalendar.load();
+    const examWeek = calendar.examWeekOn(suggestedDueDate);
+    if (user.role === 'STUDENT' && examWeek) {
+      const afterExams = new Date(examWeek.endDate);
+      afterExams.setDate(afterExams.getDate() + 1);
+      afterExams.setHours(suggestedDueDate.getHours(), suggestedDueDate.getMinutes(), suggestedDueDate.getSeconds());
+      suggestedDueDate = afterExams;
+      reasoning.push(`Due date moved past ${examWeek.name}`);
+    }
+    const openDueDate = calendar.rollForward(suggestedDueDate);
+    if (openDueDate.getTime() !== suggestedDueDate.getTime()) {
+      suggestedDueDate = openDueDate;
+      reasoning.push('Moved to the next day the library is open');
+    }
     
     const confidence = Math.min(0.9, 0.5 + (completedTransactions.length * 0.05));
     
@@ -487,11 +406,9 @@ Instructions:
 
 Risk Assessment:`;
 
-      const model = ai.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
+      const response = await llm.generate("insights", { prompt });
       
-      return response.text().trim();
+      return response.text.trim();
     } catch (error) {
       console.error('Error generating risk assessment:', error);
       return `Risk assessment for user ${userId}: Based on available data, standard monitoring and reminder procedures should be sufficient. Regular check-ins recommended for active borrowings.`;
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { AIQuotaExceededError, aiUsageService } from "./ai-usage-service";
+import { FakeProvider, llm } from "./llm-provider";
+import { storage } from "./storage";
+import { Role } from "@shared/schema";
+
+function student(id: string) {
+  return { id, username: id, role: Role.STUDENT };
+}
+
+describe("AI quotas", () => {
+  beforeAll(async () => {
+    await storage.saveAIQuota({ role: Role.STUDENT, dailyRequests: 3, dailyTokens: 1000 });
+    llm.useProvider("chat", new FakeProvider());
+  });
+
+  it("counts a request once however many model calls it makes", async () => {
+    const actor = student("one-request");
+    await aiUsageService.reserveRequest(actor);
+    await aiUsageService.runAs(actor, async () => {
+      await llm.generate("chat", { prompt: "first round" });
+      await llm.generate("chat", { prompt: "second round" });
+    });
+
+    const status = await aiUsageService.getQuotaStatus(actor);
+    expect(status.usedRequests).toBe(1);
+    expect(status.usedTokens).toBeGreaterThan(0);
+    expect((await storage.getAIUsageRecords({ userId: actor.id })).length).toBe(2);
+  });
+
+  it("never lets concurrent requests take more than the daily limit", async () => {
+    const actor = student("concurrent");
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => aiUsageService.reserveRequest(actor)));
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(3);
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    expect(refused).toHaveLength(2);
+    expect(refused[0].reason).toBeInstanceOf(AIQuotaExceededError);
+    expect((await aiUsageService.getQuotaStatus(actor)).usedRequests).toBe(3);
+  });
+
+  it("refuses requests once today's tokens are used up", async () => {
+    const actor = student("tokens");
+    await aiUsageService.reserveRequest(actor);
+    await aiUsageService.runAs(actor, () => llm.generate("chat", { prompt: "x".repeat(4000) }));
+
+    await expect(aiUsageService.reserveRequest(actor)).rejects.toBeInstanceOf(AIQuotaExceededError);
+    expect((await aiUsageService.getQuotaStatus(actor)).usedRequests).toBe(1);
+  });
+
+  it("leaves staff unlimited by default", async () => {
+    const librarian = { id: "librarian", username: "librarian", role: Role.LIBRARIAN };
+    for (let i = 0; i < 10; i++) {
+      await aiUsageService.reserveRequest(librarian);
+    }
+    expect((await aiUsageService.getQuotaStatus(librarian)).exceeded).toBe(false);
+  });
+});
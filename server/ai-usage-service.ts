@@ -0,0 +1,278 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { storage } from "./storage";
+import { llm, LLMCall } from "./llm-provider";
+import {
+  AI_FEATURES,
+  AIQuota,
+  AIQuotaStatus,
+  AIUsageRecord,
+  AIUsageSummary,
+  AIUsageTotals,
+  InsertAIQuota,
+  Role
+} from "@shared/schema";
+
+type QuotaLimits = Pick<AIQuota, "dailyRequests" | "dailyTokens">;
+
+// Limits for roles an admin has not configured. Staff are unlimited by default.
+export const DEFAULT_AI_QUOTAS: Record<Role, QuotaLimits> = {
+  [Role.STUDENT]: { dailyRequests: 50, dailyTokens: 100000 },
+  [Role.LIBRARIAN]: { dailyRequests: null, dailyTokens: null },
+  [Role.ADMIN]: { dailyRequests: null, dailyTokens: null }
+};
+
+// List prices in USD per million tokens, matched by model name prefix (most specific first). Only used
+// for the cost estimate; models not listed, such as local ones, count as free.
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: "gemini-2.5-pro", input: 1.25, output: 10 },
+  { prefix: "gemini-2.5-flash", input: 0.3, output: 2.5 },
+  { prefix: "gemini", input: 0.3, output: 2.5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { prefix: "claude", input: 3, output: 15 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 }
+];
+
+// How many users the top consumers list shows
+const TOP_USERS = 10;
+
+interface UsageActor {
+  id: string;
+  username?: string | null;
+  role?: Role | null;
+}
+
+// The user whose request is being served, so model calls deep inside a service are attributed to them
+const usageContext = new AsyncLocalStorage<UsageActor>();
+
+export class AIQuotaExceededError extends Error {
+  status = 429;
+  code = "AI_QUOTA_EXCEEDED";
+
+  constructor(message: string, public quota: AIQuotaStatus) {
+    super(message);
+    this.name = "AIQuotaExceededError";
+  }
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function dayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function estimateCost(record: AIUsageRecord): number {
+  const price = MODEL_PRICES.find(entry => record.model.startsWith(entry.prefix));
+  if (!price) return 0;
+  return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+}
+
+function totalsOf(records: AIUsageRecord[]): AIUsageTotals {
+  const totals = records.reduce((sum, record) => ({
+    requests: sum.requests + 1,
+    failures: sum.failures + (record.success ? 0 : 1),
+    inputTokens: sum.inputTokens + record.inputTokens,
+    outputTokens: sum.outputTokens + record.outputTokens,
+    latencyMs: sum.latencyMs + record.latencyMs,
+    cost: sum.cost + estimateCost(record)
+  }), { requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 });
+
+  return {
+    requests: totals.requests,
+    failures: totals.failures,
+    inputTokens: totals.inputTokens,
+    outputTokens: totals.outputTokens,
+    averageLatencyMs: totals.requests ? Math.round(totals.latencyMs / totals.requests) : 0,
+    estimatedCostUsd: Math.round(totals.cost * 10000) / 10000
+  };
+}
+
+function groupBy<K>(records: AIUsageRecord[], key: (record: AIUsageRecord) => K): Map<K, AIUsageRecord[]> {
+  const groups = new Map<K, AIUsageRecord[]>();
+  for (const record of records) {
+    const group = groups.get(key(record)) || [];
+    group.push(record);
+    groups.set(key(record), group);
+  }
+  return groups;
+}
+
+export class AIUsageService {
+  constructor() {
+    llm.onCall(call => {
+      void this.record(call, usageContext.getStore());
+    });
+  }
+
+  /**
+   * Run `fn` with model calls attributed to `actor`
+   */
+  runAs<T>(actor: UsageActor | undefined, fn: () => T): T {
+    return actor ? usageContext.run(actor, fn) : fn();
+  }
+
+  /**
+   * Store one model call. Metering must never break the feature it measures, so failures are only logged.
+   */
+  async record(call: LLMCall, actor?: UsageActor): Promise<AIUsageRecord | null> {
+    try {
+      return await storage.createAIUsageRecord({
+        userId: actor?.id || null,
+        username: actor?.username || null,
+        role: actor?.role || null,
+        feature: call.feature,
+        provider: call.provider,
+        model: call.model,
+        inputTokens: call.usage.inputTokens,
+        outputTokens: call.usage.outputTokens,
+        latencyMs: call.latencyMs,
+        success: call.success
+      });
+    } catch (error) {
+      console.error('Failed to record AI usage:', error);
+      return null;
+    }
+  }
+
+  async getQuotas(): Promise<{ defaults: Record<Role, QuotaLimits>; quotas: AIQuota[] }> {
+    return { defaults: DEFAULT_AI_QUOTAS, quotas: await storage.getAIQuotas() };
+  }
+
+  async saveQuota(quota: InsertAIQuota): Promise<AIQuota> {
+    return storage.saveAIQuota(quota);
+  }
+
+  async deleteQuota(id: string): Promise<boolean> {
+    return storage.deleteAIQuota(id);
+  }
+
+  /**
+   * Requests count the user's requests to AI features, however many model calls each one makes; tokens
+   * count every call made for the user
+   */
+  async getQuotaStatus(actor: UsageActor & { role: Role }): Promise<AIQuotaStatus> {
+    const limits = await this.limitsFor(actor.role);
+    const today = startOfDay(new Date());
+    const [usedRequests, records] = await Promise.all([
+      storage.getAIRequestCount(actor.id, dayKey(today)),
+      storage.getAIUsageRecords({ userId: actor.id, from: today })
+    ]);
+    const usedTokens = records.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0);
+
+    const resetsAt = new Date(today);
+    resetsAt.setDate(resetsAt.getDate() + 1);
+    return {
+      role: actor.role,
+      dailyRequests: limits.dailyRequests ?? null,
+      dailyTokens: limits.dailyTokens ?? null,
+      usedRequests,
+      usedTokens,
+      exceeded: (limits.dailyRequests != null && usedRequests >= limits.dailyRequests) ||
+        (limits.dailyTokens != null && usedTokens >= limits.dailyTokens),
+      resetsAt
+    };
+  }
+
+  /**
+   * Take one request from the user's quota for today, before any model is called. Throws an
+   * AIQuotaExceededError when no requests are left or today's tokens are used up. Tokens are only known
+   * once the calls finish, so the last request of the day may go over the token limit.
+   */
+  async reserveRequest(actor: UsageActor & { role: Role }): Promise<AIQuotaStatus> {
+    const status = await this.getQuotaStatus(actor);
+    const tokensUsedUp = status.dailyTokens != null && status.usedTokens >= status.dailyTokens;
+    const usedRequests = tokensUsedUp
+      ? null
+      : await storage.reserveAIRequest(actor.id, dayKey(new Date()), status.dailyRequests ?? null);
+
+    if (usedRequests === null) {
+      const exceeded = { ...status, exceeded: true };
+      throw new AIQuotaExceededError(
+        `You've reached today's AI usage limit. It resets at ${status.resetsAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.`,
+        exceeded
+      );
+    }
+    return { ...status, usedRequests };
+  }
+
+  private async limitsFor(role: Role): Promise<QuotaLimits> {
+    const configured = (await storage.getAIQuotas()).find(quota => quota.role === role);
+    return configured || DEFAULT_AI_QUOTAS[role];
+  }
+
+  /**
+   * Totals, daily trend, per-feature and per-model breakdown and top consumers for the last `days` days
+   */
+  async getSummary(days: number): Promise<AIUsageSummary> {
+    const to = new Date();
+    const from = startOfDay(new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+    const records = await storage.getAIUsageRecords({ from, to });
+
+    const byDay = groupBy(records, record => dayKey(record.createdAt));
+    const daily: AIUsageSummary["daily"] = [];
+    for (let day = new Date(from); day <= to; day.setDate(day.getDate() + 1)) {
+      const date = dayKey(day);
+      daily.push({ date, ...totalsOf(byDay.get(date) || []) });
+    }
+
+    const byFeature = groupBy(records, record => record.feature);
+    const byModel = groupBy(records, record => `${record.provider}\u0000${record.model}`);
+    const byUser = groupBy(records.filter(record => record.userId), record => record.userId!);
+
+    return {
+      from,
+      to,
+      totals: totalsOf(records),
+      daily,
+      byFeature: AI_FEATURES.map(feature => ({ feature, ...totalsOf(byFeature.get(feature) || []) })),
+      byModel: Array.from(byModel.values())
+        .map(group => ({ provider: group[0].provider, model: group[0].model, ...totalsOf(group) }))
+        .sort((a, b) => b.requests - a.requests),
+      topUsers: Array.from(byUser.values())
+        .map(group => ({
+          userId: group[0].userId!,
+          username: group[group.length - 1].username,
+          role: group[group.length - 1].role,
+          ...totalsOf(group)
+        }))
+        .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens) || b.requests - a.requests)
+        .slice(0, TOP_USERS)
+    };
+  }
+}
+
+export const aiUsageService = new AIUsageService();
+
+/**
+ * Middleware for routes that call a model: counts the request against the user's daily quota, refusing it
+ * with 429 once the quota is used up, and attributes the model calls made while handling it to the user.
+ * A failing quota lookup lets the request through rather than taking AI features down.
+ */
+export function aiMetered() {
+  return async (req: any, res: any, next: any) => {
+    const user = req.user;
+    if (!user) return next();
+
+    try {
+      await aiUsageService.reserveRequest(user);
+    } catch (error) {
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(error.status).json({
+          message: error.message,
+          code: error.code,
+          quota: error.quota,
+          // Shown as the assistant's reply by the chat widget
+          response: error.message
+        });
+      }
+      console.error('AI quota check failed:', error);
+    }
+
+    aiUsageService.runAs({ id: user.id, username: user.username, role: user.role }, next);
+  };
+}
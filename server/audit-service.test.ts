@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { auditService } from "./audit-service";
+import { AuditEntityType, auditLogFilterSchema } from "@shared/schema";
+
+describe("audit log filters", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function record(at: string, entityId: string) {
+    vi.setSystemTime(new Date(at));
+    await auditService.record({
+      action: "BOOK_UPDATED",
+      entityType: AuditEntityType.BOOK,
+      entityId,
+      before: { password: "hunter2" },
+      after: null,
+      statusCode: 200
+    });
+  }
+
+  it("treats a date-only range as whole days", async () => {
+    await record("2026-04-30T23:30:00", "range-before");
+    await record("2026-05-01T00:00:00", "range-first");
+    await record("2026-05-02T18:45:00", "range-last");
+    await record("2026-05-03T00:00:01", "range-after");
+
+    const filter = auditLogFilterSchema.parse({ action: "BOOK_UPDATED", from: "2026-05-01", to: "2026-05-02" });
+    const ids = (await auditService.getLogs(filter)).map(log => log.entityId).filter(id => id?.startsWith("range-"));
+    expect(ids.sort()).toEqual(["range-first", "range-last"]);
+  });
+
+  it("redacts secrets from snapshots", async () => {
+    await record("2026-06-01T12:00:00", "redacted");
+    const [log] = await auditService.getLogs({ entityId: "redacted" });
+    expect(log.before).toEqual({ password: "[redacted]" });
+  });
+
+  it("exports formula-like usernames and user agents so spreadsheets open them as text", async () => {
+    vi.setSystemTime(new Date("2026-06-02T09:00:00"));
+    await auditService.record({
+      actorUsername: '=HYPERLINK("http://evil.example","Click")',
+      action: "LOGIN",
+      entityType: AuditEntityType.AUTH,
+      entityId: "formula-login",
+      userAgent: "@SUM(1+1)",
+      statusCode: 401
+    });
+
+    const csv = auditService.toCsv(await auditService.getLogs({ entityId: "formula-login" }));
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil.example"",""Click"")",""`);
+    expect(csv).toContain(`"'@SUM(1+1)"`);
+  });
+});
@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { AuditEntityType, AuditLog, AuditLogFilter, InsertAuditLog } from "@shared/schema";
+
+// Fields that must never be written to the audit trail, matched case-insensitively at any depth
+const REDACTED_FIELDS = ["password", "otp", "token", "secret", "p256dh", "auth"];
+// Snapshots larger than this are stored as a short preview so one bulk upload cannot bloat the log
+const MAX_SNAPSHOT_LENGTH = 20000;
+// Text a spreadsheet would read as a formula; such cells get a leading apostrophe so they open as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+interface AuditActor {
+  id?: string | null;
+  username?: string | null;
+  role?: string | null;
+}
+
+export interface AuditOptions {
+  // Id of the affected record; defaults to the id in the response body, then req.params.id
+  entityId?: (req: any) => string | undefined;
+  // Loads the record as it was before the handler ran
+  before?: (req: any) => Promise<unknown>;
+  // Who acted when there is no session user yet (login, registration)
+  actor?: (req: any) => AuditActor | undefined;
+  // Also record requests that were refused, e.g. failed logins
+  recordFailures?: boolean;
+}
+
+export class AuditService {
+  /**
+   * Write an audit entry. Auditing must never break the action it records, so failures are only logged.
+   */
+  async record(entry: InsertAuditLog): Promise<AuditLog | null> {
+    try {
+      return await storage.createAuditLog({
+        ...entry,
+        before: this.sanitize(entry.before),
+        after: this.sanitize(entry.after)
+      });
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+      return null;
+    }
+  }
+
+  async getLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    return storage.getAuditLogs(filter);
+  }
+
+  toCsv(logs: AuditLog[]): string {
+    const header = ["Timestamp", "Actor", "Role", "Action", "Entity Type", "Entity ID", "Status", "IP", "User Agent", "Before", "After"];
+    const rows = logs.map(log => [
+      log.createdAt.toISOString(),
+      log.actorUsername || "",
+      log.actorRole || "",
+      log.action,
+      log.entityType,
+      log.entityId || "",
+      String(log.statusCode),
+      log.ip || "",
+      log.userAgent || "",
+      log.before === undefined || log.before === null ? "" : JSON.stringify(log.before),
+      log.after === undefined || log.after === null ? "" : JSON.stringify(log.after)
+    ]);
+    return [header, ...rows]
+      .map(row => row.map(cell => {
+        const text = FORMULA_START.test(cell) ? `'${cell}` : cell;
+        return `"${text.replace(/"/g, '""')}"`;
+      }).join(","))
+      .join("\n");
+  }
+
+  private sanitize(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+
+    const json = JSON.stringify(value, (key, field) =>
+      REDACTED_FIELDS.some(name => key.toLowerCase() === name || key.toLowerCase().endsWith(name))
+        ? "[redacted]"
+        : field
+    );
+    if (json === undefined) return null;
+    if (json.length > MAX_SNAPSHOT_LENGTH) {
+      return { truncated: true, preview: json.slice(0, 500) };
+    }
+    return JSON.parse(json);
+  }
+}
+
+export const auditService = new AuditService();
+
+/**
+ * Middleware that records the request once the response has been sent. The response body becomes the
+ * "after" snapshot; the actor is taken from the session as it stood at either end of the request, so both
+ * login and logout are attributed.
+ */
+export function audited(action: string, entityType: AuditEntityType, options: AuditOptions = {}) {
+  return async (req: any, res: any, next: any) => {
+    const startActor: AuditActor | undefined = req.user;
+
+    let before: unknown = null;
+    if (options.before) {
+      try {
+        before = await options.before(req);
+      } catch (error) {
+        console.error(`Failed to load audit snapshot for ${action}:`, error);
+      }
+    }
+
+    let after: unknown = null;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      after = body;
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      if (res.statusCode >= 400 && !options.recordFailures) return;
+
+      const actor: AuditActor | undefined = req.user || startActor || options.actor?.(req);
+      const entityId = options.entityId ? options.entityId(req) : (after as any)?.id || req.params?.id;
+
+      void auditService.record({
+        actorId: actor?.id || null,
+        actorUsername: actor?.username || null,
+        actorRole: actor?.role || null,
+        action,
+        entityType,
+        entityId: entityId || null,
+        before,
+        after: res.statusCode < 400 ? after : { error: (after as any)?.message ?? null },
+        statusCode: res.statusCode,
+        ip: req.ip || req.socket?.remoteAddress || null,
+        userAgent: req.headers?.["user-agent"] || null
+      });
+    });
+
+    next();
+  };
+}
@@ -5,7 +5,8 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { User, AuditEntityType, Role } from "@shared/schema";
+import { audited } from "./audit-service";
 
 declare global {
   namespace Express {
@@ -16,7 +17,7 @@ declare global {
       fullName: string;
       studentId: string | null;
       password: string;
-      role: string;
+      role: Role;
       createdAt: Date;
     }
   }
@@ -129,7 +130,7 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", audited("REGISTER", AuditEntityType.AUTH, { recordFailures: true, actor: (req) => ({ username: req.body?.username }) }), async (req, res, next) => {
     const existingUser = await storage.getUserByUsername(req.body.username);
     if (existingUser) {
       return res.status(400).send("Username already exists");
@@ -146,7 +147,7 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", audited("LOGIN", AuditEntityType.AUTH, { recordFailures: true, actor: (req) => ({ username: req.body?.username }) }), (req, res, next) => {
     // Add validation and better error handling
     if (!req.body || !req.body.username || !req.body.password) {
       return res.status(400).json({ 
@@ -176,7 +177,7 @@ export function setupAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", audited("LOGOUT", AuditEntityType.AUTH), (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
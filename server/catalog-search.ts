@@ -0,0 +1,224 @@
+import { storage } from "./storage";
+import { IndexMatch, InvertedIndex, tokenize } from "./search-index";
+import {
+  Book,
+  CatalogAvailability,
+  CatalogFacets,
+  CatalogSearchHit,
+  CatalogSearchQuery,
+  CatalogSearchResult,
+  FacetCount,
+  HighlightSegment
+} from "@shared/schema";
+
+type BookField = "title" | "isbn" | "author" | "category" | "publisher" | "description";
+
+// A match in the title counts for more than one buried in the description
+const FIELD_BOOSTS: Record<BookField, number> = {
+  title: 3,
+  isbn: 3,
+  author: 2,
+  category: 1.5,
+  publisher: 1,
+  description: 0.5
+};
+
+// Author and publisher can have hundreds of values; only the most common are offered as filters
+const MAX_FACET_VALUES = 15;
+// Characters of description shown either side of the first match
+const SNIPPET_CONTEXT = 80;
+// Letters (including accented Latin) and digits, captured so splitting keeps the words
+const WORD = /([A-Za-z0-9\u00C0-\u024F]+)/;
+
+type FacetName = keyof CatalogFacets;
+
+function availabilityOf(book: Book): CatalogAvailability {
+  return book.availableCopies > 0 ? CatalogAvailability.AVAILABLE : CatalogAvailability.CHECKED_OUT;
+}
+
+function facetValue(book: Book, facet: FacetName): string | null {
+  switch (facet) {
+    case "category": return book.category;
+    case "author": return book.author;
+    case "publisher": return book.publisher || null;
+    case "availability": return availabilityOf(book);
+  }
+}
+
+function sameValue(a: string | null, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Split text into highlighted and plain runs, highlighting every word whose token matched the query
+ */
+function highlight(text: string, matchedTerms: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const push = (part: string, highlighted: boolean) => {
+    if (!part) return;
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, highlighted });
+    }
+  };
+
+  // Words are separated by anything that is not a letter or digit, as in the tokenizer
+  for (const part of text.split(WORD)) {
+    const tokens = tokenize(part);
+    push(part, tokens.length > 0 && tokens.every(token => matchedTerms.has(token)));
+  }
+  return segments;
+}
+
+/**
+ * A window of the description around its first match, trimmed to word boundaries
+ */
+function snippet(text: string, matchedTerms: Set<string>): HighlightSegment[] {
+  if (text.length <= SNIPPET_CONTEXT * 2) return highlight(text, matchedTerms);
+
+  const words = text.split(WORD);
+  let firstMatch = 0;
+  for (let i = 0, offset = 0; i < words.length; offset += words[i].length, i++) {
+    const tokens = tokenize(words[i]);
+    if (tokens.length > 0 && tokens.every(token => matchedTerms.has(token))) {
+      firstMatch = offset;
+      break;
+    }
+  }
+
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, start + SNIPPET_CONTEXT * 2);
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (end < text.length && text.lastIndexOf(" ", end) > firstMatch) end = text.lastIndexOf(" ", end);
+
+  const window = highlight(text.slice(start, end).trim(), matchedTerms);
+  if (start > 0) window.unshift({ text: "… ", highlighted: false });
+  if (end < text.length) window.push({ text: " …", highlighted: false });
+  return window;
+}
+
+export class CatalogSearchService {
+  private index = new InvertedIndex<BookField>(FIELD_BOOSTS);
+  private ready: Promise<void> | null = null;
+
+  /**
+   * (Re)build the index from every book in storage
+   */
+  async rebuild(): Promise<number> {
+    const books = await storage.getAllBooks();
+    this.index.clear();
+    books.forEach(book => this.indexBook(book));
+    this.ready = Promise.resolve();
+    return books.length;
+  }
+
+  indexBook(book: Book): void {
+    this.index.add(book.id, {
+      title: book.title,
+      isbn: book.isbn,
+      author: book.author,
+      category: book.category,
+      publisher: book.publisher,
+      description: book.description
+    });
+  }
+
+  removeBook(id: string): void {
+    this.index.remove(id);
+  }
+
+  /**
+   * Keyword matches for a query, best first, without loading the books
+   */
+  async match(q: string): Promise<IndexMatch[]> {
+    await this.ensureReady();
+    return this.index.search(q);
+  }
+
+  /**
+   * Ranked catalog search. Availability is read fresh from storage, since lending a copy changes it
+   * without touching the indexed text. Facet counts for each facet apply every other active filter,
+   * so choosing a category still shows how many books the other categories hold.
+   */
+  async search(query: CatalogSearchQuery): Promise<CatalogSearchResult> {
+    await this.ensureReady();
+
+    const matches = query.q ? this.index.search(query.q) : [];
+    const ids = query.q ? matches.map(match => match.id) : this.index.ids();
+    const booksById = new Map((await storage.getBooksByIds(ids)).map(book => [book.id, book] as const));
+
+    let candidates: { book: Book; score: number; matchedTerms: Set<string> }[];
+    if (query.q) {
+      candidates = matches
+        .filter(match => booksById.has(match.id))
+        .map(match => ({ book: booksById.get(match.id)!, score: match.score, matchedTerms: match.matchedTerms }));
+    } else {
+      candidates = Array.from(booksById.values())
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map(book => ({ book, score: 0, matchedTerms: new Set<string>() }));
+    }
+
+    const filters: Partial<Record<FacetName, string>> = {
+      category: query.category,
+      author: query.author,
+      publisher: query.publisher,
+      availability: query.availability
+    };
+    const passes = (book: Book, except?: FacetName) =>
+      (Object.keys(filters) as FacetName[]).every(facet =>
+        facet === except || !filters[facet] || sameValue(facetValue(book, facet), filters[facet]!)
+      );
+
+    const facets: CatalogFacets = {
+      category: this.countFacet(candidates.filter(c => passes(c.book, "category")).map(c => c.book), "category", Infinity),
+      author: this.countFacet(candidates.filter(c => passes(c.book, "author")).map(c => c.book), "author", MAX_FACET_VALUES),
+      publisher: this.countFacet(candidates.filter(c => passes(c.book, "publisher")).map(c => c.book), "publisher", MAX_FACET_VALUES),
+      availability: this.countFacet(candidates.filter(c => passes(c.book, "availability")).map(c => c.book), "availability", Infinity)
+    };
+
+    const filtered = candidates.filter(c => passes(c.book));
+    const start = (query.page - 1) * query.pageSize;
+    const items: CatalogSearchHit[] = filtered.slice(start, start + query.pageSize).map(({ book, score, matchedTerms }) => {
+      const hit: CatalogSearchHit = { book, score, highlights: {} };
+      if (matchedTerms.size > 0) {
+        hit.highlights.title = highlight(book.title, matchedTerms);
+        hit.highlights.author = highlight(book.author, matchedTerms);
+        if (book.description) hit.highlights.description = snippet(book.description, matchedTerms);
+      }
+      return hit;
+    });
+
+    return {
+      items,
+      total: filtered.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.max(1, Math.ceil(filtered.length / query.pageSize)),
+      facets
+    };
+  }
+
+  private async ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.rebuild().then(() => undefined);
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  private countFacet(books: Book[], facet: FacetName, limit: number): FacetCount[] {
+    const counts = new Map<string, number>();
+    for (const book of books) {
+      const value = facetValue(book, facet);
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, limit);
+  }
+}
+
+export const catalogSearch = new CatalogSearchService();
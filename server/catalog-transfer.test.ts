@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { catalogTransfer } from "./catalog-transfer";
+import { storage } from "./storage";
+import { CatalogFormat, CatalogImportRowStatus } from "@shared/schema";
+
+async function exportCsv(): Promise<string> {
+  return (await catalogTransfer.export(CatalogFormat.CSV)).content.toString("utf8");
+}
+
+describe("catalog transfer", () => {
+  it("clears a blanked optional field and shows the next upload of the file as unchanged", async () => {
+    const book = await storage.createBook({
+      title: "Blank Slate",
+      author: "Author",
+      isbn: "978-0-00-000001-1",
+      category: "Fiction",
+      description: "To be removed",
+      publisher: "Press",
+      totalCopies: 1
+    });
+    const edited = Buffer.from((await exportCsv()).replace('"To be removed"', '""').replace('"Press"', '""'));
+
+    const first = await catalogTransfer.import(edited);
+    const row = first.rows.find(item => item.bookId === book.id)!;
+    expect(row.status).toBe(CatalogImportRowStatus.CHANGED);
+    expect(row.changes).toEqual([
+      { field: "Description", before: "To be removed", after: null },
+      { field: "Publisher", before: "Press", after: null }
+    ]);
+    expect(await storage.getBook(book.id)).toMatchObject({ description: null, publisher: null });
+
+    const again = await catalogTransfer.preview(Buffer.from(await exportCsv()));
+    expect(again.rows.find(item => item.bookId === book.id)?.status).toBe(CatalogImportRowStatus.UNCHANGED);
+    expect(again.changed).toBe(0);
+  });
+
+  it("exports formula-like text so spreadsheets open it as text, and reads it back as it was", async () => {
+    const book = await storage.createBook({ title: "=SUM(A1:A9)", author: "@handle", category: "+Plus", description: "-minus", totalCopies: 1 });
+
+    const csv = await exportCsv();
+    expect(csv).toContain(`"${book.id}","'=SUM(A1:A9)","'@handle","","'+Plus","'-minus","","1"`);
+    const preview = await catalogTransfer.preview(Buffer.from(csv));
+    expect(preview.rows.find(item => item.bookId === book.id)?.status).toBe(CatalogImportRowStatus.UNCHANGED);
+  });
+});
@@ -0,0 +1,359 @@
+import * as XLSX from "xlsx";
+import { storage } from "./storage";
+import {
+  Book,
+  CatalogFormat,
+  CatalogImportDiff,
+  CatalogImportResult,
+  CatalogImportRow,
+  CatalogImportRowStatus,
+  InsertBook,
+  insertBookSchema
+} from "@shared/schema";
+
+/*
+ * Catalog export and bulk upload. The export's columns are the ones the upload reads, and an ID column
+ * ties each row back to its book, so a librarian can export the catalog, edit it in a spreadsheet and
+ * upload it again. Rows update the book with their ID, or without one the book with their ISBN, and
+ * create a book otherwise. Uploads are previewed as a row-by-row diff before anything is written.
+ */
+
+const COLUMNS = ["ID", "Title", "Author", "ISBN", "Category", "Description", "Publisher", "Total Copies"];
+
+type CatalogField = "id" | keyof InsertBook;
+
+// Header names the upload understands, lowercased with spaces and punctuation removed
+const HEADER_FIELDS: Record<string, CatalogField> = {
+  id: "id",
+  bookid: "id",
+  title: "title",
+  booktitle: "title",
+  author: "author",
+  isbn: "isbn",
+  isbnnumber: "isbn",
+  category: "category",
+  description: "description",
+  publisher: "publisher",
+  totalcopies: "totalCopies",
+  copies: "totalCopies"
+};
+
+// Book fields in the order changes are listed, with the column each is shown as
+const FIELD_COLUMNS: [keyof InsertBook, string][] = [
+  ["title", "Title"],
+  ["author", "Author"],
+  ["isbn", "ISBN"],
+  ["category", "Category"],
+  ["description", "Description"],
+  ["publisher", "Publisher"],
+  ["totalCopies", "Total Copies"]
+];
+
+export interface CatalogFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export class CatalogImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CatalogImportError";
+  }
+}
+
+interface SheetRow {
+  row: number;
+  cells: Partial<Record<CatalogField, string>>;
+}
+
+// A row of the diff with the book data it writes when the upload is committed
+interface PlannedRow {
+  summary: CatalogImportRow;
+  data?: Partial<InsertBook>;
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// The apostrophe the CSV export puts before formula-like text is dropped again, so exported files upload unchanged
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value).trim().replace(/^'(?=[=+\-@])/, "");
+}
+
+function normalizeIsbn(isbn: string): string {
+  return isbn.replace(/[\s-]/g, "").toUpperCase();
+}
+
+// Text a spreadsheet would read as a formula; such cells get a leading apostrophe so they open as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map(row => row.map(cell => {
+      const text = typeof cell === "string" && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+      return `"${text.replace(/"/g, '""')}"`;
+    }).join(","))
+    .join("\n");
+}
+
+/**
+ * The first sheet's rows by field, skipping blank rows, and which fields have a column at all
+ */
+function readSheet(buffer: Buffer): { fields: Set<CatalogField>; rows: SheetRow[] } {
+  // Excel files are zip (.xlsx) or OLE (.xls) containers; anything else is read as UTF-8 text.
+  // raw keeps CSV cells as text, so ISBNs keep their leading zeros and hyphens.
+  const binary = buffer.subarray(0, 2).toString("hex") === "504b" || buffer.subarray(0, 4).toString("hex") === "d0cf11e0";
+  const workbook = binary
+    ? XLSX.read(buffer, { type: "buffer" })
+    : XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet || !worksheet["!ref"]) {
+    throw new CatalogImportError("The file has no book rows");
+  }
+  const firstRow = XLSX.utils.decode_range(worksheet["!ref"]).s.r + 1;
+  const [header = [], ...grid] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true, defval: "" });
+
+  const columns = header.map(name => HEADER_FIELDS[cellText(name).toLowerCase().replace(/[^a-z0-9]/g, "")]);
+  const fields = new Set(columns.filter((field): field is CatalogField => !!field));
+  if (!fields.has("title")) {
+    throw new CatalogImportError("No Title column found; download the template for the expected columns");
+  }
+
+  const rows: SheetRow[] = [];
+  grid.forEach((values, index) => {
+    const cells: SheetRow["cells"] = {};
+    columns.forEach((field, column) => {
+      // A repeated column is read from its first occurrence
+      if (field && cells[field] === undefined) cells[field] = cellText(values[column]);
+    });
+    if (Object.values(cells).some(Boolean)) {
+      rows.push({ row: firstRow + index + 1, cells });
+    }
+  });
+  if (rows.length === 0) {
+    throw new CatalogImportError("The file has no book rows");
+  }
+  return { fields, rows };
+}
+
+function parseCopies(text: string, errors: string[]): number | undefined {
+  if (!text) return undefined;
+  const copies = Number(text);
+  if (!Number.isInteger(copies)) {
+    errors.push("Total Copies must be a whole number");
+    return undefined;
+  }
+  return copies;
+}
+
+export class CatalogTransferService {
+  async export(format: CatalogFormat): Promise<CatalogFile> {
+    const books = await storage.getAllBooks();
+    const rows = books.map(book => [
+      book.id,
+      book.title,
+      book.author,
+      book.isbn ?? "",
+      book.category,
+      book.description ?? "",
+      book.publisher ?? "",
+      book.totalCopies
+    ]);
+    const basename = `catalog-${formatDate(new Date())}`;
+
+    if (format === CatalogFormat.XLSX) {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([COLUMNS, ...rows]), "Books");
+      return {
+        content: XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        filename: `${basename}.xlsx`
+      };
+    }
+    // The byte order mark makes Excel open the file as UTF-8
+    return {
+      content: Buffer.from(`\uFEFF${toCsv([COLUMNS, ...rows])}`, "utf8"),
+      contentType: "text/csv; charset=utf-8",
+      filename: `${basename}.csv`
+    };
+  }
+
+  /**
+   * What uploading the file would change, without changing anything
+   */
+  async preview(buffer: Buffer): Promise<CatalogImportDiff> {
+    return this.toDiff(await this.plan(buffer));
+  }
+
+  /**
+   * Create the file's new books and update its changed ones. Invalid rows are skipped and reported.
+   */
+  async import(buffer: Buffer): Promise<CatalogImportResult> {
+    const planned = await this.plan(buffer);
+    const books: Book[] = [];
+    const errors = planned
+      .filter(({ summary }) => summary.status === CatalogImportRowStatus.INVALID)
+      .map(({ summary }) => `Row ${summary.row}: ${summary.errors.join(", ")}`);
+    let imported = 0;
+    let updated = 0;
+
+    for (const { summary, data } of planned) {
+      try {
+        if (summary.status === CatalogImportRowStatus.NEW) {
+          books.push(await storage.createBook(data as InsertBook));
+          imported++;
+        } else if (summary.status === CatalogImportRowStatus.CHANGED) {
+          const book = await storage.updateBook(summary.bookId!, data!);
+          if (!book) throw new Error("Book not found");
+          books.push(book);
+          updated++;
+        }
+      } catch (error) {
+        errors.push(`Row ${summary.row}: Failed to save "${summary.title}": ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+
+    return {
+      ...this.toDiff(planned),
+      message: imported + updated > 0
+        ? `Imported ${imported} new books and updated ${updated}`
+        : "No books were imported",
+      imported,
+      updated,
+      errors,
+      books
+    };
+  }
+
+  private async plan(buffer: Buffer): Promise<PlannedRow[]> {
+    const { fields, rows } = readSheet(buffer);
+    const books = await storage.getAllBooks();
+    const byId = new Map(books.map(book => [book.id, book]));
+    const byIsbn = new Map<string, Book[]>();
+    for (const book of books) {
+      if (!book.isbn) continue;
+      const key = normalizeIsbn(book.isbn);
+      byIsbn.set(key, [...(byIsbn.get(key) || []), book]);
+    }
+    // Rows already seen for each book and each new ISBN, so a book is only written once
+    const bookRows = new Map<string, number>();
+    const newIsbnRows = new Map<string, number>();
+
+    return rows.map(({ row, cells }) => {
+      const errors: string[] = [];
+      const id = cells.id || "";
+      const isbn = cells.isbn || "";
+
+      let book: Book | undefined;
+      if (id) {
+        book = byId.get(id);
+        if (!book) {
+          return { summary: { row, status: CatalogImportRowStatus.INVALID, title: cells.title || "", changes: [], errors: [`No book with ID ${id}`] } };
+        }
+      } else if (isbn) {
+        const matches = byIsbn.get(normalizeIsbn(isbn)) || [];
+        if (matches.length > 1) {
+          errors.push(`ISBN ${isbn} matches ${matches.length} books; add the ID column to choose one`);
+        }
+        book = matches.length === 1 ? matches[0] : undefined;
+      }
+
+      if (book) {
+        const owner = isbn ? byIsbn.get(normalizeIsbn(isbn))?.find(other => other.id !== book!.id) : undefined;
+        if (owner) errors.push(`ISBN ${isbn} already belongs to "${owner.title}"`);
+        if (bookRows.has(book.id)) errors.push(`Updates the same book as row ${bookRows.get(book.id)}`);
+        else bookRows.set(book.id, row);
+        return this.planUpdate(row, cells, fields, book, errors);
+      }
+
+      if (isbn) {
+        const key = normalizeIsbn(isbn);
+        if (newIsbnRows.has(key)) errors.push(`Same ISBN as row ${newIsbnRows.get(key)}`);
+        else newIsbnRows.set(key, row);
+      }
+      return this.planCreate(row, cells, errors);
+    });
+  }
+
+  private planCreate(row: number, cells: SheetRow["cells"], errors: string[]): PlannedRow {
+    const title = cells.title || "";
+    const copies = parseCopies(cells.totalCopies || "", errors);
+    const parsed = insertBookSchema.safeParse({
+      title,
+      author: cells.author || "",
+      isbn: cells.isbn || undefined,
+      category: cells.category || "",
+      description: cells.description || undefined,
+      publisher: cells.publisher || undefined,
+      totalCopies: copies ?? 1
+    });
+    if (!parsed.success) errors.push(...parsed.error.errors.map(error => error.message));
+
+    if (errors.length > 0 || !parsed.success) {
+      return { summary: { row, status: CatalogImportRowStatus.INVALID, title, changes: [], errors } };
+    }
+    return { summary: { row, status: CatalogImportRowStatus.NEW, title, changes: [], errors }, data: parsed.data };
+  }
+
+  // Only the columns in the file are compared and written. A blank Total Copies keeps the book's copies, and
+  // other blank optional cells clear the field, stored as null like on a book created without it.
+  private planUpdate(row: number, cells: SheetRow["cells"], fields: Set<CatalogField>, book: Book, errors: string[]): PlannedRow {
+    const update: Partial<InsertBook> = {};
+    for (const [field] of FIELD_COLUMNS) {
+      if (!fields.has(field)) continue;
+      if (field === "totalCopies") {
+        const copies = parseCopies(cells.totalCopies || "", errors);
+        if (copies !== undefined) update.totalCopies = copies;
+      } else if (field === "isbn" || field === "description" || field === "publisher") {
+        update[field] = cells[field] || null;
+      } else {
+        update[field] = cells[field] || "";
+      }
+    }
+    const parsed = insertBookSchema.partial().safeParse(update);
+    if (!parsed.success) errors.push(...parsed.error.errors.map(error => error.message));
+
+    const summary: CatalogImportRow = {
+      row,
+      status: CatalogImportRowStatus.INVALID,
+      bookId: book.id,
+      title: cells.title || book.title,
+      changes: [],
+      errors
+    };
+    if (errors.length > 0) return { summary };
+
+    const data: Partial<InsertBook> = {};
+    for (const [field, column] of FIELD_COLUMNS) {
+      const after = update[field];
+      if (after === undefined) continue;
+      // Books saved before blanks were stored as null may have an empty string instead
+      const before = book[field] === "" ? null : book[field] ?? null;
+      // An ISBN typed with other hyphens or spaces is the same ISBN
+      const same = field === "isbn" && before !== null && after !== null
+        ? normalizeIsbn(String(before)) === normalizeIsbn(String(after))
+        : before === after;
+      if (same) continue;
+      summary.changes.push({ field: column, before, after: after === "" ? null : after });
+      Object.assign(data, { [field]: after });
+    }
+    summary.status = summary.changes.length > 0 ? CatalogImportRowStatus.CHANGED : CatalogImportRowStatus.UNCHANGED;
+    return { summary, data };
+  }
+
+  private toDiff(planned: PlannedRow[]): CatalogImportDiff {
+    const rows = planned.map(({ summary }) => summary);
+    const count = (status: CatalogImportRowStatus) => rows.filter(row => row.status === status).length;
+    return {
+      new: count(CatalogImportRowStatus.NEW),
+      changed: count(CatalogImportRowStatus.CHANGED),
+      unchanged: count(CatalogImportRowStatus.UNCHANGED),
+      invalid: count(CatalogImportRowStatus.INVALID),
+      rows
+    };
+  }
+}
+
+export const catalogTransfer = new CatalogTransferService();
@@ -0,0 +1,37 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { chatRetrieval } from "./chat-retrieval";
+import { storage } from "./storage";
+import { Role } from "@shared/schema";
+
+async function policyPage(message: string, id: string) {
+  const { policies } = await chatRetrieval.retrieve(message);
+  return policies.find(page => page.id === id);
+}
+
+describe("chat policy pages", () => {
+  beforeAll(async () => {
+    await storage.saveCirculationPolicy({ role: Role.STUDENT, category: null, loanPeriodDays: 21, maxConcurrentLoans: 4, maxRenewals: 1, holdsAllowed: true });
+    await storage.updateFineSettings({ currency: "USD", defaultDailyRate: 25 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("describes borrowing from the stored policies without assuming what the library lends", async () => {
+    const page = await policyPage("how long is a loan period for borrowing", "borrowing");
+    expect(page?.body).toMatch(/^Students borrow books for 21 days and may have up to 4 books/);
+    expect(page?.body).not.toMatch(/physical|digital/);
+  });
+
+  it("adds the configured collection note", async () => {
+    vi.stubEnv("LIBRARY_COLLECTION_NOTE", "E-books are on the library portal.");
+    const page = await policyPage("how long is a loan period for borrowing", "borrowing");
+    expect(page?.body).toMatch(/^E-books are on the library portal\. Students borrow books for 21 days/);
+  });
+
+  it("quotes fines in the configured currency from minor units", async () => {
+    const page = await policyPage("late fines and fees", "fines");
+    expect(page?.body).toContain("Late returns are fined $0.25 per day");
+  });
+});
@@ -0,0 +1,225 @@
+import { storage } from "./storage";
+import { catalogSearch } from "./catalog-search";
+import { semanticSearch } from "./embedding-service";
+import { InvertedIndex, tokenize } from "./search-index";
+import { DEFAULT_CIRCULATION_POLICY } from "./circulation-policy";
+import { fineService } from "./fine-service";
+import { Book, BookAIContent, CalendarEventType, Role } from "@shared/schema";
+
+/*
+ * Retrieval for the chat assistant: books from the catalog and from generated summaries, and policy pages
+ * built from the live circulation and fine settings. The assistant puts them in the prompt and may only
+ * recommend books from this context, citing them as [book:<id>].
+ */
+
+// Books and policy pages put in one prompt
+const MAX_BOOKS = 6;
+const MAX_POLICIES = 2;
+// Summaries are cut to this many characters in the prompt
+const SUMMARY_CHARS = 400;
+
+// Conversational words that say nothing about the books wanted ("do you have anything on thermodynamics?")
+const CHAT_STOP_WORDS = new Set([
+  "any", "anything", "can", "could", "do", "does", "find", "get", "good", "have", "help", "hi", "hello", "i", "looking",
+  "me", "my", "need", "please", "read", "recommend", "recommendation", "recommendations", "some", "something", "suggest",
+  "tell", "there", "want", "what", "which", "would", "you", "your", "library"
+]);
+
+const CITATION = /\s*\[book:([A-Za-z0-9_-]+)\]/g;
+
+export interface RetrievedBook {
+  book: Book;
+  summary?: string | null;
+}
+
+export interface PolicyPage {
+  id: string;
+  title: string;
+  body: string;
+}
+
+export interface ChatContext {
+  books: RetrievedBook[];
+  policies: PolicyPage[];
+}
+
+/**
+ * The catalog-relevant words of a chat message, or "" if there are none
+ */
+export function toSearchQuery(message: string): string {
+  return tokenize(message).filter(token => !CHAT_STOP_WORDS.has(token)).join(" ");
+}
+
+/**
+ * Book ids cited in a reply, in order of first mention
+ */
+export function extractCitations(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(CITATION), match => match[1])));
+}
+
+export function stripCitations(text: string): string {
+  return text.replace(CITATION, "");
+}
+
+async function buildPolicyPages(): Promise<PolicyPage[]> {
+  const [policies, fines, events] = await Promise.all([storage.getCirculationPolicies(), storage.getFineSettings(), storage.getCalendarEvents()]);
+  const studentPolicies = policies.filter(policy => policy.role === Role.STUDENT);
+  const general = studentPolicies.find(policy => !policy.category) || DEFAULT_CIRCULATION_POLICY;
+  const byCategory = studentPolicies
+    .filter(policy => policy.category)
+    .map(policy => `${policy.category}: ${policy.loanPeriodDays}-day loans, up to ${policy.maxConcurrentLoans} at once, ${policy.maxRenewals} renewals${policy.holdsAllowed ? "" : ", no holds"}.`);
+  const money = (amount: number) => fineService.formatAmount(amount, fines.currency);
+  // What the library lends beyond what the catalog shows, e.g. "E-books are on the library portal."
+  const collectionNote = process.env.LIBRARY_COLLECTION_NOTE?.trim();
+  const pickupDays = parseInt(process.env.HOLD_PICKUP_DAYS || '3', 10);
+  const now = new Date();
+  const closures = events
+    .filter(event => (event.type === CalendarEventType.HOLIDAY || event.type === CalendarEventType.CLOSURE) && new Date(event.endDate) >= now)
+    .slice(0, 10)
+    .map(event => {
+      const start = new Date(event.startDate).toDateString();
+      const end = new Date(event.endDate).toDateString();
+      return `${event.name} (${start === end ? start : `${start} to ${end}`})`;
+    });
+
+  return [
+    {
+      id: "borrowing",
+      title: "Borrowing and loan periods",
+      body: [
+        ...(collectionNote ? [collectionNote] : []),
+        `Students borrow books for ${general.loanPeriodDays} days and may have up to ${general.maxConcurrentLoans} books on loan at once.`,
+        ...(byCategory.length > 0 ? ["Some categories have their own rules:", ...byCategory] : []),
+        "To borrow a book, request it in the app or bring it to the circulation desk."
+      ].join(" ")
+    },
+    {
+      id: "requests",
+      title: "Requesting books",
+      body: "Students request a book from the catalog or from the assistant with the Request button. A librarian approves or rejects the request, and an approved request becomes a loan."
+    },
+    {
+      id: "renewals",
+      title: "Renewals and extensions",
+      body: `A loan can be renewed up to ${general.maxRenewals} times, each time for another full loan period. Renewals are approved instantly unless other patrons are waiting for the book or the loan is overdue by more than the ${fines.gracePeriodDays}-day grace period; those become extension requests for a librarian to review.`
+    },
+    {
+      id: "holds",
+      title: "Holds and reservations",
+      body: `When no copy of a book is available, students can place a hold. Holds are served first come, first served. A returned copy is kept on the hold shelf for the next patron for ${pickupDays} days before it passes to the next in line.`
+    },
+    {
+      id: "fines",
+      title: "Fines and fees",
+      body: `Late returns are fined ${money(fines.defaultDailyRate)} per day after a ${fines.gracePeriodDays}-day grace period, up to ${money(fines.maxFinePerItem)} per item. A lost book costs ${money(fines.lostItemFee)} and a damaged one ${money(fines.damagedItemFee)}. Borrowing is blocked while the outstanding balance is above ${money(fines.borrowingBlockThreshold)}. Librarians take payments and may waive charges.`
+    },
+    {
+      id: "closures",
+      title: "Holidays and closures",
+      body: `The library is closed on holidays and closure days. A due date that falls on a closed day moves to the next day the library is open, and closed days are not counted toward late fines. ${closures.length > 0 ? `Upcoming closures: ${closures.join("; ")}.` : "No closures are scheduled."}`
+    }
+  ];
+}
+
+export class ChatRetrievalService {
+  // Generated summaries and study guides by book id, so books can be found by what they are about
+  private summaries = new InvertedIndex<"summary" | "studyGuide">({ summary: 1, studyGuide: 0.5 });
+  private ready: Promise<void> | null = null;
+
+  async rebuild(): Promise<number> {
+    const contents = await storage.getAllBookAIContent();
+    this.summaries.clear();
+    contents.forEach(content => this.indexContent(content));
+    this.ready = Promise.resolve();
+    return contents.length;
+  }
+
+  indexContent(content: BookAIContent): void {
+    this.summaries.add(content.bookId, { summary: content.summary, studyGuide: content.studyGuide });
+  }
+
+  removeBook(id: string): void {
+    this.summaries.remove(id);
+  }
+
+  /**
+   * Books and policy pages relevant to a chat message. Semantic search ranks the catalog; when it fails,
+   * keyword matches are used. Books found only through their summary come after catalog matches.
+   */
+  async retrieve(message: string): Promise<ChatContext> {
+    const query = toSearchQuery(message);
+    if (!query) {
+      return { books: [], policies: [] };
+    }
+    await this.ensureReady();
+
+    const [catalogBooks, policies] = await Promise.all([
+      semanticSearch.search(query, MAX_BOOKS).catch(async error => {
+        console.error('Semantic search failed, using keyword matches for chat:', error);
+        const matches = await catalogSearch.match(query);
+        return storage.getBooksByIds(matches.slice(0, MAX_BOOKS).map(match => match.id));
+      }),
+      this.matchPolicies(query)
+    ]);
+
+    const seen = new Set(catalogBooks.map(book => book.id));
+    const summaryOnlyIds = this.summaries.search(query)
+      .map(match => match.id)
+      .filter(id => !seen.has(id))
+      .slice(0, MAX_BOOKS);
+    const summaryBooks = await storage.getBooksByIds(summaryOnlyIds);
+
+    // Interleave so a strong summary match is not pushed out by weak catalog matches
+    const ranked: Book[] = [];
+    for (let i = 0; ranked.length < MAX_BOOKS && (i < catalogBooks.length || i < summaryBooks.length); i++) {
+      if (catalogBooks[i]) ranked.push(catalogBooks[i]);
+      if (summaryBooks[i] && ranked.length < MAX_BOOKS) ranked.push(summaryBooks[i]);
+    }
+
+    const books = await Promise.all(ranked.map(async book => ({
+      book,
+      summary: (await storage.getBookAIContent(book.id))?.summary
+    })));
+    return { books, policies };
+  }
+
+  /**
+   * The context as prompt text, with the citation id of each book
+   */
+  formatContext(context: ChatContext): string {
+    const books = context.books.length > 0
+      ? context.books.map(({ book, summary }) => {
+          const availability = book.availableCopies > 0
+            ? `${book.availableCopies} of ${book.totalCopies} copies available`
+            : "all copies on loan (a hold can be placed)";
+          const lines = [`[book:${book.id}] "${book.title}" by ${book.author} - ${book.category}; ${availability}`];
+          const about = summary || book.description;
+          if (about) {
+            lines.push(`  About: ${about.length > SUMMARY_CHARS ? about.slice(0, SUMMARY_CHARS) + "..." : about}`);
+          }
+          return lines.join("\n");
+        }).join("\n")
+      : "No catalog books matched this message.";
+
+    const policies = context.policies.map(page => `${page.title}: ${page.body}`).join("\n");
+    return `LIBRARY CATALOG MATCHES:\n${books}${policies ? `\n\nLIBRARY POLICIES:\n${policies}` : ""}`;
+  }
+
+  private async matchPolicies(query: string): Promise<PolicyPage[]> {
+    const pages = await buildPolicyPages();
+    const index = new InvertedIndex<"title" | "body">({ title: 2, body: 1 });
+    pages.forEach(page => index.add(page.id, page));
+    const byId = new Map(pages.map(page => [page.id, page] as const));
+    return index.search(query).slice(0, MAX_POLICIES).map(match => byId.get(match.id)!);
+  }
+
+  private async ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.rebuild().then(() => undefined);
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+}
+
+export const chatRetrieval = new ChatRetrievalService();
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { ChatSessionError, chatSessions } from "./chat-session-service";
+
+describe("chat sessions", () => {
+  it("keeps every message when replies are saved at the same time", async () => {
+    const session = await chatSessions.start("student", "Books on tides");
+    await Promise.all(Array.from({ length: 5 }, (_, i) =>
+      chatSessions.append("student", session.id, { role: "user", content: `question ${i}` }, { role: "assistant", content: `answer ${i}` })
+    ));
+
+    const saved = await chatSessions.get("student", session.id);
+    expect(saved.messages).toHaveLength(10);
+    expect(saved.messages.filter(message => message.role === "user").map(message => message.content).sort())
+      .toEqual(["question 0", "question 1", "question 2", "question 3", "question 4"]);
+  });
+
+  it("reports another student's conversation and unknown ids as not found", async () => {
+    const session = await chatSessions.start("owner");
+
+    for (const [userId, id] of [["someone-else", session.id], ["owner", "not-an-id"]]) {
+      const error = await chatSessions.append(userId, id, { role: "user", content: "hi" }).catch(error => error);
+      expect(error).toBeInstanceOf(ChatSessionError);
+      expect(error.status).toBe(404);
+    }
+    expect((await chatSessions.get("owner", session.id)).messages).toHaveLength(0);
+  });
+});
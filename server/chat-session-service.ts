@@ -0,0 +1,159 @@
+import { storage } from "./storage";
+import { llm } from "./llm-provider";
+import { ChatMessage, ChatSession, ChatSessionSummary } from "@shared/schema";
+
+/*
+ * A student's chat conversations. Each conversation keeps its whole history; only the most recent
+ * messages go into the assistant's prompt.
+ */
+
+export const DEFAULT_CHAT_TITLE = "New conversation";
+// Longest title, whether typed or generated
+const MAX_TITLE_LENGTH = 60;
+// Characters either side of a search match in the snippet
+const SNIPPET_CONTEXT = 40;
+
+export class ChatSessionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ChatSessionError";
+  }
+}
+
+function toSummary({ messages, ...session }: ChatSession, snippet?: string): ChatSessionSummary {
+  return { ...session, messageCount: messages.length, ...(snippet && { snippet }) };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1).trimEnd() + "…" : text;
+}
+
+/**
+ * A title from the first message alone, used until (or instead of) a generated one
+ */
+function fallbackTitle(message: string): string {
+  const firstLine = message.trim().split("\n")[0].replace(/\s+/g, " ");
+  return truncate(firstLine, MAX_TITLE_LENGTH) || DEFAULT_CHAT_TITLE;
+}
+
+function snippetOf(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${end < text.length ? "…" : ""}`;
+}
+
+export class ChatSessionService {
+  /**
+   * The student's conversations, most recently active first. With a query, only conversations whose
+   * title or messages contain every word of it, each with a snippet around the first match.
+   */
+  async list(userId: string, query?: string): Promise<ChatSessionSummary[]> {
+    const sessions = await storage.getChatSessionsByUser(userId);
+    const words = (query || "").toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return sessions.map(session => toSummary(session));
+    }
+
+    const results: ChatSessionSummary[] = [];
+    for (const session of sessions) {
+      const texts = [session.title, ...session.messages.map(message => message.content)];
+      const haystack = texts.join("\n").toLowerCase();
+      if (!words.every(word => haystack.includes(word))) continue;
+
+      // Prefer a message that matches over the title, since the title is shown anyway
+      const matchIn = texts.slice(1).find(text => text.toLowerCase().includes(words[0])) || session.title;
+      const index = matchIn.toLowerCase().indexOf(words[0]);
+      results.push(toSummary(session, snippetOf(matchIn, index, words[0].length)));
+    }
+    return results;
+  }
+
+  /**
+   * One of the student's conversations; someone else's is reported as not found
+   */
+  async get(userId: string, sessionId: string): Promise<ChatSession> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new ChatSessionError("Conversation not found", 404);
+    }
+    return session;
+  }
+
+  async start(userId: string, firstMessage?: string): Promise<ChatSession> {
+    return storage.createChatSession({
+      userId,
+      title: firstMessage ? fallbackTitle(firstMessage) : DEFAULT_CHAT_TITLE,
+      messages: []
+    });
+  }
+
+  async append(userId: string, sessionId: string, ...messages: Omit<ChatMessage, "timestamp">[]): Promise<ChatSession> {
+    await this.get(userId, sessionId);
+    const now = new Date();
+    const updated = await storage.appendChatMessages(sessionId, messages.map(message => ({ ...message, timestamp: now })));
+    if (!updated) {
+      throw new ChatSessionError("Failed to save the conversation", 500);
+    }
+    return updated;
+  }
+
+  async rename(userId: string, sessionId: string, title: string): Promise<ChatSession> {
+    await this.get(userId, sessionId);
+    const updated = await storage.updateChatSession(sessionId, { title: truncate(title.trim(), MAX_TITLE_LENGTH) });
+    if (!updated) {
+      throw new ChatSessionError("Failed to rename the conversation", 500);
+    }
+    return updated;
+  }
+
+  async remove(userId: string, sessionId: string): Promise<void> {
+    await this.get(userId, sessionId);
+    if (!await storage.deleteChatSession(sessionId)) {
+      throw new ChatSessionError("Failed to delete the conversation", 500);
+    }
+  }
+
+  async removeAll(userId: string): Promise<number> {
+    return storage.deleteChatSessionsByUser(userId);
+  }
+
+  /**
+   * Name a conversation after its first exchange. The model's title replaces the one taken from the
+   * first message; if the call fails that one stays.
+   */
+  async generateTitle(userId: string, sessionId: string): Promise<ChatSession> {
+    const session = await this.get(userId, sessionId);
+    const exchange = session.messages.slice(0, 2).map(message => `${message.role}: ${truncate(message.content, 500)}`).join("\n");
+    try {
+      const response = await llm.generate("chat", {
+        prompt: `Give this library chat conversation a short title of at most six words, like "Renewing my physics textbook" or "Books on Roman history". Reply with the title only, no quotes.\n\n${exchange}`,
+        maxTokens: 20,
+        temperature: 0.3
+      });
+      const title = response.text.trim().replace(/^["'\s]+|["'.\s]+$/g, "");
+      return title ? await this.rename(userId, sessionId, title) : session;
+    } catch (error) {
+      console.error('Failed to generate chat title:', error);
+      return session;
+    }
+  }
+
+  /**
+   * The conversation as a Markdown document
+   */
+  toMarkdown(session: ChatSession, studentName: string): string {
+    const lines = [
+      `# ${session.title}`,
+      "",
+      `Conversation between ${studentName} and the AI Library Assistant, started ${session.createdAt.toISOString().slice(0, 16).replace("T", " ")} UTC.`,
+      ""
+    ];
+    for (const message of session.messages) {
+      const time = new Date(message.timestamp).toISOString().slice(11, 16);
+      lines.push(`## ${message.role === "user" ? studentName : "Assistant"} (${time})`, "", message.content, "");
+    }
+    return lines.join("\n");
+  }
+}
+
+export const chatSessions = new ChatSessionService();
@@ -0,0 +1,327 @@
+import { z } from "zod";
+import { storage, circulationPolicy } from "./storage";
+import { catalogSearch } from "./catalog-search";
+import { renewalService } from "./renewal-service";
+import { LLMTool, LLMToolCall } from "./llm-provider";
+import {
+  Book,
+  BookRequestStatus,
+  CatalogAvailability,
+  ExtensionRequestStatus,
+  Role,
+  TransactionStatus,
+  User
+} from "@shared/schema";
+
+/*
+ * Tools the chat assistant can call on the signed-in student's behalf. Each tool validates its arguments
+ * with zod and goes through the same storage methods and permission checks as the matching route.
+ * Mutating tools never run straight from a model call: the assistant proposes them and the student
+ * confirms in the chat widget.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ChatToolError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ChatToolError";
+  }
+}
+
+// The signed-in user the assistant acts for; only the fields the assistant reads, so the session user fits as is
+export type ChatUser = Pick<User, "id" | "fullName" | "studentId" | "role">;
+
+export interface ChatToolContext {
+  user: ChatUser;
+}
+
+export interface ChatToolResult {
+  // What the model is told, and for confirmed actions what the student sees
+  summary: string;
+  // Catalog books in the result, which the reply may cite
+  books?: Book[];
+}
+
+export interface ChatTool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  parameters: LLMTool["parameters"];
+  schema: S;
+  mutating: boolean;
+  // One line for the confirmation card; required for mutating tools
+  describe?(args: z.infer<S>, context: ChatToolContext): Promise<string>;
+  run(args: z.infer<S>, context: ChatToolContext): Promise<ChatToolResult>;
+}
+
+function defineTool<S extends z.ZodTypeAny>(tool: ChatTool<S>): ChatTool<S> {
+  return tool;
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function assertStudent(user: ChatUser, action: string): void {
+  if (user.role !== Role.STUDENT) {
+    throw new ChatToolError(`Only students can ${action}`, 403);
+  }
+}
+
+async function findActiveLoan(user: ChatUser, transactionId: string) {
+  const loan = (await storage.getUserTransactions(user.id)).find(t => t.id === transactionId);
+  if (!loan) {
+    throw new ChatToolError("Loan not found", 404);
+  }
+  if (loan.status === TransactionStatus.RETURNED) {
+    throw new ChatToolError("This book has already been returned");
+  }
+  return loan;
+}
+
+const searchCatalog = defineTool({
+  name: "search_catalog",
+  description: "Search the library catalog by title, author, subject or ISBN. Returns up to 5 books with their ids and availability.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Words to search for" },
+      availableOnly: { type: "boolean", description: "Only books with a copy on the shelf" }
+    },
+    required: ["query"]
+  },
+  schema: z.object({ query: z.string().trim().min(1), availableOnly: z.boolean().optional() }),
+  mutating: false,
+  async run({ query, availableOnly }) {
+    const result = await catalogSearch.search({
+      q: query,
+      page: 1,
+      pageSize: 5,
+      availability: availableOnly ? CatalogAvailability.AVAILABLE : undefined
+    });
+    const books = result.items.map(hit => hit.book);
+    if (books.length === 0) {
+      return { summary: `No books in the catalog match "${query}".` };
+    }
+    return {
+      summary: books
+        .map(book => `[book:${book.id}] "${book.title}" by ${book.author} - ${book.category}; ${book.availableCopies} of ${book.totalCopies} available`)
+        .join("\n"),
+      books
+    };
+  }
+});
+
+const listMyLoans = defineTool({
+  name: "list_my_loans",
+  description: "List the student's current loans with their loan ids, due dates and renewals so far.",
+  parameters: { type: "object", properties: {} },
+  schema: z.object({}),
+  mutating: false,
+  async run(_, { user }) {
+    const loans = (await storage.getUserTransactions(user.id)).filter(t => t.status !== TransactionStatus.RETURNED);
+    if (loans.length === 0) {
+      return { summary: "The student has no books on loan." };
+    }
+    return {
+      summary: loans
+        .map(loan => `loan ${loan.id}: "${loan.book.title}" by ${loan.book.author}, due ${formatDate(loan.dueDate)}, ${loan.status}, renewed ${loan.renewalCount || 0} times`)
+        .join("\n"),
+      books: loans.map(loan => loan.book)
+    };
+  }
+});
+
+const placeBookRequest = defineTool({
+  name: "place_book_request",
+  description: "Ask the librarians to lend the student a book. Needs the book id from search_catalog.",
+  parameters: {
+    type: "object",
+    properties: {
+      bookId: { type: "string", description: "Catalog book id" },
+      notes: { type: "string", description: "Optional note for the librarian" }
+    },
+    required: ["bookId"]
+  },
+  schema: z.object({ bookId: z.string().min(1), notes: z.string().optional() }),
+  mutating: true,
+  async describe({ bookId }) {
+    const book = await storage.getBook(bookId);
+    if (!book) throw new ChatToolError("Book not found", 404);
+    return `Request "${book.title}" by ${book.author}`;
+  },
+  async run({ bookId, notes }, { user }) {
+    assertStudent(user, "request books");
+    const book = await storage.getBook(bookId);
+    if (!book) {
+      throw new ChatToolError("Book not found", 404);
+    }
+    const pending = (await storage.getBookRequestsByUser(user.id))
+      .find(request => request.bookId === bookId && request.status === BookRequestStatus.PENDING);
+    if (pending) {
+      throw new ChatToolError(`You already have a pending request for "${book.title}"`, 409);
+    }
+
+    await storage.createBookRequest({
+      userId: user.id,
+      bookId,
+      requestedBy: user.fullName,
+      notes: notes || "",
+      status: BookRequestStatus.PENDING,
+    });
+    return { summary: `Your request for "${book.title}" has been sent to the librarians for approval.`, books: [book] };
+  }
+});
+
+const renewLoan = defineTool({
+  name: "renew_loan",
+  description: "Renew one of the student's loans. Routine renewals happen at once; otherwise an extension request goes to a librarian.",
+  parameters: {
+    type: "object",
+    properties: {
+      transactionId: { type: "string", description: "Loan id from list_my_loans" }
+    },
+    required: ["transactionId"]
+  },
+  schema: z.object({ transactionId: z.string().min(1) }),
+  mutating: true,
+  async describe({ transactionId }, { user }) {
+    const loan = await findActiveLoan(user, transactionId);
+    return `Renew "${loan.book.title}" (due ${formatDate(loan.dueDate)})`;
+  },
+  async run({ transactionId }, { user }) {
+    assertStudent(user, "renew loans");
+    const result = await renewalService.renew(user.id, transactionId);
+    if (result.renewed) {
+      return { summary: `Renewed. The new due date is ${formatDate(result.transaction.dueDate)}.` };
+    }
+    return { summary: `This renewal needs a librarian because ${result.reason}, so an extension request has been sent for review.` };
+  }
+});
+
+const requestExtension = defineTool({
+  name: "request_extension",
+  description: "Ask a librarian to extend a loan's due date, for example when the student needs a specific date.",
+  parameters: {
+    type: "object",
+    properties: {
+      transactionId: { type: "string", description: "Loan id from list_my_loans" },
+      requestedDueDate: { type: "string", description: "Wanted due date, YYYY-MM-DD; defaults to one more loan period" },
+      reason: { type: "string", description: "Why the extension is needed" }
+    },
+    required: ["transactionId"]
+  },
+  schema: z.object({
+    transactionId: z.string().min(1),
+    requestedDueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    reason: z.string().optional()
+  }),
+  mutating: true,
+  async describe({ transactionId, requestedDueDate }, { user }) {
+    const loan = await findActiveLoan(user, transactionId);
+    return `Ask for an extension on "${loan.book.title}"${requestedDueDate ? ` until ${requestedDueDate}` : ""}`;
+  },
+  async run({ transactionId, requestedDueDate, reason }, { user }) {
+    assertStudent(user, "create extension requests");
+    const loan = await findActiveLoan(user, transactionId);
+    const policy = await circulationPolicy.assertCanRenew(loan);
+
+    const pending = (await storage.getExtensionRequestsByUser(user.id))
+      .find(request => request.transactionId === loan.id && request.status === ExtensionRequestStatus.PENDING);
+    if (pending) {
+      throw new ChatToolError("An extension request for this loan is already waiting for librarian review", 409);
+    }
+
+    const currentDueDate = new Date(loan.dueDate);
+    const newDueDate = requestedDueDate
+      ? new Date(`${requestedDueDate}T00:00:00`)
+      : new Date(currentDueDate.getTime() + policy.loanPeriodDays * DAY_MS);
+    if (newDueDate <= currentDueDate) {
+      throw new ChatToolError("The requested due date must be after the current one");
+    }
+
+    await storage.createExtensionRequest({
+      userId: user.id,
+      transactionId: loan.id,
+      currentDueDate,
+      requestedDueDate: newDueDate,
+      reason: reason || "Requested through the library assistant"
+    });
+    return { summary: `Extension request for "${loan.book.title}" until ${formatDate(newDueDate)} sent to the librarians.` };
+  }
+});
+
+const markNotificationsRead = defineTool({
+  name: "mark_notifications_read",
+  description: "Mark the student's notifications as read: the given ids, or all unread ones when no ids are given.",
+  parameters: {
+    type: "object",
+    properties: {
+      notificationIds: { type: "array", items: { type: "string" }, description: "Notification ids; omit for all" }
+    }
+  },
+  schema: z.object({ notificationIds: z.array(z.string().min(1)).optional() }),
+  mutating: true,
+  async describe({ notificationIds }, { user }) {
+    const unread = (await storage.getUserNotifications(user.id)).filter(notification => !notification.isRead);
+    const count = notificationIds?.length ? unread.filter(notification => notificationIds.includes(notification.id)).length : unread.length;
+    return `Mark ${count} unread notification${count === 1 ? "" : "s"} as read`;
+  },
+  async run({ notificationIds }, { user }) {
+    if (!notificationIds?.length) {
+      if (!await storage.markAllNotificationsAsRead(user.id)) {
+        throw new ChatToolError("Failed to mark notifications as read", 500);
+      }
+      return { summary: "All your notifications are marked as read." };
+    }
+
+    // Only the student's own notifications
+    const own = new Set((await storage.getUserNotifications(user.id)).map(notification => notification.id));
+    const ids = notificationIds.filter(id => own.has(id));
+    if (ids.length === 0) {
+      throw new ChatToolError("Notification not found", 404);
+    }
+    await Promise.all(ids.map(id => storage.markNotificationAsRead(id)));
+    return { summary: `Marked ${ids.length} notification${ids.length === 1 ? "" : "s"} as read.` };
+  }
+});
+
+export class ChatToolRegistry {
+  private tools = new Map<string, ChatTool>();
+
+  constructor(tools: ChatTool[]) {
+    tools.forEach(tool => this.tools.set(tool.name, tool));
+  }
+
+  get(name: string): ChatTool | undefined {
+    return this.tools.get(name);
+  }
+
+  definitions(): LLMTool[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * The tool a model call names, with its arguments validated
+   */
+  resolve(call: Pick<LLMToolCall, "name" | "arguments">): { tool: ChatTool; args: unknown } {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      throw new ChatToolError(`Unknown tool "${call.name}"`);
+    }
+    const parsed = tool.schema.safeParse(call.arguments);
+    if (!parsed.success) {
+      throw new ChatToolError(`Invalid arguments for ${call.name}: ${parsed.error.errors.map(error => `${error.path.join(".") || "input"} ${error.message}`).join("; ")}`);
+    }
+    return { tool, args: parsed.data };
+  }
+}
+
+export const chatTools = new ChatToolRegistry([
+  searchCatalog,
+  listMyLoans,
+  placeBookRequest,
+  renewLoan,
+  requestExtension,
+  markNotificationsRead
+]);
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { CirculationPolicyEngine, DEFAULT_CIRCULATION_POLICY, PolicyViolationError } from "./circulation-policy";
+import { CirculationPolicy, FineSettings, PolicyViolationCode, Role, TransactionStatus, TransactionWithBook } from "@shared/schema";
+
+const settings = { currency: "USD", borrowingBlockThreshold: 500 } as FineSettings;
+
+function policy(category: string | null, overrides: Partial<CirculationPolicy> = {}): CirculationPolicy {
+  return {
+    id: category ?? "role",
+    role: Role.STUDENT,
+    category,
+    ...DEFAULT_CIRCULATION_POLICY,
+    updatedAt: new Date(0),
+    ...overrides
+  };
+}
+
+function loans(...categories: string[]): TransactionWithBook[] {
+  return categories.map((category, index) => ({
+    id: `loan-${index}`,
+    userId: "student",
+    bookId: `book-${index}`,
+    borrowedDate: new Date(),
+    dueDate: new Date(),
+    status: TransactionStatus.BORROWED,
+    book: { category } as TransactionWithBook["book"]
+  }));
+}
+
+function engine(policies: CirculationPolicy[], current: TransactionWithBook[], balance = 0) {
+  return new CirculationPolicyEngine({
+    getUser: async () => ({ role: Role.STUDENT }) as any,
+    getBook: async () => ({ category: "Reference" }) as any,
+    getCirculationPolicies: async () => policies,
+    getUserTransactions: async () => current,
+    getUserFineBalance: async () => balance,
+    getFineSettings: async () => settings
+  });
+}
+
+describe("resolve", () => {
+  const policies = [policy(null, { loanPeriodDays: 21 }), policy("Reference", { loanPeriodDays: 3 })];
+  const resolver = engine(policies, []);
+
+  it("prefers the policy for the book's category, ignoring case", () => {
+    expect(resolver.resolve(policies, Role.STUDENT, " reference ").loanPeriodDays).toBe(3);
+  });
+
+  it("falls back to the role-wide policy, then the default", () => {
+    expect(resolver.resolve(policies, Role.STUDENT, "Fiction").loanPeriodDays).toBe(21);
+    expect(resolver.resolve(policies, Role.LIBRARIAN, "Reference").id).toBe("default");
+  });
+});
+
+describe("assertCanBorrow", () => {
+  it("enforces the category limit within the category", async () => {
+    const policies = [policy("Reference", { maxConcurrentLoans: 1 })];
+    await expect(engine(policies, loans("Fiction", "Fiction")).assertCanBorrow("student", "book")).resolves.toMatchObject({ category: "Reference" });
+    await expect(engine(policies, loans("Reference")).assertCanBorrow("student", "book")).rejects.toThrow(/at most 1 Reference book may/);
+  });
+
+  it("still enforces the role-wide limit when the category has its own policy", async () => {
+    const policies = [policy(null, { maxConcurrentLoans: 2 }), policy("Reference", { maxConcurrentLoans: 5 })];
+    await expect(engine(policies, loans("Fiction", "Reference")).assertCanBorrow("student", "book")).rejects.toThrow(/at most 2 books may/);
+  });
+
+  it("applies the default limit when the role has no role-wide policy", async () => {
+    const policies = [policy("Reference", { maxConcurrentLoans: 10 })];
+    const current = loans(...Array(DEFAULT_CIRCULATION_POLICY.maxConcurrentLoans).fill("Fiction"));
+    await expect(engine(policies, current).assertCanBorrow("student", "book")).rejects.toThrow(/Loan limit reached/);
+  });
+
+  it("ignores returned loans", async () => {
+    const current = loans("Reference").map(loan => ({ ...loan, status: TransactionStatus.RETURNED }));
+    await expect(engine([policy(null, { maxConcurrentLoans: 1 })], current).assertCanBorrow("student", "book")).resolves.toBeDefined();
+  });
+
+  it("blocks borrowing above the fine threshold", async () => {
+    const error = await engine([], [], 501).assertCanBorrow("student", "book").catch(error => error);
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error.code).toBe(PolicyViolationCode.OUTSTANDING_FINES);
+  });
+});
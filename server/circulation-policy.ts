@@ -0,0 +1,151 @@
+import type { IStorage } from "./storage";
+import {
+  CirculationPolicy,
+  PolicyViolationCode,
+  Role,
+  Transaction,
+  TransactionStatus,
+  TransactionWithBook
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Applies to any role/category combination without a stored policy
+export const DEFAULT_CIRCULATION_POLICY: Omit<CirculationPolicy, "id" | "role" | "category" | "updatedAt"> = {
+  loanPeriodDays: 14,
+  maxConcurrentLoans: 5,
+  maxRenewals: 2,
+  holdsAllowed: true,
+};
+
+export class PolicyViolationError extends Error {
+  constructor(public code: PolicyViolationCode, message: string, public status: number = 403) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+}
+
+type PolicySource = Pick<
+  IStorage,
+  "getUser" | "getBook" | "getUserTransactions" | "getCirculationPolicies" | "getUserFineBalance" | "getFineSettings"
+>;
+
+/**
+ * Evaluates circulation policies against a borrower and a book. Storage uses it on every loan and renewal;
+ * routes and services use it to check up front and to pick default due dates.
+ */
+export class CirculationPolicyEngine {
+  constructor(private source: PolicySource) {}
+
+  /**
+   * Most specific policy for a role and category: an exact category match, then the role-wide policy, then the default
+   */
+  resolve(policies: CirculationPolicy[], role: Role, category?: string | null): CirculationPolicy {
+    const forRole = policies.filter(policy => policy.role === role);
+    const normalized = category?.trim().toLowerCase();
+    const match =
+      forRole.find(policy => normalized && policy.category?.trim().toLowerCase() === normalized) ||
+      forRole.find(policy => !policy.category);
+
+    return match || { id: "default", role, category: null, ...DEFAULT_CIRCULATION_POLICY, updatedAt: new Date(0) };
+  }
+
+  async getPolicyFor(userId: string, bookId: string): Promise<CirculationPolicy> {
+    const [user, book, policies] = await Promise.all([
+      this.source.getUser(userId),
+      this.source.getBook(bookId),
+      this.source.getCirculationPolicies()
+    ]);
+    return this.resolve(policies, user?.role ?? Role.STUDENT, book?.category);
+  }
+
+  /**
+   * Due date for a new loan under the given policy
+   */
+  dueDateFor(policy: CirculationPolicy, from: Date = new Date()): Date {
+    return new Date(from.getTime() + policy.loanPeriodDays * DAY_MS);
+  }
+
+  /**
+   * Throws a PolicyViolationError if the user may not take this book on loan. Returns the policy that governs the loan.
+   */
+  async assertCanBorrow(userId: string, bookId: string): Promise<CirculationPolicy> {
+    const [user, book, policies, balance, settings, loans] = await Promise.all([
+      this.source.getUser(userId),
+      this.source.getBook(bookId),
+      this.source.getCirculationPolicies(),
+      this.source.getUserFineBalance(userId),
+      this.source.getFineSettings(),
+      this.source.getUserTransactions(userId)
+    ]);
+
+    if (balance > settings.borrowingBlockThreshold) {
+      throw new PolicyViolationError(
+        PolicyViolationCode.OUTSTANDING_FINES,
+        `Borrowing is blocked: outstanding fines of ${this.formatAmount(balance, settings.currency)} exceed the limit of ${this.formatAmount(settings.borrowingBlockThreshold, settings.currency)}`
+      );
+    }
+
+    // A loan in a category with its own policy counts against that limit and the role-wide one
+    const role = user?.role ?? Role.STUDENT;
+    const policy = this.resolve(policies, role, book?.category);
+    this.assertWithinLoanLimit(policy, loans);
+    if (policy.category) {
+      this.assertWithinLoanLimit(this.resolve(policies, role), loans);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Throws a PolicyViolationError if the loan has used up its renewals
+   */
+  async assertCanRenew(transaction: Transaction): Promise<CirculationPolicy> {
+    const policy = await this.getPolicyFor(transaction.userId, transaction.bookId);
+    const renewals = transaction.renewalCount ?? 0;
+
+    if (renewals >= policy.maxRenewals) {
+      throw new PolicyViolationError(
+        PolicyViolationCode.RENEWAL_LIMIT_REACHED,
+        policy.maxRenewals === 0
+          ? "Loans of this book cannot be renewed"
+          : `Renewal limit reached: this loan has already been renewed ${renewals} time${renewals === 1 ? '' : 's'}`
+      );
+    }
+
+    return policy;
+  }
+
+  /**
+   * Throws a PolicyViolationError if the user's policy does not allow holds on this book
+   */
+  async assertCanPlaceHold(userId: string, bookId: string): Promise<CirculationPolicy> {
+    const policy = await this.getPolicyFor(userId, bookId);
+    if (!policy.holdsAllowed) {
+      throw new PolicyViolationError(PolicyViolationCode.HOLDS_NOT_ALLOWED, "Holds are not allowed on this book");
+    }
+    return policy;
+  }
+
+  /**
+   * A category policy limits loans within that category; a role-wide policy limits all loans
+   */
+  private assertWithinLoanLimit(policy: CirculationPolicy, loans: TransactionWithBook[]): void {
+    const category = policy.category?.trim().toLowerCase();
+    const openLoans = loans.filter(loan =>
+      loan.status !== TransactionStatus.RETURNED &&
+      (!category || loan.book?.category?.trim().toLowerCase() === category)
+    );
+    if (openLoans.length >= policy.maxConcurrentLoans) {
+      const scope = policy.category ? ` ${policy.category}` : "";
+      throw new PolicyViolationError(
+        PolicyViolationCode.LOAN_LIMIT_REACHED,
+        `Loan limit reached: at most ${policy.maxConcurrentLoans}${scope} book${policy.maxConcurrentLoans === 1 ? '' : 's'} may be on loan at once`
+      );
+    }
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount / 100);
+  }
+}
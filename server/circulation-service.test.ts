@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { circulationService } from "./circulation-service";
+import { storage } from "./storage";
+import { DeskAction, DeskItemResult, ItemStatus, LedgerEntryType, Role, TransactionStatus, transactionListQuerySchema } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function patron(username: string) {
+  return storage.createUser({
+    username,
+    email: `${username}@example.edu`,
+    fullName: username,
+    studentId: username,
+    phone: "0000000000",
+    password: "secret",
+    role: Role.STUDENT
+  });
+}
+
+// Scan a patron card, then a copy of a new single-copy book
+async function checkOut(username: string) {
+  const borrower = await patron(username);
+  const book = await storage.createBook({ title: `Desk ${username}`, author: "Author", category: "Fiction", totalCopies: 1 });
+  const [item] = await storage.getItemsByBook(book.id);
+  const result = await circulationService.scan(item.barcode, borrower.id) as DeskItemResult;
+  return { borrower, book, item, loan: result.transaction };
+}
+
+describe("circulation desk", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T10:00:00"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("checks a copy out to the scanned patron and back in on the next scan", async () => {
+    const { borrower, item, loan } = await checkOut("desk-roundtrip");
+    expect(loan.userId).toBe(borrower.id);
+    expect((await storage.getItem(item.id))?.status).toBe(ItemStatus.ON_LOAN);
+
+    const checkedIn = await circulationService.scan(item.barcode) as DeskItemResult;
+    expect(checkedIn.action).toBe(DeskAction.CHECKED_IN);
+    expect(checkedIn.transaction.status).toBe(TransactionStatus.RETURNED);
+    expect(checkedIn.item.status).toBe(ItemStatus.AVAILABLE);
+  });
+
+  it("cancels an undone check-out instead of deleting it", async () => {
+    const { borrower, item, loan } = await checkOut("desk-undo");
+
+    const undone = await circulationService.undo(DeskAction.CHECKED_OUT, loan.id, "librarian");
+    expect(undone.transaction.status).toBe(TransactionStatus.CANCELLED);
+    expect((await storage.getItem(item.id))?.status).toBe(ItemStatus.AVAILABLE);
+    expect(await storage.getUserTransactions(borrower.id)).toHaveLength(0);
+
+    const history = await storage.listTransactions(transactionListQuerySchema.parse({ userId: borrower.id }));
+    expect(history.items.map(t => t.status)).toEqual([TransactionStatus.CANCELLED]);
+  });
+
+  it("only undoes a check-out within the undo window", async () => {
+    const { loan } = await checkOut("desk-late-undo");
+    vi.advanceTimersByTime(16 * 60 * 1000);
+
+    await expect(circulationService.undo(DeskAction.CHECKED_OUT, loan.id, "librarian")).rejects.toThrow(/within 15 minutes/);
+  });
+
+  it("does not undo the check-out of an overdue loan", async () => {
+    const { loan } = await checkOut("desk-overdue");
+    await storage.updateTransactionStatus(loan.id, TransactionStatus.OVERDUE);
+
+    await expect(circulationService.undo(DeskAction.CHECKED_OUT, loan.id, "librarian")).rejects.toThrow(/status: OVERDUE/);
+  });
+
+  it("reopens an undone check-in and waives the late fine it charged", async () => {
+    const { borrower, item, loan } = await checkOut("desk-undo-return");
+    vi.setSystemTime(new Date(new Date(loan.dueDate).getTime() + 10 * DAY_MS));
+
+    const checkedIn = await circulationService.scan(item.barcode) as DeskItemResult;
+    expect(checkedIn.fine?.amount).toBeGreaterThan(0);
+
+    const undone = await circulationService.undo(DeskAction.CHECKED_IN, loan.id, "librarian");
+    expect(undone.transaction.status).toBe(TransactionStatus.OVERDUE);
+    expect((await storage.getItem(item.id))?.status).toBe(ItemStatus.ON_LOAN);
+    const ledger = await storage.getUserLedger(borrower.id);
+    expect(ledger.some(entry => entry.type === LedgerEntryType.WAIVER)).toBe(true);
+    expect(await storage.getUserFineBalance(borrower.id)).toBe(0);
+  });
+
+  it("only undoes a check-in within the undo window", async () => {
+    const { item, loan } = await checkOut("desk-late-undo-return");
+    vi.setSystemTime(new Date(new Date(loan.dueDate).getTime() + 10 * DAY_MS));
+    await circulationService.scan(item.barcode);
+    vi.advanceTimersByTime(16 * 60 * 1000);
+
+    await expect(circulationService.undo(DeskAction.CHECKED_IN, loan.id, "librarian")).rejects.toThrow(/within 15 minutes/);
+    expect((await storage.getTransaction(loan.id))?.status).toBe(TransactionStatus.RETURNED);
+  });
+});
@@ -0,0 +1,297 @@
+import { storage, circulationPolicy } from "./storage";
+import { holdService } from "./hold-service";
+import { fineService } from "./fine-service";
+import {
+  BookRequestStatus,
+  DeskAction,
+  DeskItemResult,
+  DeskPatron,
+  DeskScanResult,
+  FeeCategory,
+  Hold,
+  HoldStatus,
+  ItemStatus,
+  LedgerEntry,
+  LedgerEntryType,
+  Transaction,
+  TransactionStatus,
+  User
+} from "@shared/schema";
+
+// A hold closed this close to a loan's start is the hold that loan was checked out from
+const HOLD_MATCH_WINDOW_MS = 60 * 60 * 1000;
+// How long after a check-out or check-in the desk can still undo it
+const UNDO_WINDOW_MS = parseInt(process.env.DESK_UNDO_MINUTES || '15', 10) * 60 * 1000;
+
+export interface CheckInResult {
+  transaction: Transaction;
+  fine: LedgerEntry | null;
+  hold: Hold | null;
+}
+
+export class CirculationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CirculationError";
+  }
+}
+
+export class CirculationService {
+  /**
+   * Return a loan: close it, pass the copy to the hold queue or back to the shelf, and assess any late fine
+   */
+  async checkIn(transaction: Transaction, now: Date = new Date()): Promise<CheckInResult | null> {
+    const updatedTransaction = await storage.updateTransactionStatus(transaction.id, TransactionStatus.RETURNED, now);
+    if (!updatedTransaction) return null;
+
+    const hold = transaction.itemId
+      ? await holdService.checkInCopy(transaction.bookId, transaction.itemId, now)
+      : null;
+
+    // Accrue any late fine on the borrower's ledger
+    let fine: LedgerEntry | null = null;
+    try {
+      fine = await fineService.assessReturnFine(transaction, updatedTransaction.returnedDate || now);
+    } catch (fineError) {
+      console.error('Failed to assess late fine:', fineError);
+    }
+
+    return { transaction: updatedTransaction, fine, hold };
+  }
+
+  /**
+   * Everything the desk needs to know about a patron: open loans, holds ready for pickup and balance
+   */
+  async getPatron(userId: string): Promise<DeskPatron | null> {
+    const user = await storage.getUser(userId);
+    if (!user) return null;
+
+    const [transactions, holds, balance] = await Promise.all([
+      storage.getUserTransactions(userId),
+      holdService.getUserHolds(userId),
+      fineService.getUserBalance(userId)
+    ]);
+    const { password, ...safeUser } = user;
+
+    return {
+      user: safeUser,
+      loans: transactions.filter(t => t.status !== TransactionStatus.RETURNED),
+      readyHolds: holds.filter(hold => hold.status === HoldStatus.READY),
+      balance: balance.balance,
+      currency: balance.currency,
+      borrowingBlocked: balance.borrowingBlocked
+    };
+  }
+
+  /**
+   * Handle one scan at the desk. Copy barcodes check the copy out to the patron at the desk or back in;
+   * anything else is looked up as a patron card (register number or username).
+   */
+  async scan(code: string, patronId?: string): Promise<DeskScanResult> {
+    const item = await storage.getItemByBarcode(code);
+    if (!item) {
+      const user = await this.findPatron(code);
+      const patron = user && await this.getPatron(user.id);
+      if (!patron) {
+        throw new CirculationError(`No patron card or copy matches "${code}"`, 404);
+      }
+      return { kind: "PATRON", patron };
+    }
+
+    const book = await storage.getBook(item.bookId);
+    if (!book) {
+      throw new CirculationError("The book for this copy no longer exists", 404);
+    }
+
+    let result: Omit<DeskItemResult, "kind" | "book" | "item">;
+    switch (item.status) {
+      case ItemStatus.ON_LOAN:
+        result = await this.checkInCopy(item.id, book.title);
+        break;
+      case ItemStatus.AVAILABLE:
+        result = await this.checkOutCopy(item.id, book.id, book.title, patronId);
+        break;
+      case ItemStatus.ON_HOLD:
+        result = await this.checkOutHoldCopy(item.id, book.title, patronId);
+        break;
+      default:
+        throw new CirculationError(`This copy cannot circulate (status: ${item.status})`, 409);
+    }
+
+    const updatedItem = await storage.getItem(item.id);
+    return { kind: "ITEM", ...result, book, item: updatedItem || item };
+  }
+
+  /**
+   * Reverse a desk scan made by mistake, within a few minutes of the scan. An undone check-out cancels the loan;
+   * an undone check-in reopens it, takes the copy back off the hold shelf and waives any late fine it triggered.
+   */
+  async undo(action: DeskAction, transactionId: string, recordedBy: string, now: Date = new Date()): Promise<{ message: string; transaction: Transaction }> {
+    const transaction = await storage.getTransaction(transactionId);
+    if (!transaction) {
+      throw new CirculationError("Transaction not found", 404);
+    }
+
+    return action === DeskAction.CHECKED_OUT
+      ? this.undoCheckOut(transaction, now)
+      : this.undoCheckIn(transaction, recordedBy, now);
+  }
+
+  private async findPatron(code: string): Promise<User | null> {
+    return (await storage.getUserByRegisterNumber(code)) || (await storage.getUserByUsername(code));
+  }
+
+  private async checkInCopy(itemId: string, title: string): Promise<Omit<DeskItemResult, "kind" | "book" | "item">> {
+    const loan = (await storage.getActiveTransactions()).find(t => t.itemId === itemId);
+    if (!loan) {
+      throw new CirculationError("This copy is marked on loan but has no open loan", 409);
+    }
+
+    const checkedIn = await this.checkIn(loan);
+    if (!checkedIn) {
+      throw new CirculationError("Failed to check in copy", 500);
+    }
+
+    const notes: string[] = [];
+    if (checkedIn.hold) {
+      const holdPatron = await storage.getUser(checkedIn.hold.userId);
+      notes.push(`put it on the hold shelf for ${holdPatron?.fullName ?? "the next patron"}`);
+    }
+    if (checkedIn.fine) {
+      const settings = await storage.getFineSettings();
+      notes.push(`late fine of ${fineService.formatAmount(checkedIn.fine.amount, settings.currency)} charged to ${loan.user.fullName}`);
+    }
+
+    return {
+      action: DeskAction.CHECKED_IN,
+      message: `Checked in "${title}"${notes.length ? ` - ${notes.join("; ")}` : ""}`,
+      transaction: checkedIn.transaction,
+      fine: checkedIn.fine,
+      hold: checkedIn.hold
+    };
+  }
+
+  private async checkOutCopy(itemId: string, bookId: string, title: string, patronId?: string): Promise<Omit<DeskItemResult, "kind" | "book" | "item">> {
+    if (!patronId) {
+      throw new CirculationError("Scan a patron card before checking out");
+    }
+
+    // createTransaction enforces the circulation policy and throws a PolicyViolationError
+    const policy = await circulationPolicy.getPolicyFor(patronId, bookId);
+    const transaction = await storage.createTransaction({
+      userId: patronId,
+      bookId,
+      itemId,
+      dueDate: circulationPolicy.dueDateFor(policy),
+      status: TransactionStatus.BORROWED
+    });
+
+    return {
+      action: DeskAction.CHECKED_OUT,
+      message: `Checked out "${title}" - due ${new Date(transaction.dueDate).toLocaleDateString()}`,
+      transaction
+    };
+  }
+
+  private async checkOutHoldCopy(itemId: string, title: string, patronId?: string): Promise<Omit<DeskItemResult, "kind" | "book" | "item">> {
+    const hold = (await storage.getActiveHolds()).find(h => h.itemId === itemId && h.status === HoldStatus.READY);
+    if (!patronId) {
+      throw new CirculationError("This copy is on the hold shelf. Scan the patron's card to check it out");
+    }
+    if (!hold || hold.userId !== patronId) {
+      throw new CirculationError("This copy is on the hold shelf for another patron", 409);
+    }
+
+    const transaction = await holdService.fulfillHold(hold.id);
+    return {
+      action: DeskAction.CHECKED_OUT,
+      message: `Checked out "${title}" from the hold shelf - due ${new Date(transaction.dueDate).toLocaleDateString()}`,
+      transaction,
+      hold
+    };
+  }
+
+  private async undoCheckOut(transaction: Transaction, now: Date): Promise<{ message: string; transaction: Transaction }> {
+    if (transaction.status !== TransactionStatus.BORROWED) {
+      throw new CirculationError(`Only a loan still out on time can be undone (status: ${transaction.status})`, 409);
+    }
+    if (transaction.renewalCount) {
+      throw new CirculationError("This loan has been renewed and can no longer be undone", 409);
+    }
+    const borrowedAt = new Date(transaction.borrowedDate).getTime();
+    if (now.getTime() - borrowedAt > UNDO_WINDOW_MS) {
+      throw new CirculationError(`A check-out can only be undone within ${UNDO_WINDOW_MS / 60000} minutes; check the copy in instead`, 409);
+    }
+
+    // A copy that came off the hold shelf goes back there for the same patron
+    const fulfilledHold = (await storage.getHoldsByUser(transaction.userId)).find(hold =>
+      hold.status === HoldStatus.FULFILLED &&
+      hold.itemId === transaction.itemId &&
+      hold.closedAt && Math.abs(new Date(hold.closedAt).getTime() - borrowedAt) < HOLD_MATCH_WINDOW_MS
+    );
+
+    const cancelled = await storage.cancelTransaction(transaction.id);
+    if (!cancelled) {
+      throw new CirculationError("Failed to undo check-out", 500);
+    }
+
+    if (transaction.itemId) {
+      await storage.updateItem(transaction.itemId, { status: fulfilledHold ? ItemStatus.ON_HOLD : ItemStatus.AVAILABLE });
+    }
+    if (fulfilledHold) {
+      await storage.updateHold(fulfilledHold.id, { status: HoldStatus.READY, closedAt: null });
+      if (fulfilledHold.bookRequestId) {
+        await storage.updateBookRequestStatus(fulfilledHold.bookRequestId, BookRequestStatus.APPROVED);
+      }
+    }
+
+    return { message: "Check-out undone", transaction: cancelled };
+  }
+
+  private async undoCheckIn(transaction: Transaction, recordedBy: string, now: Date): Promise<{ message: string; transaction: Transaction }> {
+    if (transaction.status !== TransactionStatus.RETURNED || !transaction.returnedDate) {
+      throw new CirculationError("This loan has not been checked in", 409);
+    }
+    if (now.getTime() - new Date(transaction.returnedDate).getTime() > UNDO_WINDOW_MS) {
+      throw new CirculationError(`A check-in can only be undone within ${UNDO_WINDOW_MS / 60000} minutes`, 409);
+    }
+
+    const item = transaction.itemId ? await storage.getItem(transaction.itemId) : null;
+    if (item && item.status !== ItemStatus.AVAILABLE && item.status !== ItemStatus.ON_HOLD) {
+      throw new CirculationError(`This copy has moved on since it was checked in (status: ${item.status})`, 409);
+    }
+
+    // Take the copy back off the hold shelf; the patron it was set aside for keeps their place in line
+    if (item?.status === ItemStatus.ON_HOLD) {
+      const readyHold = (await storage.getActiveHolds()).find(h => h.itemId === item.id && h.status === HoldStatus.READY);
+      if (readyHold) {
+        await storage.updateHold(readyHold.id, { status: HoldStatus.WAITING, readyAt: null, pickupDeadline: null, itemId: null });
+      }
+    }
+
+    const reopened = await storage.reopenTransaction(transaction.id);
+    if (!reopened) {
+      throw new CirculationError("Failed to undo check-in", 500);
+    }
+    if (item) {
+      await storage.updateItem(item.id, { status: ItemStatus.ON_LOAN });
+    }
+
+    const lateFine = (await storage.getUserLedger(transaction.userId)).find(entry =>
+      entry.type === LedgerEntryType.CHARGE &&
+      entry.category === FeeCategory.LATE_RETURN &&
+      entry.transactionId === transaction.id
+    );
+    if (lateFine) {
+      try {
+        await fineService.waiveCharge(lateFine.id, recordedBy, "Check-in undone at the circulation desk");
+      } catch (error) {
+        // Already waived
+      }
+    }
+
+    return { message: "Check-in undone", transaction: reopened };
+  }
+}
+
+export const circulationService = new CirculationService();
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { contentJobs } from "./content-job-queue";
+import { AIContentService } from "./ai-content-service";
+import { storage } from "./storage";
+import { AIContentJobItemStatus, AIContentJobStatus } from "@shared/schema";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("AI content job queue", () => {
+  it("fails only the book whose storage read threw and finishes the job", async () => {
+    const broken = await storage.createBook({ title: "Unreadable", author: "Author", category: "Queue Test", totalCopies: 1 });
+    const fine = await storage.createBook({ title: "Readable", author: "Author", category: "Queue Test", totalCopies: 1 });
+    const getBook = storage.getBook.bind(storage);
+    vi.spyOn(storage, "getBook").mockImplementation(async id => {
+      if (id === broken.id) throw new Error("connection reset");
+      return getBook(id);
+    });
+    vi.spyOn(AIContentService.prototype, "generateBookContent").mockResolvedValue([]);
+
+    const job = await contentJobs.enqueue({ category: "Queue Test", onlyMissing: false }, null);
+    await vi.waitFor(async () => {
+      expect((await contentJobs.get(job.id)).status).toBe(AIContentJobStatus.COMPLETED);
+    });
+
+    const detail = await contentJobs.get(job.id);
+    expect(detail).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(detail.failures.map(item => [item.bookId, item.error])).toEqual([[broken.id, "connection reset"]]);
+    const [item] = await storage.getAIContentJobItems(job.id, AIContentJobItemStatus.SUCCEEDED);
+    expect(item.bookId).toBe(fine.id);
+  });
+});
@@ -0,0 +1,295 @@
+import { storage } from "./storage";
+import { AIContentService } from "./ai-content-service";
+import { LLMError } from "./llm-provider";
+import { aiUsageService } from "./ai-usage-service";
+import {
+  AIContentJob,
+  AIContentJobDetail,
+  AIContentJobItem,
+  AIContentJobItemStatus,
+  AIContentJobStatus,
+  AIContentStatus
+} from "@shared/schema";
+
+/*
+ * Batch content generation. A job records one item per book up front, and each item is marked as it
+ * finishes, so a job interrupted by a restart carries on with the books still pending. Jobs run one at a
+ * time, each with a few books in flight. Generated content goes to the review queue like any other draft.
+ */
+
+// Books generated at once within a job; each book makes four model calls
+const CONCURRENCY = Math.max(1, parseInt(process.env.AI_CONTENT_JOB_CONCURRENCY || '2', 10));
+// Tries per book when the provider reports a rate limit; other errors fail the book straight away
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 2 * 60 * 1000;
+
+export class ContentJobError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ContentJobError";
+  }
+}
+
+function backoffMs(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  // Jitter keeps concurrent books from retrying in lockstep
+  return delay + Math.floor(Math.random() * 1000);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class ContentJobQueue {
+  private contentService = new AIContentService();
+  private working = false;
+  private wakeup = false;
+  // The job being worked on
+  private current: string | null = null;
+  // Running jobs a librarian cancelled; their books in flight finish, nothing new is started
+  private cancelled = new Set<string>();
+
+  /**
+   * Queue generation for every book in the catalog, or one category. By default books that already have
+   * published content or drafts waiting for review are left out.
+   */
+  async enqueue(options: { category?: string; onlyMissing: boolean }, createdBy: string | null): Promise<AIContentJob> {
+    let books = await storage.getAllBooks();
+    if (options.category) {
+      const category = options.category.toLowerCase();
+      books = books.filter(book => book.category.toLowerCase() === category);
+    }
+    if (options.onlyMissing) {
+      const [published, drafts] = await Promise.all([
+        storage.getAllBookAIContent(),
+        storage.getAIContentVersions({ status: AIContentStatus.DRAFT })
+      ]);
+      const covered = new Set([...published.map(content => content.bookId), ...drafts.map(draft => draft.bookId)]);
+      books = books.filter(book => !covered.has(book.id));
+    }
+    if (books.length === 0) {
+      throw new ContentJobError(options.onlyMissing ? "Every matching book already has content" : "No books match this filter");
+    }
+
+    const job = await storage.createAIContentJob({
+      createdBy,
+      category: options.category || null,
+      onlyMissing: options.onlyMissing,
+      status: AIContentJobStatus.QUEUED,
+      total: books.length,
+      succeeded: 0,
+      failed: 0,
+      startedAt: null,
+      finishedAt: null
+    });
+    await storage.createAIContentJobItems(books.map(book => ({
+      jobId: job.id,
+      bookId: book.id,
+      bookTitle: book.title,
+      status: AIContentJobItemStatus.PENDING,
+      attempts: 0,
+      error: null,
+      finishedAt: null
+    })));
+
+    this.kick();
+    return job;
+  }
+
+  async list(): Promise<AIContentJob[]> {
+    return storage.getAIContentJobs();
+  }
+
+  /**
+   * A job with the books that failed and why
+   */
+  async get(jobId: string): Promise<AIContentJobDetail> {
+    const job = await this.getJob(jobId);
+    const failures = await storage.getAIContentJobItems(jobId, AIContentJobItemStatus.FAILED);
+    return { ...job, failures };
+  }
+
+  async cancel(jobId: string): Promise<AIContentJob> {
+    const job = await this.getJob(jobId);
+    if (job.status !== AIContentJobStatus.QUEUED && job.status !== AIContentJobStatus.RUNNING) {
+      throw new ContentJobError(`This job is already ${job.status.toLowerCase()}`, 409);
+    }
+    if (this.current === jobId) {
+      this.cancelled.add(jobId);
+    }
+    return this.update(jobId, { status: AIContentJobStatus.CANCELLED, finishedAt: new Date() });
+  }
+
+  /**
+   * Queue a finished or cancelled job again for its failed books, and any it never got to
+   */
+  async retry(jobId: string): Promise<AIContentJob> {
+    const job = await this.getJob(jobId);
+    if (job.status === AIContentJobStatus.QUEUED || job.status === AIContentJobStatus.RUNNING) {
+      throw new ContentJobError("This job has not finished yet", 409);
+    }
+    if (this.cancelled.has(jobId)) {
+      throw new ContentJobError("This job is still finishing the books in progress", 409);
+    }
+    const failed = await storage.getAIContentJobItems(jobId, AIContentJobItemStatus.FAILED);
+    const pending = await storage.getAIContentJobItems(jobId, AIContentJobItemStatus.PENDING);
+    if (failed.length === 0 && pending.length === 0) {
+      throw new ContentJobError("Every book in this job succeeded", 409);
+    }
+
+    await Promise.all(failed.map(item => storage.updateAIContentJobItem(item.id, {
+      status: AIContentJobItemStatus.PENDING,
+      attempts: 0,
+      error: null,
+      finishedAt: null
+    })));
+    const requeued = await this.update(jobId, { status: AIContentJobStatus.QUEUED, failed: 0, finishedAt: null });
+    this.kick();
+    return requeued;
+  }
+
+  /**
+   * Carry on with jobs the previous process left queued or running. Called once at startup.
+   */
+  resume(): void {
+    this.kick();
+  }
+
+  private kick(): void {
+    this.wakeup = true;
+    if (this.working) return;
+    this.working = true;
+    void this.work();
+  }
+
+  private async work(): Promise<void> {
+    try {
+      while (this.wakeup) {
+        this.wakeup = false;
+        let job: AIContentJob | undefined;
+        while ((job = await this.nextJob())) {
+          this.current = job.id;
+          await this.run(job);
+          this.current = null;
+        }
+      }
+    } catch (error) {
+      console.error('AI content job queue stopped:', error);
+    } finally {
+      this.current = null;
+      this.working = false;
+    }
+  }
+
+  // The oldest unfinished job
+  private async nextJob(): Promise<AIContentJob | undefined> {
+    const jobs = await storage.getAIContentJobs({ status: [AIContentJobStatus.QUEUED, AIContentJobStatus.RUNNING] });
+    return jobs[jobs.length - 1];
+  }
+
+  private async run(job: AIContentJob): Promise<void> {
+    await this.update(job.id, { status: AIContentJobStatus.RUNNING, startedAt: job.startedAt || new Date() });
+
+    const items = await storage.getAIContentJobItems(job.id);
+    const queue = items.filter(item => item.status === AIContentJobItemStatus.PENDING);
+    let succeeded = items.filter(item => item.status === AIContentJobItemStatus.SUCCEEDED).length;
+    let failed = items.filter(item => item.status === AIContentJobItemStatus.FAILED).length;
+    console.log(`AI content job ${job.id}: ${queue.length} of ${items.length} books to generate`);
+
+    const worker = async () => {
+      while (queue.length > 0 && !this.cancelled.has(job.id)) {
+        const item = queue.shift()!;
+        let generated = false;
+        try {
+          generated = await this.generate(job, item);
+        } catch (error) {
+          // A storage error fails this book only; the rest of the job carries on
+          await this.failItem(item, error);
+        }
+        if (generated) {
+          succeeded++;
+        } else {
+          failed++;
+        }
+        await storage.updateAIContentJob(job.id, { succeeded, failed });
+      }
+    };
+    // Model calls are metered against the librarian who started the job, even after a restart
+    const creator = job.createdBy ? await storage.getUser(job.createdBy) : null;
+    await aiUsageService.runAs(
+      creator ? { id: creator.id, username: creator.username, role: creator.role } : undefined,
+      () => Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker))
+    );
+
+    if (this.cancelled.delete(job.id)) {
+      console.log(`AI content job ${job.id} cancelled`);
+      return;
+    }
+    await this.update(job.id, { status: AIContentJobStatus.COMPLETED, succeeded, failed, finishedAt: new Date() });
+    console.log(`AI content job ${job.id} completed: ${succeeded} succeeded, ${failed} failed`);
+  }
+
+  /**
+   * Generate one book's content, backing off and trying again while the provider is rate limiting.
+   * Returns whether it succeeded; failures are recorded on the item.
+   */
+  private async generate(job: AIContentJob, item: AIContentJobItem): Promise<boolean> {
+    const book = await storage.getBook(item.bookId);
+    if (!book) {
+      await this.finishItem(item, AIContentJobItemStatus.FAILED, item.attempts, "The book no longer exists");
+      return false;
+    }
+
+    for (let attempt = item.attempts + 1; ; attempt++) {
+      try {
+        await this.contentService.generateBookContent(book, job.createdBy || null, false);
+        await this.finishItem(item, AIContentJobItemStatus.SUCCEEDED, attempt, null);
+        return true;
+      } catch (error) {
+        const rateLimited = error instanceof LLMError && error.status === 429;
+        if (rateLimited && attempt < MAX_ATTEMPTS && !this.cancelled.has(job.id)) {
+          await storage.updateAIContentJobItem(item.id, { attempts: attempt });
+          await sleep(backoffMs(attempt));
+          continue;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        await this.finishItem(item, AIContentJobItemStatus.FAILED, attempt, message);
+        return false;
+      }
+    }
+  }
+
+  private async failItem(item: AIContentJobItem, error: unknown): Promise<void> {
+    console.error(`AI content job item ${item.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      await this.finishItem(item, AIContentJobItemStatus.FAILED, item.attempts, message);
+    } catch (recordError) {
+      // Left pending, so a retry of the job picks the book up again
+      console.error(`Failed to record the failure of AI content job item ${item.id}:`, recordError);
+    }
+  }
+
+  private async finishItem(item: AIContentJobItem, status: AIContentJobItemStatus, attempts: number, error: string | null): Promise<void> {
+    await storage.updateAIContentJobItem(item.id, { status, attempts, error, finishedAt: new Date() });
+  }
+
+  private async getJob(jobId: string): Promise<AIContentJob> {
+    const job = await storage.getAIContentJob(jobId);
+    if (!job) {
+      throw new ContentJobError("Job not found", 404);
+    }
+    return job;
+  }
+
+  private async update(jobId: string, updates: Parameters<typeof storage.updateAIContentJob>[1]): Promise<AIContentJob> {
+    const updated = await storage.updateAIContentJob(jobId, updates);
+    if (!updated) {
+      throw new ContentJobError("Failed to update the job", 500);
+    }
+    return updated;
+  }
+}
+
+export const contentJobs = new ContentJobQueue();
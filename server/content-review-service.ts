@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import {
+  AIContentField,
+  AIContentReviewDetail,
+  AIContentReviewItem,
+  AIContentSource,
+  AIContentStatus,
+  AIContentValue,
+  AI_CONTENT_FIELDS,
+  BookAIContent,
+  BookAIContentVersion,
+  aiContentValueSchema
+} from "@shared/schema";
+
+/*
+ * Review workflow for generated book content. Generation only creates drafts; a librarian approves, edits
+ * or rejects each field, and only then is it copied into BookAIContent, which is all students ever see.
+ * Every version is kept so published content can be compared and rolled back.
+ */
+
+export type ContentValues = Partial<Record<AIContentField, AIContentValue>>;
+
+export class ContentReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ContentReviewError";
+  }
+}
+
+export class ContentReviewService {
+  /**
+   * Store new drafts for a book, replacing any drafts of the same fields still waiting for review
+   */
+  async submitDrafts(bookId: string, values: ContentValues, createdBy: string | null = null, source = AIContentSource.GENERATED): Promise<BookAIContentVersion[]> {
+    const existing = await storage.getAIContentVersions({ bookId });
+    const drafts: BookAIContentVersion[] = [];
+
+    for (const field of AI_CONTENT_FIELDS) {
+      const value = values[field];
+      if (value === undefined || value === null) continue;
+
+      await this.supersede(existing, field, AIContentStatus.DRAFT);
+      drafts.push(await storage.createAIContentVersion({
+        bookId,
+        field,
+        version: this.nextVersion(existing, field),
+        value,
+        status: AIContentStatus.DRAFT,
+        source,
+        createdBy
+      }));
+    }
+    return drafts;
+  }
+
+  /**
+   * Books with drafts waiting for review, the longest-waiting first
+   */
+  async getQueue(): Promise<AIContentReviewItem[]> {
+    const drafts = await storage.getAIContentVersions({ status: AIContentStatus.DRAFT });
+    const byBook = new Map<string, BookAIContentVersion[]>();
+    for (const draft of drafts) {
+      byBook.set(draft.bookId, [...(byBook.get(draft.bookId) || []), draft]);
+    }
+
+    const books = await storage.getBooksByIds(Array.from(byBook.keys()));
+    const items = await Promise.all(books.map(async book => ({
+      book,
+      drafts: this.inFieldOrder(byBook.get(book.id)!),
+      published: await storage.getBookAIContent(book.id)
+    })));
+    const oldest = (item: AIContentReviewItem) => Math.min(...item.drafts.map(draft => new Date(draft.createdAt).getTime()));
+    return items.sort((a, b) => oldest(a) - oldest(b));
+  }
+
+  async getDetail(bookId: string): Promise<AIContentReviewDetail> {
+    const book = await storage.getBook(bookId);
+    if (!book) {
+      throw new ContentReviewError("Book not found", 404);
+    }
+    const [history, published] = await Promise.all([
+      storage.getAIContentVersions({ bookId }),
+      storage.getBookAIContent(bookId)
+    ]);
+    return {
+      book,
+      drafts: this.inFieldOrder(history.filter(version => version.status === AIContentStatus.DRAFT)),
+      published,
+      history
+    };
+  }
+
+  async approve(versionId: string, reviewerId: string, note?: string): Promise<{ version: BookAIContentVersion; content: BookAIContent }> {
+    const version = await this.getDraft(versionId);
+    return this.publish(version, reviewerId, note);
+  }
+
+  async reject(versionId: string, reviewerId: string, note?: string): Promise<BookAIContentVersion> {
+    await this.getDraft(versionId);
+    const rejected = await storage.updateAIContentVersion(versionId, {
+      status: AIContentStatus.REJECTED,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      reviewNote: note || null
+    });
+    if (!rejected) {
+      throw new ContentReviewError("Failed to reject the draft", 500);
+    }
+    return rejected;
+  }
+
+  /**
+   * Replace a draft with an edited one, and publish it straight away if asked
+   */
+  async edit(versionId: string, value: unknown, editorId: string, options: { publish?: boolean; note?: string } = {}): Promise<{ version: BookAIContentVersion; content?: BookAIContent }> {
+    const draft = await this.getDraft(versionId);
+    const [edited] = await this.submitDrafts(draft.bookId, { [draft.field]: this.validate(draft.field, value) }, editorId, AIContentSource.EDITED);
+    if (options.publish) {
+      return this.publish(edited, editorId, options.note);
+    }
+    return { version: edited };
+  }
+
+  /**
+   * Publish an earlier version again. The rollback is a new version, so the history stays in order.
+   */
+  async rollback(versionId: string, userId: string): Promise<{ version: BookAIContentVersion; content: BookAIContent }> {
+    const target = await storage.getAIContentVersion(versionId);
+    if (!target) {
+      throw new ContentReviewError("Version not found", 404);
+    }
+    if (target.status === AIContentStatus.PUBLISHED) {
+      throw new ContentReviewError("This version is already published", 409);
+    }
+    // Superseded drafts were never reviewed; superseded published versions were
+    if (target.status !== AIContentStatus.SUPERSEDED || !target.reviewedAt) {
+      throw new ContentReviewError("Only versions that were published can be restored", 409);
+    }
+
+    const existing = await storage.getAIContentVersions({ bookId: target.bookId });
+    const copy = await storage.createAIContentVersion({
+      bookId: target.bookId,
+      field: target.field,
+      version: this.nextVersion(existing, target.field),
+      value: target.value,
+      status: AIContentStatus.DRAFT,
+      source: AIContentSource.ROLLBACK,
+      createdBy: userId
+    });
+    return this.publish(copy, userId, `Restored version ${target.version}`);
+  }
+
+  /**
+   * Publish values a librarian wrote directly, recording each as an edited version
+   */
+  async publishEdits(bookId: string, values: Record<string, unknown>, editorId: string): Promise<BookAIContent | null> {
+    const validated: ContentValues = {};
+    for (const field of AI_CONTENT_FIELDS) {
+      if (values[field] !== undefined) validated[field] = this.validate(field, values[field]);
+    }
+
+    const existing = await storage.getAIContentVersions({ bookId });
+    let content: BookAIContent | null = await storage.getBookAIContent(bookId);
+    for (const field of AI_CONTENT_FIELDS) {
+      if (validated[field] === undefined) continue;
+      const version = await storage.createAIContentVersion({
+        bookId,
+        field,
+        version: this.nextVersion(existing, field),
+        value: validated[field]!,
+        status: AIContentStatus.DRAFT,
+        source: AIContentSource.EDITED,
+        createdBy: editorId
+      });
+      existing.push(version);
+      content = (await this.publish(version, editorId)).content;
+    }
+    return content;
+  }
+
+  private async publish(version: BookAIContentVersion, reviewerId: string, note?: string): Promise<{ version: BookAIContentVersion; content: BookAIContent }> {
+    const existing = await storage.getAIContentVersions({ bookId: version.bookId });
+    await this.supersede(existing.filter(other => other.id !== version.id), version.field, AIContentStatus.PUBLISHED);
+    // Publishing settles the field, so older drafts of it no longer need review
+    await this.supersede(existing.filter(other => other.id !== version.id), version.field, AIContentStatus.DRAFT);
+
+    const published = await storage.updateAIContentVersion(version.id, {
+      status: AIContentStatus.PUBLISHED,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      reviewNote: note || null
+    });
+    if (!published) {
+      throw new ContentReviewError("Failed to publish the version", 500);
+    }
+
+    const update = { [version.field]: version.value };
+    const content = await storage.updateBookAIContent(version.bookId, update)
+      || await storage.createBookAIContent({ bookId: version.bookId, ...update });
+    return { version: published, content };
+  }
+
+  private async getDraft(versionId: string): Promise<BookAIContentVersion> {
+    const version = await storage.getAIContentVersion(versionId);
+    if (!version) {
+      throw new ContentReviewError("Draft not found", 404);
+    }
+    if (version.status !== AIContentStatus.DRAFT) {
+      throw new ContentReviewError(`This draft was already ${version.status.toLowerCase()}`, 409);
+    }
+    return version;
+  }
+
+  private async supersede(versions: BookAIContentVersion[], field: AIContentField, status: AIContentStatus): Promise<void> {
+    await Promise.all(versions
+      .filter(version => version.field === field && version.status === status)
+      .map(version => storage.updateAIContentVersion(version.id, { status: AIContentStatus.SUPERSEDED })));
+  }
+
+  private nextVersion(versions: BookAIContentVersion[], field: AIContentField): number {
+    return Math.max(0, ...versions.filter(version => version.field === field).map(version => version.version)) + 1;
+  }
+
+  private validate(field: AIContentField, value: unknown): AIContentValue {
+    const parsed = aiContentValueSchema(field).safeParse(value);
+    if (!parsed.success) {
+      throw new ContentReviewError(`Invalid ${field}: ${parsed.error.errors.map(error => error.message).join("; ")}`);
+    }
+    return parsed.data;
+  }
+
+  private inFieldOrder(versions: BookAIContentVersion[]): BookAIContentVersion[] {
+    return [...versions].sort((a, b) => AI_CONTENT_FIELDS.indexOf(a.field) - AI_CONTENT_FIELDS.indexOf(b.field));
+  }
+}
+
+export const contentReview = new ContentReviewService();
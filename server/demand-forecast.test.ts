@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { DemandForecaster } from "./demand-forecast";
+import { AcademicCalendar } from "./academic-calendar";
+import { Book, CalendarEvent, CalendarEventType } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const NOW = new Date("2026-09-07T12:00:00Z");
+const book = { id: "book", title: "Course Reader", author: "Author", category: "Textbooks", totalCopies: 3 } as Book;
+
+function term(name: string, start: string, end: string): CalendarEvent {
+  return { id: name, type: CalendarEventType.TERM, name, startDate: new Date(start), endDate: new Date(end), createdAt: NOW, updatedAt: NOW };
+}
+
+const TERMS = [
+  term("Autumn 2025", "2025-09-15T00:00:00Z", "2025-12-12T00:00:00Z"),
+  term("Spring 2026", "2026-01-19T00:00:00Z", "2026-05-08T00:00:00Z"),
+  term("Autumn 2026", "2026-09-14T00:00:00Z", "2026-12-11T00:00:00Z")
+];
+
+// Four loans a week, and twelve in the first two weeks of each past term
+function loans() {
+  const termStarts = TERMS.slice(0, 2).map(event => event.startDate.getTime());
+  const result = [];
+  for (let week = new Date("2025-03-02T00:00:00Z").getTime(); week < NOW.getTime() - WEEK_MS; week += WEEK_MS) {
+    const busy = termStarts.some(start => week >= start - DAY_MS && week < start + 2 * WEEK_MS - DAY_MS);
+    for (let i = 0; i < (busy ? 12 : 4); i++) {
+      result.push({ bookId: book.id, borrowedDate: new Date(week + DAY_MS), returnedDate: new Date(week + 2 * WEEK_MS) });
+    }
+  }
+  return result;
+}
+
+describe("demand forecast seasonality", () => {
+  it("learns seasons from academic calendar terms when the coming weeks are in one", () => {
+    const forecaster = new DemandForecaster([book], loans(), 16, new AcademicCalendar(TERMS), NOW);
+
+    expect(forecaster.overview().seasonality).toBe("calendar");
+    expect(forecaster.seasonalPeaks().map(start => start.toISOString().slice(0, 10))).toEqual(["2026-09-14", "2026-09-21"]);
+  });
+
+  it("falls back to weeks of the year without terms for the coming weeks", () => {
+    const forecaster = new DemandForecaster([book], loans(), 16, new AcademicCalendar(TERMS.slice(0, 2)), NOW);
+    expect(forecaster.overview().seasonality).toBe("weekOfYear");
+
+    const tooShort = loans().filter(loan => loan.borrowedDate.getTime() > NOW.getTime() - 20 * WEEK_MS);
+    expect(new DemandForecaster([book], tooShort, 16, new AcademicCalendar(TERMS), NOW).overview().seasonality).toBeNull();
+  });
+});
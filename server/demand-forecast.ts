@@ -0,0 +1,383 @@
+import {
+  Book,
+  BookDemandForecast,
+  DemandForecast,
+  DemandForecastOverview,
+  DemandForecastWeek,
+  DemandSeasonality,
+  PurchaseSuggestion,
+  Transaction
+} from "@shared/schema";
+import type { AcademicCalendar } from "./academic-calendar";
+
+/*
+ * Weekly demand forecasts for acquisition planning. Loans are counted per week, scaled up for days the academic
+ * calendar has the library closed, divided by seasonal indices learned from the whole library's loans, and
+ * projected with Holt's damped-trend exponential smoothing. Seasons are the academic calendar's periods (start,
+ * middle and end of term, exam weeks, breaks) when terms are entered for the past and the coming weeks, and
+ * weeks of the year otherwise. Coming weeks are scaled back down by their own
+ * closures. Prediction intervals come from the spread of the model's one-week-ahead errors on the history.
+ */
+
+type Loan = Pick<Transaction, "bookId" | "borrowedDate" | "returnedDate">;
+type Trend = DemandForecast["trendDirection"];
+type CalendarPeriod = "termStart" | "term" | "termEnd" | "exam" | "break";
+
+// Roughly one term
+export const DEFAULT_FORECAST_WEEKS = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const HISTORY_WEEKS = 104;
+const WEEKS_PER_YEAR = 52;
+// Weeks either side of a week in the moving average its seasonal ratio is taken against
+const SEASONAL_WINDOW = 4;
+// Seasonal index from which a coming week counts as a seasonal peak
+const PEAK_INDEX = 1.2;
+// Weeks at each end of a term that are seasons of their own
+const TERM_EDGE_WEEKS = 2;
+// Weeks of loans needed to learn seasonality from calendar periods, which recur every term rather than every year
+const MIN_CALENDAR_HISTORY_WEEKS = 26;
+// z for a two-sided 80% prediction interval
+const INTERVAL_Z = 1.2816;
+const DAMPING = 0.9;
+// Smoothing parameters tried for each series; the pair with the smallest one-week-ahead error wins
+const ALPHAS = [0.1, 0.2, 0.3, 0.5];
+const BETAS = [0, 0.05, 0.1, 0.2];
+// Weeks that set the starting level and are left out of the error
+const WARMUP_WEEKS = 4;
+// Loan length assumed when neither the book nor its category has returned loans
+const DEFAULT_LOAN_WEEKS = 2;
+// Change in the level over the horizon, relative to the level, that counts as a trend
+const TREND_THRESHOLD = 0.15;
+const PURCHASE_LIST_SIZE = 50;
+
+interface HoltFit {
+  level: number;
+  trend: number;
+  alpha: number;
+  beta: number;
+  sigma: number;
+}
+
+export function weekStart(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Days since Monday
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+function weekOfYear(date: Date): number {
+  return Math.min(WEEKS_PER_YEAR - 1, Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / WEEK_MS));
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// φ + φ² + ... + φ^h
+function dampedSum(h: number): number {
+  let sum = 0;
+  for (let i = 1; i <= h; i++) sum += DAMPING ** i;
+  return sum;
+}
+
+function runHolt(series: number[], alpha: number, beta: number): { level: number; trend: number; sse: number; count: number } {
+  let level = mean(series.slice(0, WARMUP_WEEKS));
+  let trend = 0;
+  let sse = 0;
+  let count = 0;
+  series.forEach((value, t) => {
+    const error = value - (level + DAMPING * trend);
+    if (t >= WARMUP_WEEKS) {
+      sse += error ** 2;
+      count++;
+    }
+    level = level + DAMPING * trend + alpha * error;
+    trend = DAMPING * trend + alpha * beta * error;
+  });
+  return { level: Math.max(0, level), trend, sse, count };
+}
+
+function fitHolt(series: number[]): HoltFit {
+  let best: HoltFit | null = null;
+  let bestError = Infinity;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      const { level, trend, sse, count } = runHolt(series, alpha, beta);
+      const error = count ? sse / count : 0;
+      if (!best || error < bestError) {
+        bestError = error;
+        // Too short a history to measure the error: assume Poisson noise around the level
+        best = { level, trend, alpha, beta, sigma: count ? Math.sqrt(error) : Math.sqrt(level) };
+      }
+    }
+  }
+  return best!;
+}
+
+/**
+ * The part of the academic year a week falls in. Exam weeks take precedence over the term they are in.
+ */
+function calendarPeriodOf(start: Date, calendar: AcademicCalendar): CalendarPeriod {
+  const days = Array.from({ length: 7 }, (_, day) => new Date(start.getTime() + day * DAY_MS));
+  if (days.some(day => calendar.examWeekOn(day))) return "exam";
+  // Mid-week, so a term starting or ending on a weekend goes with the week it mostly covers
+  const term = calendar.termOn(days[3]);
+  if (!term) return "break";
+  if (start.getTime() - weekStart(new Date(term.startDate)).getTime() < TERM_EDGE_WEEKS * WEEK_MS) return "termStart";
+  if (weekStart(new Date(term.endDate)).getTime() - start.getTime() < TERM_EDGE_WEEKS * WEEK_MS) return "termEnd";
+  return "term";
+}
+
+function inTerm(period: CalendarPeriod): boolean {
+  return period !== "exam" && period !== "break";
+}
+
+/**
+ * Multiplicative index per calendar period: each open week's loans against the centred moving average around
+ * it, averaged over the weeks of that period, shrunk towards 1 for periods seen rarely and normalised to a
+ * mean of 1 over the history. Null until there is half a year of loans with some of it in term.
+ */
+function learnCalendarSeasonality(counts: number[], periods: CalendarPeriod[], open: number[]): Map<CalendarPeriod, number> | null {
+  const first = counts.findIndex(count => count > 0);
+  if (first < 0 || counts.length - first < MIN_CALENDAR_HISTORY_WEEKS || !periods.slice(first).some(inTerm)) return null;
+
+  const sums = new Map<CalendarPeriod, number>();
+  const seen = new Map<CalendarPeriod, number>();
+  for (let i = first + SEASONAL_WINDOW; i < counts.length - SEASONAL_WINDOW; i++) {
+    const average = mean(counts.slice(i - SEASONAL_WINDOW, i + SEASONAL_WINDOW + 1));
+    if (average <= 0 || open[i] === 0) continue;
+    sums.set(periods[i], (sums.get(periods[i]) || 0) + counts[i] / average);
+    seen.set(periods[i], (seen.get(periods[i]) || 0) + 1);
+  }
+
+  const indices = new Map(Array.from(sums.entries()).map(([period, sum]) => [period, (sum + 1) / (seen.get(period)! + 1)] as const));
+  const average = mean(periods.slice(first).map(period => indices.get(period) ?? 1));
+  return new Map(Array.from(indices.entries()).map(([period, index]) => [period, index / average] as const));
+}
+
+/**
+ * Multiplicative index per week of the year: each week's loans against the centred moving average around
+ * it, averaged over the years seen, shrunk towards 1 for weeks seen only once, smoothed with the
+ * neighbouring weeks and normalised to a mean of 1. Null until the library has a year of loans.
+ */
+function learnSeasonality(counts: number[], starts: Date[]): number[] | null {
+  const first = counts.findIndex(count => count > 0);
+  if (first < 0 || counts.length - first < WEEKS_PER_YEAR) return null;
+
+  const sums = new Array<number>(WEEKS_PER_YEAR).fill(0);
+  const seen = new Array<number>(WEEKS_PER_YEAR).fill(0);
+  for (let i = first + SEASONAL_WINDOW; i < counts.length - SEASONAL_WINDOW; i++) {
+    const average = mean(counts.slice(i - SEASONAL_WINDOW, i + SEASONAL_WINDOW + 1));
+    if (average <= 0) continue;
+    const week = weekOfYear(starts[i]);
+    sums[week] += counts[i] / average;
+    seen[week]++;
+  }
+
+  const shrunk = sums.map((sum, week) => (sum + 1) / (seen[week] + 1));
+  const smoothed = shrunk.map((value, week) =>
+    (shrunk[(week + WEEKS_PER_YEAR - 1) % WEEKS_PER_YEAR] + 2 * value + shrunk[(week + 1) % WEEKS_PER_YEAR]) / 4
+  );
+  const average = mean(smoothed);
+  return smoothed.map(value => value / average);
+}
+
+export class DemandForecaster {
+  private historyStarts: Date[];
+  private horizonStarts: Date[];
+  private countsByBook = new Map<string, number[]>();
+  private loanWeeksByBook = new Map<string, number[]>();
+  private loanWeeksByCategory = new Map<string, number[]>();
+  private seasonality: DemandSeasonality | null = null;
+  // Seasonal index of each week, 1 throughout until seasonality is learned
+  private historySeason: number[];
+  private horizonSeason: number[];
+  // Share of each week's days the library is open
+  private historyOpen: number[];
+  private horizonOpen: number[];
+
+  constructor(private books: Book[], loans: Loan[], private horizonWeeks: number, calendar: AcademicCalendar, private now = new Date()) {
+    const current = weekStart(now).getTime();
+    this.historyStarts = Array.from({ length: HISTORY_WEEKS }, (_, i) => new Date(current - (HISTORY_WEEKS - i) * WEEK_MS));
+    this.horizonStarts = Array.from({ length: horizonWeeks }, (_, i) => new Date(current + i * WEEK_MS));
+    const openShare = (start: Date) =>
+      Array.from({ length: 7 }, (_, day) => new Date(start.getTime() + day * DAY_MS)).filter(day => !calendar.isClosed(day)).length / 7;
+    this.historyOpen = this.historyStarts.map(openShare);
+    this.horizonOpen = this.horizonStarts.map(openShare);
+
+    for (const loan of loans) {
+      const borrowed = new Date(loan.borrowedDate);
+      const index = (weekStart(borrowed).getTime() - this.historyStarts[0].getTime()) / WEEK_MS;
+      if (index >= 0 && index < HISTORY_WEEKS) {
+        const counts = this.countsByBook.get(loan.bookId) || new Array<number>(HISTORY_WEEKS).fill(0);
+        counts[index]++;
+        this.countsByBook.set(loan.bookId, counts);
+      }
+      if (loan.returnedDate) {
+        const weeks = (new Date(loan.returnedDate).getTime() - borrowed.getTime()) / WEEK_MS;
+        const bookWeeks = this.loanWeeksByBook.get(loan.bookId) || [];
+        bookWeeks.push(weeks);
+        this.loanWeeksByBook.set(loan.bookId, bookWeeks);
+      }
+    }
+    for (const book of books) {
+      const categoryWeeks = this.loanWeeksByCategory.get(book.category) || [];
+      for (const weeks of this.loanWeeksByBook.get(book.id) || []) categoryWeeks.push(weeks);
+      this.loanWeeksByCategory.set(book.category, categoryWeeks);
+    }
+
+    this.historySeason = this.historyStarts.map(() => 1);
+    this.horizonSeason = this.horizonStarts.map(() => 1);
+    const totals = this.perOpenWeek(this.sumCounts(books));
+    const historyPeriods = this.historyStarts.map(start => calendarPeriodOf(start, calendar));
+    const horizonPeriods = this.horizonStarts.map(start => calendarPeriodOf(start, calendar));
+    // Calendar periods only help if the coming weeks' terms are entered too
+    const byPeriod = horizonPeriods.some(inTerm) ? learnCalendarSeasonality(totals, historyPeriods, this.historyOpen) : null;
+    const byWeek = byPeriod ? null : learnSeasonality(totals, this.historyStarts);
+    if (byPeriod) {
+      this.seasonality = "calendar";
+      this.historySeason = historyPeriods.map(period => byPeriod.get(period) ?? 1);
+      this.horizonSeason = horizonPeriods.map(period => byPeriod.get(period) ?? 1);
+    } else if (byWeek) {
+      this.seasonality = "weekOfYear";
+      this.historySeason = this.historyStarts.map(start => byWeek[weekOfYear(start)]);
+      this.horizonSeason = this.horizonStarts.map(start => byWeek[weekOfYear(start)]);
+    }
+  }
+
+  /**
+   * The whole library, every category and the purchase list
+   */
+  overview(): DemandForecastOverview {
+    const byCategory = new Map<string, Book[]>();
+    for (const book of this.books) {
+      const books = byCategory.get(book.category) || [];
+      books.push(book);
+      byCategory.set(book.category, books);
+    }
+    const bookForecasts = this.books.map(book => this.forBook(book));
+    const toBuy = new Map(bookForecasts.map(forecast => [forecast.bookId, Math.max(0, forecast.recommendedCopies - forecast.totalCopies)]));
+
+    const categories = Array.from(byCategory.entries())
+      .map(([category, books]) => ({
+        ...this.forecast(category, category, this.sumCounts(books)),
+        copiesToBuy: books.reduce((sum, book) => sum + toBuy.get(book.id)!, 0)
+      }))
+      .sort((a, b) => b.expectedLoans - a.expectedLoans);
+
+    const purchaseList: PurchaseSuggestion[] = this.books
+      .map((book, i) => ({ book, forecast: bookForecasts[i] }))
+      .filter(({ book }) => toBuy.get(book.id)! > 0)
+      .map(({ book, forecast }) => ({
+        bookId: book.id,
+        title: book.title,
+        author: book.author,
+        category: book.category,
+        totalCopies: book.totalCopies,
+        recommendedCopies: forecast.recommendedCopies,
+        copiesToBuy: toBuy.get(book.id)!,
+        expectedLoans: forecast.expectedLoans,
+        peakWeeklyLoans: Math.max(...forecast.forecast.map(week => week.upper))
+      }))
+      .sort((a, b) => b.copiesToBuy - a.copiesToBuy || b.expectedLoans - a.expectedLoans)
+      .slice(0, PURCHASE_LIST_SIZE);
+
+    return {
+      generatedAt: this.now,
+      horizonWeeks: this.horizonWeeks,
+      seasonality: this.seasonality,
+      library: this.forecast("all", "All books", this.sumCounts(this.books)),
+      categories,
+      purchaseList
+    };
+  }
+
+  /**
+   * One book's forecast, with the copies needed to cover its busiest forecast week. By Little's law the
+   * loans out at once are the weekly loans times the average loan length in weeks.
+   */
+  forBook(book: Book): BookDemandForecast {
+    const forecast = this.forecast(book.id, book.title, this.countsByBook.get(book.id) || new Array<number>(HISTORY_WEEKS).fill(0));
+    const averageLoanWeeks = this.averageLoanWeeks(book);
+    const peak = Math.max(...forecast.forecast.map(week => week.upper));
+    return {
+      ...forecast,
+      bookId: book.id,
+      totalCopies: book.totalCopies,
+      averageLoanWeeks: round(averageLoanWeeks),
+      recommendedCopies: Math.max(1, Math.ceil(peak * averageLoanWeeks))
+    };
+  }
+
+  /**
+   * Coming weeks whose learned seasonal index marks them as busier than usual
+   */
+  seasonalPeaks(): Date[] {
+    return this.horizonStarts.filter((_, i) => this.horizonSeason[i] >= PEAK_INDEX);
+  }
+
+  private forecast(key: string, label: string, counts: number[]): DemandForecast {
+    // A series starts with its first loan, so books added recently don't start from a run of zeros
+    const first = Math.max(0, counts.findIndex(count => count > 0));
+    // Weeks the library was closed throughout say nothing about demand and are left out
+    const adjusted = this.perOpenWeek(counts)
+      .map((count, i) => count / this.historySeason[i])
+      .filter((_, i) => i >= first && this.historyOpen[i] > 0);
+    const fit = fitHolt(adjusted);
+
+    let variance = 0;
+    const forecast: DemandForecastWeek[] = this.horizonStarts.map((start, i) => {
+      const h = i + 1;
+      // Error variance h weeks ahead for damped-trend smoothing
+      variance += h === 1 ? 1 : (fit.alpha + fit.alpha * fit.beta * dampedSum(h - 1)) ** 2;
+      const spread = INTERVAL_Z * fit.sigma * Math.sqrt(variance) * this.horizonSeason[i] * this.horizonOpen[i];
+      const expected = Math.max(0, (fit.level + dampedSum(h) * fit.trend) * this.horizonSeason[i] * this.horizonOpen[i]);
+      return {
+        weekStart: start,
+        expected: round(expected),
+        lower: round(Math.max(0, expected - spread)),
+        upper: round(expected + spread)
+      };
+    });
+
+    return {
+      key,
+      label,
+      history: counts.map((loans, i) => ({ weekStart: this.historyStarts[i], loans })),
+      forecast,
+      expectedLoans: round(forecast.reduce((sum, week) => sum + week.expected, 0)),
+      trendDirection: this.trendOf(fit)
+    };
+  }
+
+  private trendOf(fit: HoltFit): Trend {
+    if (fit.level <= 0) return 'stable';
+    const change = dampedSum(this.horizonWeeks) * fit.trend / fit.level;
+    return change > TREND_THRESHOLD ? 'increasing' : change < -TREND_THRESHOLD ? 'decreasing' : 'stable';
+  }
+
+  private averageLoanWeeks(book: Book): number {
+    const own = this.loanWeeksByBook.get(book.id) || [];
+    if (own.length) return Math.max(0.5, mean(own));
+    const category = this.loanWeeksByCategory.get(book.category) || [];
+    return category.length ? Math.max(0.5, mean(category)) : DEFAULT_LOAN_WEEKS;
+  }
+
+  // Loans a week would have seen had the library been open all of it
+  private perOpenWeek(counts: number[]): number[] {
+    return counts.map((count, i) => (this.historyOpen[i] > 0 ? count / this.historyOpen[i] : 0));
+  }
+
+  private sumCounts(books: Book[]): number[] {
+    const total = new Array<number>(HISTORY_WEEKS).fill(0);
+    for (const book of books) {
+      this.countsByBook.get(book.id)?.forEach((count, i) => { total[i] += count; });
+    }
+    return total;
+  }
+}
@@ -36,10 +36,11 @@ createGmailTransporter().then((transporter) => {
 });
 
 interface EmailParams {
-  to: string;
+  to: string | string[];
   subject: string;
   text?: string;
   html?: string;
+  attachments?: { filename: string; content: Buffer; contentType: string }[];
 }
 
 class EmailService {
@@ -234,6 +235,7 @@ Library Management System
         subject: params.subject,
         text: params.text || '',
         html: params.html || '',
+        attachments: params.attachments,
       };
 
       await mailTransporter.sendMail(mailOptions);
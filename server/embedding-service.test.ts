@@ -0,0 +1,84 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { EmbeddingProvider, HashedNgramEmbeddingProvider, SemanticSearchService, cosineSimilarity } from "./embedding-service";
+import { catalogSearch } from "./catalog-search";
+import { storage } from "./storage";
+import { Book } from "@shared/schema";
+
+// Two "topics" as unit vectors; anything else embeds to zero and is similar to nothing
+class TopicProvider implements EmbeddingProvider {
+  readonly id = "topics";
+  readonly minSimilarity = 0.5;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => /ocean|sea|tide/i.test(text) ? [1, 0] : /star|galaxy|orbit/i.test(text) ? [0, 1] : [0, 0]);
+  }
+}
+
+class FailingProvider implements EmbeddingProvider {
+  readonly id = "failing";
+  readonly minSimilarity = 0.5;
+
+  async embed(): Promise<number[][]> {
+    throw new Error("Embedding service unavailable");
+  }
+}
+
+const books: Record<string, Book> = {};
+
+async function addBook(key: string, title: string, description: string) {
+  books[key] = await storage.createBook({ title, author: "Writer", category: "Science", description, totalCopies: 1 });
+}
+
+beforeAll(async () => {
+  await addBook("tides", "Tides and Currents", "How the sea moves");
+  await addBook("orbits", "Orbital Mechanics", "Satellites in orbit around planets");
+  await addBook("mariner", "Mariner Handbook", "Knots, charts and navigation");
+  await catalogSearch.rebuild();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("HashedNgramEmbeddingProvider", () => {
+  it("embeds deterministically, closer for overlapping words and spellings", async () => {
+    const provider = new HashedNgramEmbeddingProvider();
+    const [a, again, typo, other] = await provider.embed(["ocean tides", "ocean tides", "ocaen tides", "galaxy survey"]);
+    expect(again).toEqual(a);
+    expect(cosineSimilarity(a, typo)).toBeGreaterThan(cosineSimilarity(a, other));
+    expect(cosineSimilarity(a, typo)).toBeGreaterThan(provider.minSimilarity);
+  });
+});
+
+describe("semantic search", () => {
+  it("finds books by meaning when no keyword matches", async () => {
+    const results = await new SemanticSearchService(new TopicProvider()).search("ocean");
+    expect(results.map(book => book.id)).toEqual([books.tides.id]);
+  });
+
+  it("blends keyword relevance with vector similarity", async () => {
+    const results = await new SemanticSearchService(new TopicProvider()).search("mariner sea");
+    const ids = results.map(book => book.id);
+    expect(ids).toContain(books.mariner.id);
+    expect(ids).toContain(books.tides.id);
+    expect(ids).not.toContain(books.orbits.id);
+  });
+
+  it("scales keyword scores by the best score even when it is not the first match", async () => {
+    // The index sorts by coverage first, so a partial match with a high score can come second
+    vi.spyOn(catalogSearch, "match").mockResolvedValue([
+      { id: books.mariner.id, score: 1, coverage: 1, matchedTerms: new Set() },
+      { id: books.orbits.id, score: 20, coverage: 0.5, matchedTerms: new Set() }
+    ]);
+
+    const results = await new SemanticSearchService(new TopicProvider()).search("tide");
+    expect(results[0].id).toBe(books.tides.id);
+  });
+
+  it("fails when the provider does, so callers can fall back to keyword search", async () => {
+    await expect(new SemanticSearchService(new FailingProvider()).search("ocean")).rejects.toThrow(/unavailable/);
+
+    const fallback = await catalogSearch.search({ q: "mariner", page: 1, pageSize: 20 });
+    expect(fallback.items.map(hit => hit.book.id)).toEqual([books.mariner.id]);
+  });
+});
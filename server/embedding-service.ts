@@ -0,0 +1,241 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { catalogSearch } from "./catalog-search";
+import { tokenize } from "./search-index";
+import { Book } from "@shared/schema";
+
+/**
+ * Turns text into vectors. Vectors are only compared with vectors from the same provider `id`.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  // Cosine similarity below which a book is not considered related to the query
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+}
+
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+  const dotProduct = vecA.reduce((sum, a, idx) => sum + a * (vecB[idx] || 0), 0);
+  const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
+  const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
+
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (magnitudeA * magnitudeB);
+}
+
+/**
+ * Deterministic offline provider: words and character trigrams hashed into a fixed number of
+ * dimensions. It captures spelling and word overlap rather than meaning, but needs no API key.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly minSimilarity = 0.1;
+
+  constructor(private dimensions = 512) {
+    this.id = `local-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit of the hash picks the sign so that collisions tend to cancel out
+      vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      add(`w:${token}`, 1);
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Gemini text embeddings; requires GEMINI_API_KEY
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly minSimilarity = 0.45;
+  private ai = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+  constructor(private model = "text-embedding-004") {
+    this.id = `gemini:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = this.ai.getGenerativeModel({ model: this.model });
+    const result = await model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: "user", parts: [{ text }] } }))
+    });
+    return result.embeddings.map(embedding => embedding.values);
+  }
+}
+
+export function createEmbeddingProvider(name = process.env.EMBEDDING_PROVIDER): EmbeddingProvider {
+  const choice = name || (process.env.GEMINI_API_KEY ? "gemini" : "local");
+  return choice === "gemini" ? new GeminiEmbeddingProvider() : new HashedNgramEmbeddingProvider();
+}
+
+// Weight of vector similarity against keyword relevance in the blended score
+const SEMANTIC_WEIGHT = 0.6;
+// How many nearest books by vector are considered before blending
+const SEMANTIC_CANDIDATES = 50;
+// Books embedded per provider call when filling the cache
+const EMBED_BATCH_SIZE = 50;
+
+function embeddingText(book: Book): string {
+  return [book.title, book.author, book.category, book.publisher, book.description].filter(Boolean).join("\n");
+}
+
+function contentHash(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+export class SemanticSearchService {
+  // bookId -> vector from the current provider, and the hash of the text it was computed from
+  private vectors = new Map<string, number[]>();
+  private hashes = new Map<string, string>();
+  private ready: Promise<void> | null = null;
+
+  constructor(private provider: EmbeddingProvider = createEmbeddingProvider()) {}
+
+  get providerId(): string {
+    return this.provider.id;
+  }
+
+  /**
+   * Load stored vectors and embed every book that has none from the current provider or whose text has
+   * changed. Returns the number of books embedded.
+   */
+  async warm(): Promise<number> {
+    const [books, stored] = await Promise.all([storage.getAllBooks(), storage.getBookEmbeddings()]);
+    const storedByBook = new Map(stored.map(embedding => [embedding.bookId, embedding] as const));
+
+    this.vectors.clear();
+    this.hashes.clear();
+    const stale: Book[] = [];
+    for (const book of books) {
+      const embedding = storedByBook.get(book.id);
+      if (embedding && embedding.provider === this.provider.id && embedding.contentHash === contentHash(embeddingText(book))) {
+        this.vectors.set(book.id, embedding.vector);
+        this.hashes.set(book.id, embedding.contentHash);
+      } else {
+        stale.push(book);
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+      await this.embedBooks(stale.slice(i, i + EMBED_BATCH_SIZE));
+    }
+    this.ready = Promise.resolve();
+    return stale.length;
+  }
+
+  /**
+   * Compute and store vectors for new or edited books. Books whose text is unchanged keep their vector.
+   */
+  async embedBooks(books: Book[]): Promise<void> {
+    const changed = books
+      .map(book => ({ book, text: embeddingText(book) }))
+      .map(entry => ({ ...entry, hash: contentHash(entry.text) }))
+      .filter(entry => this.hashes.get(entry.book.id) !== entry.hash);
+    if (changed.length === 0) return;
+
+    const vectors = await this.provider.embed(changed.map(entry => entry.text));
+    await Promise.all(changed.map(async ({ book, hash }, i) => {
+      await storage.saveBookEmbedding({
+        bookId: book.id,
+        provider: this.provider.id,
+        vector: vectors[i],
+        contentHash: hash
+      });
+      this.vectors.set(book.id, vectors[i]);
+      this.hashes.set(book.id, hash);
+    }));
+  }
+
+  /**
+   * Fire-and-forget wrapper for routes: a failed embedding must not fail the book change
+   */
+  refreshBooks(books: Book[]): void {
+    this.embedBooks(books).catch(error => console.error('Failed to embed books:', error));
+  }
+
+  removeBook(id: string): void {
+    this.vectors.delete(id);
+    this.hashes.delete(id);
+  }
+
+  /**
+   * Top books for a query by cosine similarity over the cached vectors, blended with the keyword
+   * relevance from the catalog index so exact title and author hits are not outranked by loose matches
+   */
+  async search(query: string, limit = 20): Promise<Book[]> {
+    await this.ensureReady();
+
+    const [[queryVector], keywordMatches] = await Promise.all([
+      this.provider.embed([query]),
+      catalogSearch.match(query)
+    ]);
+
+    const semantic = Array.from(this.vectors.entries())
+      .map(([bookId, vector]) => ({ bookId, similarity: cosineSimilarity(queryVector, vector) }))
+      .filter(entry => entry.similarity >= this.provider.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, SEMANTIC_CANDIDATES);
+
+    // Matches come sorted by coverage first, so the best score is not necessarily the first
+    const topKeywordScore = keywordMatches.reduce((top, match) => Math.max(top, match.score), 0) || 1;
+    const scores = new Map<string, number>();
+    for (const match of keywordMatches) {
+      scores.set(match.id, (1 - SEMANTIC_WEIGHT) * match.coverage * (match.score / topKeywordScore));
+    }
+    for (const { bookId, similarity } of semantic) {
+      scores.set(bookId, (scores.get(bookId) || 0) + SEMANTIC_WEIGHT * similarity);
+    }
+
+    const ranked = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([bookId]) => bookId);
+    const books = new Map((await storage.getBooksByIds(ranked)).map(book => [book.id, book] as const));
+    return ranked.map(id => books.get(id)).filter((book): book is Book => !!book);
+  }
+
+  private async ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.warm().then(() => undefined);
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+}
+
+export const semanticSearch = new SemanticSearchService();
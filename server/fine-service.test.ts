@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fineService } from "./fine-service";
+import { storage } from "./storage";
+import { FeeCategory, FineSettings, LedgerEntryType, Transaction, TransactionStatus } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const settings: FineSettings = {
+  id: "default",
+  currency: "USD",
+  defaultDailyRate: 25,
+  categoryRates: { Reference: 100 },
+  gracePeriodDays: 1,
+  maxFinePerItem: 1000,
+  lostItemFee: 2500,
+  damagedItemFee: 1000,
+  borrowingBlockThreshold: 500,
+  updatedAt: new Date(0)
+};
+
+function loan(dueDate: Date): Transaction {
+  return {
+    id: "loan",
+    userId: "user",
+    bookId: "book",
+    borrowedDate: new Date(dueDate.getTime() - 14 * DAY_MS),
+    dueDate,
+    status: TransactionStatus.BORROWED
+  };
+}
+
+describe("calculateLateFine", () => {
+  const due = new Date("2026-03-02T12:00:00");
+
+  it("charges nothing for loans returned on time or within the grace period", () => {
+    expect(fineService.calculateLateFine(loan(due), null, new Date(due.getTime() - DAY_MS), settings)).toBe(0);
+    expect(fineService.calculateLateFine(loan(due), null, new Date(due.getTime() + DAY_MS), settings)).toBe(0);
+  });
+
+  it("charges the daily rate for each late day after the grace period", () => {
+    expect(fineService.calculateLateFine(loan(due), null, new Date(due.getTime() + 5 * DAY_MS), settings)).toBe(4 * 25);
+  });
+
+  it("uses the book category's rate and caps the fine per item", () => {
+    const book = { category: "Reference" } as any;
+    expect(fineService.calculateLateFine(loan(due), book, new Date(due.getTime() + 3 * DAY_MS), settings)).toBe(200);
+    expect(fineService.calculateLateFine(loan(due), book, new Date(due.getTime() + 60 * DAY_MS), settings)).toBe(1000);
+  });
+
+  it("does not charge days the library was closed", () => {
+    expect(fineService.calculateLateFine(loan(due), null, new Date(due.getTime() + 5 * DAY_MS), settings, 3)).toBe(25);
+  });
+});
+
+describe("payments and waivers", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T09:00:00"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Entries a minute apart, so the ledger's order is unambiguous
+  async function charge(userId: string, amount: number) {
+    vi.advanceTimersByTime(60 * 1000);
+    return fineService.createCharge(userId, FeeCategory.OTHER, "librarian", { amount });
+  }
+
+  async function pay(userId: string, amount: number) {
+    vi.advanceTimersByTime(60 * 1000);
+    return fineService.recordPayment(userId, amount, "librarian");
+  }
+
+  it("rejects payments above the outstanding balance", async () => {
+    await charge("payer", 300);
+    await expect(pay("payer", 301)).rejects.toThrow(/exceeds the outstanding balance/);
+    await pay("payer", 300);
+    await expect(pay("payer", 1)).rejects.toThrow(/no outstanding balance/);
+  });
+
+  it("waives the unpaid part of a charge by default", async () => {
+    const fee = await charge("partial", 400);
+    await pay("partial", 150);
+
+    const waiver = await fineService.waiveCharge(fee.id, "librarian", "Goodwill");
+    expect(waiver.type).toBe(LedgerEntryType.WAIVER);
+    expect(waiver.amount).toBe(250);
+    expect(await storage.getUserFineBalance("partial")).toBe(0);
+  });
+
+  it("does not waive a charge that has been paid, so the balance never goes into credit", async () => {
+    const fee = await charge("paid", 400);
+    await pay("paid", 400);
+
+    await expect(fineService.waiveCharge(fee.id, "librarian", "Goodwill")).rejects.toThrow(/paid or waived in full/);
+    await expect(fineService.waiveCharge(fee.id, "librarian", "Goodwill", 100)).rejects.toThrow(/paid or waived in full/);
+    expect(await storage.getUserFineBalance("paid")).toBe(0);
+  });
+
+  it("applies payments to the oldest charge first", async () => {
+    const older = await charge("fifo", 200);
+    const newer = await charge("fifo", 300);
+    await pay("fifo", 250);
+
+    await expect(fineService.waiveCharge(older.id, "librarian", "Goodwill")).rejects.toThrow(/paid or waived in full/);
+    await expect(fineService.waiveCharge(newer.id, "librarian", "Goodwill", 300)).rejects.toThrow(/exceeds the unpaid amount/);
+    expect((await fineService.waiveCharge(newer.id, "librarian", "Goodwill")).amount).toBe(250);
+    expect(await storage.getUserFineBalance("fifo")).toBe(0);
+  });
+
+  it("counts earlier waivers against the charge they name", async () => {
+    const fee = await charge("waived", 500);
+    vi.advanceTimersByTime(60 * 1000);
+    await fineService.waiveCharge(fee.id, "librarian", "First half", 250);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect((await fineService.waiveCharge(fee.id, "librarian", "Second half")).amount).toBe(250);
+    await expect(fineService.waiveCharge(fee.id, "librarian", "Again")).rejects.toThrow(/paid or waived in full/);
+  });
+});
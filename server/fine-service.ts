@@ -0,0 +1,228 @@
+import { storage, academicCalendar } from "./storage";
+import {
+  Book,
+  FeeCategory,
+  FineSettings,
+  LedgerEntry,
+  LedgerEntryType,
+  Transaction,
+  UserBalance
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class FineError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "FineError";
+  }
+}
+
+export class FineService {
+  /**
+   * Late fine for a loan returned on the given date, after the grace period and capped per item.
+   * Days the library was closed while the loan was late are not charged. Returns 0 when the loan was
+   * returned on time.
+   */
+  calculateLateFine(transaction: Transaction, book: Book | null, returnedDate: Date, settings: FineSettings, closedDays = 0): number {
+    const msLate = returnedDate.getTime() - new Date(transaction.dueDate).getTime();
+    if (msLate <= 0) return 0;
+
+    const daysLate = Math.ceil(msLate / DAY_MS);
+    const chargeableDays = daysLate - closedDays - settings.gracePeriodDays;
+    if (chargeableDays <= 0) return 0;
+
+    const dailyRate = (book && settings.categoryRates[book.category]) ?? settings.defaultDailyRate;
+    const fine = chargeableDays * dailyRate;
+    return settings.maxFinePerItem > 0 ? Math.min(fine, settings.maxFinePerItem) : fine;
+  }
+
+  /**
+   * Assess the late fine for a returned loan and record it on the borrower's ledger
+   */
+  async assessReturnFine(transaction: Transaction, returnedDate: Date): Promise<LedgerEntry | null> {
+    const [book, settings, calendar] = await Promise.all([
+      storage.getBook(transaction.bookId),
+      storage.getFineSettings(),
+      academicCalendar.load()
+    ]);
+
+    const closedDays = calendar.closedDaysBetween(new Date(transaction.dueDate), returnedDate);
+    const amount = this.calculateLateFine(transaction, book, returnedDate, settings, closedDays);
+    if (amount <= 0) return null;
+
+    const daysLate = Math.ceil((returnedDate.getTime() - new Date(transaction.dueDate).getTime()) / DAY_MS);
+    const closedNote = closedDays > 0 ? `, ${closedDays} closed day${closedDays === 1 ? '' : 's'} not charged` : '';
+    return storage.createLedgerEntry({
+      userId: transaction.userId,
+      type: LedgerEntryType.CHARGE,
+      category: FeeCategory.LATE_RETURN,
+      amount,
+      description: `Late return of "${book?.title ?? "Unknown book"}" (${daysLate} day${daysLate === 1 ? '' : 's'} late${closedNote})`,
+      transactionId: transaction.id
+    });
+  }
+
+  /**
+   * Balance summary and full ledger for a user
+   */
+  async getUserBalance(userId: string): Promise<UserBalance> {
+    const [entries, settings] = await Promise.all([
+      storage.getUserLedger(userId),
+      storage.getFineSettings()
+    ]);
+    const balance = await storage.getUserFineBalance(userId);
+
+    return {
+      userId,
+      balance,
+      currency: settings.currency,
+      borrowingBlocked: balance > settings.borrowingBlockThreshold,
+      entries
+    };
+  }
+
+  /**
+   * Record a payment against the user's balance. Overpayments are rejected.
+   */
+  async recordPayment(userId: string, amount: number, recordedBy: string, note?: string): Promise<LedgerEntry> {
+    const balance = await storage.getUserFineBalance(userId);
+    if (balance <= 0) {
+      throw new FineError("User has no outstanding balance");
+    }
+    if (amount > balance) {
+      throw new FineError(`Payment exceeds the outstanding balance of ${this.formatAmount(balance, (await storage.getFineSettings()).currency)}`);
+    }
+
+    return storage.createLedgerEntry({
+      userId,
+      type: LedgerEntryType.PAYMENT,
+      amount,
+      description: note || "Payment received",
+      recordedBy
+    });
+  }
+
+  /**
+   * What is still owed on each charge. Waivers count against the charge they name; payments are not tied to
+   * a charge, so they settle the oldest charges first.
+   */
+  unpaidByCharge(ledger: LedgerEntry[]): Map<string, number> {
+    const charges = ledger
+      .filter(entry => entry.type === LedgerEntryType.CHARGE)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const unpaid = new Map(charges.map(charge => [charge.id, charge.amount]));
+
+    let unallocated = 0;
+    for (const entry of ledger) {
+      if (entry.type === LedgerEntryType.WAIVER && entry.relatedEntryId && unpaid.has(entry.relatedEntryId)) {
+        unpaid.set(entry.relatedEntryId, unpaid.get(entry.relatedEntryId)! - entry.amount);
+      } else if (entry.type !== LedgerEntryType.CHARGE) {
+        unallocated += entry.amount;
+      }
+    }
+
+    for (const charge of charges) {
+      const settled = Math.min(Math.max(unpaid.get(charge.id)!, 0), unallocated);
+      unpaid.set(charge.id, unpaid.get(charge.id)! - settled);
+      unallocated -= settled;
+    }
+    return unpaid;
+  }
+
+  /**
+   * Waive all or part of a charge. Waivers never exceed what is still unpaid on the charge, so waiving a
+   * paid charge cannot leave the user in credit.
+   */
+  async waiveCharge(chargeId: string, recordedBy: string, reason: string, amount?: number): Promise<LedgerEntry> {
+    const charge = await storage.getLedgerEntry(chargeId);
+    if (!charge || charge.type !== LedgerEntryType.CHARGE) {
+      throw new FineError("Charge not found", 404);
+    }
+
+    const ledger = await storage.getUserLedger(charge.userId);
+    const remaining = this.unpaidByCharge(ledger).get(charge.id) ?? 0;
+
+    if (remaining <= 0) {
+      throw new FineError("Charge has already been paid or waived in full");
+    }
+
+    const waiverAmount = amount ?? remaining;
+    if (waiverAmount > remaining) {
+      throw new FineError(`Waiver exceeds the unpaid amount of the charge (${this.formatAmount(remaining, (await storage.getFineSettings()).currency)})`);
+    }
+
+    return storage.createLedgerEntry({
+      userId: charge.userId,
+      type: LedgerEntryType.WAIVER,
+      amount: waiverAmount,
+      description: reason,
+      relatedEntryId: charge.id,
+      transactionId: charge.transactionId || undefined,
+      recordedBy
+    });
+  }
+
+  /**
+   * Manually charge a user, e.g. for a lost or damaged item. LOST and DAMAGED fall back to the configured fees.
+   */
+  async createCharge(
+    userId: string,
+    category: FeeCategory,
+    recordedBy: string,
+    options: { amount?: number; description?: string; transactionId?: string } = {}
+  ): Promise<LedgerEntry> {
+    const settings = await storage.getFineSettings();
+    const defaultAmount = category === FeeCategory.LOST
+      ? settings.lostItemFee
+      : category === FeeCategory.DAMAGED
+        ? settings.damagedItemFee
+        : undefined;
+    const amount = options.amount ?? defaultAmount;
+
+    if (!amount || amount <= 0) {
+      throw new FineError("An amount is required for this charge");
+    }
+
+    const defaultDescriptions: Record<FeeCategory, string> = {
+      [FeeCategory.LATE_RETURN]: "Late return fee",
+      [FeeCategory.LOST]: "Lost item fee",
+      [FeeCategory.DAMAGED]: "Damaged item fee",
+      [FeeCategory.OTHER]: "Library fee"
+    };
+
+    return storage.createLedgerEntry({
+      userId,
+      type: LedgerEntryType.CHARGE,
+      category,
+      amount,
+      description: options.description || defaultDescriptions[category],
+      transactionId: options.transactionId,
+      recordedBy
+    });
+  }
+
+  /**
+   * Users who currently owe money, highest balance first
+   */
+  async getOutstandingBalances(): Promise<{ userId: string; balance: number }[]> {
+    const entries = await storage.getAllLedgerEntries();
+    const balances = new Map<string, number>();
+
+    for (const entry of entries) {
+      const delta = entry.type === LedgerEntryType.CHARGE ? entry.amount : -entry.amount;
+      balances.set(entry.userId, (balances.get(entry.userId) || 0) + delta);
+    }
+
+    return Array.from(balances.entries())
+      .filter(([, balance]) => balance > 0)
+      .map(([userId, balance]) => ({ userId, balance }))
+      .sort((a, b) => b.balance - a.balance);
+  }
+
+  formatAmount(amount: number, currency: string): string {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount / 100);
+  }
+}
+
+export const fineService = new FineService();
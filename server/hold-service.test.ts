@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { holdService } from "./hold-service";
+import { storage, BookInUseError } from "./storage";
+import { HoldStatus, ItemStatus, Role, TransactionStatus } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function patron(username: string) {
+  return storage.createUser({
+    username,
+    email: `${username}@example.edu`,
+    fullName: username,
+    studentId: username,
+    phone: "0000000000",
+    password: "secret",
+    role: Role.STUDENT
+  });
+}
+
+async function singleCopyBook(title: string) {
+  const book = await storage.createBook({ title, author: "Author", category: "Fiction", totalCopies: 1 });
+  const [item] = await storage.getItemsByBook(book.id);
+  return { book, item };
+}
+
+describe("hold shelf", () => {
+  it("sets a returned copy aside for the first patron in line", async () => {
+    const waiting = await patron("hold-first");
+    const { book, item } = await singleCopyBook("Hold shelf");
+    const hold = await storage.createHold({ userId: waiting.id, bookId: book.id });
+
+    const ready = await holdService.checkInCopy(book.id, item.id);
+    expect(ready?.id).toBe(hold.id);
+    expect(ready?.status).toBe(HoldStatus.READY);
+    expect((await storage.getItem(item.id))?.status).toBe(ItemStatus.ON_HOLD);
+  });
+
+  it("only lends a copy on the hold shelf to the patron it was set aside for", async () => {
+    const waiting = await patron("hold-owner");
+    const other = await patron("hold-other");
+    const { book, item } = await singleCopyBook("Reserved copy");
+    const hold = await storage.createHold({ userId: waiting.id, bookId: book.id });
+    await holdService.checkInCopy(book.id, item.id);
+
+    const dueDate = new Date(Date.now() + 14 * DAY_MS);
+    await expect(storage.createTransaction({ userId: other.id, bookId: book.id, itemId: item.id, dueDate }))
+      .rejects.toThrow(/No available copy/);
+
+    const loan = await holdService.fulfillHold(hold.id);
+    expect(loan.userId).toBe(waiting.id);
+    expect(loan.itemId).toBe(item.id);
+    expect((await storage.getHold(hold.id))?.status).toBe(HoldStatus.FULFILLED);
+  });
+});
+
+describe("deleting a book", () => {
+  it("is refused while a copy is on loan", async () => {
+    const borrower = await patron("delete-borrower");
+    const { book } = await singleCopyBook("On loan");
+    const loan = await storage.createTransaction({
+      userId: borrower.id,
+      bookId: book.id,
+      dueDate: new Date(Date.now() + 14 * DAY_MS),
+      status: TransactionStatus.BORROWED
+    });
+
+    await expect(storage.deleteBook(book.id)).rejects.toBeInstanceOf(BookInUseError);
+    expect(await storage.getBook(book.id)).not.toBeNull();
+
+    await storage.updateTransactionStatus(loan.id, TransactionStatus.RETURNED, new Date());
+    await storage.updateItem(loan.itemId!, { status: ItemStatus.AVAILABLE });
+    expect(await storage.deleteBook(book.id)).toBe(true);
+  });
+
+  it("is refused while a copy is on the hold shelf", async () => {
+    const waiting = await patron("delete-waiting");
+    const { book, item } = await singleCopyBook("Held");
+    await storage.createHold({ userId: waiting.id, bookId: book.id });
+    await holdService.checkInCopy(book.id, item.id);
+
+    await expect(storage.deleteBook(book.id)).rejects.toThrow(/on loan or on the hold shelf/);
+  });
+});
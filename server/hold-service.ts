@@ -0,0 +1,231 @@
+import { storage, circulationPolicy } from "./storage";
+import { PushNotificationService } from "./push-service";
+import {
+  BookRequestStatus,
+  Hold,
+  HoldStatus,
+  HoldWithBook,
+  HoldWithUserAndBook,
+  ItemStatus,
+  NotificationType,
+  Transaction,
+  TransactionStatus
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HoldExpiryResult {
+  expired: number;
+  reassigned: number;
+  errors: number;
+}
+
+export class HoldError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "HoldError";
+  }
+}
+
+export class HoldService {
+  // How long a patron has to collect a copy from the hold shelf
+  private readonly pickupWindowMs = parseInt(process.env.HOLD_PICKUP_DAYS || '3', 10) * DAY_MS;
+
+  /**
+   * Join the FIFO queue for a book that has no available copies.
+   * Throws a PolicyViolationError when the borrower's policy does not allow holds.
+   */
+  async placeHold(userId: string, bookId: string, bookRequestId?: string): Promise<HoldWithBook> {
+    const book = await storage.getBook(bookId);
+    if (!book) {
+      throw new HoldError("Book not found", 404);
+    }
+    if (book.availableCopies > 0) {
+      throw new HoldError("Copies of this book are available - request it instead of placing a hold");
+    }
+    await circulationPolicy.assertCanPlaceHold(userId, bookId);
+
+    const existing = (await storage.getHoldsByBook(bookId)).find(hold => hold.userId === userId && this.isActive(hold));
+    if (existing) {
+      throw new HoldError("You already have a hold on this book", 409);
+    }
+
+    const loans = await storage.getUserTransactions(userId);
+    if (loans.some(loan => loan.bookId === bookId && loan.status !== TransactionStatus.RETURNED)) {
+      throw new HoldError("You already have this book on loan", 409);
+    }
+
+    const hold = await storage.createHold({ userId, bookId, bookRequestId });
+    const queuePosition = await this.getQueuePosition(hold);
+
+    await PushNotificationService.sendNotificationToUser(userId, {
+      title: "Hold Placed",
+      message: `You are number ${queuePosition} in line for "${book.title}" by ${book.author}. We'll let you know when a copy is ready for pickup.`,
+      type: NotificationType.HOLD_PLACED,
+      url: '/student/pending-requests'
+    });
+
+    return { ...hold, book, queuePosition };
+  }
+
+  /**
+   * 1-based place in line for a waiting hold, or null once it has left the queue
+   */
+  async getQueuePosition(hold: Hold): Promise<number | null> {
+    if (hold.status !== HoldStatus.WAITING) return null;
+
+    const waiting = (await storage.getHoldsByBook(hold.bookId)).filter(h => h.status === HoldStatus.WAITING);
+    const index = waiting.findIndex(h => h.id === hold.id);
+    return index === -1 ? null : index + 1;
+  }
+
+  async getUserHolds(userId: string): Promise<HoldWithBook[]> {
+    const holds = await storage.getHoldsByUser(userId);
+    const withDetails = await Promise.all(holds.map(hold => this.withBook(hold)));
+    return withDetails.filter((hold): hold is HoldWithBook => hold !== null);
+  }
+
+  async getActiveHolds(): Promise<HoldWithUserAndBook[]> {
+    const holds = await storage.getActiveHolds();
+    const withDetails = await Promise.all(holds.map(async hold => {
+      const [details, user] = await Promise.all([this.withBook(hold), storage.getUser(hold.userId)]);
+      return details && user ? { ...details, user } : null;
+    }));
+    return withDetails.filter((hold): hold is HoldWithUserAndBook => hold !== null);
+  }
+
+  /**
+   * Put a returned copy on the hold shelf for the next patron in line, or back on the open shelf if nobody is waiting.
+   * Returns the hold the copy was reserved for, if any.
+   */
+  async checkInCopy(bookId: string, itemId: string, now: Date = new Date()): Promise<Hold | null> {
+    const next = (await storage.getHoldsByBook(bookId)).find(hold => hold.status === HoldStatus.WAITING);
+    if (!next) {
+      await storage.updateItem(itemId, { status: ItemStatus.AVAILABLE });
+      return null;
+    }
+
+    const pickupDeadline = new Date(now.getTime() + this.pickupWindowMs);
+    await storage.updateItem(itemId, { status: ItemStatus.ON_HOLD });
+    const readyHold = await storage.updateHold(next.id, {
+      status: HoldStatus.READY,
+      readyAt: now,
+      pickupDeadline,
+      itemId
+    });
+    if (!readyHold) return null;
+
+    const book = await storage.getBook(bookId);
+    await PushNotificationService.sendNotificationToUser(next.userId, {
+      title: "Hold Ready for Pickup",
+      message: `"${book?.title ?? "Your book"}" is waiting for you on the hold shelf. Please pick it up by ${pickupDeadline.toLocaleDateString()}.`,
+      type: NotificationType.HOLD_READY,
+      url: '/student/pending-requests'
+    });
+
+    return readyHold;
+  }
+
+  /**
+   * Check out the copy on the hold shelf to the patron it was reserved for
+   */
+  async fulfillHold(holdId: string, dueDate?: Date): Promise<Transaction> {
+    const hold = await storage.getHold(holdId);
+    if (!hold) {
+      throw new HoldError("Hold not found", 404);
+    }
+    if (hold.status !== HoldStatus.READY) {
+      throw new HoldError("Only holds on the hold shelf can be checked out");
+    }
+
+    // Fines and loan limits are checked by createTransaction, which throws a PolicyViolationError
+    const policy = await circulationPolicy.getPolicyFor(hold.userId, hold.bookId);
+
+    // Lends the copy that was set aside on the hold shelf
+    const transaction = await storage.createTransaction({
+      userId: hold.userId,
+      bookId: hold.bookId,
+      itemId: hold.itemId || undefined,
+      dueDate: dueDate || circulationPolicy.dueDateFor(policy),
+      status: TransactionStatus.BORROWED
+    });
+
+    await storage.updateHold(hold.id, { status: HoldStatus.FULFILLED, closedAt: new Date() });
+    if (hold.bookRequestId) {
+      await storage.updateBookRequestStatus(hold.bookRequestId, BookRequestStatus.FULFILLED);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Withdraw a hold. A copy already on the hold shelf passes to the next patron.
+   */
+  async cancelHold(holdId: string, userId: string, isStaff: boolean): Promise<Hold> {
+    const hold = await storage.getHold(holdId);
+    if (!hold || (!isStaff && hold.userId !== userId)) {
+      throw new HoldError("Hold not found", 404);
+    }
+    if (!this.isActive(hold)) {
+      throw new HoldError("This hold is no longer active");
+    }
+
+    const cancelled = await storage.updateHold(hold.id, { status: HoldStatus.CANCELLED, closedAt: new Date() });
+    if (!cancelled) {
+      throw new HoldError("Failed to cancel hold", 500);
+    }
+
+    if (hold.status === HoldStatus.READY && hold.itemId) {
+      await this.checkInCopy(hold.bookId, hold.itemId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Expire holds whose pickup deadline has passed and pass each copy down the queue
+   */
+  async expireHolds(now: Date = new Date()): Promise<HoldExpiryResult> {
+    const result: HoldExpiryResult = { expired: 0, reassigned: 0, errors: 0 };
+    const overdueHolds = (await storage.getActiveHolds()).filter(hold =>
+      hold.status === HoldStatus.READY && hold.pickupDeadline && new Date(hold.pickupDeadline) < now
+    );
+
+    for (const hold of overdueHolds) {
+      try {
+        await storage.updateHold(hold.id, { status: HoldStatus.EXPIRED, closedAt: now });
+        result.expired++;
+
+        const book = await storage.getBook(hold.bookId);
+        await PushNotificationService.sendNotificationToUser(hold.userId, {
+          title: "Hold Expired",
+          message: `Your hold on "${book?.title ?? "a book"}" expired because it was not picked up in time. The copy has been passed to the next patron.`,
+          type: NotificationType.HOLD_EXPIRED,
+          url: '/student/pending-requests'
+        });
+
+        if (hold.itemId && await this.checkInCopy(hold.bookId, hold.itemId, now)) {
+          result.reassigned++;
+        }
+      } catch (error) {
+        result.errors++;
+        console.error(`Hold expiry failed for hold ${hold.id}:`, error);
+      }
+    }
+
+    if (result.expired > 0) {
+      console.log(`Hold expiry: ${result.expired} expired, ${result.reassigned} passed to the next patron`);
+    }
+    return result;
+  }
+
+  private isActive(hold: Hold): boolean {
+    return hold.status === HoldStatus.WAITING || hold.status === HoldStatus.READY;
+  }
+
+  private async withBook(hold: Hold): Promise<HoldWithBook | null> {
+    const [book, queuePosition] = await Promise.all([storage.getBook(hold.bookId), this.getQueuePosition(hold)]);
+    return book ? { ...hold, book, queuePosition } : null;
+  }
+}
+
+export const holdService = new HoldService();
@@ -2,6 +2,14 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobScheduler } from "./job-scheduler";
+import { contentJobs } from "./content-job-queue";
+import { overdueSweeper } from "./overdue-sweeper";
+import { holdService } from "./hold-service";
+import { reportService } from "./report-service";
+import { storage } from "./storage";
+import { catalogSearch } from "./catalog-search";
+import { semanticSearch } from "./embedding-service";
 
 const app = express();
 app.use(express.json());
@@ -75,4 +83,35 @@ app.use((req, res, next) => {
   server.listen(port, () => {
   log(`serving on port ${port}`);
 });
+
+  // Create item records for books that predate copy-level tracking
+  storage.backfillBookItems()
+    .then(created => {
+      if (created > 0) log(`Backfilled ${created} book copies`);
+    })
+    .catch(error => console.error('Item backfill failed:', error));
+
+  // Build the catalog search index; routes keep it current from here on
+  catalogSearch.rebuild()
+    .then(count => log(`Indexed ${count} books for catalog search`))
+    .catch(error => console.error('Catalog search index build failed:', error));
+
+  // Fill the embedding cache for semantic search; only new or changed books are sent to the provider
+  semanticSearch.warm()
+    .then(embedded => {
+      if (embedded > 0) log(`Embedded ${embedded} books with ${semanticSearch.providerId}`);
+    })
+    .catch(error => console.error('Book embedding failed:', error));
+
+  // Background jobs
+  const sweepIntervalMinutes = parseInt(process.env.OVERDUE_SWEEP_INTERVAL_MINUTES || '15', 10);
+  jobScheduler.register("overdue-sweep", sweepIntervalMinutes * 60 * 1000, () => overdueSweeper.sweep());
+  const holdExpiryIntervalMinutes = parseInt(process.env.HOLD_EXPIRY_INTERVAL_MINUTES || '60', 10);
+  jobScheduler.register("hold-expiry", holdExpiryIntervalMinutes * 60 * 1000, () => holdService.expireHolds());
+  const reportIntervalMinutes = parseInt(process.env.REPORT_SCHEDULE_INTERVAL_MINUTES || '60', 10);
+  jobScheduler.register("report-schedules", reportIntervalMinutes * 60 * 1000, () => reportService.runDueSchedules());
+  jobScheduler.start();
+
+  // Batch content generation picks up where it left off before the restart
+  contentJobs.resume();
 })();
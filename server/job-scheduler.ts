@@ -0,0 +1,131 @@
+import type { BackgroundJobStatus } from "@shared/schema";
+
+export type JobStatus = BackgroundJobStatus;
+
+type JobHandler = () => Promise<unknown>;
+
+interface RegisteredJob {
+  handler: JobHandler;
+  timer: NodeJS.Timeout | null;
+  status: JobStatus;
+}
+
+class JobScheduler {
+  private jobs = new Map<string, RegisteredJob>();
+  private started = false;
+
+  /**
+   * Register a recurring background job. Jobs registered after start() are scheduled immediately.
+   */
+  register(name: string, intervalMs: number, handler: JobHandler): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job "${name}" is already registered`);
+    }
+
+    this.jobs.set(name, {
+      handler,
+      timer: null,
+      status: {
+        name,
+        intervalMs,
+        running: false,
+        runCount: 0,
+        lastStartedAt: null,
+        lastFinishedAt: null,
+        lastDurationMs: null,
+        lastResult: null,
+        lastError: null,
+        nextRunAt: null
+      }
+    });
+
+    if (this.started) {
+      this.schedule(name, 0);
+    }
+  }
+
+  /**
+   * Start all registered jobs, running each one once right away
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const name of Array.from(this.jobs.keys())) {
+      this.schedule(name, 0);
+    }
+    console.log(`Job scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  /**
+   * Stop all timers (jobs already in flight finish on their own)
+   */
+  stop(): void {
+    this.started = false;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+      job.status.nextRunAt = null;
+    }
+  }
+
+  /**
+   * Run a job immediately, outside its regular schedule.
+   * Returns null if the job is unknown or already running.
+   */
+  async runNow(name: string): Promise<JobStatus | null> {
+    const job = this.jobs.get(name);
+    if (!job || job.status.running) return null;
+
+    await this.execute(name);
+    return this.getJobStatus(name);
+  }
+
+  getJobStatus(name: string): JobStatus | null {
+    const job = this.jobs.get(name);
+    return job ? { ...job.status } : null;
+  }
+
+  getStatus(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job.status }));
+  }
+
+  private schedule(name: string, delayMs: number): void {
+    const job = this.jobs.get(name);
+    if (!job || !this.started) return;
+
+    if (job.timer) clearTimeout(job.timer);
+    job.status.nextRunAt = new Date(Date.now() + delayMs);
+    job.timer = setTimeout(async () => {
+      await this.execute(name);
+      this.schedule(name, job.status.intervalMs);
+    }, delayMs);
+    // Background jobs should never keep the process alive on their own
+    job.timer.unref();
+  }
+
+  private async execute(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job || job.status.running) return;
+
+    const startedAt = new Date();
+    job.status.running = true;
+    job.status.lastStartedAt = startedAt;
+
+    try {
+      job.status.lastResult = await job.handler();
+      job.status.lastError = null;
+    } catch (error) {
+      console.error(`Background job "${name}" failed:`, error);
+      job.status.lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      const finishedAt = new Date();
+      job.status.running = false;
+      job.status.runCount++;
+      job.status.lastFinishedAt = finishedAt;
+      job.status.lastDurationMs = finishedAt.getTime() - startedAt.getTime();
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
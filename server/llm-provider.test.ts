@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FakeProvider, LLMCall, LLMError, LLMService, OpenAICompatibleProvider } from "./llm-provider";
+
+describe("FakeProvider", () => {
+  it("replies from its script in order, then echoes the last message", async () => {
+    const provider = new FakeProvider(["first", request => `saw ${request.prompt}`]);
+
+    expect((await provider.generate("fake", { prompt: "a" })).text).toBe("first");
+    expect((await provider.generate("fake", { prompt: "b" })).text).toBe("saw b");
+    expect((await provider.generate("fake", { prompt: "c" })).text).toBe("[fake] c");
+    expect(provider.calls.map(call => call.request.prompt)).toEqual(["a", "b", "c"]);
+  });
+
+  it("returns scripted tool calls", async () => {
+    const toolCalls = [{ id: "1", name: "list_my_loans", arguments: {} }];
+    const response = await new FakeProvider([{ toolCalls }]).generate("fake", { prompt: "my loans?" });
+    expect(response.text).toBe("");
+    expect(response.toolCalls).toEqual(toolCalls);
+  });
+
+  it("streams a word at a time and stops when aborted", async () => {
+    const words: string[] = [];
+    await new FakeProvider(["one two three"]).stream("fake", { prompt: "" }, delta => words.push(delta));
+    expect(words).toEqual(["one ", "two ", "three"]);
+
+    const controller = new AbortController();
+    const partial: string[] = [];
+    const streaming = new FakeProvider(["one two three"]).stream("fake", { prompt: "" }, delta => {
+      partial.push(delta);
+      controller.abort(new Error("stopped"));
+    }, controller.signal);
+    await expect(streaming).rejects.toThrow("stopped");
+    expect(partial).toEqual(["one "]);
+  });
+});
+
+describe("LLMService", () => {
+  it("runs a feature on its injected provider and reports each call", async () => {
+    const service = new LLMService();
+    const calls: LLMCall[] = [];
+    service.onCall(call => calls.push(call));
+    service.useProvider("content", new FakeProvider(["summary"]), "fake-large");
+
+    const response = await service.generate("content", { prompt: "Summarize" });
+    expect(response.text).toBe("summary");
+    expect(calls).toEqual([expect.objectContaining({ feature: "content", provider: "fake", model: "fake-large", success: true })]);
+  });
+
+  it("wraps provider failures in an LLMError and passes rate limits on", async () => {
+    const service = new LLMService();
+    const calls: LLMCall[] = [];
+    service.onCall(call => calls.push(call));
+    service.useProvider("chat", new FakeProvider([() => { throw Object.assign(new Error("slow down"), { status: 429 }); }]));
+
+    const error = await service.generate("chat", { prompt: "hi" }).catch(error => error);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.status).toBe(429);
+    expect(calls[0].success).toBe(false);
+  });
+});
+
+describe("OpenAICompatibleProvider streaming", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function sse(...frames: string[]): Response {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+      start(controller) {
+        frames.forEach(frame => controller.enqueue(encoder.encode(frame)));
+        controller.close();
+      }
+    }));
+  }
+
+  it("skips chunks that are not JSON", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => sse(
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n',
+      "data: {not json\n",
+      ': keep-alive\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}],"usage":{"prompt_tokens":3,"completion_tokens":2}}\n',
+      "data: [DONE]\n"
+    )));
+
+    const deltas: string[] = [];
+    const response = await new OpenAICompatibleProvider("http://localhost:11434/v1", "").stream("llama3.1", { prompt: "hi" }, delta => deltas.push(delta));
+    expect(deltas).toEqual(["Hel", "lo"]);
+    expect(response.text).toBe("Hello");
+    expect(response.usage).toEqual({ inputTokens: 3, outputTokens: 2 });
+  });
+});
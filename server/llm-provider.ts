@@ -0,0 +1,542 @@
+import { FunctionCall, GoogleGenAI } from "@google/genai";
+import Anthropic from "@anthropic-ai/sdk";
+import { AIFeature } from "@shared/schema";
+
+/*
+ * One text-generation interface for every AI feature. Each feature picks its provider and model from the
+ * environment:
+ *
+ *   LLM_PROVIDER / LLM_MODEL                    default for all features
+ *   LLM_<FEATURE>_PROVIDER / LLM_<FEATURE>_MODEL  per feature: CHAT, CONTENT, INSIGHTS
+ *
+ * Providers: gemini, anthropic, openai (any OpenAI-compatible endpoint, e.g. a local Ollama or vLLM at
+ * LLM_BASE_URL) and fake (scripted, for tests and offline development). All of them support tool calls
+ * through each API's native function calling.
+ */
+
+// Chat assistant, generated book content, and analytics/predictive insights
+export type LLMFeature = AIFeature;
+
+// A tool the model may call; `parameters` is a JSON schema for an object
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: { type: "object"; properties: Record<string, unknown>; required?: string[] };
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type LLMMessage = {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  // Assistant turns: the tools it asked for
+  toolCalls?: LLMToolCall[];
+  // Tool turns: the call this is the result of
+  toolCallId?: string;
+  name?: string;
+};
+
+export interface LLMRequest {
+  system?: string;
+  // A single user turn; ignored when `messages` is given
+  prompt?: string;
+  messages?: LLMMessage[];
+  tools?: LLMTool[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Set when the model wants tools run before it answers
+  toolCalls?: LLMToolCall[];
+  provider: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  generate(model: string, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+  // Same as generate, calling onText with each piece of text as it arrives
+  stream?(model: string, request: LLMRequest, onText: (delta: string) => void, signal?: AbortSignal): Promise<LLMResponse>;
+}
+
+export interface LLMCallOptions {
+  // Stream the reply: called with each piece of text as the model produces it
+  onText?: (delta: string) => void;
+  // Aborting stops the call and rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+// Reported to listeners after every call, successful or not
+export interface LLMCall {
+  feature: LLMFeature;
+  provider: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+  latencyMs: number;
+  success: boolean;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public provider: string, public status = 502) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+function messagesOf(request: LLMRequest): LLMMessage[] {
+  return request.messages ?? [{ role: "user", content: request.prompt || "" }];
+}
+
+// Content and insights used gemini-pro before they moved onto this provider; set LLM_CONTENT_MODEL or
+// LLM_INSIGHTS_MODEL to pin a different model
+export class GeminiProvider implements LLMProvider {
+  name = "gemini";
+  defaultModel = "gemini-2.5-flash";
+  // This API key is from Gemini Developer API Key, not vertex AI API Key
+  private client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+
+  async generate(model: string, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await this.client.models.generateContent(this.params(model, request, signal));
+    return {
+      text: response.text || "",
+      toolCalls: this.toolCallsOf(response.functionCalls),
+      provider: this.name,
+      model,
+      usage: {
+        inputTokens: response.usageMetadata?.promptTokenCount || 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount || 0
+      }
+    };
+  }
+
+  async stream(model: string, request: LLMRequest, onText: (delta: string) => void, signal?: AbortSignal): Promise<LLMResponse> {
+    const chunks = await this.client.models.generateContentStream(this.params(model, request, signal));
+    let text = "";
+    const functionCalls: FunctionCall[] = [];
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of chunks) {
+      const delta = chunk.text;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      functionCalls.push(...(chunk.functionCalls || []));
+      // Usage is cumulative; the last chunk has the totals
+      if (chunk.usageMetadata) {
+        usage.inputTokens = chunk.usageMetadata.promptTokenCount || 0;
+        usage.outputTokens = chunk.usageMetadata.candidatesTokenCount || 0;
+      }
+    }
+    return { text, toolCalls: this.toolCallsOf(functionCalls), provider: this.name, model, usage };
+  }
+
+  private params(model: string, request: LLMRequest, signal?: AbortSignal) {
+    return {
+      model,
+      config: {
+        systemInstruction: request.system,
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        abortSignal: signal,
+        tools: request.tools && [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parametersJsonSchema: tool.parameters
+          }))
+        }],
+      },
+      contents: messagesOf(request).map(message => {
+        if (message.role === "tool") {
+          return {
+            role: "user",
+            parts: [{ functionResponse: { id: message.toolCallId, name: message.name, response: { output: message.content } } }]
+          };
+        }
+        return {
+          role: message.role === "assistant" ? "model" : "user",
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.toolCalls || []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } }))
+          ]
+        };
+      }),
+    };
+  }
+
+  private toolCallsOf(calls: FunctionCall[] | undefined): LLMToolCall[] | undefined {
+    if (!calls?.length) return undefined;
+    return calls.map((call, i) => ({
+      id: call.id || `${call.name}-${i}`,
+      name: call.name || "",
+      arguments: call.args || {}
+    }));
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  name = "anthropic";
+  defaultModel = "claude-3-5-haiku-latest";
+  private client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY || "" });
+
+  async generate(model: string, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const message = await this.client.messages.create(this.params(model, request), { signal });
+    return this.toResponse(model, message);
+  }
+
+  async stream(model: string, request: LLMRequest, onText: (delta: string) => void, signal?: AbortSignal): Promise<LLMResponse> {
+    const stream = this.client.messages.stream(this.params(model, request), { signal });
+    stream.on("text", onText);
+    return this.toResponse(model, await stream.finalMessage());
+  }
+
+  private params(model: string, request: LLMRequest) {
+    return {
+      model,
+      system: request.system,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      tools: request.tools?.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+      messages: this.toMessageParams(messagesOf(request)),
+    };
+  }
+
+  private toResponse(model: string, message: Anthropic.Message): LLMResponse {
+    const toolCalls = message.content.flatMap(block =>
+      block.type === "tool_use" ? [{ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }] : []
+    );
+    return {
+      text: message.content.map(block => block.type === "text" ? block.text : "").join(""),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: this.name,
+      model,
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens }
+    };
+  }
+
+  // Tool results go back as user turns, and consecutive results must share one turn
+  private toMessageParams(messages: LLMMessage[]): Anthropic.MessageParam[] {
+    const params: Anthropic.MessageParam[] = [];
+    for (const message of messages) {
+      if (message.role === "tool") {
+        const result: Anthropic.ToolResultBlockParam = { type: "tool_result", tool_use_id: message.toolCallId || "", content: message.content };
+        const previous = params[params.length - 1];
+        if (previous?.role === "user" && Array.isArray(previous.content)) {
+          previous.content.push(result);
+        } else {
+          params.push({ role: "user", content: [result] });
+        }
+      } else if (message.role === "assistant" && message.toolCalls?.length) {
+        params.push({
+          role: "assistant",
+          content: [
+            ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+            ...message.toolCalls.map(call => ({ type: "tool_use" as const, id: call.id, name: call.name, input: call.arguments }))
+          ]
+        });
+      } else {
+        params.push({ role: message.role, content: message.content });
+      }
+    }
+    return params;
+  }
+}
+
+// Chat Completions sends arguments as a JSON string, which small local models do not always get right
+function parseToolArguments(json: unknown): Record<string, unknown> {
+  if (typeof json !== "string") return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Chat Completions over plain HTTP, for OpenAI itself or local servers that speak the same API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = "openai";
+  defaultModel = process.env.LLM_BASE_URL ? "llama3.1" : "gpt-4o-mini";
+
+  constructor(
+    private baseUrl = process.env.LLM_BASE_URL || "https://api.openai.com/v1",
+    private apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || ""
+  ) {}
+
+  async generate(model: string, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await this.post(model, request, false, signal);
+    const body = await response.json();
+    const message = body.choices?.[0]?.message;
+    const toolCalls: LLMToolCall[] = (message?.tool_calls || []).map((call: any) => ({
+      id: call.id,
+      name: call.function?.name || "",
+      arguments: parseToolArguments(call.function?.arguments)
+    }));
+    return {
+      text: message?.content || "",
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: this.name,
+      model,
+      usage: { inputTokens: body.usage?.prompt_tokens || 0, outputTokens: body.usage?.completion_tokens || 0 }
+    };
+  }
+
+  async stream(model: string, request: LLMRequest, onText: (delta: string) => void, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await this.post(model, request, true, signal);
+    let text = "";
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool calls arrive in pieces, keyed by their index in the message
+    const calls: { id: string; name: string; arguments: string }[] = [];
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, "");
+        if (!line.trim().startsWith("data:") || data === "[DONE]") continue;
+
+        // Some compatible servers interleave keep-alives or partial frames; a chunk that is not JSON is skipped
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          onText(delta.content);
+        }
+        for (const part of delta?.tool_calls || []) {
+          const call = calls[part.index] || (calls[part.index] = { id: "", name: "", arguments: "" });
+          call.id = part.id || call.id;
+          call.name += part.function?.name || "";
+          call.arguments += part.function?.arguments || "";
+        }
+        if (chunk.usage) {
+          usage.inputTokens = chunk.usage.prompt_tokens || 0;
+          usage.outputTokens = chunk.usage.completion_tokens || 0;
+        }
+      }
+    }
+
+    const toolCalls = calls.filter(Boolean).map(call => ({ id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) }));
+    return { text, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, provider: this.name, model, usage };
+  }
+
+  private async post(model: string, request: LLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: "system", content: request.system }] : []),
+      ...messagesOf(request).map(message => {
+        if (message.role === "tool") {
+          return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+        }
+        if (message.role === "assistant" && message.toolCalls?.length) {
+          return {
+            role: "assistant",
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: "function",
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+            }))
+          };
+        }
+        return { role: message.role, content: message.content };
+      })
+    ];
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        tools: request.tools?.map(tool => ({ type: "function", function: tool })),
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      })
+    });
+    if (!response.ok) {
+      throw new LLMError(`${response.status} ${await response.text()}`, this.name, response.status);
+    }
+    return response;
+  }
+}
+
+type ScriptedTurn = string | { text?: string; toolCalls: LLMToolCall[] };
+type ScriptedReply = ScriptedTurn | ((request: LLMRequest) => ScriptedTurn);
+
+/**
+ * Replies from a script instead of a model. Scripted replies are used in order and may be tool calls; once
+ * they run out the provider echoes the last message. Every request is kept in `calls`.
+ */
+export class FakeProvider implements LLMProvider {
+  name = "fake";
+  defaultModel = "fake";
+  calls: { model: string; request: LLMRequest }[] = [];
+
+  constructor(private script: ScriptedReply[] = []) {}
+
+  enqueue(...replies: ScriptedReply[]): this {
+    this.script.push(...replies);
+    return this;
+  }
+
+  async generate(model: string, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    signal?.throwIfAborted();
+    this.calls.push({ model, request });
+    const messages = messagesOf(request);
+    const next = this.script.shift();
+    const turn = next === undefined
+      ? `[${model}] ${messages[messages.length - 1]?.content.slice(0, 200) || ""}`
+      : typeof next === "function" ? next(request) : next;
+    const text = typeof turn === "string" ? turn : turn.text || "";
+
+    const inputText = [request.system || "", ...messages.map(message => message.content)].join(" ");
+    return {
+      text,
+      toolCalls: typeof turn === "string" ? undefined : turn.toolCalls,
+      provider: this.name,
+      model,
+      // Roughly four characters per token, like real tokenizers on English text
+      usage: { inputTokens: Math.ceil(inputText.length / 4), outputTokens: Math.ceil(text.length / 4) }
+    };
+  }
+
+  // Sends the reply a word at a time, yielding to the event loop in between so aborts land mid-reply
+  async stream(model: string, request: LLMRequest, onText: (delta: string) => void, signal?: AbortSignal): Promise<LLMResponse> {
+    const response = await this.generate(model, request, signal);
+    for (const word of response.text.match(/\S+\s*|\s+/g) || []) {
+      await new Promise(resolve => setImmediate(resolve));
+      signal?.throwIfAborted();
+      onText(word);
+    }
+    return response;
+  }
+}
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "gemini": return new GeminiProvider();
+    case "anthropic": return new AnthropicProvider();
+    case "openai": return new OpenAICompatibleProvider();
+    case "fake": return new FakeProvider();
+    default: throw new Error(`Unknown LLM provider "${name}"`);
+  }
+}
+
+// Without any key Gemini is still chosen, so calls fail and each service falls back to its canned output
+// as before; set LLM_PROVIDER=fake to get scripted replies instead
+function defaultProviderName(): string {
+  if (process.env.LLM_PROVIDER) return process.env.LLM_PROVIDER;
+  if (process.env.ANTHROPIC_API_KEY && !process.env.GEMINI_API_KEY) return "anthropic";
+  if ((process.env.LLM_BASE_URL || process.env.OPENAI_API_KEY) && !process.env.GEMINI_API_KEY) return "openai";
+  return "gemini";
+}
+
+export class LLMService {
+  private providers = new Map<string, LLMProvider>();
+  private overrides = new Map<LLMFeature, { provider: LLMProvider; model?: string }>();
+  private listeners: ((call: LLMCall) => void)[] = [];
+
+  /**
+   * Provider and model a feature is configured to use
+   */
+  resolve(feature: LLMFeature): { provider: LLMProvider; model: string } {
+    const override = this.overrides.get(feature);
+    if (override) {
+      return { provider: override.provider, model: override.model || override.provider.defaultModel };
+    }
+
+    const key = feature.toUpperCase();
+    const name = process.env[`LLM_${key}_PROVIDER`] || defaultProviderName();
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = createProvider(name);
+      this.providers.set(name, provider);
+    }
+    const model = process.env[`LLM_${key}_MODEL`] || process.env.LLM_MODEL || provider.defaultModel;
+    return { provider, model };
+  }
+
+  /**
+   * Replace a feature's provider, e.g. with a FakeProvider in tests
+   */
+  useProvider(feature: LLMFeature, provider: LLMProvider, model?: string): void {
+    this.overrides.set(feature, { provider, model });
+  }
+
+  /**
+   * Be told about every model call, e.g. for usage metering. Listeners run inside the caller's async
+   * context and must not throw.
+   */
+  onCall(listener: (call: LLMCall) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Run a request on the feature's provider. With `onText` the reply is streamed; providers that cannot
+   * stream send it as one piece at the end.
+   */
+  async generate(feature: LLMFeature, request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const { onText, signal } = options;
+    signal?.throwIfAborted();
+    const { provider, model } = this.resolve(feature);
+    const started = Date.now();
+    try {
+      let response: LLMResponse;
+      if (onText && provider.stream) {
+        response = await provider.stream(model, request, onText, signal);
+      } else {
+        response = await provider.generate(model, request, signal);
+        if (onText && response.text) onText(response.text);
+      }
+      this.notify({ feature, provider: provider.name, model, usage: response.usage, latencyMs: Date.now() - started, success: true });
+      return response;
+    } catch (error) {
+      this.notify({ feature, provider: provider.name, model, usage: { inputTokens: 0, outputTokens: 0 }, latencyMs: Date.now() - started, success: false });
+      // A cancelled call is not a provider failure
+      if (signal?.aborted) throw signal.reason;
+      const reason = error instanceof Error ? error.message : String(error);
+      // The SDKs put the HTTP status on their errors; rate limits are passed on so callers can back off
+      const status = (error as { status?: unknown })?.status === 429 ? 429 : 502;
+      throw new LLMError(`${provider.name} (${model}) request for ${feature} failed: ${reason}`, provider.name, status);
+    }
+  }
+
+  private notify(call: LLMCall): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(call);
+      } catch (error) {
+        console.error('LLM call listener failed:', error);
+      }
+    }
+  }
+}
+
+export const llm = new LLMService();
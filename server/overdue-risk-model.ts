@@ -0,0 +1,349 @@
+import {
+  OverdueRiskBacktest,
+  OverdueRiskContribution,
+  OverdueRiskModelReport,
+  Role,
+  TransactionWithUserAndBook
+} from "@shared/schema";
+import type { AcademicCalendar } from "./academic-calendar";
+
+/*
+ * Overdue-risk model: a logistic regression fit in-process on past loans. A loan counts as late once it is
+ * returned after its due date or is still out past it. The features describe the loan and the borrower's
+ * and category's track record at the moment the loan is scored; training loans are scored as of the day they
+ * were borrowed, so they only see outcomes that were settled by then. Every prediction is explained by each
+ * feature's contribution to its log-odds, relative to an average loan.
+ */
+
+type Loan = TransactionWithUserAndBook;
+type Outcome = { late: boolean; settledAt: Date };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Risk from which a loan is flagged; the backtest measures precision and recall at this threshold
+export const RISK_ALERT_THRESHOLD = 0.3;
+// Past loans needed to fit the model, and to hold some of them out for the backtest
+const MIN_TRAINING_LOANS = 20;
+const MIN_BACKTEST_LOANS = 50;
+// The most recent share of past loans held out for the backtest
+const HOLDOUT_SHARE = 0.2;
+const ITERATIONS = 500;
+const LEARNING_RATE = 0.5;
+const L2_PENALTY = 0.01;
+// Pseudo-loans at the overall late rate added to every track record, so one late return is not a 100% rate
+const PRIOR_LOANS = 2;
+// Caps on the count features, so a handful of very heavy borrowers don't stretch their scale
+const MAX_PAST_LOANS = 20;
+const MAX_ACTIVE_LOANS = 10;
+
+interface Feature {
+  name: string;
+  label: string;
+  describe: (value: number) => string;
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// In the order of the feature vectors built by LoanHistory.featuresOf
+const FEATURES: Feature[] = [
+  { name: "pastOverdueRate", label: "Past overdue rate", describe: value => `${percent(value)} of past loans returned late` },
+  { name: "pastLoans", label: "Borrowing history", describe: value => `${value}${value >= MAX_PAST_LOANS ? "+" : ""} past loans` },
+  { name: "activeLoans", label: "Other active loans", describe: value => `${value}${value >= MAX_ACTIVE_LOANS ? "+" : ""} other books on loan` },
+  { name: "loanDays", label: "Loan period", describe: value => `${value}-day loan` },
+  { name: "categoryOverdueRate", label: "Category overdue rate", describe: value => `${percent(value)} of loans in this category returned late` },
+  { name: "examPeriod", label: "Exam period", describe: value => value ? "due in an exam week" : "not due in an exam week" },
+  { name: "student", label: "Borrower role", describe: value => value ? "student borrower" : "staff borrower" }
+];
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function logit(p: number): number {
+  const clamped = Math.min(0.99, Math.max(0.01, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function round(value: number, places = 3): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Outcomes of past loans, grouped by borrower and category, to build features as of any date
+ */
+class LoanHistory {
+  private byUser = new Map<string, Loan[]>();
+  private byCategory = new Map<string, Loan[]>();
+  private outcomes = new Map<string, Outcome>();
+  readonly lateRate: number;
+  // Late rate of the pseudo-loans added to track records; the backtest uses its training split's rate
+  readonly prior: number;
+
+  // Exam weeks come from the academic calendar; with none entered the exam feature is constant and carries no weight
+  constructor(loans: Loan[], now: Date, private calendar: AcademicCalendar, prior?: number) {
+    for (const loan of loans) {
+      this.byUser.set(loan.userId, [...(this.byUser.get(loan.userId) || []), loan]);
+      this.byCategory.set(loan.book.category, [...(this.byCategory.get(loan.book.category) || []), loan]);
+      const outcome = this.settle(loan, now);
+      if (outcome) this.outcomes.set(loan.id, outcome);
+    }
+    const settled = Array.from(this.outcomes.values());
+    this.lateRate = settled.length ? settled.filter(outcome => outcome.late).length / settled.length : 0;
+    this.prior = prior ?? this.lateRate;
+  }
+
+  /**
+   * Changes whenever another loan's outcome is settled, i.e. when there is something new to train on
+   */
+  get settledKey(): string {
+    const late = Array.from(this.outcomes.values()).filter(outcome => outcome.late).length;
+    return `${this.outcomes.size}:${late}`;
+  }
+
+  outcomeOf(loan: Loan): Outcome | undefined {
+    return this.outcomes.get(loan.id);
+  }
+
+  featuresOf(loan: Loan, asOf: Date): number[] {
+    const userLoans = (this.byUser.get(loan.userId) || []).filter(other => other.id !== loan.id);
+    const categoryLoans = (this.byCategory.get(loan.book.category) || []).filter(other => other.id !== loan.id);
+    const user = this.trackRecord(userLoans, asOf);
+    const activeLoans = userLoans.filter(other =>
+      new Date(other.borrowedDate) <= asOf && (!other.returnedDate || new Date(other.returnedDate) > asOf)
+    ).length;
+    const due = new Date(loan.dueDate);
+
+    return [
+      user.rate,
+      Math.min(user.count, MAX_PAST_LOANS),
+      Math.min(activeLoans, MAX_ACTIVE_LOANS),
+      Math.round((due.getTime() - new Date(loan.borrowedDate).getTime()) / DAY_MS),
+      this.trackRecord(categoryLoans, asOf).rate,
+      this.calendar.examWeekOn(due) ? 1 : 0,
+      loan.user.role === Role.STUDENT ? 1 : 0
+    ];
+  }
+
+  // A late loan is known to be late from its due date, an on-time one once it is back
+  private settle(loan: Loan, now: Date): Outcome | null {
+    const due = new Date(loan.dueDate);
+    if (loan.returnedDate) {
+      const returned = new Date(loan.returnedDate);
+      return returned > due ? { late: true, settledAt: due } : { late: false, settledAt: returned };
+    }
+    return due < now ? { late: true, settledAt: due } : null;
+  }
+
+  private trackRecord(loans: Loan[], asOf: Date): { rate: number; count: number } {
+    const settled = loans
+      .map(loan => this.outcomes.get(loan.id))
+      .filter((outcome): outcome is Outcome => !!outcome && outcome.settledAt <= asOf);
+    const late = settled.filter(outcome => outcome.late).length;
+    return {
+      rate: (late + PRIOR_LOANS * this.prior) / (settled.length + PRIOR_LOANS),
+      count: settled.length
+    };
+  }
+}
+
+/**
+ * Standardized logistic regression fit by batch gradient descent with an L2 penalty
+ */
+class LogisticRegression {
+  private constructor(
+    readonly weights: number[],
+    readonly intercept: number,
+    private means: number[],
+    private scales: number[]
+  ) {}
+
+  static fit(rows: number[][], labels: boolean[]): LogisticRegression {
+    const n = rows.length;
+    const k = FEATURES.length;
+    const means = FEATURES.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+    const scales = FEATURES.map((_, j) => {
+      const variance = rows.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / n;
+      return Math.sqrt(variance) || 1;
+    });
+    const x = rows.map(row => row.map((value, j) => (value - means[j]) / scales[j]));
+    const y = labels.map(label => (label ? 1 : 0));
+
+    const weights = new Array<number>(k).fill(0);
+    let intercept = logit(y.reduce((sum: number, value) => sum + value, 0) / n);
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+      const gradient = new Array<number>(k).fill(0);
+      let interceptGradient = 0;
+      for (let i = 0; i < n; i++) {
+        const error = sigmoid(intercept + x[i].reduce((sum, value, j) => sum + value * weights[j], 0)) - y[i];
+        interceptGradient += error;
+        for (let j = 0; j < k; j++) gradient[j] += error * x[i][j];
+      }
+      intercept -= LEARNING_RATE * interceptGradient / n;
+      for (let j = 0; j < k; j++) {
+        weights[j] -= LEARNING_RATE * (gradient[j] / n + L2_PENALTY * weights[j]);
+      }
+    }
+    return new LogisticRegression(weights, intercept, means, scales);
+  }
+
+  // Predicts the given rate for every loan; used until there is enough history to fit
+  static constant(rate: number): LogisticRegression {
+    return new LogisticRegression(FEATURES.map(() => 0), logit(rate), FEATURES.map(() => 0), FEATURES.map(() => 1));
+  }
+
+  contributions(row: number[]): number[] {
+    return row.map((value, j) => this.weights[j] * (value - this.means[j]) / this.scales[j]);
+  }
+
+  probability(row: number[]): number {
+    return sigmoid(this.intercept + this.contributions(row).reduce((sum, value) => sum + value, 0));
+  }
+}
+
+function evaluate(regression: LogisticRegression, rows: number[][], labels: boolean[]) {
+  const scores = rows.map(row => regression.probability(row));
+  const flagged = scores.map(score => score >= RISK_ALERT_THRESHOLD);
+  const truePositives = flagged.filter((flag, i) => flag && labels[i]).length;
+  const flaggedCount = flagged.filter(Boolean).length;
+  const lateCount = labels.filter(Boolean).length;
+  const correct = flagged.filter((flag, i) => flag === labels[i]).length;
+
+  return {
+    lateLoans: lateCount,
+    precision: flaggedCount ? round(truePositives / flaggedCount) : null,
+    recall: lateCount ? round(truePositives / lateCount) : null,
+    accuracy: round(correct / rows.length),
+    auc: auc(scores, labels)
+  };
+}
+
+// Mann-Whitney U over score ranks, with ties sharing their average rank
+function auc(scores: number[], labels: boolean[]): number | null {
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = scores.map((score, i) => ({ score, late: labels[i] })).sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      if (order[i].late) rankSum += averageRank;
+    }
+    start = end + 1;
+  }
+  return round((rankSum - positives * (positives + 1) / 2) / (positives * negatives));
+}
+
+function hasBothOutcomes(labels: boolean[]): boolean {
+  return labels.some(Boolean) && labels.some(label => !label);
+}
+
+export class OverdueRiskModel {
+  private constructor(
+    private history: LoanHistory,
+    private regression: LogisticRegression,
+    private report: OverdueRiskModelReport
+  ) {}
+
+  /**
+   * Fit the model on every loan whose outcome is settled, and backtest it by refitting on the loans
+   * borrowed before the most recent ones and scoring those
+   */
+  static train(loans: Loan[], calendar: AcademicCalendar, now = new Date()): OverdueRiskModel {
+    const history = new LoanHistory(loans, now, calendar);
+    const settled = loans
+      .filter(loan => history.outcomeOf(loan))
+      .sort((a, b) => new Date(a.borrowedDate).getTime() - new Date(b.borrowedDate).getTime());
+    const rows = settled.map(loan => history.featuresOf(loan, new Date(loan.borrowedDate)));
+    const labels = settled.map(loan => history.outcomeOf(loan)!.late);
+
+    const trained = settled.length >= MIN_TRAINING_LOANS && hasBothOutcomes(labels);
+    const regression = trained ? LogisticRegression.fit(rows, labels) : LogisticRegression.constant(history.lateRate);
+
+    return new OverdueRiskModel(history, regression, {
+      trainedAt: now,
+      trained,
+      trainingLoans: trained ? settled.length : 0,
+      lateRate: round(history.lateRate),
+      threshold: RISK_ALERT_THRESHOLD,
+      weights: FEATURES
+        .map((feature, j) => ({ feature: feature.name, label: feature.label, weight: round(regression.weights[j]) }))
+        .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)),
+      backtest: trained ? OverdueRiskModel.backtest(loans, settled, labels, history, calendar, now) : null
+    });
+  }
+
+  private static backtest(
+    loans: Loan[],
+    settled: Loan[],
+    labels: boolean[],
+    history: LoanHistory,
+    calendar: AcademicCalendar,
+    now: Date
+  ): OverdueRiskBacktest | null {
+    if (settled.length < MIN_BACKTEST_LOANS) return null;
+
+    const split = Math.floor(settled.length * (1 - HOLDOUT_SHARE));
+    const heldOutFrom = new Date(settled[split].borrowedDate);
+    // Only loans settled before the held-out period began could have been trained on back then
+    const train = settled
+      .map((_, i) => i)
+      .filter(i => i < split && history.outcomeOf(settled[i])!.settledAt < heldOutFrom);
+    const trainLabels = train.map(i => labels[i]);
+    if (train.length < MIN_TRAINING_LOANS || !hasBothOutcomes(trainLabels)) return null;
+
+    // Track records start from the training split's late rate, so the held-out outcomes don't leak in through it
+    const trainHistory = new LoanHistory(loans, now, calendar, trainLabels.filter(Boolean).length / trainLabels.length);
+    const rows = settled.map(loan => trainHistory.featuresOf(loan, new Date(loan.borrowedDate)));
+    const regression = LogisticRegression.fit(train.map(i => rows[i]), trainLabels);
+    return {
+      trainingLoans: train.length,
+      testLoans: settled.length - split,
+      heldOutFrom,
+      ...evaluate(regression, rows.slice(split), labels.slice(split))
+    };
+  }
+
+  /**
+   * This fit scoring with the current loans, or null if a loan's outcome has settled since it was trained and
+   * it should be trained again
+   */
+  withLoans(loans: Loan[], calendar: AcademicCalendar, now = new Date()): OverdueRiskModel | null {
+    const history = new LoanHistory(loans, now, calendar, this.history.prior);
+    return history.settledKey === this.history.settledKey ? new OverdueRiskModel(history, this.regression, this.report) : null;
+  }
+
+  getReport(): OverdueRiskModelReport {
+    return this.report;
+  }
+
+  /**
+   * Held-out AUC, or 0.5 (no better than chance) while the model has not been backtested
+   */
+  get confidence(): number {
+    return this.report.backtest?.auc ?? 0.5;
+  }
+
+  /**
+   * Probability that an active loan comes back late, with each feature's contribution, largest first
+   */
+  predict(loan: Loan, now = new Date()): { riskScore: number; contributions: OverdueRiskContribution[] } {
+    const row = this.history.featuresOf(loan, now);
+    const contributions = !this.report.trained ? [] : this.regression.contributions(row)
+      .map((contribution, j) => ({
+        feature: FEATURES[j].name,
+        label: FEATURES[j].label,
+        value: round(row[j]),
+        description: FEATURES[j].describe(row[j]),
+        contribution: round(contribution)
+      }))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+    return { riskScore: round(this.regression.probability(row)), contributions };
+  }
+}
@@ -0,0 +1,97 @@
+import { storage } from "./storage";
+import { PushNotificationService } from "./push-service";
+import { NotificationType, Transaction, TransactionStatus, TransactionWithUserAndBook } from "@shared/schema";
+
+export interface OverdueSweepResult {
+  scanned: number;
+  markedOverdue: number;
+  overdueNotices: number;
+  dueSoonReminders: number;
+  errors: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isPastDue(dueDate: Date | string, now: Date): boolean {
+  return new Date(dueDate).getTime() < now.getTime();
+}
+
+/**
+ * Whether a loan is overdue: marked OVERDUE by a sweep, or still BORROWED past its due date until the next sweep reaches it
+ */
+export function isOverdue(transaction: Pick<Transaction, "status" | "dueDate">, now: Date = new Date()): boolean {
+  return transaction.status === TransactionStatus.OVERDUE ||
+    (transaction.status === TransactionStatus.BORROWED && isPastDue(transaction.dueDate, now));
+}
+
+export class OverdueSweeper {
+  // How far ahead of the due date the "due soon" reminder goes out
+  private readonly dueSoonWindowMs = parseInt(process.env.DUE_SOON_REMINDER_DAYS || '3', 10) * DAY_MS;
+
+  /**
+   * Flip past-due loans to OVERDUE and send each reminder at most once per due date
+   */
+  async sweep(now: Date = new Date()): Promise<OverdueSweepResult> {
+    const activeTransactions = await storage.getActiveTransactions();
+    const result: OverdueSweepResult = {
+      scanned: activeTransactions.length,
+      markedOverdue: 0,
+      overdueNotices: 0,
+      dueSoonReminders: 0,
+      errors: 0
+    };
+
+    for (const transaction of activeTransactions) {
+      try {
+        await this.processTransaction(transaction, now, result);
+      } catch (error) {
+        result.errors++;
+        console.error(`Overdue sweep failed for transaction ${transaction.id}:`, error);
+      }
+    }
+
+    if (result.markedOverdue > 0 || result.overdueNotices > 0 || result.dueSoonReminders > 0) {
+      console.log(`Overdue sweep: ${result.markedOverdue} marked overdue, ${result.overdueNotices} overdue notices, ${result.dueSoonReminders} due-soon reminders`);
+    }
+
+    return result;
+  }
+
+  private async processTransaction(transaction: TransactionWithUserAndBook, now: Date, result: OverdueSweepResult): Promise<void> {
+    const dueDate = new Date(transaction.dueDate);
+    const msUntilDue = dueDate.getTime() - now.getTime();
+
+    if (isPastDue(dueDate, now)) {
+      if (transaction.status === TransactionStatus.BORROWED) {
+        await storage.updateTransactionStatus(transaction.id, TransactionStatus.OVERDUE);
+        result.markedOverdue++;
+      }
+
+      if (!transaction.overdueNotifiedAt) {
+        const daysOverdue = Math.max(1, Math.floor(-msUntilDue / DAY_MS));
+        await PushNotificationService.sendNotificationToUser(transaction.userId, {
+          title: "Book Overdue",
+          message: `"${transaction.book.title}" by ${transaction.book.author} was due on ${dueDate.toLocaleDateString()} and is now ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue. Please return it as soon as possible.`,
+          type: NotificationType.BOOK_OVERDUE,
+          url: '/student/borrowed-books'
+        });
+        await storage.markTransactionReminderSent(transaction.id, "OVERDUE");
+        result.overdueNotices++;
+      }
+      return;
+    }
+
+    if (msUntilDue <= this.dueSoonWindowMs && !transaction.dueSoonNotifiedAt) {
+      await PushNotificationService.sendNotificationToUser(transaction.userId, {
+        title: "Book Due Soon",
+        message: `"${transaction.book.title}" by ${transaction.book.author} is due on ${dueDate.toLocaleDateString()}. Return it or request an extension before then.`,
+        type: NotificationType.BOOK_DUE_SOON,
+        url: '/student/due-soon'
+      });
+      await storage.markTransactionReminderSent(transaction.id, "DUE_SOON");
+      result.dueSoonReminders++;
+    }
+  }
+}
+
+export const overdueSweeper = new OverdueSweeper();
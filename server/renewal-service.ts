@@ -0,0 +1,98 @@
+import { storage, circulationPolicy } from "./storage";
+import { PushNotificationService } from "./push-service";
+import {
+  ExtensionRequestStatus,
+  HoldStatus,
+  NotificationType,
+  RenewalMethod,
+  RenewalResult,
+  TransactionStatus,
+  TransactionWithBook
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RenewalError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RenewalError";
+  }
+}
+
+export class RenewalService {
+  /**
+   * Renew a student's loan on the spot when nothing stands in the way, otherwise file an extension request for a librarian.
+   * The policy renewal limit is a hard stop either way and throws a PolicyViolationError.
+   */
+  async renew(userId: string, transactionId: string, now: Date = new Date()): Promise<RenewalResult> {
+    const loan = (await storage.getUserTransactions(userId)).find(t => t.id === transactionId);
+    if (!loan) {
+      throw new RenewalError("Loan not found", 404);
+    }
+    if (loan.status === TransactionStatus.RETURNED) {
+      throw new RenewalError("This book has already been returned");
+    }
+
+    const policy = await circulationPolicy.assertCanRenew(loan);
+
+    // A renewal adds a full loan period, counted from today if the loan is already past due
+    const currentDueDate = new Date(loan.dueDate);
+    const newDueDate = new Date(Math.max(currentDueDate.getTime(), now.getTime()) + policy.loanPeriodDays * DAY_MS);
+
+    const blocker = await this.getSelfServiceBlocker(loan, now);
+    if (!blocker) {
+      const transaction = await storage.renewTransaction(loan.id, newDueDate, RenewalMethod.SELF_SERVICE);
+      if (!transaction) {
+        throw new RenewalError("Failed to renew loan", 500);
+      }
+
+      await PushNotificationService.sendNotificationToUser(userId, {
+        title: "Book Renewed",
+        message: `"${loan.book.title}" has been renewed. New due date: ${new Date(transaction.dueDate).toLocaleDateString()}`,
+        type: NotificationType.BOOK_RENEWED,
+        url: '/student/borrowed-books'
+      });
+
+      return { renewed: true, transaction };
+    }
+
+    const pending = (await storage.getExtensionRequestsByUser(userId))
+      .find(request => request.transactionId === loan.id && request.status === ExtensionRequestStatus.PENDING);
+    if (pending) {
+      throw new RenewalError("An extension request for this loan is already waiting for librarian review", 409);
+    }
+
+    const extensionRequest = await storage.createExtensionRequest({
+      userId,
+      transactionId: loan.id,
+      currentDueDate,
+      requestedDueDate: newDueDate,
+      reason: `Renewal needs librarian review: ${blocker}`
+    });
+
+    return { renewed: false, reason: blocker, extensionRequest };
+  }
+
+  /**
+   * Why a renewal cannot be approved automatically, or null if it can
+   */
+  private async getSelfServiceBlocker(loan: TransactionWithBook, now: Date): Promise<string | null> {
+    const [holds, settings] = await Promise.all([
+      storage.getHoldsByBook(loan.bookId),
+      storage.getFineSettings()
+    ]);
+
+    if (holds.some(hold => hold.status === HoldStatus.WAITING)) {
+      return "other patrons are waiting for this book";
+    }
+
+    const graceEnds = new Date(loan.dueDate).getTime() + settings.gracePeriodDays * DAY_MS;
+    if (now.getTime() > graceEnds) {
+      return "the loan is overdue beyond the grace period";
+    }
+
+    return null;
+  }
+}
+
+export const renewalService = new RenewalService();
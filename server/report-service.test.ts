@@ -0,0 +1,72 @@
+import { MockInstance, afterEach, describe, expect, it, vi } from "vitest";
+import { nextRunAfter, reportService } from "./report-service";
+import { emailService } from "./email-service";
+import { storage } from "./storage";
+import { ReportFormat, ReportFrequency, ReportType } from "@shared/schema";
+
+// A Wednesday, so the last weekly run was on Monday 2 March
+const NOW = new Date(2026, 2, 4, 12);
+
+async function weeklySchedule(name: string, nextRunAt: Date) {
+  return storage.createReportSchedule({
+    name,
+    reportType: ReportType.CIRCULATION_BY_CATEGORY,
+    format: ReportFormat.CSV,
+    frequency: ReportFrequency.WEEKLY,
+    recipients: ["head@example.edu"],
+    enabled: true,
+    nextRunAt,
+    createdBy: "admin"
+  });
+}
+
+function subjectsOf(send: MockInstance<typeof emailService.sendEmail>) {
+  return send.mock.calls.map(([params]) => params.subject);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("scheduled reports", () => {
+  it("sends every run missed while the server was down, oldest first", async () => {
+    const send = vi.spyOn(emailService, "sendEmail").mockResolvedValue(true);
+    const schedule = await weeklySchedule("missed", new Date(2026, 1, 16, 6));
+
+    expect(await reportService.runDueSchedules(NOW)).toEqual({ sent: 3, failed: 0 });
+    expect(subjectsOf(send)).toEqual([
+      "missed: Circulation by Category, 2026-02-09 to 2026-02-15",
+      "missed: Circulation by Category, 2026-02-16 to 2026-02-22",
+      "missed: Circulation by Category, 2026-02-23 to 2026-03-01"
+    ]);
+    const [updated] = (await storage.getReportSchedules()).filter(item => item.id === schedule.id);
+    expect(updated.nextRunAt).toEqual(nextRunAfter(ReportFrequency.WEEKLY, NOW));
+  });
+
+  it("keeps a failed run due and sends it at the next check", async () => {
+    const send = vi.spyOn(emailService, "sendEmail").mockResolvedValue(false);
+    const due = new Date(2026, 2, 2, 6);
+    const schedule = await weeklySchedule("retried", due);
+
+    expect(await reportService.runDueSchedules(NOW)).toEqual({ sent: 0, failed: 1 });
+    let [updated] = (await storage.getReportSchedules()).filter(item => item.id === schedule.id);
+    expect(updated.nextRunAt).toEqual(due);
+    expect(updated.lastError).toMatch(/could not be sent/);
+
+    send.mockResolvedValue(true);
+    expect(await reportService.runDueSchedules(new Date(NOW.getTime() + 60 * 60 * 1000))).toEqual({ sent: 1, failed: 0 });
+    [updated] = (await storage.getReportSchedules()).filter(item => item.id === schedule.id);
+    expect(updated.lastError).toBeNull();
+    expect(updated.nextRunAt).toEqual(new Date(2026, 2, 9, 6));
+  });
+});
+
+describe("report exports", () => {
+  it("opens cells that look like formulas as text in CSV", async () => {
+    await storage.createBook({ title: "=HYPERLINK(\"http://evil.example\")", author: "@author", category: "-Fiction", totalCopies: 1 });
+
+    const report = await reportService.build(ReportType.COLLECTION_USAGE, new Date(2026, 0, 1), new Date(2026, 1, 1), NOW);
+    const csv = (await reportService.export(report, ReportFormat.CSV)).content.toString("utf8");
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil.example"")","'@author","'-Fiction","1","0","0","0"`);
+  });
+});
@@ -0,0 +1,583 @@
+import PDFDocument from "pdfkit";
+import * as XLSX from "xlsx";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import {
+  Book,
+  BookRequestStatus,
+  BookRequestWithUserAndBook,
+  Report,
+  ReportCell,
+  ReportDefinition,
+  ReportFormat,
+  ReportFrequency,
+  ReportSchedule,
+  ReportScheduleInput,
+  ReportType,
+  TransactionWithUserAndBook
+} from "@shared/schema";
+
+/*
+ * Predefined reports over a date range, exported as CSV, XLSX or PDF. Admins schedule them to be emailed
+ * weekly or monthly; the "report-schedules" background job sends the ones that are due, each covering the
+ * week or month before its run, and retries failed ones at its next check.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const TOP_BORROWERS_LIMIT = 100;
+// Hour of the day, server time, scheduled reports go out
+const SCHEDULE_HOUR = 6;
+
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 14;
+const PDF_FONT_SIZE = 8;
+// Rows measured to size the PDF's columns
+const PDF_SAMPLE_ROWS = 200;
+
+interface ReportData {
+  loans: TransactionWithUserAndBook[];
+  books: Book[];
+  requests: BookRequestWithUserAndBook[];
+}
+
+type ReportBody = Pick<Report, "rows" | "summary">;
+
+export interface ReportFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export class ReportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ReportError";
+  }
+}
+
+export const REPORT_DEFINITIONS: ReportDefinition[] = [
+  {
+    type: ReportType.CIRCULATION_BY_CATEGORY,
+    title: "Circulation by Category",
+    description: "Loans, returns and late returns in the range, per book category",
+    columns: ["Category", "Loans", "Returns", "Late returns", "Borrowers", "Average loan (days)"]
+  },
+  {
+    type: ReportType.OVERDUE_LIST,
+    title: "Overdue List",
+    description: "Loans that fell due in the range and came back late or are still out",
+    columns: ["Borrower", "Email", "Student ID", "Book", "Due date", "Returned", "Days late", "Status"]
+  },
+  {
+    type: ReportType.TOP_BORROWERS,
+    title: "Top Borrowers",
+    description: `The ${TOP_BORROWERS_LIMIT} borrowers with the most loans in the range`,
+    columns: ["Borrower", "Email", "Role", "Loans", "Late", "Most borrowed category"]
+  },
+  {
+    type: ReportType.COLLECTION_USAGE,
+    title: "Collection Usage",
+    description: "Loans and days on loan per book in the range, against the days its copies could have been out",
+    columns: ["Title", "Author", "Category", "Copies", "Loans", "Days on loan", "Utilisation (%)"]
+  },
+  {
+    type: ReportType.REQUEST_FULFILLMENT,
+    title: "Request Fulfillment",
+    description: "Book requests made in the range and how long librarians took to decide them",
+    columns: ["Requester", "Book", "Requested", "Status", "Decided", "Hours to decision"]
+  }
+];
+
+function formatDate(date: Date | string | null | undefined): string | null {
+  if (!date) return null;
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+}
+
+function inRange(date: Date | string | null | undefined, from: Date, to: Date): boolean {
+  if (!date) return false;
+  const value = new Date(date);
+  return value >= from && value <= to;
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function isLate(loan: TransactionWithUserAndBook, asOf: Date): boolean {
+  const due = new Date(loan.dueDate);
+  return loan.returnedDate ? new Date(loan.returnedDate) > due : due < asOf;
+}
+
+function circulationByCategory(data: ReportData, from: Date, to: Date): ReportBody {
+  const byCategory = new Map<string, { loans: number; returns: number; late: number; borrowers: Set<string>; loanDays: number[] }>();
+  const stats = (category: string) => {
+    if (!byCategory.has(category)) {
+      byCategory.set(category, { loans: 0, returns: 0, late: 0, borrowers: new Set(), loanDays: [] });
+    }
+    return byCategory.get(category)!;
+  };
+  // Categories without activity are listed too
+  data.books.forEach(book => stats(book.category));
+
+  const borrowers = new Set<string>();
+  for (const loan of data.loans) {
+    const category = stats(loan.book.category);
+    if (inRange(loan.borrowedDate, from, to)) {
+      category.loans++;
+      category.borrowers.add(loan.userId);
+      borrowers.add(loan.userId);
+    }
+    if (inRange(loan.returnedDate, from, to)) {
+      category.returns++;
+      category.loanDays.push((new Date(loan.returnedDate!).getTime() - new Date(loan.borrowedDate).getTime()) / DAY_MS);
+      if (new Date(loan.returnedDate!) > new Date(loan.dueDate)) category.late++;
+    }
+  }
+
+  const categories = Array.from(byCategory.entries()).sort((a, b) => b[1].loans - a[1].loans || a[0].localeCompare(b[0]));
+  const total = (field: "loans" | "returns" | "late") => categories.reduce((sum, [, category]) => sum + category[field], 0);
+  return {
+    rows: categories.map(([name, category]) => [
+      name,
+      category.loans,
+      category.returns,
+      category.late,
+      category.borrowers.size,
+      category.loanDays.length ? round(category.loanDays.reduce((sum, days) => sum + days, 0) / category.loanDays.length) : null
+    ]),
+    summary: [
+      { label: "Loans", value: total("loans") },
+      { label: "Returns", value: total("returns") },
+      { label: "Late returns", value: total("late") },
+      { label: "Borrowers", value: borrowers.size }
+    ]
+  };
+}
+
+function overdueList(data: ReportData, from: Date, to: Date, now: Date): ReportBody {
+  const asOf = to < now ? to : now;
+  const overdue = data.loans
+    .filter(loan => inRange(loan.dueDate, from, asOf) && isLate(loan, asOf))
+    .map(loan => {
+      const end = loan.returnedDate ? new Date(loan.returnedDate) : now;
+      return { loan, daysLate: Math.ceil((end.getTime() - new Date(loan.dueDate).getTime()) / DAY_MS) };
+    })
+    .sort((a, b) => b.daysLate - a.daysLate);
+
+  const stillOut = overdue.filter(({ loan }) => !loan.returnedDate).length;
+  return {
+    rows: overdue.map(({ loan, daysLate }) => [
+      loan.user.fullName,
+      loan.user.email,
+      loan.user.studentId || null,
+      loan.book.title,
+      formatDate(loan.dueDate),
+      formatDate(loan.returnedDate),
+      daysLate,
+      loan.returnedDate ? "Returned late" : "Still out"
+    ]),
+    summary: [
+      { label: "Overdue loans", value: overdue.length },
+      { label: "Still out", value: stillOut },
+      { label: "Returned late", value: overdue.length - stillOut }
+    ]
+  };
+}
+
+function topBorrowers(data: ReportData, from: Date, to: Date, now: Date): ReportBody {
+  const byUser = new Map<string, TransactionWithUserAndBook[]>();
+  for (const loan of data.loans) {
+    if (inRange(loan.borrowedDate, from, to)) {
+      byUser.set(loan.userId, [...(byUser.get(loan.userId) || []), loan]);
+    }
+  }
+
+  const borrowers = Array.from(byUser.values()).sort((a, b) => b.length - a.length).slice(0, TOP_BORROWERS_LIMIT);
+  return {
+    rows: borrowers.map(loans => {
+      const categories = new Map<string, number>();
+      loans.forEach(loan => categories.set(loan.book.category, (categories.get(loan.book.category) || 0) + 1));
+      const favourite = Array.from(categories.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      const user = loans[0].user;
+      return [user.fullName, user.email, user.role, loans.length, loans.filter(loan => isLate(loan, now)).length, favourite];
+    }),
+    summary: [
+      { label: "Active borrowers", value: byUser.size },
+      { label: "Loans", value: Array.from(byUser.values()).reduce((sum, loans) => sum + loans.length, 0) }
+    ]
+  };
+}
+
+function collectionUsage(data: ReportData, from: Date, to: Date, now: Date): ReportBody {
+  const end = to < now ? to : now;
+  const rangeDays = Math.max(1, (end.getTime() - from.getTime()) / DAY_MS);
+  const usage = new Map<string, { loans: number; days: number }>();
+  for (const loan of data.loans) {
+    const borrowed = new Date(loan.borrowedDate);
+    const returned = loan.returnedDate ? new Date(loan.returnedDate) : now;
+    // Days of the loan that fall inside the range
+    const overlap = Math.min(returned.getTime(), end.getTime()) - Math.max(borrowed.getTime(), from.getTime());
+    const stats = usage.get(loan.bookId) || { loans: 0, days: 0 };
+    if (inRange(borrowed, from, to)) stats.loans++;
+    if (overlap > 0) stats.days += overlap / DAY_MS;
+    usage.set(loan.bookId, stats);
+  }
+
+  const books = data.books.map(book => {
+    const stats = usage.get(book.id) || { loans: 0, days: 0 };
+    return { book, ...stats, utilisation: book.totalCopies > 0 ? (stats.days / (book.totalCopies * rangeDays)) * 100 : 0 };
+  }).sort((a, b) => b.utilisation - a.utilisation || b.loans - a.loans);
+
+  const borrowed = books.filter(book => book.loans > 0).length;
+  return {
+    rows: books.map(({ book, loans, days, utilisation }) => [
+      book.title,
+      book.author,
+      book.category,
+      book.totalCopies,
+      loans,
+      round(days),
+      round(utilisation)
+    ]),
+    summary: [
+      { label: "Books", value: books.length },
+      { label: "Borrowed in range", value: borrowed },
+      { label: "Not borrowed", value: books.length - borrowed },
+      { label: "Average utilisation (%)", value: books.length ? round(books.reduce((sum, book) => sum + book.utilisation, 0) / books.length) : null }
+    ]
+  };
+}
+
+function requestFulfillment(data: ReportData, from: Date, to: Date): ReportBody {
+  const requests = data.requests
+    .filter(request => inRange(request.requestDate, from, to))
+    .sort((a, b) => new Date(a.requestDate).getTime() - new Date(b.requestDate).getTime());
+  const hoursToDecision = (request: BookRequestWithUserAndBook) => request.processedDate && request.status !== BookRequestStatus.PENDING
+    ? (new Date(request.processedDate).getTime() - new Date(request.requestDate).getTime()) / HOUR_MS
+    : null;
+  const decided = requests.map(hoursToDecision).filter((hours): hours is number => hours !== null);
+  const count = (...statuses: BookRequestStatus[]) => requests.filter(request => statuses.includes(request.status)).length;
+  const median = percentile(decided, 0.5);
+  const slowest = percentile(decided, 0.9);
+
+  return {
+    rows: requests.map(request => {
+      const hours = hoursToDecision(request);
+      return [
+        request.user.fullName,
+        request.book.title,
+        formatDate(request.requestDate),
+        request.status,
+        formatDate(request.processedDate),
+        hours === null ? null : round(hours)
+      ];
+    }),
+    summary: [
+      { label: "Requests", value: requests.length },
+      { label: "Fulfilled", value: count(BookRequestStatus.APPROVED, BookRequestStatus.FULFILLED) },
+      { label: "Rejected", value: count(BookRequestStatus.REJECTED) },
+      { label: "Pending", value: count(BookRequestStatus.PENDING) },
+      { label: "Median hours to decision", value: median === null ? null : round(median) },
+      { label: "90th percentile hours", value: slowest === null ? null : round(slowest) }
+    ]
+  };
+}
+
+const BUILDERS: Record<ReportType, (data: ReportData, from: Date, to: Date, now: Date) => ReportBody> = {
+  [ReportType.CIRCULATION_BY_CATEGORY]: circulationByCategory,
+  [ReportType.OVERDUE_LIST]: overdueList,
+  [ReportType.TOP_BORROWERS]: topBorrowers,
+  [ReportType.COLLECTION_USAGE]: collectionUsage,
+  [ReportType.REQUEST_FULFILLMENT]: requestFulfillment
+};
+
+// Text a spreadsheet would read as a formula; such cells get a leading apostrophe so they open as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function toCsv(report: Report): string {
+  return [report.columns, ...report.rows]
+    .map(row => row.map(cell => {
+      const text = typeof cell === "string" && FORMULA_START.test(cell) ? `'${cell}` : String(cell ?? "");
+      return `"${text.replace(/"/g, '""')}"`;
+    }).join(","))
+    .join("\n");
+}
+
+function toXlsx(report: Report): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([report.columns, ...report.rows]), "Report");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ["Report", report.title],
+    ["From", formatDate(report.from)],
+    ["To", formatDate(report.to)],
+    ["Generated", report.generatedAt.toISOString()],
+    [],
+    ...report.summary.map(item => [item.label, item.value])
+  ]), "Summary");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+// A landscape A4 table; the header row repeats on each page and cells too long for their column are cut short
+function toPdf(report: Report): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: PDF_MARGIN });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica-Bold").fontSize(16).text(report.title);
+    doc.font("Helvetica").fontSize(10).fillColor("#555555")
+      .text(`${formatDate(report.from)} to ${formatDate(report.to)} · generated ${report.generatedAt.toLocaleString()}`);
+    doc.moveDown(0.5).fillColor("#000000")
+      .text(report.summary.map(item => `${item.label}: ${item.value ?? "—"}`).join("    "));
+    doc.moveDown();
+
+    // Columns get the width of their widest text; when that is too wide for the page, the widest columns are
+    // narrowed to a common cap so short columns are never cut
+    const tableWidth = doc.page.width - 2 * PDF_MARGIN;
+    doc.fontSize(PDF_FONT_SIZE);
+    const natural = report.columns.map((column, j) => Math.max(
+      doc.font("Helvetica-Bold").widthOfString(column),
+      ...report.rows.slice(0, PDF_SAMPLE_ROWS).map(row => doc.font("Helvetica").widthOfString(String(row[j] ?? "")))
+    ) + 8);
+    const widthUnder = (cap: number) => natural.reduce((sum, width) => sum + Math.min(width, cap), 0);
+    let cap = Math.max(...natural);
+    if (widthUnder(cap) > tableWidth) {
+      let low = 0;
+      for (let i = 0; i < 30; i++) {
+        const mid = (low + cap) / 2;
+        if (widthUnder(mid) > tableWidth) cap = mid; else low = mid;
+      }
+      cap = low;
+    }
+    const capped = natural.map(width => Math.min(width, cap));
+    // Any spare width is shared out in proportion
+    const widths = capped.map(width => width * tableWidth / capped.reduce((sum, w) => sum + w, 0));
+    const fit = (text: string, width: number) => {
+      if (doc.widthOfString(text) <= width) return text;
+      let cut = text;
+      while (cut && doc.widthOfString(`${cut}…`) > width) cut = cut.slice(0, -1);
+      return `${cut}…`;
+    };
+
+    const drawRow = (cells: ReportCell[], bold: boolean) => {
+      if (doc.y + PDF_ROW_HEIGHT > doc.page.height - PDF_MARGIN) {
+        doc.addPage();
+        drawRow(report.columns, true);
+      }
+      const y = doc.y;
+      let x = PDF_MARGIN;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(PDF_FONT_SIZE);
+      cells.forEach((cell, j) => {
+        doc.text(fit(String(cell ?? ""), widths[j] - 4), x + 2, y + 3, { lineBreak: false });
+        x += widths[j];
+      });
+      doc.moveTo(PDF_MARGIN, y + PDF_ROW_HEIGHT).lineTo(PDF_MARGIN + tableWidth, y + PDF_ROW_HEIGHT)
+        .lineWidth(bold ? 0.8 : 0.3).strokeColor(bold ? "#000000" : "#cccccc").stroke();
+      doc.x = PDF_MARGIN;
+      doc.y = y + PDF_ROW_HEIGHT;
+    };
+
+    drawRow(report.columns, true);
+    if (report.rows.length === 0) {
+      doc.moveDown().font("Helvetica").text("Nothing to report for this range.");
+    }
+    report.rows.forEach(row => drawRow(row, false));
+    doc.end();
+  });
+}
+
+function atScheduleHour(year: number, month: number, day: number): Date {
+  return new Date(year, month, day, SCHEDULE_HOUR);
+}
+
+/**
+ * The first run of a schedule after the given moment: Monday or the 1st of the month, at the schedule hour
+ */
+export function nextRunAfter(frequency: ReportFrequency, after: Date): Date {
+  if (frequency === ReportFrequency.MONTHLY) {
+    const thisMonth = atScheduleHour(after.getFullYear(), after.getMonth(), 1);
+    return thisMonth > after ? thisMonth : atScheduleHour(after.getFullYear(), after.getMonth() + 1, 1);
+  }
+  const daysSinceMonday = (after.getDay() + 6) % 7;
+  const thisWeek = atScheduleHour(after.getFullYear(), after.getMonth(), after.getDate() - daysSinceMonday);
+  return thisWeek > after ? thisWeek : atScheduleHour(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() + 7);
+}
+
+/**
+ * The full week or month before a run, so a run on 1 October covers September
+ */
+export function periodBefore(frequency: ReportFrequency, runAt: Date): { from: Date; to: Date } {
+  const end = frequency === ReportFrequency.MONTHLY
+    ? new Date(runAt.getFullYear(), runAt.getMonth(), 1)
+    : new Date(runAt.getFullYear(), runAt.getMonth(), runAt.getDate() - (runAt.getDay() + 6) % 7);
+  const start = frequency === ReportFrequency.MONTHLY
+    ? new Date(end.getFullYear(), end.getMonth() - 1, 1)
+    : new Date(end.getFullYear(), end.getMonth(), end.getDate() - 7);
+  return { from: start, to: new Date(end.getTime() - 1) };
+}
+
+export class ReportService {
+  getDefinitions(): ReportDefinition[] {
+    return REPORT_DEFINITIONS;
+  }
+
+  async build(type: ReportType, from: Date, to: Date, now = new Date()): Promise<Report> {
+    const definition = REPORT_DEFINITIONS.find(item => item.type === type);
+    if (!definition) {
+      throw new ReportError("Report not found", 404);
+    }
+    const [loans, books, requests] = await Promise.all([
+      storage.getAllTransactions(),
+      storage.getAllBooks(),
+      storage.getAllBookRequests()
+    ]);
+    return { ...definition, from, to, generatedAt: now, ...BUILDERS[type]({ loans, books, requests }, from, to, now) };
+  }
+
+  async export(report: Report, format: ReportFormat): Promise<ReportFile> {
+    const basename = `${report.type.toLowerCase().replace(/_/g, "-")}-${formatDate(report.from)}-to-${formatDate(report.to)}`;
+    switch (format) {
+      case ReportFormat.CSV:
+        return { content: Buffer.from(toCsv(report), "utf8"), contentType: "text/csv; charset=utf-8", filename: `${basename}.csv` };
+      case ReportFormat.XLSX:
+        return {
+          content: toXlsx(report),
+          contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          filename: `${basename}.xlsx`
+        };
+      case ReportFormat.PDF:
+        return { content: await toPdf(report), contentType: "application/pdf", filename: `${basename}.pdf` };
+    }
+  }
+
+  // Schedules
+  async listSchedules(): Promise<ReportSchedule[]> {
+    return storage.getReportSchedules();
+  }
+
+  async createSchedule(input: ReportScheduleInput, createdBy: string): Promise<ReportSchedule> {
+    return storage.createReportSchedule({ ...input, nextRunAt: nextRunAfter(input.frequency, new Date()), createdBy });
+  }
+
+  async updateSchedule(id: string, input: ReportScheduleInput): Promise<ReportSchedule> {
+    const schedule = await storage.updateReportSchedule(id, { ...input, nextRunAt: nextRunAfter(input.frequency, new Date()) });
+    if (!schedule) {
+      throw new ReportError("Report schedule not found", 404);
+    }
+    return schedule;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    if (!(await storage.deleteReportSchedule(id))) {
+      throw new ReportError("Report schedule not found", 404);
+    }
+  }
+
+  /**
+   * Email a schedule's report now, outside its regular runs. A schedule with runs due, such as one that
+   * failed, catches up on those; otherwise the most recent full week or month is sent.
+   */
+  async sendNow(id: string, now = new Date()): Promise<ReportSchedule> {
+    const schedule = (await storage.getReportSchedules()).find(item => item.id === id);
+    if (!schedule) {
+      throw new ReportError("Report schedule not found", 404);
+    }
+    const updated = schedule.enabled && new Date(schedule.nextRunAt) <= now
+      ? (await this.catchUp(schedule, now)).schedule
+      : await this.run(schedule, now, schedule.nextRunAt);
+    if (updated.lastError) {
+      throw new ReportError(updated.lastError, 502);
+    }
+    return updated;
+  }
+
+  /**
+   * Send every enabled schedule whose run is due, and move it on to its next run
+   */
+  async runDueSchedules(now = new Date()): Promise<{ sent: number; failed: number }> {
+    const due = (await storage.getReportSchedules()).filter(schedule => schedule.enabled && new Date(schedule.nextRunAt) <= now);
+    let sent = 0;
+    let failed = 0;
+    for (const schedule of due) {
+      const result = await this.catchUp(schedule, now);
+      sent += result.sent;
+      if (result.failed) failed++;
+    }
+    return { sent, failed };
+  }
+
+  /**
+   * Send each of a schedule's due runs in turn, so a week or month missed while the server was down still
+   * goes out. A failed run stays due and is tried again at the next check; later runs wait for it.
+   */
+  private async catchUp(schedule: ReportSchedule, now: Date): Promise<{ schedule: ReportSchedule; sent: number; failed: boolean }> {
+    let sent = 0;
+    while (new Date(schedule.nextRunAt) <= now) {
+      const runAt = new Date(schedule.nextRunAt);
+      const updated = await this.run(schedule, runAt, nextRunAfter(schedule.frequency, runAt)).catch(() => null);
+      if (!updated || updated.lastError) {
+        return { schedule: updated || schedule, sent, failed: true };
+      }
+      sent++;
+      // Deleted while it ran
+      if (new Date(updated.nextRunAt) <= runAt) {
+        return { schedule: updated, sent, failed: false };
+      }
+      schedule = updated;
+    }
+    return { schedule, sent, failed: false };
+  }
+
+  /**
+   * Send the report for the period before `runAt`. The schedule moves on to `nextRunAt` if it went out, and
+   * keeps its current run otherwise.
+   */
+  private async run(schedule: ReportSchedule, runAt: Date, nextRunAt: Date): Promise<ReportSchedule> {
+    let lastError: string | null = null;
+    try {
+      const { from, to } = periodBefore(schedule.frequency, runAt);
+      const report = await this.build(schedule.reportType, from, to);
+      const file = await this.export(report, schedule.format);
+      const sent = await emailService.sendEmail({
+        to: schedule.recipients,
+        subject: `${schedule.name}: ${report.title}, ${formatDate(from)} to ${formatDate(to)}`,
+        text: [
+          `${report.title} for ${formatDate(from)} to ${formatDate(to)} is attached.`,
+          "",
+          ...report.summary.map(item => `${item.label}: ${item.value ?? "—"}`),
+          "",
+          "Library Management System"
+        ].join("\n"),
+        attachments: [file]
+      });
+      if (!sent) {
+        lastError = "The email could not be sent; check the mail configuration";
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const updated = await storage.updateReportSchedule(schedule.id, {
+      lastRunAt: new Date(),
+      lastError,
+      nextRunAt: lastError ? schedule.nextRunAt : nextRunAt
+    });
+    if (lastError) {
+      console.error(`Report schedule "${schedule.name}" failed:`, lastError);
+    }
+    return updated || schedule;
+  }
+}
+
+export const reportService = new ReportService();
@@ -1,20 +1,37 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth, hashPassword } from "./auth";
-import { storage } from "./storage";
+import { storage, circulationPolicy, academicCalendar, BookInUseError } from "./storage";
 import { PushNotificationService } from "./push-service";
-import { insertBookSchema, insertTransactionSchema, insertBookRequestSchema, insertNotificationSchema, insertPushSubscriptionSchema, insertExtensionRequestSchema, updateProfileSchema, TransactionStatus, BookRequestStatus, NotificationType, ExtensionRequestStatus, forgotPasswordSchema, verifyOtpSchema, resetPasswordSchema } from "@shared/schema";
+import { insertBookSchema, insertTransactionSchema, insertBookRequestSchema, insertNotificationSchema, insertPushSubscriptionSchema, insertExtensionRequestSchema, updateProfileSchema, TransactionStatus, BookRequestStatus, NotificationType, ExtensionRequestStatus, forgotPasswordSchema, verifyOtpSchema, resetPasswordSchema, insertItemSchema, updateItemSchema, ItemStatus, type Transaction, fineSettingsSchema, recordPaymentSchema, waiveChargeSchema, createChargeSchema, circulationPolicySchema, deskScanSchema, deskUndoSchema, auditLogFilterSchema, AuditEntityType, bookListQuerySchema, transactionListQuerySchema, bookRequestListQuerySchema, userListQuerySchema, notificationListQuerySchema, catalogSearchQuerySchema, aiQuotaSchema, aiUsageQuerySchema, chatSessionListQuerySchema, renameChatSessionSchema, editAIContentVersionSchema, reviewAIContentVersionSchema, createAIContentJobSchema, submitQuizAttemptSchema, quizReviewAnswerSchema, demandForecastQuerySchema, calendarEventSchema, calendarEventQuerySchema, importCalendarSchema, ReportType, reportQuerySchema, reportScheduleSchema, catalogExportQuerySchema } from "@shared/schema";
 import { z } from "zod";
 // import { prisma } from "./db"; // Removed - using MemStorage instead
 import multer from "multer";
-import * as XLSX from "xlsx";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { LibraryAIService } from "./ai-service";
 import { AIContentService } from "./ai-content-service";
 import { AIAnalyticsService } from "./ai-analytics-service";
 import { AIPredictiveService } from "./ai-predictive-service";
 import { emailService } from "./email-service";
 import { otpService } from "./otp-service";
+import { jobScheduler } from "./job-scheduler";
+import { fineService, FineError } from "./fine-service";
+import { holdService, HoldError } from "./hold-service";
+import { PolicyViolationError, DEFAULT_CIRCULATION_POLICY } from "./circulation-policy";
+import { renewalService, RenewalError } from "./renewal-service";
+import { circulationService, CirculationError } from "./circulation-service";
+import { auditService, audited } from "./audit-service";
+import { catalogSearch } from "./catalog-search";
+import { semanticSearch } from "./embedding-service";
+import { chatRetrieval } from "./chat-retrieval";
+import { ChatToolError } from "./chat-tools";
+import { chatSessions, ChatSessionError } from "./chat-session-service";
+import { contentReview, ContentReviewError } from "./content-review-service";
+import { contentJobs, ContentJobError } from "./content-job-queue";
+import { quizService, QuizError } from "./quiz-service";
+import { CalendarError } from "./academic-calendar";
+import { reportService, ReportError } from "./report-service";
+import { catalogTransfer, CatalogImportError } from "./catalog-transfer";
+import { aiUsageService, aiMetered } from "./ai-usage-service";
 import crypto from 'crypto';
 
 function requireAuth(req: any, res: any, next: any) {
@@ -36,6 +53,15 @@ function requireRole(roles: string[]) {
   };
 }
 
+// List endpoints return a page when the client asks for one, and the full list otherwise
+function isPageRequest(req: any): boolean {
+  return req.query.page !== undefined || req.query.pageSize !== undefined;
+}
+
+function sendInvalidQuery(res: any, error: z.ZodError) {
+  return res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
@@ -82,8 +108,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Configure multer for academic calendar imports (iCal files)
+  const calendarUpload = multer({
+    storage: multer.memoryStorage(),
+    fileFilter: (req, file, cb) => {
+      if (file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics')) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only iCal files (.ics) are allowed'));
+      }
+    },
+    limits: {
+      fileSize: 2 * 1024 * 1024 // 2MB limit
+    }
+  });
+
   // Forgot Password routes (no authentication required)
-  app.post("/api/auth/forgot-password", async (req, res) => {
+  app.post("/api/auth/forgot-password", audited("PASSWORD_RESET_REQUESTED", AuditEntityType.AUTH, { actor: (req) => ({ username: req.body?.email }) }), async (req, res) => {
     try {
       const { email } = forgotPasswordSchema.parse(req.body);
       const normalizedEmail = email.toLowerCase().trim();
@@ -147,7 +188,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/verify-otp", async (req, res) => {
+  app.post("/api/auth/verify-otp", audited("PASSWORD_RESET_OTP_VERIFIED", AuditEntityType.AUTH, { recordFailures: true, actor: (req) => ({ username: req.body?.email }) }), async (req, res) => {
     try {
       const { email, otp } = verifyOtpSchema.parse(req.body);
 
@@ -181,7 +222,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/reset-password", async (req, res) => {
+  app.post("/api/auth/reset-password", audited("PASSWORD_RESET", AuditEntityType.AUTH), async (req, res) => {
     try {
       const { resetToken, newPassword } = resetPasswordSchema.parse(req.body);
 
@@ -234,9 +275,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Book routes
   app.get("/api/books", requireAuth, async (req, res) => {
     try {
+      if (isPageRequest(req)) {
+        return res.json(await storage.listBooks(bookListQuerySchema.parse(req.query)));
+      }
       const books = await storage.getAllBooks();
       res.json(books);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
       res.status(500).json({ message: "Failed to fetch books" });
     }
   });
@@ -250,10 +297,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/books", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_CREATED", AuditEntityType.BOOK), async (req, res) => {
     try {
       const bookData = insertBookSchema.parse(req.body);
       const book = await storage.createBook(bookData);
+      catalogSearch.indexBook(book);
+      semanticSearch.refreshBooks([book]);
       res.status(201).json(book);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -263,13 +312,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/books/:id", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.put("/api/books/:id", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_UPDATED", AuditEntityType.BOOK, { before: (req) => storage.getBook(req.params.id) }), async (req, res) => {
     try {
       const bookData = insertBookSchema.partial().parse(req.body);
       const book = await storage.updateBook(req.params.id, bookData);
       if (!book) {
         return res.status(404).json({ message: "Book not found" });
       }
+      catalogSearch.indexBook(book);
+      semanticSearch.refreshBooks([book]);
       res.json(book);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -279,87 +330,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/books/:id", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.delete("/api/books/:id", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_DELETED", AuditEntityType.BOOK, { before: (req) => storage.getBook(req.params.id) }), async (req, res) => {
     try {
       const deleted = await storage.deleteBook(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Book not found" });
       }
+      catalogSearch.removeBook(req.params.id);
+      semanticSearch.removeBook(req.params.id);
+      chatRetrieval.removeBook(req.params.id);
       res.status(204).send();
     } catch (error) {
+      if (error instanceof BookInUseError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete book" });
     }
   });
 
-  // Bulk upload books from Excel
-  app.post("/api/books/bulk-upload", requireRole(["LIBRARIAN", "ADMIN"]), upload.single('file'), async (req, res) => {
+  // Item (copy) routes
+  app.get("/api/books/:id/items", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const book = await storage.getBook(req.params.id);
+      if (!book) {
+        return res.status(404).json({ message: "Book not found" });
       }
 
-      const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet);
-
-      if (jsonData.length === 0) {
-        return res.status(400).json({ message: "Excel file is empty" });
-      }
-
-      const books = [];
-      const errors = [];
-
-      for (let i = 0; i < jsonData.length; i++) {
-        const row: any = jsonData[i];
-        try {
-          // Map Excel columns to book schema (flexible column naming)
-          const bookData = {
-            title: row.Title || row.title || row.TITLE || row['Book Title'] || '',
-            author: row.Author || row.author || row.AUTHOR || '',
-            isbn: row.ISBN || row.isbn || row.Isbn || row['ISBN Number'] || '',
-            category: row.Category || row.category || row.CATEGORY || '',
-            description: row.Description || row.description || row.DESCRIPTION || '',
-            publisher: row.Publisher || row.publisher || row.PUBLISHER || '',
-            totalCopies: parseInt(row['Total Copies'] || row.TotalCopies || row.totalCopies || row.Copies || row.copies || '1')
-          };
-
-          // Validate using schema
-          const validatedBook = insertBookSchema.parse(bookData);
-          books.push(validatedBook);
-        } catch (error) {
-          errors.push(`Row ${i + 1}: ${error instanceof z.ZodError ? error.errors.map(e => e.message).join(', ') : 'Invalid data'}`);
-        }
+      const items = await storage.getItemsByBook(book.id);
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch copies" });
+    }
+  });
+
+  app.post("/api/books/:id/items", requireRole(["LIBRARIAN", "ADMIN"]), audited("ITEM_CREATED", AuditEntityType.ITEM), async (req, res) => {
+    try {
+      const book = await storage.getBook(req.params.id);
+      if (!book) {
+        return res.status(404).json({ message: "Book not found" });
       }
 
-      if (errors.length > 0 && books.length === 0) {
-        return res.status(400).json({ 
-          message: "No valid books found in Excel file", 
-          errors: errors.slice(0, 10) // Limit to first 10 errors
-        });
+      const itemData = insertItemSchema.parse({ ...req.body, bookId: book.id, status: undefined });
+      if (itemData.barcode && await storage.getItemByBarcode(itemData.barcode)) {
+        return res.status(409).json({ message: "Barcode is already in use" });
       }
 
-      // Bulk create books
-      const createdBooks = [];
-      const createErrors = [];
+      const item = await storage.createItem(itemData);
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid copy data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add copy" });
+    }
+  });
 
-      for (const book of books) {
-        try {
-          const createdBook = await storage.createBook(book);
-          createdBooks.push(createdBook);
-        } catch (error) {
-          createErrors.push(`Failed to create book "${book.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+  app.get("/api/items/barcode/:barcode", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const item = await storage.getItemByBarcode(req.params.barcode);
+      if (!item) {
+        return res.status(404).json({ message: "No copy found with that barcode" });
       }
 
-      res.json({
-        message: `Successfully imported ${createdBooks.length} books`,
-        imported: createdBooks.length,
-        errors: errors.concat(createErrors),
-        books: createdBooks
-      });
+      const book = await storage.getBook(item.bookId);
+      res.json({ ...item, book });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to look up barcode" });
+    }
+  });
+
+  app.put("/api/items/:id", requireRole(["LIBRARIAN", "ADMIN"]), audited("ITEM_UPDATED", AuditEntityType.ITEM, { before: (req) => storage.getItem(req.params.id) }), async (req, res) => {
+    try {
+      const updates = updateItemSchema.parse(req.body);
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Copy not found" });
+      }
+
+      // Copies in circulation change status through check-in and check-out only
+      if (updates.status && (item.status === ItemStatus.ON_LOAN || item.status === ItemStatus.ON_HOLD)) {
+        return res.status(409).json({ message: "Return or release this copy before changing its status" });
+      }
+      if (updates.barcode && updates.barcode !== item.barcode && await storage.getItemByBarcode(updates.barcode)) {
+        return res.status(409).json({ message: "Barcode is already in use" });
+      }
+
+      const updatedItem = await storage.updateItem(item.id, updates);
+      res.json(updatedItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid copy data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update copy" });
+    }
+  });
+
+  // The whole catalog as a spreadsheet with the columns the bulk upload reads
+  app.get("/api/books/export", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const { format } = catalogExportQuerySchema.parse(req.query);
+      const file = await catalogTransfer.export(format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      res.status(500).json({ message: "Failed to export catalog" });
+    }
+  });
 
+  // Dry run of a bulk upload: which rows would create, update or leave books unchanged, and which are invalid
+  app.post("/api/books/bulk-upload/preview", requireRole(["LIBRARIAN", "ADMIN"]), upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      res.json(await catalogTransfer.preview(req.file.buffer));
+    } catch (error) {
+      if (error instanceof CatalogImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Excel preview error:', error);
+      res.status(500).json({ message: "Failed to process Excel file" });
+    }
+  });
+
+  // Bulk upload books from Excel or CSV, updating the books matched by ID or ISBN and creating the rest
+  app.post("/api/books/bulk-upload", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOKS_BULK_UPLOADED", AuditEntityType.BOOK), upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const result = await catalogTransfer.import(req.file.buffer);
+      result.books.forEach(book => catalogSearch.indexBook(book));
+      semanticSearch.refreshBooks(result.books);
+      res.json(result);
     } catch (error) {
+      if (error instanceof CatalogImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Excel upload error:', error);
       res.status(500).json({ 
         message: "Failed to process Excel file",
@@ -368,159 +480,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI-powered intelligent search endpoint with fallback to regular search
-  app.get("/api/books/search/intelligent", requireAuth, async (req, res) => {
+  // Ranked catalog search over every book, checked out or not, with facet counts and highlights
+  app.get("/api/books/search", requireAuth, async (req, res) => {
     try {
-      const { query } = req.query as { query?: string };
-      
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        return res.status(400).json({ message: "Search query is required" });
+      const query = catalogSearchQuerySchema.parse(req.query);
+      res.json(await catalogSearch.search(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
       }
+      console.error('Catalog search error:', error);
+      res.status(500).json({ message: "Search functionality is temporarily unavailable" });
+    }
+  });
 
-      // Get all available books
-      const books = await storage.getAvailableBooks();
-      
-      if (books.length === 0) {
-        return res.json([]);
-      }
+  // Semantic search over cached book embeddings blended with keyword relevance, falling back to keywords only
+  app.get("/api/books/search/intelligent", requireAuth, async (req, res) => {
+    const { query } = req.query as { query?: string };
+
+    if (!query || typeof query !== 'string' || query.trim().length === 0) {
+      return res.status(400).json({ message: "Search query is required" });
+    }
 
-      // For now, use enhanced fallback search as the main AI search is too slow
-      // TODO: Implement proper caching or batch processing for Gemini embeddings
-      console.log(`Using enhanced search for query: "${query.trim()}" (AI embeddings too slow)`);
-      return performEnhancedFallbackSearch(books, query.trim(), res);
+    try {
+      res.json(await semanticSearch.search(query.trim(), 20));
     } catch (error) {
-      console.error('Intelligent search error:', error);
-      // Fallback to regular search instead of returning error
+      console.error('Semantic search error, falling back to keyword search:', error);
       try {
-        const books = await storage.getAvailableBooks();
-        return performFallbackSearch(books, (req.query.query as string)?.trim() || '', res);
+        const result = await catalogSearch.search({ q: query.trim(), page: 1, pageSize: 20 });
+        res.json(result.items.map(hit => hit.book));
       } catch (fallbackError) {
-        console.error('Fallback search also failed:', fallbackError);
+        console.error('Keyword search also failed:', fallbackError);
         res.status(500).json({ message: "Search functionality is temporarily unavailable" });
       }
     }
   });
 
-  // Enhanced fallback search function with intelligent keyword matching and scoring
-  function performEnhancedFallbackSearch(books: any[], query: string, res: any) {
-    const searchTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-    
-    // Create semantic synonyms for common terms
-    const synonyms: { [key: string]: string[] } = {
-      'science': ['physics', 'chemistry', 'biology', 'scientific', 'research'],
-      'mystery': ['detective', 'crime', 'thriller', 'suspense'],
-      'history': ['historical', 'past', 'ancient', 'medieval'],
-      'technology': ['tech', 'computer', 'programming', 'software'],
-      'fiction': ['novel', 'story', 'narrative'],
-      'romance': ['love', 'romantic'],
-      'adventure': ['action', 'journey', 'expedition'],
-      'fantasy': ['magic', 'magical', 'dragons', 'wizards'],
-      'biography': ['life', 'memoir', 'autobiography'],
-      'business': ['management', 'entrepreneur', 'corporate', 'finance']
-    };
-
-    const results = books.filter(book => {
-      const searchableText = `${book.title} ${book.author} ${book.category} ${book.description || ''} ${book.publisher || ''}`.toLowerCase();
-      
-      // Check for direct matches
-      const directMatch = searchTerms.some(term => searchableText.includes(term));
-      
-      // Check for synonym matches
-      const synonymMatch = searchTerms.some(term => {
-        const termSynonyms = synonyms[term] || [];
-        return termSynonyms.some(synonym => searchableText.includes(synonym));
-      });
-      
-      return directMatch || synonymMatch;
-    });
-
-    // Advanced scoring system
-    const sortedResults = results.map(book => {
-      const searchableText = `${book.title} ${book.author} ${book.category} ${book.description || ''} ${book.publisher || ''}`.toLowerCase();
-      let score = 0;
-      
-      searchTerms.forEach(term => {
-        // Title match (highest weight)
-        if (book.title.toLowerCase().includes(term)) score += 10;
-        
-        // Author match (high weight)
-        if (book.author.toLowerCase().includes(term)) score += 8;
-        
-        // Category exact match (high weight)
-        if (book.category.toLowerCase() === term) score += 7;
-        if (book.category.toLowerCase().includes(term)) score += 5;
-        
-        // Description match (medium weight)
-        if (book.description && book.description.toLowerCase().includes(term)) score += 3;
-        
-        // Publisher match (low weight)
-        if (book.publisher && book.publisher.toLowerCase().includes(term)) score += 1;
-        
-        // Synonym matches (medium weight)
-        const termSynonyms = synonyms[term] || [];
-        termSynonyms.forEach(synonym => {
-          if (searchableText.includes(synonym)) score += 4;
-        });
-        
-        // Partial word matches (lower weight)
-        if (searchableText.includes(term.substring(0, Math.max(3, term.length - 2)))) score += 2;
-      });
-      
-      return { book, score };
-    })
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 20)
-    .map(item => item.book);
-
-    console.log(`Enhanced search found ${sortedResults.length} results for "${query}"`);
-    res.json(sortedResults);
-  }
-
-  // Fallback search function that performs regular text-based search
-  function performFallbackSearch(books: any[], query: string, res: any) {
-    const searchTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-    
-    const results = books.filter(book => {
-      const searchableText = `${book.title} ${book.author} ${book.category} ${book.description || ''} ${book.publisher || ''}`.toLowerCase();
-      
-      // Return books that contain any of the search terms
-      return searchTerms.some(term => searchableText.includes(term));
-    });
-
-    // Sort results by relevance (number of matching terms)
-    const sortedResults = results.map(book => {
-      const searchableText = `${book.title} ${book.author} ${book.category} ${book.description || ''} ${book.publisher || ''}`.toLowerCase();
-      const matchCount = searchTerms.reduce((count, term) => {
-        return count + (searchableText.includes(term) ? 1 : 0);
-      }, 0);
-      return { book, matchCount };
-    })
-    .sort((a, b) => b.matchCount - a.matchCount)
-    .slice(0, 20)
-    .map(item => item.book);
-
-    res.json(sortedResults);
-  }
-
-  // Utility function to calculate cosine similarity between two vectors
-  function calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
-    const dotProduct = vecA.reduce((sum, a, idx) => sum + a * vecB[idx], 0);
-    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-    
-    if (magnitudeA === 0 || magnitudeB === 0) {
-      return 0;
-    }
-    
-    return dotProduct / (magnitudeA * magnitudeB);
-  }
-
   // Transaction routes
   app.get("/api/transactions", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
     try {
+      if (isPageRequest(req)) {
+        return res.json(await storage.listTransactions(transactionListQuerySchema.parse(req.query)));
+      }
       const transactions = await storage.getAllTransactions();
       res.json(transactions);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
@@ -557,8 +564,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Self-service renewal: renews immediately when allowed, otherwise files an extension request (202)
+  app.post("/api/transactions/:id/renew", requireRole(["STUDENT"]), audited("LOAN_RENEWED", AuditEntityType.TRANSACTION, { entityId: (req) => req.params.id, before: (req) => storage.getTransaction(req.params.id) }), async (req, res) => {
+    try {
+      const result = await renewalService.renew(req.user!.id, req.params.id);
+      res.status(result.renewed ? 200 : 202).json(result);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof RenewalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to renew loan" });
+    }
+  });
+
   // Book Request routes (for students)
-  app.post("/api/book-requests", requireAuth, async (req, res) => {
+  app.post("/api/book-requests", requireAuth, audited("BOOK_REQUEST_CREATED", AuditEntityType.BOOK_REQUEST), async (req, res) => {
     try {
       const { bookId, notes } = req.body;
       
@@ -603,9 +626,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/book-requests", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
     try {
+      if (isPageRequest(req)) {
+        return res.json(await storage.listBookRequests(bookRequestListQuerySchema.parse(req.query)));
+      }
       const requests = await storage.getAllBookRequests();
       res.json(requests);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
       res.status(500).json({ message: "Failed to fetch book requests" });
     }
   });
@@ -619,12 +648,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/book-requests/:id/approve", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/book-requests/:id/approve", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_REQUEST_APPROVED", AuditEntityType.BOOK_REQUEST, { entityId: (req) => req.params.id, before: (req) => storage.getBookRequest(req.params.id) }), async (req, res) => {
     try {
       const { dueDate } = req.body;
       const customDueDate = dueDate ? new Date(dueDate) : undefined;
+
+      const request = (await storage.getPendingBookRequests()).find(r => r.id === req.params.id);
+      if (request) {
+        // Rejects with a policy code for outstanding fines or a reached loan limit, before a loan or hold is made
+        await circulationPolicy.assertCanBorrow(request.userId, request.bookId);
+
+        // No copy to hand out - queue the student instead of failing the approval
+        if (request.book.availableCopies <= 0) {
+          const hold = await holdService.placeHold(request.userId, request.bookId, request.id);
+          await storage.updateBookRequestStatus(request.id, BookRequestStatus.APPROVED, req.user!.username);
+          return res.status(202).json({
+            message: `No copies are available. The student was added to the hold queue at position ${hold.queuePosition}.`,
+            hold
+          });
+        }
+      }
       
-      const transaction = await storage.approveBookRequest(req.params.id, req.user!.id, customDueDate);
+      const transaction = await storage.approveBookRequest(req.params.id, req.user!.username, customDueDate);
       
       if (!transaction) {
         return res.status(404).json({ message: "Request not found or cannot be approved" });
@@ -632,13 +677,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(transaction);
     } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof HoldError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to approve book request" });
     }
   });
 
-  app.post("/api/book-requests/:id/reject", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/book-requests/:id/reject", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_REQUEST_REJECTED", AuditEntityType.BOOK_REQUEST, { entityId: (req) => req.params.id, before: (req) => storage.getBookRequest(req.params.id) }), async (req, res) => {
     try {
-      const request = await storage.rejectBookRequest(req.params.id);
+      const request = await storage.rejectBookRequest(req.params.id, req.user!.username);
       
       if (!request) {
         return res.status(404).json({ message: "Request not found" });
@@ -652,7 +703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Extension Request routes
   // Create a new extension request (students only)
-  app.post("/api/extension-requests", requireAuth, async (req, res) => {
+  app.post("/api/extension-requests", requireAuth, audited("EXTENSION_REQUEST_CREATED", AuditEntityType.EXTENSION_REQUEST), async (req, res) => {
     try {
       if (req.user!.role !== "STUDENT") {
         return res.status(403).json({ message: "Only students can create extension requests" });
@@ -665,12 +716,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requestedDueDate: new Date(req.body.requestedDueDate)
       });
 
+      // Tell the student up front when the loan cannot be renewed again
+      const loan = (await storage.getUserTransactions(req.user!.id)).find(t => t.id === data.transactionId);
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      await circulationPolicy.assertCanRenew(loan);
+
       const extensionRequest = await storage.createExtensionRequest(data);
       res.status(201).json(extensionRequest);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid extension request data", errors: error.errors });
       }
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to create extension request" });
     }
   });
@@ -706,7 +767,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Approve an extension request (librarians/admins)
-  app.post("/api/extension-requests/:id/approve", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/extension-requests/:id/approve", requireRole(["LIBRARIAN", "ADMIN"]), audited("EXTENSION_REQUEST_APPROVED", AuditEntityType.EXTENSION_REQUEST, { entityId: (req) => req.params.id, before: (req) => storage.getExtensionRequest(req.params.id) }), async (req, res) => {
     try {
       const { dueDate } = req.body;
       if (!dueDate) {
@@ -719,12 +780,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       res.json(request);
     } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to approve extension request" });
     }
   });
 
   // Reject an extension request (librarians/admins)
-  app.post("/api/extension-requests/:id/reject", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/extension-requests/:id/reject", requireRole(["LIBRARIAN", "ADMIN"]), audited("EXTENSION_REQUEST_REJECTED", AuditEntityType.EXTENSION_REQUEST, { entityId: (req) => req.params.id, before: (req) => storage.getExtensionRequest(req.params.id) }), async (req, res) => {
     try {
       const request = await storage.rejectExtensionRequest(req.params.id, req.user!.username);
       if (!request) {
@@ -736,7 +800,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/transactions/:id/return", requireAuth, async (req, res) => {
+  // Check a loan back in: close the transaction, route the copy to the hold shelf or open shelf, and assess late fines
+  app.post("/api/transactions/:id/return", requireAuth, audited("BOOK_RETURNED", AuditEntityType.TRANSACTION, { entityId: (req) => req.params.id, before: (req) => storage.getTransaction(req.params.id) }), async (req, res) => {
     try {
       // Get transaction through storage interface
       const allTransactions = await storage.getAllTransactions();
@@ -751,25 +816,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied. Only librarians and administrators can process book returns." });
       }
 
-      const updatedTransaction = await storage.updateTransactionStatus(
-        req.params.id,
-        TransactionStatus.RETURNED,
-        new Date()
-      );
+      if (transaction.status === TransactionStatus.RETURNED) {
+        return res.status(400).json({ message: "This book has already been returned" });
+      }
+
+      const checkedIn = await circulationService.checkIn(transaction);
+      res.json(checkedIn?.transaction ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to return book" });
+    }
+  });
+
+  // Return by scanning the copy's barcode
+  app.post("/api/transactions/return", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_RETURNED", AuditEntityType.TRANSACTION), async (req, res) => {
+    try {
+      const { barcode } = req.body;
+      if (!barcode) {
+        return res.status(400).json({ message: "Barcode is required" });
+      }
+
+      const item = await storage.getItemByBarcode(String(barcode).trim());
+      if (!item) {
+        return res.status(404).json({ message: "No copy found with that barcode" });
+      }
 
-      if (updatedTransaction) {
-        // Update book availability
-        await storage.updateBookAvailability(transaction.bookId, 1);
+      const activeTransactions = await storage.getActiveTransactions();
+      const transaction = activeTransactions.find(t => t.itemId === item.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "This copy is not on loan" });
       }
 
-      res.json(updatedTransaction);
+      const checkedIn = await circulationService.checkIn(transaction);
+      res.json(checkedIn?.transaction ?? null);
     } catch (error) {
       res.status(500).json({ message: "Failed to return book" });
     }
   });
 
+  // Circulation desk routes
+  app.post("/api/desk/scan", requireRole(["LIBRARIAN", "ADMIN"]), audited("DESK_SCAN", AuditEntityType.TRANSACTION), async (req, res) => {
+    try {
+      const { code, patronId } = deskScanSchema.parse(req.body);
+      const result = await circulationService.scan(code, patronId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid scan", errors: error.errors });
+      }
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof CirculationError || error instanceof HoldError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to process scan" });
+    }
+  });
+
+  app.get("/api/desk/patrons/:id", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const patron = await circulationService.getPatron(req.params.id);
+      if (!patron) {
+        return res.status(404).json({ message: "Patron not found" });
+      }
+      res.json(patron);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch patron" });
+    }
+  });
+
+  app.post("/api/desk/undo", requireRole(["LIBRARIAN", "ADMIN"]), audited("DESK_UNDO", AuditEntityType.TRANSACTION, { entityId: (req) => req.body?.transactionId, before: (req) => storage.getTransaction(req.body?.transactionId) }), async (req, res) => {
+    try {
+      const { action, transactionId } = deskUndoSchema.parse(req.body);
+      const result = await circulationService.undo(action, transactionId, req.user!.username);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid undo request", errors: error.errors });
+      }
+      if (error instanceof CirculationError || error instanceof FineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to undo" });
+    }
+  });
+
   // Profile routes
-  app.put("/api/profile", requireAuth, async (req, res) => {
+  app.put("/api/profile", requireAuth, audited("PROFILE_UPDATED", AuditEntityType.USER, { entityId: (req) => req.user.id, before: (req) => storage.getUser(req.user.id) }), async (req, res) => {
     try {
       const profileData = updateProfileSchema.parse(req.body);
       const user = await storage.updateProfile(req.user!.id, profileData);
@@ -787,7 +920,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/profile/picture", requireAuth, profileUpload.single('picture'), async (req, res) => {
+  app.post("/api/profile/picture", requireAuth, audited("PROFILE_PICTURE_UPDATED", AuditEntityType.USER, { entityId: (req) => req.user.id }), profileUpload.single('picture'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file uploaded" });
@@ -812,9 +945,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User management routes (admin only)
   app.get("/api/users", requireRole(["ADMIN"]), async (req, res) => {
     try {
+      if (isPageRequest(req)) {
+        const [page, activeLoans] = await Promise.all([
+          storage.listUsers(userListQuerySchema.parse(req.query)),
+          storage.getActiveTransactions()
+        ]);
+        return res.json({
+          ...page,
+          items: page.items.map(({ password, ...user }) => ({
+            ...user,
+            activeLoans: activeLoans.filter(t => t.userId === user.id).length
+          }))
+        });
+      }
       const users = await storage.getAllUsers();
       res.json(users);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
@@ -830,14 +979,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Direct borrow transaction (librarian creates borrow for student)
-  app.post("/api/transactions/borrow", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/transactions/borrow", requireRole(["LIBRARIAN", "ADMIN"]), audited("BOOK_BORROWED", AuditEntityType.TRANSACTION), async (req, res) => {
     try {
+      // A scanned barcode identifies both the book and the exact copy
+      let copy: { bookId: string; itemId: string } | undefined;
+      if (req.body.barcode) {
+        const item = await storage.getItemByBarcode(String(req.body.barcode).trim());
+        if (!item) {
+          return res.status(404).json({ message: "No copy found with that barcode" });
+        }
+        if (item.status !== ItemStatus.AVAILABLE) {
+          return res.status(409).json({ message: `This copy is not available (status: ${item.status})` });
+        }
+        copy = { bookId: item.bookId, itemId: item.id };
+      }
+
       const transactionData = insertTransactionSchema.parse({
         ...req.body,
+        ...copy,
         dueDate: new Date(req.body.dueDate)
       });
-      
-      const transaction = await storage.createTransaction(transactionData);
+
+      // Policy rejections (fines, loan limits) carry a code; other failures mean no copy could be checked out
+      const transaction = await storage.createTransaction(transactionData).catch((error) => {
+        if (error instanceof PolicyViolationError) throw error;
+        return null;
+      });
       if (!transaction) {
         return res.status(400).json({ message: "Failed to create transaction - book may not be available" });
       }
@@ -847,11 +1014,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
       }
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to create borrow transaction" });
     }
   });
 
-  app.put("/api/users/:id/role", requireRole(["ADMIN"]), async (req, res) => {
+  app.put("/api/users/:id/role", requireRole(["ADMIN"]), audited("USER_ROLE_CHANGED", AuditEntityType.USER, { before: (req) => storage.getUser(req.params.id) }), async (req, res) => {
     try {
       const { role } = req.body;
       
@@ -870,7 +1040,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", requireRole(["ADMIN"]), async (req, res) => {
+  app.delete("/api/users/:id", requireRole(["ADMIN"]), audited("USER_DELETED", AuditEntityType.USER, { before: (req) => storage.getUser(req.params.id) }), async (req, res) => {
     try {
       const deleted = await storage.deleteUser(req.params.id);
       if (!deleted) {
@@ -885,14 +1055,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Notification routes
   app.get("/api/notifications", requireAuth, async (req, res) => {
     try {
+      if (isPageRequest(req)) {
+        return res.json(await storage.listNotifications(req.user!.id, notificationListQuerySchema.parse(req.query)));
+      }
       const notifications = await storage.getUserNotifications(req.user!.id);
       res.json(notifications);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
       res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.post("/api/notifications", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/notifications", requireRole(["LIBRARIAN", "ADMIN"]), audited("NOTIFICATION_SENT", AuditEntityType.NOTIFICATION), async (req, res) => {
     try {
       const notificationData = insertNotificationSchema.parse(req.body);
       const notification = await storage.createNotification(notificationData);
@@ -913,7 +1089,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/notifications/:id/read", requireAuth, async (req, res) => {
+  app.put("/api/notifications/:id/read", requireAuth, audited("NOTIFICATION_READ", AuditEntityType.NOTIFICATION, { entityId: (req) => req.params.id }), async (req, res) => {
     try {
       const notification = await storage.markNotificationAsRead(req.params.id);
       if (!notification) {
@@ -925,7 +1101,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/notifications/read-all", requireAuth, async (req, res) => {
+  app.put("/api/notifications/read-all", requireAuth, audited("NOTIFICATIONS_READ_ALL", AuditEntityType.NOTIFICATION, { entityId: (req) => req.user.id }), async (req, res) => {
     try {
       const success = await storage.markAllNotificationsAsRead(req.user!.id);
       if (!success) {
@@ -937,7 +1113,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/notifications/clear-all", requireAuth, async (req, res) => {
+  app.delete("/api/notifications/clear-all", requireAuth, audited("NOTIFICATIONS_CLEARED", AuditEntityType.NOTIFICATION, { entityId: (req) => req.user.id }), async (req, res) => {
     try {
       const success = await storage.clearAllNotifications(req.user!.id);
       if (!success) {
@@ -949,20 +1125,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Chat Assistant endpoint for students
-  app.post("/api/ai-chat", requireRole(["STUDENT"]), async (req, res) => {
+  // AI Chat Assistant endpoint for students. Without a sessionId the message starts a new conversation.
+  app.post("/api/ai-chat", requireRole(["STUDENT"]), audited("CHAT_MESSAGE_SENT", AuditEntityType.CHAT, { entityId: (req) => req.user.id }), aiMetered(), async (req, res) => {
     try {
-      const { message } = req.body;
+      const { message, sessionId } = req.body;
       
       if (!message || typeof message !== 'string') {
         return res.status(400).json({ message: "Message is required" });
       }
 
       const user = req.user! as any;
-      const aiResponse = await aiService.processUserQuery(user, message);
+      const aiResponse = await aiService.processUserQuery(user, message, { sessionId: typeof sessionId === 'string' ? sessionId : undefined });
       
       res.json(aiResponse);
     } catch (error) {
+      if (error instanceof ChatSessionError) {
+        return res.status(error.status).json({ message: error.message, response: "That conversation no longer exists. Please start a new one." });
+      }
       console.error('AI Chat Error:', error);
       res.status(500).json({ 
         response: "I'm sorry, I'm experiencing technical difficulties. Please try again later or contact library staff for assistance.",
@@ -971,11 +1150,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clear AI Chat history when user closes chat
-  app.delete("/api/ai-chat/history", requireRole(["STUDENT"]), async (req, res) => {
+  // Same as /api/ai-chat, but the reply is streamed as Server-Sent Events: `session` with the conversation,
+  // `token` events with each piece of text, `tool` when the assistant calls a tool, then `done` with the full
+  // response (or `error`).
+  // Closing the connection stops the model; the partial reply is kept in the chat history.
+  app.post("/api/ai-chat/stream", requireRole(["STUDENT"]), audited("CHAT_MESSAGE_SENT", AuditEntityType.CHAT, { entityId: (req) => req.user.id }), aiMetered(), async (req, res) => {
+    const { message } = req.body;
+    if (!message || typeof message !== 'string') {
+      return res.status(400).json({ message: "Message is required" });
+    }
+    const sessionId = typeof req.body.sessionId === 'string' ? req.body.sessionId : undefined;
+    // Check the conversation before the stream starts, while an error status can still be sent
+    if (sessionId) {
+      try {
+        await chatSessions.get(req.user!.id, sessionId);
+      } catch (error) {
+        if (error instanceof ChatSessionError) {
+          return res.status(error.status).json({ message: error.message, response: "That conversation no longer exists. Please start a new one." });
+        }
+        return res.status(500).json({ message: "Failed to load the conversation" });
+      }
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      // Keep reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const aiResponse = await aiService.processUserQuery(req.user!, message, {
+        sessionId,
+        signal: controller.signal,
+        onText: (text) => send("token", { text }),
+        onTool: (name) => send("tool", { name }),
+        onSession: ({ id, title }) => send("session", { sessionId: id, title })
+      });
+      send("done", aiResponse);
+    } catch (error) {
+      console.error('AI Chat Stream Error:', error);
+      send("error", {
+        message: "AI service temporarily unavailable",
+        response: "I'm sorry, I'm experiencing technical difficulties. Please try again later or contact library staff for assistance."
+      });
+    }
+    res.end();
+  });
+
+  // Account changes proposed by the assistant only happen once the student confirms them
+  app.post("/api/ai-chat/actions/:id/confirm", requireRole(["STUDENT"]), audited("CHAT_ACTION_CONFIRMED", AuditEntityType.CHAT, { entityId: (req) => req.params.id, before: async (req) => aiService.getPendingAction(req.user.id, req.params.id) }), async (req, res) => {
+    try {
+      res.json(await aiService.confirmAction(req.user!, req.params.id));
+    } catch (error) {
+      if (error instanceof ChatToolError || error instanceof PolicyViolationError || error instanceof RenewalError) {
+        return res.status(error.status).json({ message: error.message, response: `I couldn't do that: ${error.message}` });
+      }
+      console.error('Chat action error:', error);
+      res.status(500).json({ message: "Failed to carry out the action", response: "Something went wrong while doing that. Please try again or contact library staff." });
+    }
+  });
+
+  app.post("/api/ai-chat/actions/:id/cancel", requireRole(["STUDENT"]), audited("CHAT_ACTION_CANCELLED", AuditEntityType.CHAT, { entityId: (req) => req.params.id }), async (req, res) => {
+    try {
+      const cancelled = await aiService.cancelAction(req.user!, req.params.id);
+      if (!cancelled) {
+        return res.status(404).json({ message: "This action has expired or was already handled" });
+      }
+      res.json({ message: "Action cancelled" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel the action" });
+    }
+  });
+
+  // A student's conversations; `q` searches titles and messages
+  app.get("/api/ai-chat/sessions", requireRole(["STUDENT"]), async (req, res) => {
+    try {
+      const { q } = chatSessionListQuerySchema.parse(req.query);
+      res.json(await chatSessions.list(req.user!.id, q));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get("/api/ai-chat/sessions/:id", requireRole(["STUDENT"]), async (req, res) => {
+    try {
+      res.json(await chatSessions.get(req.user!.id, req.params.id));
+    } catch (error) {
+      if (error instanceof ChatSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.get("/api/ai-chat/sessions/:id/export", requireRole(["STUDENT"]), async (req, res) => {
+    try {
+      const session = await chatSessions.get(req.user!.id, req.params.id);
+      const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "conversation";
+
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="chat-${slug}.md"`);
+      res.send(chatSessions.toMarkdown(session, req.user!.fullName));
+    } catch (error) {
+      if (error instanceof ChatSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to export conversation" });
+    }
+  });
+
+  app.patch("/api/ai-chat/sessions/:id", requireRole(["STUDENT"]), audited("CHAT_SESSION_RENAMED", AuditEntityType.CHAT, { entityId: (req) => req.params.id, before: async (req) => chatSessions.get(req.user.id, req.params.id).then(({ messages, ...session }) => session).catch(() => null) }), async (req, res) => {
+    try {
+      const { title } = renameChatSessionSchema.parse(req.body);
+      const { messages, ...session } = await chatSessions.rename(req.user!.id, req.params.id, title);
+      res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid title", errors: error.errors });
+      }
+      if (error instanceof ChatSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete("/api/ai-chat/sessions/:id", requireRole(["STUDENT"]), audited("CHAT_SESSION_DELETED", AuditEntityType.CHAT, { entityId: (req) => req.params.id }), async (req, res) => {
+    try {
+      await aiService.deleteConversation(req.user!.id, req.params.id);
+      res.json({ message: "Conversation deleted" });
+    } catch (error) {
+      if (error instanceof ChatSessionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  // Delete all of the student's conversations
+  app.delete("/api/ai-chat/history", requireRole(["STUDENT"]), audited("CHAT_HISTORY_CLEARED", AuditEntityType.CHAT, { entityId: (req) => req.user.id }), async (req, res) => {
     try {
       const user = req.user! as any;
-      aiService.clearChatHistory(user.id);
+      await aiService.clearChatHistory(user.id);
       
       res.json({ message: "Chat history cleared successfully" });
     } catch (error) {
@@ -985,7 +1315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Push Subscription routes
-  app.post("/api/push/subscribe", requireAuth, async (req, res) => {
+  app.post("/api/push/subscribe", requireAuth, audited("PUSH_SUBSCRIBED", AuditEntityType.PUSH_SUBSCRIPTION), async (req, res) => {
     try {
       const subscriptionData = insertPushSubscriptionSchema.parse({
         ...req.body,
@@ -1002,7 +1332,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/push/unsubscribe/:id", requireAuth, async (req, res) => {
+  app.delete("/api/push/unsubscribe/:id", requireAuth, audited("PUSH_UNSUBSCRIBED", AuditEntityType.PUSH_SUBSCRIPTION, { entityId: (req) => req.params.id }), async (req, res) => {
     try {
       const deleted = await storage.deletePushSubscription(req.params.id);
       if (!deleted) {
@@ -1022,7 +1352,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Test push notification endpoint (for admin testing)
-  app.post("/api/push/test", requireRole(["ADMIN"]), async (req, res) => {
+  app.post("/api/push/test", requireRole(["ADMIN"]), audited("PUSH_TEST_SENT", AuditEntityType.PUSH_SUBSCRIPTION), async (req, res) => {
     try {
       const { userId, title, message } = req.body;
       
@@ -1049,10 +1379,458 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Hold queue routes
+  app.get("/api/holds/my", requireAuth, async (req, res) => {
+    try {
+      const holds = await holdService.getUserHolds(req.user!.id);
+      res.json(holds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch your holds" });
+    }
+  });
+
+  app.get("/api/holds", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const holds = await holdService.getActiveHolds();
+      res.json(holds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch holds" });
+    }
+  });
+
+  app.post("/api/holds", requireRole(["STUDENT"]), audited("HOLD_PLACED", AuditEntityType.HOLD), async (req, res) => {
+    try {
+      const { bookId } = req.body;
+      if (!bookId) {
+        return res.status(400).json({ message: "Book ID is required" });
+      }
+
+      const hold = await holdService.placeHold(req.user!.id, bookId);
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof HoldError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to place hold" });
+    }
+  });
+
+  app.post("/api/holds/:id/cancel", requireAuth, audited("HOLD_CANCELLED", AuditEntityType.HOLD, { entityId: (req) => req.params.id, before: (req) => storage.getHold(req.params.id) }), async (req, res) => {
+    try {
+      const isStaff = ["LIBRARIAN", "ADMIN"].includes(req.user!.role);
+      const hold = await holdService.cancelHold(req.params.id, req.user!.id, isStaff);
+      res.json(hold);
+    } catch (error) {
+      if (error instanceof HoldError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel hold" });
+    }
+  });
+
+  app.post("/api/holds/:id/checkout", requireRole(["LIBRARIAN", "ADMIN"]), audited("HOLD_CHECKED_OUT", AuditEntityType.HOLD, { entityId: (req) => req.params.id, before: (req) => storage.getHold(req.params.id) }), async (req, res) => {
+    try {
+      const { dueDate } = req.body;
+      const transaction = await holdService.fulfillHold(req.params.id, dueDate ? new Date(dueDate) : undefined);
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof HoldError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to check out hold" });
+    }
+  });
+
+  // Fines & fees routes
+  app.get("/api/fines/my", requireAuth, async (req, res) => {
+    try {
+      const balance = await fineService.getUserBalance(req.user!.id);
+      res.json(balance);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch your fines" });
+    }
+  });
+
+  app.get("/api/fines/balances", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const balances = await fineService.getOutstandingBalances();
+      const withUsers = await Promise.all(balances.map(async ({ userId, balance }) => {
+        const user = await storage.getUser(userId);
+        return {
+          userId,
+          balance,
+          user: user ? { id: user.id, fullName: user.fullName, username: user.username, studentId: user.studentId } : null
+        };
+      }));
+      res.json(withUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch outstanding balances" });
+    }
+  });
+
+  app.get("/api/fines/users/:userId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const balance = await fineService.getUserBalance(user.id);
+      res.json(balance);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user fines" });
+    }
+  });
+
+  app.post("/api/fines/users/:userId/payments", requireRole(["LIBRARIAN", "ADMIN"]), audited("PAYMENT_RECORDED", AuditEntityType.LEDGER_ENTRY), async (req, res) => {
+    try {
+      const { amount, note } = recordPaymentSchema.parse(req.body);
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const entry = await fineService.recordPayment(user.id, amount, req.user!.username, note);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      if (error instanceof FineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record payment" });
+    }
+  });
+
+  app.post("/api/fines/users/:userId/charges", requireRole(["LIBRARIAN", "ADMIN"]), audited("CHARGE_CREATED", AuditEntityType.LEDGER_ENTRY), async (req, res) => {
+    try {
+      const { category, ...options } = createChargeSchema.parse(req.body);
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const entry = await fineService.createCharge(user.id, category, req.user!.username, options);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid charge data", errors: error.errors });
+      }
+      if (error instanceof FineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create charge" });
+    }
+  });
+
+  app.post("/api/fines/charges/:id/waive", requireRole(["LIBRARIAN", "ADMIN"]), audited("CHARGE_WAIVED", AuditEntityType.LEDGER_ENTRY, { entityId: (req) => req.params.id, before: (req) => storage.getLedgerEntry(req.params.id) }), async (req, res) => {
+    try {
+      const { amount, reason } = waiveChargeSchema.parse(req.body);
+      const entry = await fineService.waiveCharge(req.params.id, req.user!.username, reason, amount);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waiver data", errors: error.errors });
+      }
+      if (error instanceof FineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to waive charge" });
+    }
+  });
+
+  app.get("/api/fines/settings", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const settings = await storage.getFineSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fine settings" });
+    }
+  });
+
+  app.put("/api/fines/settings", requireRole(["ADMIN"]), audited("FINE_SETTINGS_UPDATED", AuditEntityType.FINE_SETTINGS, { before: () => storage.getFineSettings() }), async (req, res) => {
+    try {
+      const updates = fineSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateFineSettings(updates);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fine settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update fine settings" });
+    }
+  });
+
+  // Circulation policy routes
+  app.get("/api/circulation/policies", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const policies = await storage.getCirculationPolicies();
+      res.json({ defaults: DEFAULT_CIRCULATION_POLICY, policies });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch circulation policies" });
+    }
+  });
+
+  // Creates or replaces the policy for a role and category
+  app.put("/api/circulation/policies", requireRole(["ADMIN"]), audited("CIRCULATION_POLICY_SAVED", AuditEntityType.CIRCULATION_POLICY), async (req, res) => {
+    try {
+      const data = circulationPolicySchema.parse(req.body);
+      const policy = await storage.saveCirculationPolicy(data);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid circulation policy", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save circulation policy" });
+    }
+  });
+
+  app.delete("/api/circulation/policies/:id", requireRole(["ADMIN"]), audited("CIRCULATION_POLICY_DELETED", AuditEntityType.CIRCULATION_POLICY, { before: async (req) => (await storage.getCirculationPolicies()).find(policy => policy.id === req.params.id) }), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCirculationPolicy(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      res.json({ message: "Policy deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete circulation policy" });
+    }
+  });
+
+  // Academic calendar routes. Every signed-in user can see closures; only admins edit them
+  app.get("/api/calendar/events", requireAuth, async (req, res) => {
+    try {
+      const { from, to } = calendarEventQuerySchema.parse(req.query);
+      res.json(await academicCalendar.list(from, to));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      res.status(500).json({ message: "Failed to fetch calendar events" });
+    }
+  });
+
+  app.post("/api/calendar/events", requireRole(["ADMIN"]), audited("CALENDAR_EVENT_CREATED", AuditEntityType.CALENDAR), async (req, res) => {
+    try {
+      const data = calendarEventSchema.parse(req.body);
+      const event = await academicCalendar.create(data, req.user!.id);
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calendar event", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create calendar event" });
+    }
+  });
+
+  app.put("/api/calendar/events/:id", requireRole(["ADMIN"]), audited("CALENDAR_EVENT_UPDATED", AuditEntityType.CALENDAR, { before: async (req) => (await storage.getCalendarEvents()).find(event => event.id === req.params.id) }), async (req, res) => {
+    try {
+      const data = calendarEventSchema.parse(req.body);
+      res.json(await academicCalendar.update(req.params.id, data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calendar event", errors: error.errors });
+      }
+      if (error instanceof CalendarError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update calendar event" });
+    }
+  });
+
+  app.delete("/api/calendar/events/:id", requireRole(["ADMIN"]), audited("CALENDAR_EVENT_DELETED", AuditEntityType.CALENDAR, { before: async (req) => (await storage.getCalendarEvents()).find(event => event.id === req.params.id) }), async (req, res) => {
+    try {
+      await academicCalendar.delete(req.params.id);
+      res.json({ message: "Calendar event deleted" });
+    } catch (error) {
+      if (error instanceof CalendarError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete calendar event" });
+    }
+  });
+
+  // Imports the events of an uploaded .ics file; events already imported are updated
+  app.post("/api/calendar/import", requireRole(["ADMIN"]), audited("CALENDAR_IMPORTED", AuditEntityType.CALENDAR), calendarUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { defaultType } = importCalendarSchema.parse(req.body);
+      res.json(await academicCalendar.importICal(req.file.buffer.toString("utf8"), defaultType, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calendar import", errors: error.errors });
+      }
+      if (error instanceof CalendarError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import calendar" });
+    }
+  });
+
+  // Report routes. Staff download reports; admins schedule them for email
+  app.get("/api/reports", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    res.json(reportService.getDefinitions());
+  });
+
+  app.get("/api/reports/schedules", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      res.json(await reportService.listSchedules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch report schedules" });
+    }
+  });
+
+  app.post("/api/reports/schedules", requireRole(["ADMIN"]), audited("REPORT_SCHEDULE_CREATED", AuditEntityType.REPORT), async (req, res) => {
+    try {
+      const data = reportScheduleSchema.parse(req.body);
+      const schedule = await reportService.createSchedule(data, req.user!.id);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create report schedule" });
+    }
+  });
+
+  app.put("/api/reports/schedules/:id", requireRole(["ADMIN"]), audited("REPORT_SCHEDULE_UPDATED", AuditEntityType.REPORT, { before: async (req) => (await storage.getReportSchedules()).find(schedule => schedule.id === req.params.id) }), async (req, res) => {
+    try {
+      const data = reportScheduleSchema.parse(req.body);
+      res.json(await reportService.updateSchedule(req.params.id, data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report schedule", errors: error.errors });
+      }
+      if (error instanceof ReportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update report schedule" });
+    }
+  });
+
+  app.delete("/api/reports/schedules/:id", requireRole(["ADMIN"]), audited("REPORT_SCHEDULE_DELETED", AuditEntityType.REPORT, { before: async (req) => (await storage.getReportSchedules()).find(schedule => schedule.id === req.params.id) }), async (req, res) => {
+    try {
+      await reportService.deleteSchedule(req.params.id);
+      res.json({ message: "Report schedule deleted" });
+    } catch (error) {
+      if (error instanceof ReportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete report schedule" });
+    }
+  });
+
+  // Emails the report for the last full week or month now, without moving the next scheduled run
+  app.post("/api/reports/schedules/:id/send", requireRole(["ADMIN"]), audited("REPORT_SENT", AuditEntityType.REPORT, { entityId: (req) => req.params.id }), async (req, res) => {
+    try {
+      res.json(await reportService.sendNow(req.params.id));
+    } catch (error) {
+      if (error instanceof ReportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send report" });
+    }
+  });
+
+  // JSON for the preview, or a file download when a format is given
+  app.get("/api/reports/:type", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const type = z.nativeEnum(ReportType).safeParse(req.params.type);
+      if (!type.success) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      const { from, to, format } = reportQuerySchema.parse(req.query);
+      const report = await reportService.build(type.data, from, to);
+      if (!format) {
+        return res.json(report);
+      }
+
+      const file = await reportService.export(report, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      if (error instanceof ReportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to generate report" });
+    }
+  });
+
+  // Background job status (admin only)
+  app.get("/api/admin/jobs", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      res.json(jobScheduler.getStatus());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch background job status" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:name/run", requireRole(["ADMIN"]), audited("JOB_RUN", AuditEntityType.JOB, { entityId: (req) => req.params.name }), async (req, res) => {
+    try {
+      if (!jobScheduler.getJobStatus(req.params.name)) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const status = await jobScheduler.runNow(req.params.name);
+      if (!status) {
+        return res.status(409).json({ message: "Job is already running" });
+      }
+      res.json(status);
+    } catch (error) {
+      console.error('Manual job run error:', error);
+      res.status(500).json({ message: "Failed to run background job" });
+    }
+  });
+
+  // Audit trail (admin only)
+  app.get("/api/admin/audit-logs", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      const filter = auditLogFilterSchema.parse(req.query);
+      res.json(await auditService.getLogs(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filter", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get("/api/admin/audit-logs/export", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      const filter = auditLogFilterSchema.parse(req.query);
+      const logs = await auditService.getLogs({ ...filter, limit: filter.limit || 5000 });
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(auditService.toCsv(logs));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filter", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+
   // ===== AI FEATURES ROUTES =====
 
   // AI Content Summarization & Analysis Routes
-  app.post("/api/ai/content/generate/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  // Generated content is stored as drafts; it reaches students once a librarian publishes it in the review queue
+  app.post("/api/ai/content/generate/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_GENERATED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.bookId, before: (req) => storage.getBookAIContent(req.params.bookId) }), aiMetered(), async (req, res) => {
     try {
       const { bookId } = req.params;
       const book = await storage.getBook(bookId);
@@ -1061,14 +1839,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Book not found" });
       }
 
-      const content = await aiContentService.generateBookContent(book);
-      res.json(content);
+      const drafts = await aiContentService.generateBookContent(book, req.user!.id);
+      res.json({ drafts });
     } catch (error) {
       console.error('Error generating book content:', error);
       res.status(500).json({ message: "Failed to generate AI content" });
     }
   });
 
+  // Published content only; drafts are in the review queue
   app.get("/api/ai/content/:bookId", requireAuth, async (req, res) => {
     try {
       const { bookId } = req.params;
@@ -1085,25 +1864,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/ai/content/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.put("/api/ai/content/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_UPDATED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.bookId, before: (req) => storage.getBookAIContent(req.params.bookId) }), async (req, res) => {
     try {
       const { bookId } = req.params;
       const updates = req.body;
       
-      const content = await aiContentService.updateBookContent(bookId, updates);
+      const content = await aiContentService.updateBookContent(bookId, updates, req.user!.id);
       
       if (!content) {
         return res.status(404).json({ message: "AI content not found for this book" });
       }
 
+      chatRetrieval.indexContent(content);
       res.json(content);
     } catch (error) {
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error updating book content:', error);
       res.status(500).json({ message: "Failed to update AI content" });
     }
   });
 
-  app.post("/api/ai/content/question/:bookId", requireAuth, async (req, res) => {
+  app.post("/api/ai/content/question/:bookId", requireAuth, audited("AI_CONTENT_QUESTION_ASKED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.bookId }), aiMetered(), async (req, res) => {
     try {
       const { bookId } = req.params;
       const { question } = req.body;
@@ -1135,8 +1918,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // AI content review queue for librarians
+  app.get("/api/ai/content-review", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      res.json(await contentReview.getQueue());
+    } catch (error) {
+      console.error('Error fetching content review queue:', error);
+      res.status(500).json({ message: "Failed to fetch the review queue" });
+    }
+  });
+
+  app.get("/api/ai/content-review/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      res.json(await contentReview.getDetail(req.params.bookId));
+    } catch (error) {
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch content versions" });
+    }
+  });
+
+  app.post("/api/ai/content-review/versions/:id/approve", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_APPROVED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentVersion(req.params.id) }), async (req, res) => {
+    try {
+      const { note } = reviewAIContentVersionSchema.parse(req.body);
+      const result = await contentReview.approve(req.params.id, req.user!.id, note);
+      chatRetrieval.indexContent(result.content);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to approve the draft" });
+    }
+  });
+
+  app.post("/api/ai/content-review/versions/:id/reject", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_REJECTED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentVersion(req.params.id) }), async (req, res) => {
+    try {
+      const { note } = reviewAIContentVersionSchema.parse(req.body);
+      res.json(await contentReview.reject(req.params.id, req.user!.id, note));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reject the draft" });
+    }
+  });
+
+  app.put("/api/ai/content-review/versions/:id", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_EDITED", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentVersion(req.params.id) }), async (req, res) => {
+    try {
+      const { value, publish, note } = editAIContentVersionSchema.parse(req.body);
+      const result = await contentReview.edit(req.params.id, value, req.user!.id, { publish, note });
+      if (result.content) chatRetrieval.indexContent(result.content);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid edit", errors: error.errors });
+      }
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save the edit" });
+    }
+  });
+
+  app.post("/api/ai/content-review/versions/:id/rollback", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_ROLLED_BACK", AuditEntityType.AI_CONTENT, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentVersion(req.params.id) }), async (req, res) => {
+    try {
+      const result = await contentReview.rollback(req.params.id, req.user!.id);
+      chatRetrieval.indexContent(result.content);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ContentReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore the version" });
+    }
+  });
+
+  // Batch content generation; the generated drafts join the review queue
+  app.get("/api/ai/content-jobs", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      res.json(await contentJobs.list());
+    } catch (error) {
+      console.error('Error fetching content jobs:', error);
+      res.status(500).json({ message: "Failed to fetch content jobs" });
+    }
+  });
+
+  app.post("/api/ai/content-jobs", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_JOB_CREATED", AuditEntityType.JOB), aiMetered(), async (req, res) => {
+    try {
+      const options = createAIContentJobSchema.parse(req.body);
+      res.status(201).json(await contentJobs.enqueue(options, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid job", errors: error.errors });
+      }
+      if (error instanceof ContentJobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating content job:', error);
+      res.status(500).json({ message: "Failed to create the content job" });
+    }
+  });
+
+  app.get("/api/ai/content-jobs/:id", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      res.json(await contentJobs.get(req.params.id));
+    } catch (error) {
+      if (error instanceof ContentJobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch the content job" });
+    }
+  });
+
+  app.post("/api/ai/content-jobs/:id/cancel", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_JOB_CANCELLED", AuditEntityType.JOB, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentJob(req.params.id) }), async (req, res) => {
+    try {
+      res.json(await contentJobs.cancel(req.params.id));
+    } catch (error) {
+      if (error instanceof ContentJobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel the content job" });
+    }
+  });
+
+  app.post("/api/ai/content-jobs/:id/retry", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_CONTENT_JOB_RETRIED", AuditEntityType.JOB, { entityId: (req) => req.params.id, before: (req) => storage.getAIContentJob(req.params.id) }), async (req, res) => {
+    try {
+      res.json(await contentJobs.retry(req.params.id));
+    } catch (error) {
+      if (error instanceof ContentJobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to retry the content job" });
+    }
+  });
+
+  // Study quizzes on published comprehension Q&A. The fixed paths come before /api/quiz/:bookId.
+  app.get("/api/quiz/reviews", requireRole(["STUDENT"]), async (req, res) => {
+    try {
+      res.json(await quizService.getDueReviews(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching quiz reviews:', error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/quiz/reviews/:id", requireRole(["STUDENT"]), audited("QUIZ_REVIEW_ANSWERED", AuditEntityType.QUIZ), aiMetered(), async (req, res) => {
+    try {
+      const { answer } = quizReviewAnswerSchema.parse(req.body);
+      res.json(await quizService.answerReview(req.user!.id, req.params.id, answer));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid answer", errors: error.errors });
+      }
+      if (error instanceof QuizError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error grading quiz review:', error);
+      res.status(500).json({ message: "Failed to grade the answer" });
+    }
+  });
+
+  app.get("/api/quiz/stats", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      res.json(await quizService.getStats());
+    } catch (error) {
+      console.error('Error fetching quiz stats:', error);
+      res.status(500).json({ message: "Failed to fetch quiz statistics" });
+    }
+  });
+
+  app.get("/api/quiz/:bookId", requireRole(["STUDENT"]), async (req, res) => {
+    try {
+      res.json(await quizService.getOverview(req.user!.id, req.params.bookId));
+    } catch (error) {
+      if (error instanceof QuizError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch the quiz" });
+    }
+  });
+
+  app.post("/api/quiz/:bookId/attempts", requireRole(["STUDENT"]), audited("QUIZ_ATTEMPT_SUBMITTED", AuditEntityType.QUIZ), aiMetered(), async (req, res) => {
+    try {
+      const { answers } = submitQuizAttemptSchema.parse(req.body);
+      res.status(201).json(await quizService.submitAttempt(req.user!.id, req.params.bookId, answers));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid answers", errors: error.errors });
+      }
+      if (error instanceof QuizError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error grading quiz attempt:', error);
+      res.status(500).json({ message: "Failed to grade the quiz" });
+    }
+  });
+
   // AI Analytics Routes
-  app.post("/api/ai/analytics/usage-patterns", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/analytics/usage-patterns", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_ANALYTICS_GENERATED", AuditEntityType.AI_ANALYTICS), aiMetered(), async (req, res) => {
     try {
       const analytics = await aiAnalyticsService.generateUsagePatterns();
       res.json(analytics);
@@ -1146,7 +2133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/analytics/inventory-insights", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/analytics/inventory-insights", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_ANALYTICS_GENERATED", AuditEntityType.AI_ANALYTICS), aiMetered(), async (req, res) => {
     try {
       const analytics = await aiAnalyticsService.generateInventoryInsights();
       res.json(analytics);
@@ -1156,7 +2143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/analytics/user-behavior", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/analytics/user-behavior", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_ANALYTICS_GENERATED", AuditEntityType.AI_ANALYTICS), aiMetered(), async (req, res) => {
     try {
       const analytics = await aiAnalyticsService.generateUserBehaviorAnalysis();
       res.json(analytics);
@@ -1166,7 +2153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/analytics/performance-metrics", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/analytics/performance-metrics", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_ANALYTICS_GENERATED", AuditEntityType.AI_ANALYTICS), aiMetered(), async (req, res) => {
     try {
       const analytics = await aiAnalyticsService.generatePerformanceMetrics();
       res.json(analytics);
@@ -1194,7 +2181,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/ai/analytics/cleanup", requireRole(["ADMIN"]), async (req, res) => {
+  app.delete("/api/ai/analytics/cleanup", requireRole(["ADMIN"]), audited("AI_ANALYTICS_CLEANED_UP", AuditEntityType.AI_ANALYTICS), async (req, res) => {
     try {
       const deletedCount = await aiAnalyticsService.cleanupOldAnalytics();
       res.json({ message: `Cleaned up ${deletedCount} old analytics records` });
@@ -1205,7 +2192,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Predictive Features Routes
-  app.post("/api/ai/predictions/overdue-risk", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/predictions/overdue-risk", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_PREDICTION_GENERATED", AuditEntityType.AI_PREDICTION), async (req, res) => {
     try {
       const { userId } = req.body;
       const predictions = await aiPredictiveService.predictOverdueRisk(userId);
@@ -1216,7 +2203,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/predictions/book-popularity", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.get("/api/ai/predictions/overdue-risk/backtest", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const report = await aiPredictiveService.getOverdueRiskModelReport();
+      res.json(report);
+    } catch (error) {
+      console.error('Error backtesting overdue risk model:', error);
+      res.status(500).json({ message: "Failed to backtest overdue risk model" });
+    }
+  });
+
+  app.get("/api/ai/forecasts/demand", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const { weeks } = demandForecastQuerySchema.parse(req.query);
+      res.json(await aiPredictiveService.getDemandForecast(weeks));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      console.error('Error forecasting demand:', error);
+      res.status(500).json({ message: "Failed to forecast demand" });
+    }
+  });
+
+  app.get("/api/ai/forecasts/demand/books/:bookId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+    try {
+      const { weeks } = demandForecastQuerySchema.parse(req.query);
+      const forecast = await aiPredictiveService.getBookDemandForecast(req.params.bookId, weeks);
+      if (!forecast) {
+        return res.status(404).json({ message: "Book not found" });
+      }
+      res.json(forecast);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      console.error('Error forecasting book demand:', error);
+      res.status(500).json({ message: "Failed to forecast book demand" });
+    }
+  });
+
+  app.post("/api/ai/predictions/book-popularity", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_PREDICTION_GENERATED", AuditEntityType.AI_PREDICTION), async (req, res) => {
     try {
       const { bookId } = req.body;
       const predictions = await aiPredictiveService.forecastBookPopularity(bookId);
@@ -1227,7 +2254,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/predictions/optimal-due-date", requireAuth, async (req, res) => {
+  app.post("/api/ai/predictions/optimal-due-date", requireAuth, audited("AI_PREDICTION_GENERATED", AuditEntityType.AI_PREDICTION), async (req, res) => {
     try {
       const { userId, bookId } = req.body;
       
@@ -1263,7 +2290,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/predictions/risk-assessment/:userId", requireRole(["LIBRARIAN", "ADMIN"]), async (req, res) => {
+  app.post("/api/ai/predictions/risk-assessment/:userId", requireRole(["LIBRARIAN", "ADMIN"]), audited("AI_PREDICTION_GENERATED", AuditEntityType.AI_PREDICTION, { entityId: (req) => req.params.userId }), aiMetered(), async (req, res) => {
     try {
       const { userId } = req.params;
       const assessment = await aiPredictiveService.generateRiskAssessment(userId);
@@ -1274,7 +2301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/ai/predictions/cleanup", requireRole(["ADMIN"]), async (req, res) => {
+  app.delete("/api/ai/predictions/cleanup", requireRole(["ADMIN"]), audited("AI_PREDICTIONS_CLEANED_UP", AuditEntityType.AI_PREDICTION), async (req, res) => {
     try {
       const deletedCount = await aiPredictiveService.cleanupOldPredictions();
       res.json({ message: `Cleaned up ${deletedCount} old prediction records` });
@@ -1327,6 +2354,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // AI usage metering and quotas
+  app.get("/api/ai/quota", requireAuth, async (req, res) => {
+    try {
+      res.json(await aiUsageService.getQuotaStatus(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI quota" });
+    }
+  });
+
+  app.get("/api/admin/ai-usage", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      const { days } = aiUsageQuerySchema.parse(req.query);
+      res.json(await aiUsageService.getSummary(days));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendInvalidQuery(res, error);
+      }
+      console.error('Error fetching AI usage:', error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
+  app.get("/api/admin/ai-quotas", requireRole(["ADMIN"]), async (req, res) => {
+    try {
+      res.json(await aiUsageService.getQuotas());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI quotas" });
+    }
+  });
+
+  // Creates or replaces the quota for a role
+  app.put("/api/admin/ai-quotas", requireRole(["ADMIN"]), audited("AI_QUOTA_SAVED", AuditEntityType.AI_QUOTA), async (req, res) => {
+    try {
+      const data = aiQuotaSchema.parse(req.body);
+      res.json(await aiUsageService.saveQuota(data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid AI quota", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save AI quota" });
+    }
+  });
+
+  app.delete("/api/admin/ai-quotas/:id", requireRole(["ADMIN"]), audited("AI_QUOTA_DELETED", AuditEntityType.AI_QUOTA, { before: async (req) => (await storage.getAIQuotas()).find(quota => quota.id === req.params.id) }), async (req, res) => {
+    try {
+      const deleted = await aiUsageService.deleteQuota(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Quota not found" });
+      }
+      res.json({ message: "Quota deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete AI quota" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,221 @@
+// Words that carry no meaning in a catalog query ("books about space" searches for "space")
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "about", "book", "books", "by", "for", "from", "in", "is", "of", "on", "or", "the", "to", "with"
+]);
+
+// How much a non-exact match counts relative to an exact one
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHTS = [1, 0.6, 0.4];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export interface IndexMatch {
+  id: string;
+  score: number;
+  // Share of the query terms found in the document, 0-1
+  coverage: number;
+  // Indexed terms that matched, including prefix and typo matches, for highlighting
+  matchedTerms: Set<string>;
+}
+
+/**
+ * Lowercases, strips accents and splits on anything that is not a letter or digit
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function maxTyposFor(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * In-memory inverted index over documents with named, boosted text fields. Ranks with BM25 per field,
+ * and matches query terms exactly, as prefixes and with typos.
+ */
+export class InvertedIndex<F extends string> {
+  // term -> document id -> field -> term frequency
+  private postings = new Map<string, Map<string, Partial<Record<F, number>>>>();
+  // document id -> field -> token count, and the terms it holds so it can be removed
+  private documents = new Map<string, { lengths: Partial<Record<F, number>>; terms: Set<string> }>();
+  private totalFieldLengths = {} as Record<F, number>;
+
+  constructor(private boosts: Record<F, number>) {
+    for (const field of Object.keys(boosts) as F[]) {
+      this.totalFieldLengths[field] = 0;
+    }
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    for (const field of Object.keys(this.boosts) as F[]) {
+      this.totalFieldLengths[field] = 0;
+    }
+  }
+
+  /**
+   * Add a document, replacing any earlier version with the same id
+   */
+  add(id: string, fields: Partial<Record<F, string | null | undefined>>): void {
+    this.remove(id);
+
+    const lengths: Partial<Record<F, number>> = {};
+    const terms = new Set<string>();
+    for (const field of Object.keys(this.boosts) as F[]) {
+      const tokens = tokenize(fields[field] || "");
+      lengths[field] = tokens.length;
+      this.totalFieldLengths[field] += tokens.length;
+
+      for (const token of tokens) {
+        terms.add(token);
+        let docs = this.postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token, docs);
+        }
+        const frequencies: Partial<Record<F, number>> = docs.get(id) || {};
+        frequencies[field] = (frequencies[field] || 0) + 1;
+        docs.set(id, frequencies);
+      }
+    }
+    this.documents.set(id, { lengths, terms });
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of Array.from(document.terms)) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) this.postings.delete(term);
+    }
+    for (const field of Object.keys(this.boosts) as F[]) {
+      this.totalFieldLengths[field] -= document.lengths[field] || 0;
+    }
+    this.documents.delete(id);
+  }
+
+  search(query: string): IndexMatch[] {
+    const tokens = Array.from(new Set(tokenize(query)));
+    const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+    const queryTerms = meaningful.length > 0 ? meaningful : tokens;
+    if (queryTerms.length === 0) return [];
+
+    const matches = new Map<string, { score: number; termsFound: number; matchedTerms: Set<string> }>();
+    for (const queryTerm of queryTerms) {
+      // Best contribution of this query term to each document
+      const contributions = new Map<string, { score: number; terms: string[] }>();
+      for (const { term, weight } of this.expand(queryTerm)) {
+        const docs = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - docs.size + 0.5) / (docs.size + 0.5));
+        for (const [id, frequencies] of Array.from(docs.entries())) {
+          const score = weight * idf * this.fieldScore(id, frequencies);
+          const existing = contributions.get(id);
+          if (!existing) {
+            contributions.set(id, { score, terms: [term] });
+          } else {
+            existing.score = Math.max(existing.score, score);
+            existing.terms.push(term);
+          }
+        }
+      }
+
+      for (const [id, contribution] of Array.from(contributions.entries())) {
+        const match = matches.get(id) || { score: 0, termsFound: 0, matchedTerms: new Set<string>() };
+        match.score += contribution.score;
+        match.termsFound += 1;
+        contribution.terms.forEach(term => match.matchedTerms.add(term));
+        matches.set(id, match);
+      }
+    }
+
+    return Array.from(matches.entries())
+      .map(([id, match]) => ({
+        id,
+        score: match.score,
+        coverage: match.termsFound / queryTerms.length,
+        matchedTerms: match.matchedTerms
+      }))
+      .sort((a, b) => b.coverage - a.coverage || b.score - a.score);
+  }
+
+  /**
+   * Indexed terms a query term matches, with how much each counts: the term itself, terms it is a
+   * prefix of, and terms within the allowed number of typos
+   */
+  private expand(queryTerm: string): { term: string; weight: number }[] {
+    const maxTypos = maxTyposFor(queryTerm);
+    const expansions: { term: string; weight: number }[] = [];
+
+    for (const term of Array.from(this.postings.keys())) {
+      if (term === queryTerm) {
+        expansions.push({ term, weight: 1 });
+      } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+        expansions.push({ term, weight: PREFIX_WEIGHT });
+      } else if (maxTypos > 0) {
+        const distance = editDistance(queryTerm, term, maxTypos);
+        if (distance <= maxTypos) {
+          expansions.push({ term, weight: TYPO_WEIGHTS[distance] });
+        }
+      }
+    }
+    return expansions;
+  }
+
+  private fieldScore(id: string, frequencies: Partial<Record<F, number>>): number {
+    const lengths = this.documents.get(id)!.lengths;
+    let score = 0;
+    for (const field of Object.keys(frequencies) as F[]) {
+      const tf = frequencies[field] || 0;
+      const averageLength = this.totalFieldLengths[field] / this.documents.size || 1;
+      const normalizedTf = (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (lengths[field] || 0) / averageLength));
+      score += this.boosts[field] * normalizedTf;
+    }
+    return score;
+  }
+}
@@ -4,29 +4,78 @@ import {
   Transaction, 
   BookRequest,
   ExtensionRequest,
+  Hold,
+  Item,
   Notification,
   PushSubscription,
   BookAIContent,
+  BookEmbedding,
+  BookAIContentVersion,
+  InsertBookAIContentVersion,
+  AIContentStatus,
+  AIContentJob,
+  InsertAIContentJob,
+  AIContentJobStatus,
+  AIContentJobItem,
+  InsertAIContentJobItem,
+  AIContentJobItemStatus,
+  QuizAttempt,
+  InsertQuizAttempt,
+  QuizReviewItem,
+  InsertQuizReviewItem,
+  CalendarEvent,
+  InsertCalendarEvent,
+  ReportSchedule,
+  InsertReportSchedule,
+  AIUsageRecord,
+  AIUsageFilter,
+  AIQuota,
   AIAnalytics,
   AIPrediction,
   ChatSession,
   ChatMessage,
+  LedgerEntry,
+  FineSettings,
+  LedgerEntryType,
   Role, 
   TransactionStatus,
   BookRequestStatus,
   ExtensionRequestStatus,
+  HoldStatus,
+  ItemStatus,
+  ItemCondition,
   NotificationType,
   InsertUser, 
   InsertBook, 
   InsertTransaction, 
   InsertBookRequest,
   InsertExtensionRequest,
+  InsertHold,
+  InsertItem,
   InsertNotification,
   InsertPushSubscription,
   InsertBookAIContent,
+  InsertBookEmbedding,
+  InsertAIUsageRecord,
+  InsertAIQuota,
   InsertAIAnalytics,
   InsertAIPrediction,
   InsertChatSession,
+  InsertLedgerEntry,
+  UpdateFineSettings,
+  CirculationPolicy,
+  InsertCirculationPolicy,
+  Renewal,
+  RenewalMethod,
+  AuditLog,
+  InsertAuditLog,
+  AuditLogFilter,
+  Page,
+  BookListQuery,
+  TransactionListQuery,
+  BookRequestListQuery,
+  UserListQuery,
+  NotificationListQuery,
   UpdateProfile,
   TransactionWithBook, 
   TransactionWithUserAndBook,
@@ -38,12 +87,102 @@ import {
 import session from "express-session";
 import MemoryStore from "memorystore";
 import MongoStore from "connect-mongo";
-import { nanoid } from "nanoid";
+import { nanoid, customAlphabet } from "nanoid";
 import { prisma } from "./db";
-import { convertPrismaUser, convertPrismaBook, convertPrismaTransaction, convertPrismaBookRequest, convertPrismaExtensionRequest, convertPrismaBookAIContent, convertPrismaAIAnalytics, convertPrismaAIPrediction } from "./types";
+import type { InputJsonValue } from "@prisma/client/runtime/library";
+import { convertPrismaUser, convertPrismaBook, convertPrismaTransaction, convertPrismaBookRequest, convertPrismaExtensionRequest, convertPrismaBookAIContent, convertPrismaAIAnalytics, convertPrismaAIPrediction, convertPrismaLedgerEntry, convertPrismaFineSettings, convertPrismaHold, convertPrismaItem, convertPrismaCirculationPolicy, convertPrismaAuditLog, convertPrismaBookEmbedding, convertPrismaAIUsageRecord, convertPrismaAIQuota, convertPrismaChatSession, convertPrismaAIContentVersion, convertPrismaAIContentJob, convertPrismaAIContentJobItem, convertPrismaQuizAttempt, convertPrismaQuizReviewItem, convertPrismaCalendarEvent, convertPrismaReportSchedule, countCopies } from "./types";
+import { CirculationPolicyEngine, PolicyViolationError } from "./circulation-policy";
+import { CalendarService } from "./academic-calendar";
 
 const MemoryStoreSession = MemoryStore(session);
 
+// Barcodes generated for copies added without one, e.g. LIB0481932275
+const generateBarcode = (() => {
+  const digits = customAlphabet("0123456789", 10);
+  return () => `LIB${digits()}`;
+})();
+
+// Book availability is derived from its items, so every book query loads item statuses
+const BOOK_WITH_ITEMS = { include: { items: { select: { status: true } } } };
+
+type ItemUpdate = Partial<Omit<Item, "id" | "bookId" | "createdAt" | "book">>;
+
+// Used until an admin saves fine settings. Amounts are in minor currency units (cents).
+const DEFAULT_FINE_SETTINGS: Omit<FineSettings, "id" | "updatedAt"> = {
+  currency: "USD",
+  defaultDailyRate: 25,
+  categoryRates: {},
+  gracePeriodDays: 1,
+  maxFinePerItem: 1000,
+  lostItemFee: 2500,
+  damagedItemFee: 1000,
+  borrowingBlockThreshold: 500,
+};
+
+const DEFAULT_AUDIT_LOG_LIMIT = 500;
+
+// Charges add to what the user owes; payments and waivers reduce it
+function sumLedgerBalance(entries: LedgerEntry[]): number {
+  return entries.reduce((balance, entry) =>
+    entry.type === LedgerEntryType.CHARGE ? balance + entry.amount : balance - entry.amount, 0);
+}
+
+type PageQuery = { page: number; pageSize: number; sortBy: string; sortOrder: "asc" | "desc" };
+
+function toPage<T>(items: T[], total: number, query: PageQuery): Page<T> {
+  return {
+    items,
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.max(1, Math.ceil(total / query.pageSize))
+  };
+}
+
+// Empty values sort last in ascending order, first in descending order
+function compareValues(a: unknown, b: unknown): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// In-memory equivalent of Prisma's orderBy + skip/take
+function paginate<T>(items: T[], query: PageQuery): Page<T> {
+  const direction = query.sortOrder === "asc" ? 1 : -1;
+  const sorted = [...items].sort((a, b) => direction * compareValues((a as any)[query.sortBy], (b as any)[query.sortBy]));
+  const start = (query.page - 1) * query.pageSize;
+  return toPage(sorted.slice(start, start + query.pageSize), items.length, query);
+}
+
+function pageArgs(query: PageQuery) {
+  return {
+    orderBy: { [query.sortBy]: query.sortOrder },
+    skip: (query.page - 1) * query.pageSize,
+    take: query.pageSize
+  };
+}
+
+function matchesSearch(search: string | undefined, ...fields: (string | null | undefined)[]): boolean {
+  if (!search) return true;
+  const term = search.toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(term));
+}
+
+function withinRange(date: Date | null | undefined, from?: Date, to?: Date): boolean {
+  if (!from && !to) return true;
+  if (!date) return false;
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+const containsInsensitive = (search: string) => ({ contains: search, mode: 'insensitive' as const });
+
+const dateRange = (from?: Date, to?: Date) =>
+  (from || to) ? { ...(from && { gte: from }), ...(to && { lte: to }) } : undefined;
+
+// Ids from the URL are checked before querying, since Prisma throws on a malformed ObjectId
+const isObjectId = (id: string) => /^[0-9a-f]{24}$/i.test(id);
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | null>;
@@ -56,44 +195,73 @@ export interface IStorage {
   updatePassword(userId: string, password: string): Promise<User | null>;
   deleteUser(userId: string): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
+  listUsers(query: UserListQuery): Promise<Page<User>>;
   getStudents(): Promise<User[]>;
   
   // Book methods
   getBook(id: string): Promise<Book | null>;
+  getBooksByIds(ids: string[]): Promise<Book[]>;
   getAllBooks(): Promise<Book[]>;
+  listBooks(query: BookListQuery): Promise<Page<Book>>;
   getAvailableBooks(): Promise<Book[]>;
   createBook(book: InsertBook): Promise<Book>;
   updateBook(id: string, book: Partial<InsertBook>): Promise<Book | null>;
   deleteBook(id: string): Promise<boolean>;
-  updateBookAvailability(bookId: string, change: number): Promise<boolean>;
+
+  // Item (copy) methods
+  createItem(item: InsertItem): Promise<Item>;
+  getItem(id: string): Promise<Item | null>;
+  getItemByBarcode(barcode: string): Promise<Item | null>;
+  getItemsByBook(bookId: string): Promise<Item[]>;
+  updateItem(id: string, updates: ItemUpdate): Promise<Item | null>;
+  backfillBookItems(): Promise<number>;
   
   // Transaction methods
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransaction(id: string): Promise<Transaction | null>;
+  // Loans that took place; cancelled check-outs only appear in listTransactions
   getUserTransactions(userId: string): Promise<TransactionWithBook[]>;
   getAllTransactions(): Promise<TransactionWithUserAndBook[]>;
+  listTransactions(query: TransactionListQuery): Promise<Page<TransactionWithUserAndBook>>;
   updateTransactionStatus(id: string, status: TransactionStatus, returnedDate?: Date): Promise<Transaction | null>;
   getActiveTransactions(): Promise<TransactionWithUserAndBook[]>;
+  markTransactionReminderSent(id: string, reminder: "DUE_SOON" | "OVERDUE"): Promise<Transaction | null>;
+  renewTransaction(id: string, newDueDate: Date, method: RenewalMethod, approvedBy?: string): Promise<Transaction | null>;
+  reopenTransaction(id: string): Promise<Transaction | null>;
+  cancelTransaction(id: string): Promise<Transaction | null>;
   
   // Book Request methods
   createBookRequest(request: InsertBookRequest): Promise<BookRequest>;
+  getBookRequest(id: string): Promise<BookRequest | null>;
   getBookRequestsByUser(userId: string): Promise<BookRequestWithBook[]>;
   getAllBookRequests(): Promise<BookRequestWithUserAndBook[]>;
+  listBookRequests(query: BookRequestListQuery): Promise<Page<BookRequestWithUserAndBook>>;
   getPendingBookRequests(): Promise<BookRequestWithUserAndBook[]>;
-  updateBookRequestStatus(id: string, status: BookRequestStatus): Promise<BookRequest | null>;
-  rejectBookRequest(requestId: string): Promise<BookRequest | null>;
-  approveBookRequest(requestId: string, librarianId: string): Promise<Transaction | null>;
+  updateBookRequestStatus(id: string, status: BookRequestStatus, processedBy?: string): Promise<BookRequest | null>;
+  rejectBookRequest(requestId: string, processedBy?: string): Promise<BookRequest | null>;
+  approveBookRequest(requestId: string, processedBy: string, customDueDate?: Date): Promise<Transaction | null>;
   
   // Extension Request methods
   createExtensionRequest(request: InsertExtensionRequest): Promise<ExtensionRequest>;
+  getExtensionRequest(id: string): Promise<ExtensionRequest | null>;
   getExtensionRequestsByUser(userId: string): Promise<ExtensionRequestWithUserAndTransaction[]>;
   getAllExtensionRequests(): Promise<ExtensionRequestWithUserAndTransaction[]>;
   getPendingExtensionRequests(): Promise<ExtensionRequestWithUserAndTransaction[]>;
   approveExtensionRequest(requestId: string, processedBy: string, customDueDate: Date): Promise<ExtensionRequest | null>;
   rejectExtensionRequest(requestId: string, processedBy: string): Promise<ExtensionRequest | null>;
+
+  // Hold queue methods
+  createHold(hold: InsertHold): Promise<Hold>;
+  getHold(id: string): Promise<Hold | null>;
+  getHoldsByUser(userId: string): Promise<Hold[]>;
+  getHoldsByBook(bookId: string): Promise<Hold[]>;
+  getActiveHolds(): Promise<Hold[]>;
+  updateHold(id: string, updates: Partial<Pick<Hold, "status" | "readyAt" | "pickupDeadline" | "closedAt" | "itemId">>): Promise<Hold | null>;
   
   // Notification methods
   createNotification(notification: InsertNotification): Promise<Notification>;
   getUserNotifications(userId: string): Promise<Notification[]>;
+  listNotifications(userId: string, query: NotificationListQuery): Promise<Page<Notification>>;
   markNotificationAsRead(id: string): Promise<Notification | null>;
   markAllNotificationsAsRead(userId: string): Promise<boolean>;
   clearAllNotifications(userId: string): Promise<boolean>;
@@ -110,6 +278,38 @@ export interface IStorage {
   updateBookAIContent(bookId: string, content: Partial<InsertBookAIContent>): Promise<BookAIContent | null>;
   getAllBookAIContent(): Promise<BookAIContent[]>;
 
+  // AI content version methods (review workflow)
+  createAIContentVersion(version: InsertBookAIContentVersion): Promise<BookAIContentVersion>;
+  getAIContentVersion(id: string): Promise<BookAIContentVersion | null>;
+  // Newest first
+  getAIContentVersions(filter: { bookId?: string; status?: AIContentStatus }): Promise<BookAIContentVersion[]>;
+  updateAIContentVersion(id: string, updates: Partial<Pick<BookAIContentVersion, 'status' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>>): Promise<BookAIContentVersion | null>;
+
+  // AI content job methods (batch generation)
+  createAIContentJob(job: InsertAIContentJob): Promise<AIContentJob>;
+  getAIContentJob(id: string): Promise<AIContentJob | null>;
+  // Newest first
+  getAIContentJobs(filter?: { status?: AIContentJobStatus[] }): Promise<AIContentJob[]>;
+  updateAIContentJob(id: string, updates: Partial<Pick<AIContentJob, 'status' | 'total' | 'succeeded' | 'failed' | 'startedAt' | 'finishedAt'>>): Promise<AIContentJob | null>;
+  createAIContentJobItems(items: InsertAIContentJobItem[]): Promise<number>;
+  getAIContentJobItems(jobId: string, status?: AIContentJobItemStatus): Promise<AIContentJobItem[]>;
+  updateAIContentJobItem(id: string, updates: Partial<Pick<AIContentJobItem, 'status' | 'attempts' | 'error' | 'finishedAt'>>): Promise<AIContentJobItem | null>;
+
+  // Quiz methods
+  createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  // Newest first
+  getQuizAttempts(filter: { userId?: string; bookId?: string }): Promise<QuizAttempt[]>;
+  createQuizReviewItem(item: InsertQuizReviewItem): Promise<QuizReviewItem>;
+  getQuizReviewItem(id: string): Promise<QuizReviewItem | null>;
+  // Soonest due first
+  getQuizReviewItems(filter: { userId: string; bookId?: string; dueBefore?: Date }): Promise<QuizReviewItem[]>;
+  updateQuizReviewItem(id: string, updates: Partial<Pick<QuizReviewItem, 'box' | 'dueAt' | 'lastReviewedAt' | 'lastScore' | 'expectedAnswer'>>): Promise<QuizReviewItem | null>;
+  deleteQuizReviewItem(id: string): Promise<boolean>;
+
+  // Book embedding methods
+  getBookEmbeddings(): Promise<BookEmbedding[]>;
+  saveBookEmbedding(embedding: InsertBookEmbedding): Promise<BookEmbedding>;
+
   // AI Analytics methods
   createAIAnalytics(analytics: InsertAIAnalytics): Promise<AIAnalytics>;
   getAIAnalyticsByType(type: string): Promise<AIAnalytics[]>;
@@ -124,14 +324,66 @@ export interface IStorage {
   deleteOldAIPredictions(cutoffDate: Date): Promise<number>;
 
   // Chat Session methods
-  getChatSession(userId: string): Promise<ChatSession | null>;
+  getChatSessionsByUser(userId: string): Promise<ChatSession[]>;
+  getChatSession(id: string): Promise<ChatSession | null>;
   createChatSession(session: InsertChatSession): Promise<ChatSession>;
-  updateChatSession(userId: string, messages: ChatMessage[]): Promise<ChatSession | null>;
-  clearChatSession(userId: string): Promise<boolean>;
+  updateChatSession(id: string, updates: Partial<Pick<ChatSession, 'title' | 'messages'>>): Promise<ChatSession | null>;
+  // Adds to the end of the history in one write, so concurrent replies are not lost
+  appendChatMessages(id: string, messages: ChatMessage[]): Promise<ChatSession | null>;
+  deleteChatSession(id: string): Promise<boolean>;
+  deleteChatSessionsByUser(userId: string): Promise<number>;
+
+  // Fines & fees ledger methods
+  createLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry>;
+  getLedgerEntry(id: string): Promise<LedgerEntry | null>;
+  getUserLedger(userId: string): Promise<LedgerEntry[]>;
+  getAllLedgerEntries(): Promise<LedgerEntry[]>;
+  getUserFineBalance(userId: string): Promise<number>;
+  getFineSettings(): Promise<FineSettings>;
+  updateFineSettings(settings: Partial<UpdateFineSettings>): Promise<FineSettings>;
+
+  // Circulation policy methods
+  getCirculationPolicies(): Promise<CirculationPolicy[]>;
+  saveCirculationPolicy(policy: InsertCirculationPolicy): Promise<CirculationPolicy>;
+  deleteCirculationPolicy(id: string): Promise<boolean>;
+
+  // Academic calendar methods
+  getCalendarEvents(): Promise<CalendarEvent[]>;
+  createCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent>;
+  updateCalendarEvent(id: string, updates: Partial<InsertCalendarEvent>): Promise<CalendarEvent | null>;
+  deleteCalendarEvent(id: string): Promise<boolean>;
+
+  // Report schedule methods
+  getReportSchedules(): Promise<ReportSchedule[]>;
+  createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  updateReportSchedule(id: string, updates: Partial<InsertReportSchedule>): Promise<ReportSchedule | null>;
+  deleteReportSchedule(id: string): Promise<boolean>;
+
+  // Audit log methods
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]>;
+
+  // AI usage methods
+  createAIUsageRecord(record: InsertAIUsageRecord): Promise<AIUsageRecord>;
+  getAIUsageRecords(filter: AIUsageFilter): Promise<AIUsageRecord[]>;
+  getAIQuotas(): Promise<AIQuota[]>;
+  saveAIQuota(quota: InsertAIQuota): Promise<AIQuota>;
+  deleteAIQuota(id: string): Promise<boolean>;
+  // Counts one AI request for the user on `day` (YYYY-MM-DD) unless that would exceed `limit`; returns the
+  // new count, or null when the limit is already reached. The check and the increment are one operation.
+  reserveAIRequest(userId: string, day: string, limit: number | null): Promise<number | null>;
+  getAIRequestCount(userId: string, day: string): Promise<number>;
   
   sessionStore: session.Store;
 }
 
+export class BookInUseError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = "BookInUseError";
+  }
+}
+
 export class MemStorage implements IStorage {
   private users = new Map<string, User>();
   private books = new Map<string, Book>();
@@ -141,9 +393,30 @@ export class MemStorage implements IStorage {
   private notifications = new Map<string, Notification>();
   private pushSubscriptions = new Map<string, PushSubscription>();
   private bookAIContent = new Map<string, BookAIContent>();
+  private bookEmbeddings = new Map<string, BookEmbedding>(); // Keyed by bookId
+  private aiContentVersions = new Map<string, BookAIContentVersion>();
+  private aiContentJobs = new Map<string, AIContentJob>();
+  private aiContentJobItems = new Map<string, AIContentJobItem>();
+  private quizAttempts = new Map<string, QuizAttempt>();
+  private quizReviewItems = new Map<string, QuizReviewItem>();
   private aiAnalytics = new Map<string, AIAnalytics>();
   private aiPredictions = new Map<string, AIPrediction>();
   private chatSessions = new Map<string, ChatSession>();
+  private ledgerEntries = new Map<string, LedgerEntry>();
+  private holds = new Map<string, Hold>();
+  private items = new Map<string, Item>();
+  private fineSettings: FineSettings | null = null;
+  private circulationPolicies = new Map<string, CirculationPolicy>();
+  private calendarEvents = new Map<string, CalendarEvent>();
+  private reportSchedules = new Map<string, ReportSchedule>();
+  private auditLogs = new Map<string, AuditLog>();
+  private aiUsageRecords: AIUsageRecord[] = [];
+  private aiQuotas = new Map<string, AIQuota>();
+  // "userId:day" -> AI requests made that day
+  private aiRequestCounts = new Map<string, number>();
+  private policyEngine = new CirculationPolicyEngine(this);
+  // Due dates on closed days move to the next open one
+  private calendar = new CalendarService(this);
 
   sessionStore: session.Store;
 
@@ -220,6 +493,14 @@ export class MemStorage implements IStorage {
     return users.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async listUsers(query: UserListQuery): Promise<Page<User>> {
+    const users = Array.from(this.users.values()).filter(user =>
+      (!query.role || user.role === query.role) &&
+      matchesSearch(query.search, user.fullName, user.username, user.email, user.studentId)
+    );
+    return paginate(users, query);
+  }
+
   async getStudents(): Promise<User[]> {
     const users = Array.from(this.users.values());
     return users
@@ -229,59 +510,207 @@ export class MemStorage implements IStorage {
 
   // Book methods
   async getBook(id: string): Promise<Book | null> {
-    return this.books.get(id) || null;
+    const book = this.books.get(id);
+    return book ? this.withCopyCounts(book) : null;
+  }
+
+  async getBooksByIds(ids: string[]): Promise<Book[]> {
+    return ids
+      .map(id => this.books.get(id))
+      .filter((book): book is Book => !!book)
+      .map(book => this.withCopyCounts(book));
   }
 
   async getAllBooks(): Promise<Book[]> {
-    const books = Array.from(this.books.values());
+    const books = Array.from(this.books.values()).map(book => this.withCopyCounts(book));
     return books.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async listBooks(query: BookListQuery): Promise<Page<Book>> {
+    const category = query.category?.toLowerCase();
+    const books = Array.from(this.books.values())
+      .map(book => this.withCopyCounts(book))
+      .filter(book =>
+        (!category || book.category.toLowerCase() === category) &&
+        (!query.available || book.availableCopies > 0) &&
+        matchesSearch(query.search, book.title, book.author, book.isbn)
+      );
+    return paginate(books, query);
+  }
+
   async getAvailableBooks(): Promise<Book[]> {
-    const books = Array.from(this.books.values());
-    return books
-      .filter(book => book.availableCopies > 0)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const books = await this.getAllBooks();
+    return books.filter(book => book.availableCopies > 0);
   }
 
   async createBook(insertBook: InsertBook): Promise<Book> {
+    const { totalCopies, ...bookData } = insertBook;
     const book: Book = {
       id: nanoid(),
-      ...insertBook,
-      availableCopies: insertBook.totalCopies,
+      ...bookData,
+      totalCopies: 0,
+      availableCopies: 0,
       createdAt: new Date()
     };
     this.books.set(book.id, book);
-    return book;
+
+    for (let i = 0; i < totalCopies; i++) {
+      await this.createItem({ bookId: book.id });
+    }
+    return this.withCopyCounts(book);
   }
 
   async updateBook(id: string, bookData: Partial<InsertBook>): Promise<Book | null> {
     const book = this.books.get(id);
     if (!book) return null;
     
-    const updatedBook = { ...book, ...bookData };
+    const { totalCopies, ...details } = bookData;
+    const updatedBook = { ...book, ...details };
     this.books.set(id, updatedBook);
-    return updatedBook;
+
+    if (totalCopies !== undefined) {
+      await this.adjustCopyCount(id, totalCopies);
+    }
+    return this.withCopyCounts(updatedBook);
   }
 
   async deleteBook(id: string): Promise<boolean> {
+    const copyOut = Array.from(this.items.values())
+      .some(item => item.bookId === id && (item.status === ItemStatus.ON_LOAN || item.status === ItemStatus.ON_HOLD));
+    const loanOpen = Array.from(this.transactions.values())
+      .some(transaction => transaction.bookId === id && (transaction.status === TransactionStatus.BORROWED || transaction.status === TransactionStatus.OVERDUE));
+    if (copyOut || loanOpen) {
+      throw new BookInUseError("Copies of this book are on loan or on the hold shelf");
+    }
+
+    Array.from(this.items.values())
+      .filter(item => item.bookId === id)
+      .forEach(item => this.items.delete(item.id));
+    this.bookEmbeddings.delete(id);
+    Array.from(this.aiContentVersions.values())
+      .filter(version => version.bookId === id)
+      .forEach(version => this.aiContentVersions.delete(version.id));
+    Array.from(this.quizAttempts.values())
+      .filter(attempt => attempt.bookId === id)
+      .forEach(attempt => this.quizAttempts.delete(attempt.id));
+    Array.from(this.quizReviewItems.values())
+      .filter(item => item.bookId === id)
+      .forEach(item => this.quizReviewItems.delete(item.id));
     return this.books.delete(id);
   }
 
-  async updateBookAvailability(bookId: string, change: number): Promise<boolean> {
-    const book = this.books.get(bookId);
-    if (!book) return false;
-    
-    const updatedBook = { ...book, availableCopies: book.availableCopies + change };
-    this.books.set(bookId, updatedBook);
-    return true;
+  // Item (copy) methods
+  async createItem(insertItem: InsertItem): Promise<Item> {
+    const barcode = insertItem.barcode || generateBarcode();
+    if (await this.getItemByBarcode(barcode)) {
+      throw new Error(`Barcode ${barcode} is already in use`);
+    }
+
+    const item: Item = {
+      id: nanoid(),
+      bookId: insertItem.bookId,
+      barcode,
+      shelfLocation: insertItem.shelfLocation || null,
+      condition: insertItem.condition || ItemCondition.GOOD,
+      status: insertItem.status || ItemStatus.AVAILABLE,
+      notes: insertItem.notes || null,
+      createdAt: new Date()
+    };
+    this.items.set(item.id, item);
+    return item;
+  }
+
+  async getItem(id: string): Promise<Item | null> {
+    return this.items.get(id) || null;
+  }
+
+  async getItemByBarcode(barcode: string): Promise<Item | null> {
+    return Array.from(this.items.values()).find(item => item.barcode === barcode) || null;
+  }
+
+  async getItemsByBook(bookId: string): Promise<Item[]> {
+    return Array.from(this.items.values())
+      .filter(item => item.bookId === bookId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateItem(id: string, updates: ItemUpdate): Promise<Item | null> {
+    const item = this.items.get(id);
+    if (!item) return null;
+
+    if (updates.barcode && updates.barcode !== item.barcode) {
+      const existing = await this.getItemByBarcode(updates.barcode);
+      if (existing) return null;
+    }
+
+    const updatedItem = { ...item, ...updates };
+    this.items.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async backfillBookItems(): Promise<number> {
+    // Books only ever exist with items in memory
+    return 0;
+  }
+
+  private withCopyCounts(book: Book): Book {
+    const items = Array.from(this.items.values()).filter(item => item.bookId === book.id);
+    return { ...book, ...countCopies(items) };
+  }
+
+  /**
+   * Add copies, or withdraw available copies, until the book has the requested number of copies
+   */
+  private async adjustCopyCount(bookId: string, totalCopies: number): Promise<void> {
+    const items = await this.getItemsByBook(bookId);
+    const current = countCopies(items).totalCopies;
+
+    for (let i = current; i < totalCopies; i++) {
+      await this.createItem({ bookId });
+    }
+
+    const removable = items.filter(item => item.status === ItemStatus.AVAILABLE).slice(0, Math.max(0, current - totalCopies));
+    for (const item of removable) {
+      await this.updateItem(item.id, { status: ItemStatus.WITHDRAWN });
+    }
+  }
+
+  /**
+   * Whether a copy can be lent to the patron: it is on the shelf, or on the hold shelf for their ready hold
+   */
+  private async isLendableTo(item: Item, userId: string): Promise<boolean> {
+    if (item.status === ItemStatus.AVAILABLE) return true;
+    if (item.status !== ItemStatus.ON_HOLD) return false;
+    const holds = await this.getHoldsByBook(item.bookId);
+    return holds.some(hold => hold.status === HoldStatus.READY && hold.itemId === item.id && hold.userId === userId);
+  }
+
+  /**
+   * Mark a copy as on loan to the patron: the given item if it is on the shelf or set aside for them on the
+   * hold shelf, otherwise any available copy
+   */
+  private async checkOutItem(bookId: string, userId: string, itemId?: string): Promise<Item> {
+    const item = itemId
+      ? await this.getItem(itemId)
+      : (await this.getItemsByBook(bookId)).find(copy => copy.status === ItemStatus.AVAILABLE) || null;
+
+    if (!item || item.bookId !== bookId || !(await this.isLendableTo(item, userId))) {
+      throw new Error("No available copy of this book");
+    }
+
+    return (await this.updateItem(item.id, { status: ItemStatus.ON_LOAN }))!;
   }
 
   // Transaction methods
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    await this.policyEngine.assertCanBorrow(insertTransaction.userId, insertTransaction.bookId);
+    const item = await this.checkOutItem(insertTransaction.bookId, insertTransaction.userId, insertTransaction.itemId);
     const transaction: Transaction = {
       id: nanoid(),
       ...insertTransaction,
+      dueDate: await this.calendar.rollForward(new Date(insertTransaction.dueDate)),
+      itemId: item.id,
+      renewalCount: 0,
       borrowedDate: new Date(),
       status: insertTransaction.status || TransactionStatus.BORROWED
     };
@@ -303,7 +732,7 @@ export class MemStorage implements IStorage {
 
   async getUserTransactions(userId: string): Promise<TransactionWithBook[]> {
     const transactions = Array.from(this.transactions.values())
-      .filter(transaction => transaction.userId === userId)
+      .filter(transaction => transaction.userId === userId && transaction.status !== TransactionStatus.CANCELLED)
       .sort((a, b) => b.borrowedDate.getTime() - a.borrowedDate.getTime());
 
     const result: TransactionWithBook[] = [];
@@ -316,12 +745,19 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async getTransaction(id: string): Promise<Transaction | null> {
+    return this.transactions.get(id) || null;
+  }
+
   async getAllTransactions(): Promise<TransactionWithUserAndBook[]> {
-    const transactions = Array.from(this.transactions.values())
-      .sort((a, b) => b.borrowedDate.getTime() - a.borrowedDate.getTime());
+    return this.withUsersAndBooks(Array.from(this.transactions.values())
+      .filter(transaction => transaction.status !== TransactionStatus.CANCELLED));
+  }
 
+  // Newest first, dropping loans whose user or book no longer exists
+  private async withUsersAndBooks(transactions: Transaction[]): Promise<TransactionWithUserAndBook[]> {
     const result: TransactionWithUserAndBook[] = [];
-    for (const transaction of transactions) {
+    for (const transaction of [...transactions].sort((a, b) => b.borrowedDate.getTime() - a.borrowedDate.getTime())) {
       const user = await this.getUser(transaction.userId);
       const book = await this.getBook(transaction.bookId);
       if (user && book) {
@@ -331,6 +767,18 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async listTransactions(query: TransactionListQuery): Promise<Page<TransactionWithUserAndBook>> {
+    const transactions = (await this.withUsersAndBooks(Array.from(this.transactions.values()))).filter(transaction =>
+      (!query.status || transaction.status === query.status) &&
+      (!query.active || transaction.status === TransactionStatus.BORROWED || transaction.status === TransactionStatus.OVERDUE) &&
+      (!query.userId || transaction.userId === query.userId) &&
+      (!query.bookId || transaction.bookId === query.bookId) &&
+      withinRange(transaction.borrowedDate, query.from, query.to) &&
+      matchesSearch(query.search, transaction.user.fullName, transaction.user.username, transaction.book.title, transaction.book.author)
+    );
+    return paginate(transactions, query);
+  }
+
   async updateTransactionStatus(id: string, status: TransactionStatus, returnedDate?: Date): Promise<Transaction | null> {
     const transaction = this.transactions.get(id);
     if (!transaction) return null;
@@ -360,7 +808,7 @@ export class MemStorage implements IStorage {
 
   async getActiveTransactions(): Promise<TransactionWithUserAndBook[]> {
     const transactions = Array.from(this.transactions.values())
-      .filter(transaction => transaction.status === TransactionStatus.BORROWED)
+      .filter(transaction => transaction.status === TransactionStatus.BORROWED || transaction.status === TransactionStatus.OVERDUE)
       .sort((a, b) => b.borrowedDate.getTime() - a.borrowedDate.getTime());
 
     const result: TransactionWithUserAndBook[] = [];
@@ -374,6 +822,72 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async markTransactionReminderSent(id: string, reminder: "DUE_SOON" | "OVERDUE"): Promise<Transaction | null> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return null;
+
+    const updatedTransaction = {
+      ...transaction,
+      ...(reminder === "DUE_SOON" ? { dueSoonNotifiedAt: new Date() } : { overdueNotifiedAt: new Date() })
+    };
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+
+  async renewTransaction(id: string, newDueDate: Date, method: RenewalMethod, approvedBy?: string): Promise<Transaction | null> {
+    const transaction = this.transactions.get(id);
+    if (!transaction || transaction.status === TransactionStatus.RETURNED) return null;
+
+    // Throws a PolicyViolationError once the renewal limit is used up
+    await this.policyEngine.assertCanRenew(transaction);
+    newDueDate = await this.calendar.rollForward(newDueDate);
+
+    const renewal: Renewal = {
+      renewedAt: new Date(),
+      previousDueDate: transaction.dueDate,
+      newDueDate,
+      method,
+      approvedBy: approvedBy || null
+    };
+
+    // Move the due date and re-arm reminders for it
+    const updatedTransaction: Transaction = {
+      ...transaction,
+      dueDate: newDueDate,
+      renewalCount: (transaction.renewalCount ?? 0) + 1,
+      renewals: [...(transaction.renewals || []), renewal],
+      status: newDueDate > new Date() ? TransactionStatus.BORROWED : transaction.status,
+      dueSoonNotifiedAt: null,
+      overdueNotifiedAt: null
+    };
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+
+  // Puts a returned loan back on the borrower's account, e.g. when a check-in is undone
+  async reopenTransaction(id: string): Promise<Transaction | null> {
+    const transaction = this.transactions.get(id);
+    if (!transaction || transaction.status !== TransactionStatus.RETURNED) return null;
+
+    const updatedTransaction = {
+      ...transaction,
+      status: new Date(transaction.dueDate) < new Date() ? TransactionStatus.OVERDUE : TransactionStatus.BORROWED,
+      returnedDate: null
+    };
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+
+  // Voids a loan that was checked out by mistake; only a loan that is not yet overdue can be cancelled
+  async cancelTransaction(id: string): Promise<Transaction | null> {
+    const transaction = this.transactions.get(id);
+    if (!transaction || transaction.status !== TransactionStatus.BORROWED) return null;
+
+    const updatedTransaction = { ...transaction, status: TransactionStatus.CANCELLED };
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+
   // Book Request methods
   async createBookRequest(insertRequest: InsertBookRequest): Promise<BookRequest> {
     const request: BookRequest = {
@@ -386,6 +900,10 @@ export class MemStorage implements IStorage {
     return request;
   }
 
+  async getBookRequest(id: string): Promise<BookRequest | null> {
+    return this.bookRequests.get(id) || null;
+  }
+
   async getBookRequestsByUser(userId: string): Promise<BookRequestWithBook[]> {
     const requests = Array.from(this.bookRequests.values())
       .filter(request => request.userId === userId)
@@ -416,6 +934,17 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async listBookRequests(query: BookRequestListQuery): Promise<Page<BookRequestWithUserAndBook>> {
+    const requests = (await this.getAllBookRequests()).filter(request =>
+      (!query.status || request.status === query.status) &&
+      (!query.userId || request.userId === query.userId) &&
+      (!query.bookId || request.bookId === query.bookId) &&
+      withinRange(request.requestDate, query.from, query.to) &&
+      matchesSearch(query.search, request.user.fullName, request.user.username, request.book.title, request.book.author)
+    );
+    return paginate(requests, query);
+  }
+
   async getPendingBookRequests(): Promise<BookRequestWithUserAndBook[]> {
     const requests = Array.from(this.bookRequests.values())
       .filter(request => request.status === BookRequestStatus.PENDING)
@@ -432,16 +961,16 @@ export class MemStorage implements IStorage {
     return result;
   }
 
-  async updateBookRequestStatus(id: string, status: BookRequestStatus): Promise<BookRequest | null> {
+  async updateBookRequestStatus(id: string, status: BookRequestStatus, processedBy?: string): Promise<BookRequest | null> {
     const request = this.bookRequests.get(id);
     if (!request) return null;
     
-    const updatedRequest = { ...request, status };
+    const updatedRequest = { ...request, status, ...(processedBy && { processedBy, processedDate: new Date() }) };
     this.bookRequests.set(id, updatedRequest);
     return updatedRequest;
   }
 
-  async rejectBookRequest(requestId: string): Promise<BookRequest | null> {
+  async rejectBookRequest(requestId: string, processedBy?: string): Promise<BookRequest | null> {
     const request = this.bookRequests.get(requestId);
     if (!request || request.status !== BookRequestStatus.PENDING) return null;
 
@@ -449,7 +978,7 @@ export class MemStorage implements IStorage {
     if (!book) return null;
 
     // Update request status to rejected
-    const rejectedRequest = await this.updateBookRequestStatus(requestId, BookRequestStatus.REJECTED);
+    const rejectedRequest = await this.updateBookRequestStatus(requestId, BookRequestStatus.REJECTED, processedBy);
 
     // Create notification for rejected request
     await this.createNotification({
@@ -462,20 +991,18 @@ export class MemStorage implements IStorage {
     return rejectedRequest;
   }
 
-  async approveBookRequest(requestId: string, librarianId: string, customDueDate?: Date): Promise<Transaction | null> {
+  async approveBookRequest(requestId: string, processedBy: string, customDueDate?: Date): Promise<Transaction | null> {
     const request = this.bookRequests.get(requestId);
     if (!request || request.status !== BookRequestStatus.PENDING) return null;
 
     const book = await this.getBook(request.bookId);
     if (!book || book.availableCopies <= 0) return null;
 
-    // Create transaction
-    const dueDate = customDueDate || (() => {
-      const defaultDue = new Date();
-      defaultDue.setDate(defaultDue.getDate() + 14);
-      return defaultDue;
-    })();
+    // Throws a PolicyViolationError for fines or loan limits; the policy sets the default loan period
+    const policy = await this.policyEngine.assertCanBorrow(request.userId, request.bookId);
+    const dueDate = await this.calendar.rollForward(customDueDate || this.policyEngine.dueDateFor(policy));
 
+    // Checks out one of the available copies
     const transaction = await this.createTransaction({
       userId: request.userId,
       bookId: request.bookId,
@@ -483,11 +1010,8 @@ export class MemStorage implements IStorage {
       status: TransactionStatus.BORROWED
     });
 
-    // Update book availability
-    await this.updateBookAvailability(request.bookId, -1);
-
     // Update request status
-    await this.updateBookRequestStatus(requestId, BookRequestStatus.FULFILLED);
+    await this.updateBookRequestStatus(requestId, BookRequestStatus.FULFILLED, processedBy);
 
     // Create notification
     await this.createNotification({
@@ -512,6 +1036,10 @@ export class MemStorage implements IStorage {
     return extensionRequest;
   }
 
+  async getExtensionRequest(id: string): Promise<ExtensionRequest | null> {
+    return this.extensionRequests.get(id) || null;
+  }
+
   async getExtensionRequestsByUser(userId: string): Promise<ExtensionRequestWithUserAndTransaction[]> {
     const requests = Array.from(this.extensionRequests.values())
       .filter(request => request.userId === userId)
@@ -584,13 +1112,10 @@ export class MemStorage implements IStorage {
     const request = this.extensionRequests.get(requestId);
     if (!request || request.status !== ExtensionRequestStatus.PENDING) return null;
 
-    const transaction = this.transactions.get(request.transactionId);
+    // An extension is a renewal: counted against the policy limit and recorded in the loan's history
+    const transaction = await this.renewTransaction(request.transactionId, customDueDate, RenewalMethod.EXTENSION_REQUEST, processedBy);
     if (!transaction) return null;
 
-    // Update transaction due date
-    const updatedTransaction = { ...transaction, dueDate: customDueDate };
-    this.transactions.set(request.transactionId, updatedTransaction);
-
     // Update extension request
     const updatedRequest = {
       ...request,
@@ -607,7 +1132,7 @@ export class MemStorage implements IStorage {
         userId: request.userId,
         type: NotificationType.EXTENSION_REQUEST_APPROVED,
         title: "Extension Request Approved",
-        message: `Your extension request for "${book.title}" has been approved. New due date: ${customDueDate.toLocaleDateString()}`
+        message: `Your extension request for "${book.title}" has been approved. New due date: ${new Date(transaction.dueDate).toLocaleDateString()}`
       });
     }
 
@@ -662,6 +1187,16 @@ export class MemStorage implements IStorage {
     return notifications;
   }
 
+  async listNotifications(userId: string, query: NotificationListQuery): Promise<Page<Notification>> {
+    const notifications = Array.from(this.notifications.values()).filter(notification =>
+      notification.userId === userId &&
+      (!query.type || notification.type === query.type) &&
+      (query.isRead === undefined || notification.isRead === query.isRead) &&
+      matchesSearch(query.search, notification.title, notification.message)
+    );
+    return paginate(notifications, query);
+  }
+
   async markNotificationAsRead(id: string): Promise<Notification | null> {
     const notification = this.notifications.get(id);
     if (!notification) return null;
@@ -749,6 +1284,151 @@ export class MemStorage implements IStorage {
     return Array.from(this.bookAIContent.values());
   }
 
+  // AI content version methods
+  async createAIContentVersion(version: InsertBookAIContentVersion): Promise<BookAIContentVersion> {
+    const created: BookAIContentVersion = {
+      id: nanoid(),
+      ...version,
+      createdAt: new Date(),
+    };
+    this.aiContentVersions.set(created.id, created);
+    return created;
+  }
+
+  async getAIContentVersion(id: string): Promise<BookAIContentVersion | null> {
+    return this.aiContentVersions.get(id) || null;
+  }
+
+  async getAIContentVersions(filter: { bookId?: string; status?: AIContentStatus }): Promise<BookAIContentVersion[]> {
+    return Array.from(this.aiContentVersions.values())
+      .filter(version => (!filter.bookId || version.bookId === filter.bookId) && (!filter.status || version.status === filter.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.version - a.version);
+  }
+
+  async updateAIContentVersion(id: string, updates: Partial<Pick<BookAIContentVersion, 'status' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>>): Promise<BookAIContentVersion | null> {
+    const existing = this.aiContentVersions.get(id);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.aiContentVersions.set(id, updated);
+    return updated;
+  }
+
+  // AI content job methods
+  async createAIContentJob(job: InsertAIContentJob): Promise<AIContentJob> {
+    const created: AIContentJob = {
+      id: nanoid(),
+      ...job,
+      createdAt: new Date(),
+    };
+    this.aiContentJobs.set(created.id, created);
+    return created;
+  }
+
+  async getAIContentJob(id: string): Promise<AIContentJob | null> {
+    return this.aiContentJobs.get(id) || null;
+  }
+
+  async getAIContentJobs(filter: { status?: AIContentJobStatus[] } = {}): Promise<AIContentJob[]> {
+    return Array.from(this.aiContentJobs.values())
+      .filter(job => !filter.status || filter.status.includes(job.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateAIContentJob(id: string, updates: Partial<Pick<AIContentJob, 'status' | 'total' | 'succeeded' | 'failed' | 'startedAt' | 'finishedAt'>>): Promise<AIContentJob | null> {
+    const existing = this.aiContentJobs.get(id);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.aiContentJobs.set(id, updated);
+    return updated;
+  }
+
+  async createAIContentJobItems(items: InsertAIContentJobItem[]): Promise<number> {
+    for (const item of items) {
+      const id = nanoid();
+      this.aiContentJobItems.set(id, { id, ...item });
+    }
+    return items.length;
+  }
+
+  async getAIContentJobItems(jobId: string, status?: AIContentJobItemStatus): Promise<AIContentJobItem[]> {
+    return Array.from(this.aiContentJobItems.values())
+      .filter(item => item.jobId === jobId && (!status || item.status === status));
+  }
+
+  async updateAIContentJobItem(id: string, updates: Partial<Pick<AIContentJobItem, 'status' | 'attempts' | 'error' | 'finishedAt'>>): Promise<AIContentJobItem | null> {
+    const existing = this.aiContentJobItems.get(id);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.aiContentJobItems.set(id, updated);
+    return updated;
+  }
+
+  // Quiz methods
+  async createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const created: QuizAttempt = {
+      id: nanoid(),
+      ...attempt,
+      createdAt: new Date(),
+    };
+    this.quizAttempts.set(created.id, created);
+    return created;
+  }
+
+  async getQuizAttempts(filter: { userId?: string; bookId?: string }): Promise<QuizAttempt[]> {
+    return Array.from(this.quizAttempts.values())
+      .filter(attempt => (!filter.userId || attempt.userId === filter.userId) && (!filter.bookId || attempt.bookId === filter.bookId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createQuizReviewItem(item: InsertQuizReviewItem): Promise<QuizReviewItem> {
+    const created: QuizReviewItem = {
+      id: nanoid(),
+      ...item,
+      createdAt: new Date(),
+    };
+    this.quizReviewItems.set(created.id, created);
+    return created;
+  }
+
+  async getQuizReviewItem(id: string): Promise<QuizReviewItem | null> {
+    return this.quizReviewItems.get(id) || null;
+  }
+
+  async getQuizReviewItems(filter: { userId: string; bookId?: string; dueBefore?: Date }): Promise<QuizReviewItem[]> {
+    return Array.from(this.quizReviewItems.values())
+      .filter(item => item.userId === filter.userId
+        && (!filter.bookId || item.bookId === filter.bookId)
+        && (!filter.dueBefore || item.dueAt <= filter.dueBefore))
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async updateQuizReviewItem(id: string, updates: Partial<Pick<QuizReviewItem, 'box' | 'dueAt' | 'lastReviewedAt' | 'lastScore' | 'expectedAnswer'>>): Promise<QuizReviewItem | null> {
+    const existing = this.quizReviewItems.get(id);
+    if (!existing) return null;
+    const updated = { ...existing, ...updates };
+    this.quizReviewItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteQuizReviewItem(id: string): Promise<boolean> {
+    return this.quizReviewItems.delete(id);
+  }
+
+  // Book embedding methods
+  async getBookEmbeddings(): Promise<BookEmbedding[]> {
+    return Array.from(this.bookEmbeddings.values());
+  }
+
+  async saveBookEmbedding(embedding: InsertBookEmbedding): Promise<BookEmbedding> {
+    const saved: BookEmbedding = {
+      id: this.bookEmbeddings.get(embedding.bookId)?.id || nanoid(),
+      ...embedding,
+      updatedAt: new Date()
+    };
+    this.bookEmbeddings.set(embedding.bookId, saved);
+    return saved;
+  }
+
   // AI Analytics methods
   async createAIAnalytics(analytics: InsertAIAnalytics): Promise<AIAnalytics> {
     const aiAnalytics: AIAnalytics = {
@@ -830,14 +1510,21 @@ export class MemStorage implements IStorage {
   }
 
   // Chat Session methods
-  async getChatSession(userId: string): Promise<ChatSession | null> {
-    return Array.from(this.chatSessions.values()).find(session => session.userId === userId) || null;
+  async getChatSessionsByUser(userId: string): Promise<ChatSession[]> {
+    return Array.from(this.chatSessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | null> {
+    return this.chatSessions.get(id) || null;
   }
 
   async createChatSession(sessionData: InsertChatSession): Promise<ChatSession> {
     const session: ChatSession = {
       id: nanoid(),
       ...sessionData,
+      title: sessionData.title || "New conversation",
       lastActivity: new Date(),
       createdAt: new Date(),
     };
@@ -845,107 +1532,349 @@ export class MemStorage implements IStorage {
     return session;
   }
 
-  async updateChatSession(userId: string, messages: ChatMessage[]): Promise<ChatSession | null> {
-    const existingSession = await this.getChatSession(userId);
-    if (!existingSession) {
-      // Create new session if it doesn't exist
-      return await this.createChatSession({ userId, messages });
-    }
-    
-    const updatedSession = { 
-      ...existingSession, 
-      messages, 
-      lastActivity: new Date() 
+  async updateChatSession(id: string, updates: Partial<Pick<ChatSession, 'title' | 'messages'>>): Promise<ChatSession | null> {
+    const existingSession = this.chatSessions.get(id);
+    if (!existingSession) return null;
+
+    const updatedSession = {
+      ...existingSession,
+      ...updates,
+      // Renaming is not activity
+      lastActivity: updates.messages ? new Date() : existingSession.lastActivity
     };
-    this.chatSessions.set(existingSession.id, updatedSession);
+    this.chatSessions.set(id, updatedSession);
     return updatedSession;
   }
 
-  async clearChatSession(userId: string): Promise<boolean> {
-    const session = await this.getChatSession(userId);
-    if (session) {
-      this.chatSessions.delete(session.id);
-      return true;
-    }
-    return false;
+  async appendChatMessages(id: string, messages: ChatMessage[]): Promise<ChatSession | null> {
+    const existingSession = this.chatSessions.get(id);
+    if (!existingSession) return null;
+
+    const updatedSession = { ...existingSession, messages: [...existingSession.messages, ...messages], lastActivity: new Date() };
+    this.chatSessions.set(id, updatedSession);
+    return updatedSession;
   }
-}
 
+  async deleteChatSession(id: string): Promise<boolean> {
+    return this.chatSessions.delete(id);
+  }
 
-export class DatabaseStorage implements IStorage {
-  sessionStore: session.Store;
+  async deleteChatSessionsByUser(userId: string): Promise<number> {
+    const sessions = await this.getChatSessionsByUser(userId);
+    sessions.forEach(session => this.chatSessions.delete(session.id));
+    return sessions.length;
+  }
 
-  constructor() {
-    this.sessionStore = MongoStore.create({
-      mongoUrl: process.env.MONGODB_URI!,
-      touchAfter: 24 * 3600 // lazy session update
-    });
+  // Hold queue methods
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    const hold: Hold = {
+      id: nanoid(),
+      ...insertHold,
+      bookRequestId: insertHold.bookRequestId || null,
+      itemId: null,
+      status: HoldStatus.WAITING,
+      createdAt: new Date(),
+      readyAt: null,
+      pickupDeadline: null,
+      closedAt: null,
+    };
+    this.holds.set(hold.id, hold);
+    return hold;
   }
 
-  // User methods
-  async getUser(id: string): Promise<User | null> {
-    if (!prisma) return null;
-    const user = await prisma.user.findUnique({
-      where: { id }
-    });
-    return user ? convertPrismaUser(user) : null;
+  async getHold(id: string): Promise<Hold | null> {
+    return this.holds.get(id) || null;
   }
 
-  async getUserByUsername(username: string): Promise<User | null> {
-    if (!prisma) return null;
-    const user = await prisma.user.findUnique({
-      where: { username }
-    });
-    return user ? convertPrismaUser(user) : null;
+  async getHoldsByUser(userId: string): Promise<Hold[]> {
+    return Array.from(this.holds.values())
+      .filter(hold => hold.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async getUserByEmail(email: string): Promise<User | null> {
-    if (!prisma) return null;
-    const user = await prisma.user.findUnique({
-      where: { email }
-    });
-    return user ? convertPrismaUser(user) : null;
+  async getHoldsByBook(bookId: string): Promise<Hold[]> {
+    return Array.from(this.holds.values())
+      .filter(hold => hold.bookId === bookId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  async getUserByRegisterNumber(registerNumber: string): Promise<User | null> {
-    if (!prisma) return null;
-    const user = await prisma.user.findFirst({
-      where: { studentId: registerNumber }
-    });
-    return user ? convertPrismaUser(user) : null;
+  async getActiveHolds(): Promise<Hold[]> {
+    return Array.from(this.holds.values())
+      .filter(hold => hold.status === HoldStatus.WAITING || hold.status === HoldStatus.READY)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    if (!prisma) throw new Error("Database not available");
-    const user = await prisma.user.create({
-      data: {
-        ...insertUser,
-        password: insertUser.password // Map password correctly
-      }
-    });
-    return convertPrismaUser(user);
+  async updateHold(id: string, updates: Partial<Pick<Hold, "status" | "readyAt" | "pickupDeadline" | "closedAt" | "itemId">>): Promise<Hold | null> {
+    const hold = this.holds.get(id);
+    if (!hold) return null;
+
+    const updatedHold = { ...hold, ...updates };
+    this.holds.set(id, updatedHold);
+    return updatedHold;
   }
 
-  async updateUserRole(userId: string, role: Role): Promise<User | null> {
-    try {
-      if (!prisma) return null;
-      const user = await prisma.user.update({
-        where: { id: userId },
-        data: { role: role as any }
-      });
-      return convertPrismaUser(user);
-    } catch (error) {
-      return null;
-    }
+  // Fines & fees ledger methods
+  async createLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    const entry: LedgerEntry = {
+      id: nanoid(),
+      ...insertEntry,
+      category: insertEntry.category || null,
+      transactionId: insertEntry.transactionId || null,
+      relatedEntryId: insertEntry.relatedEntryId || null,
+      recordedBy: insertEntry.recordedBy || null,
+      createdAt: new Date(),
+    };
+    this.ledgerEntries.set(entry.id, entry);
+    return entry;
   }
 
-  async updateProfile(userId: string, profile: UpdateProfile): Promise<User | null> {
-    try {
-      if (!prisma) return null;
-      const user = await prisma.user.update({
-        where: { id: userId },
-        data: profile
-      });
+  async getLedgerEntry(id: string): Promise<LedgerEntry | null> {
+    return this.ledgerEntries.get(id) || null;
+  }
+
+  async getUserLedger(userId: string): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAllLedgerEntries(): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getUserFineBalance(userId: string): Promise<number> {
+    return sumLedgerBalance(await this.getUserLedger(userId));
+  }
+
+  async getFineSettings(): Promise<FineSettings> {
+    return this.fineSettings || { id: "default", ...DEFAULT_FINE_SETTINGS, updatedAt: new Date(0) };
+  }
+
+  async updateFineSettings(settings: Partial<UpdateFineSettings>): Promise<FineSettings> {
+    const current = await this.getFineSettings();
+    this.fineSettings = { ...current, ...settings, updatedAt: new Date() };
+    return this.fineSettings;
+  }
+
+  // Circulation policy methods
+  async getCirculationPolicies(): Promise<CirculationPolicy[]> {
+    return Array.from(this.circulationPolicies.values());
+  }
+
+  async saveCirculationPolicy(insertPolicy: InsertCirculationPolicy): Promise<CirculationPolicy> {
+    // One policy per role and category: saving again replaces it
+    const category = insertPolicy.category || null;
+    const existing = Array.from(this.circulationPolicies.values())
+      .find(policy => policy.role === insertPolicy.role && (policy.category || null) === category);
+
+    const policy: CirculationPolicy = {
+      id: existing?.id || nanoid(),
+      ...insertPolicy,
+      category,
+      updatedAt: new Date(),
+    };
+    this.circulationPolicies.set(policy.id, policy);
+    return policy;
+  }
+
+  async deleteCirculationPolicy(id: string): Promise<boolean> {
+    return this.circulationPolicies.delete(id);
+  }
+
+  // Academic calendar methods
+  async getCalendarEvents(): Promise<CalendarEvent[]> {
+    return Array.from(this.calendarEvents.values())
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  async createCalendarEvent(insertEvent: InsertCalendarEvent): Promise<CalendarEvent> {
+    const event: CalendarEvent = { id: nanoid(), ...insertEvent, createdAt: new Date(), updatedAt: new Date() };
+    this.calendarEvents.set(event.id, event);
+    return event;
+  }
+
+  async updateCalendarEvent(id: string, updates: Partial<InsertCalendarEvent>): Promise<CalendarEvent | null> {
+    const event = this.calendarEvents.get(id);
+    if (!event) return null;
+    const updated = { ...event, ...updates, updatedAt: new Date() };
+    this.calendarEvents.set(id, updated);
+    return updated;
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    return this.calendarEvents.delete(id);
+  }
+
+  // Report schedule methods
+  async getReportSchedules(): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createReportSchedule(insertSchedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const schedule: ReportSchedule = { id: nanoid(), ...insertSchedule, createdAt: new Date(), updatedAt: new Date() };
+    this.reportSchedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  async updateReportSchedule(id: string, updates: Partial<InsertReportSchedule>): Promise<ReportSchedule | null> {
+    const schedule = this.reportSchedules.get(id);
+    if (!schedule) return null;
+    const updated = { ...schedule, ...updates, updatedAt: new Date() };
+    this.reportSchedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteReportSchedule(id: string): Promise<boolean> {
+    return this.reportSchedules.delete(id);
+  }
+
+  // Audit log methods
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const log: AuditLog = { id: nanoid(), ...entry, createdAt: new Date() };
+    this.auditLogs.set(log.id, log);
+    return log;
+  }
+
+  async getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    const actor = filter.actor?.toLowerCase();
+    return Array.from(this.auditLogs.values())
+      .filter(log =>
+        (!actor || (log.actorUsername || "").toLowerCase().includes(actor)) &&
+        (!filter.action || log.action === filter.action) &&
+        (!filter.entityType || log.entityType === filter.entityType) &&
+        (!filter.entityId || log.entityId === filter.entityId) &&
+        (!filter.from || log.createdAt >= filter.from) &&
+        (!filter.to || log.createdAt <= filter.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filter.limit || DEFAULT_AUDIT_LOG_LIMIT);
+  }
+
+  // AI usage methods
+  async createAIUsageRecord(insertRecord: InsertAIUsageRecord): Promise<AIUsageRecord> {
+    const record: AIUsageRecord = { id: nanoid(), ...insertRecord, createdAt: new Date() };
+    this.aiUsageRecords.push(record);
+    return record;
+  }
+
+  async getAIUsageRecords(filter: AIUsageFilter): Promise<AIUsageRecord[]> {
+    return this.aiUsageRecords.filter(record =>
+      (!filter.userId || record.userId === filter.userId) &&
+      (!filter.from || record.createdAt >= filter.from) &&
+      (!filter.to || record.createdAt <= filter.to)
+    );
+  }
+
+  async getAIQuotas(): Promise<AIQuota[]> {
+    return Array.from(this.aiQuotas.values());
+  }
+
+  async saveAIQuota(insertQuota: InsertAIQuota): Promise<AIQuota> {
+    // One quota per role: saving again replaces it
+    const existing = Array.from(this.aiQuotas.values()).find(quota => quota.role === insertQuota.role);
+    const quota: AIQuota = { id: existing?.id || nanoid(), ...insertQuota, updatedAt: new Date() };
+    this.aiQuotas.set(quota.id, quota);
+    return quota;
+  }
+
+  async deleteAIQuota(id: string): Promise<boolean> {
+    return this.aiQuotas.delete(id);
+  }
+
+  async reserveAIRequest(userId: string, day: string, limit: number | null): Promise<number | null> {
+    // Nothing is awaited between the check and the increment, so two requests cannot take the last unit
+    const key = `${userId}:${day}`;
+    const used = this.aiRequestCounts.get(key) || 0;
+    if (limit !== null && used >= limit) return null;
+    this.aiRequestCounts.set(key, used + 1);
+    return used + 1;
+  }
+
+  async getAIRequestCount(userId: string, day: string): Promise<number> {
+    return this.aiRequestCounts.get(`${userId}:${day}`) || 0;
+  }
+}
+
+
+export class DatabaseStorage implements IStorage {
+  private policyEngine = new CirculationPolicyEngine(this);
+  // Due dates on closed days move to the next open one
+  private calendar = new CalendarService(this);
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = MongoStore.create({
+      mongoUrl: process.env.MONGODB_URI!,
+      touchAfter: 24 * 3600 // lazy session update
+    });
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | null> {
+    if (!prisma) return null;
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+    return user ? convertPrismaUser(user) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    if (!prisma) return null;
+    const user = await prisma.user.findUnique({
+      where: { username }
+    });
+    return user ? convertPrismaUser(user) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    if (!prisma) return null;
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+    return user ? convertPrismaUser(user) : null;
+  }
+
+  async getUserByRegisterNumber(registerNumber: string): Promise<User | null> {
+    if (!prisma) return null;
+    const user = await prisma.user.findFirst({
+      where: { studentId: registerNumber }
+    });
+    return user ? convertPrismaUser(user) : null;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (!prisma) throw new Error("Database not available");
+    const user = await prisma.user.create({
+      data: {
+        ...insertUser,
+        password: insertUser.password // Map password correctly
+      }
+    });
+    return convertPrismaUser(user);
+  }
+
+  async updateUserRole(userId: string, role: Role): Promise<User | null> {
+    try {
+      if (!prisma) return null;
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: { role: role as any }
+      });
+      return convertPrismaUser(user);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async updateProfile(userId: string, profile: UpdateProfile): Promise<User | null> {
+    try {
+      if (!prisma) return null;
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: profile
+      });
       return convertPrismaUser(user);
     } catch (error) {
       return null;
@@ -985,6 +1914,28 @@ export class DatabaseStorage implements IStorage {
     return users.map(convertPrismaUser);
   }
 
+  async listUsers(query: UserListQuery): Promise<Page<User>> {
+    if (!prisma) return toPage([], 0, query);
+    const where = {
+      AND: [
+        ...(query.role ? [{ role: query.role }] : []),
+        ...(query.search ? [{
+          OR: [
+            { fullName: containsInsensitive(query.search) },
+            { username: containsInsensitive(query.search) },
+            { email: containsInsensitive(query.search) },
+            { studentId: containsInsensitive(query.search) }
+          ]
+        }] : [])
+      ]
+    };
+    const [total, users] = await Promise.all([
+      prisma.user.count({ where }),
+      prisma.user.findMany({ where, ...pageArgs(query) })
+    ]);
+    return toPage(users.map(convertPrismaUser), total, query);
+  }
+
   async getStudents(): Promise<User[]> {
     if (!prisma) return [];
     const users = await prisma.user.findMany({
@@ -998,37 +1949,75 @@ export class DatabaseStorage implements IStorage {
   async getBook(id: string): Promise<Book | null> {
     if (!prisma) return null;
     const book = await prisma.book.findUnique({
-      where: { id }
+      where: { id },
+      ...BOOK_WITH_ITEMS
     });
     return book ? convertPrismaBook(book) : null;
   }
 
+  async getBooksByIds(ids: string[]): Promise<Book[]> {
+    if (!prisma || ids.length === 0) return [];
+    const books = await prisma.book.findMany({
+      where: { id: { in: ids } },
+      ...BOOK_WITH_ITEMS
+    });
+    return books.map(convertPrismaBook);
+  }
+
   async getAllBooks(): Promise<Book[]> {
     if (!prisma) return [];
     const books = await prisma.book.findMany({
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      ...BOOK_WITH_ITEMS
     });
     return books.map(convertPrismaBook);
   }
 
+  async listBooks(query: BookListQuery): Promise<Page<Book>> {
+    if (!prisma) return toPage([], 0, query);
+    const where = {
+      AND: [
+        ...(query.category ? [{ category: { equals: query.category, mode: 'insensitive' as const } }] : []),
+        ...(query.available ? [{ items: { some: { status: ItemStatus.AVAILABLE } } }] : []),
+        ...(query.search ? [{
+          OR: [
+            { title: containsInsensitive(query.search) },
+            { author: containsInsensitive(query.search) },
+            { isbn: containsInsensitive(query.search) }
+          ]
+        }] : [])
+      ]
+    };
+    const [total, books] = await Promise.all([
+      prisma.book.count({ where }),
+      prisma.book.findMany({ where, ...pageArgs(query), ...BOOK_WITH_ITEMS })
+    ]);
+    return toPage(books.map(convertPrismaBook), total, query);
+  }
+
   async getAvailableBooks(): Promise<Book[]> {
     if (!prisma) return [];
     const books = await prisma.book.findMany({
       where: {
-        availableCopies: { gt: 0 }
+        items: { some: { status: ItemStatus.AVAILABLE } }
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      ...BOOK_WITH_ITEMS
     });
     return books.map(convertPrismaBook);
   }
 
   async createBook(insertBook: InsertBook): Promise<Book> {
     if (!prisma) throw new Error("Database not available");
+    const { totalCopies, ...bookData } = insertBook;
     const book = await prisma.book.create({
       data: {
-        ...insertBook,
-        availableCopies: insertBook.totalCopies
-      }
+        ...bookData,
+        items: {
+          create: Array.from({ length: totalCopies }, () => ({ barcode: generateBarcode() }))
+        }
+      },
+      ...BOOK_WITH_ITEMS
     });
     return convertPrismaBook(book);
   }
@@ -1036,9 +2025,15 @@ export class DatabaseStorage implements IStorage {
   async updateBook(id: string, bookData: Partial<InsertBook>): Promise<Book | null> {
     try {
       if (!prisma) return null;
+      const { totalCopies, ...details } = bookData;
+      if (totalCopies !== undefined) {
+        await this.adjustCopyCount(id, totalCopies);
+      }
+
       const book = await prisma.book.update({
         where: { id },
-        data: bookData
+        data: details,
+        ...BOOK_WITH_ITEMS
       });
       return convertPrismaBook(book);
     } catch (error) {
@@ -1047,8 +2042,35 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBook(id: string): Promise<boolean> {
+    if (!prisma) return false;
+    const [copiesOut, openLoans] = await Promise.all([
+      prisma.item.count({
+        where: { bookId: id, status: { in: [ItemStatus.ON_LOAN, ItemStatus.ON_HOLD] } }
+      }),
+      prisma.transaction.count({
+        where: { bookId: id, status: { in: [TransactionStatus.BORROWED, TransactionStatus.OVERDUE] } }
+      })
+    ]);
+    if (copiesOut > 0 || openLoans > 0) {
+      throw new BookInUseError("Copies of this book are on loan or on the hold shelf");
+    }
+
     try {
-      if (!prisma) return false;
+      await prisma.item.deleteMany({
+        where: { bookId: id }
+      });
+      await prisma.bookEmbedding.deleteMany({
+        where: { bookId: id }
+      });
+      await prisma.bookAIContentVersion.deleteMany({
+        where: { bookId: id }
+      });
+      await prisma.quizAttempt.deleteMany({
+        where: { bookId: id }
+      });
+      await prisma.quizReviewItem.deleteMany({
+        where: { bookId: id }
+      });
       await prisma.book.delete({
         where: { id }
       });
@@ -1058,30 +2080,170 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateBookAvailability(bookId: string, change: number): Promise<boolean> {
+  // Item (copy) methods
+  async createItem(insertItem: InsertItem): Promise<Item> {
+    if (!prisma) throw new Error("Database not available");
+    const item = await prisma.item.create({
+      data: {
+        ...insertItem,
+        barcode: insertItem.barcode || generateBarcode()
+      }
+    });
+    return convertPrismaItem(item);
+  }
+
+  async getItem(id: string): Promise<Item | null> {
+    try {
+      if (!prisma) return null;
+      const item = await prisma.item.findUnique({
+        where: { id }
+      });
+      return item ? convertPrismaItem(item) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getItemByBarcode(barcode: string): Promise<Item | null> {
+    if (!prisma) return null;
+    const item = await prisma.item.findUnique({
+      where: { barcode }
+    });
+    return item ? convertPrismaItem(item) : null;
+  }
+
+  async getItemsByBook(bookId: string): Promise<Item[]> {
+    if (!prisma) return [];
+    const items = await prisma.item.findMany({
+      where: { bookId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return items.map(convertPrismaItem);
+  }
+
+  async updateItem(id: string, updates: ItemUpdate): Promise<Item | null> {
     try {
-      if (!prisma) return false;
-      await prisma.book.update({
-        where: { id: bookId },
-        data: {
-          availableCopies: {
-            increment: change
-          }
-        }
+      if (!prisma) return null;
+      const item = await prisma.item.update({
+        where: { id },
+        data: updates
       });
-      return true;
+      return convertPrismaItem(item);
     } catch (error) {
-      return false;
+      return null;
+    }
+  }
+
+  /**
+   * One-off migration for books created before item tracking: creates one item per legacy
+   * totalCopies and marks copies with an open loan as ON_LOAN. Returns the number of items created.
+   */
+  async backfillBookItems(): Promise<number> {
+    if (!prisma) return 0;
+    const books = await prisma.book.findMany({
+      where: { items: { none: {} }, legacyTotalCopies: { gt: 0 } }
+    });
+
+    let created = 0;
+    for (const book of books) {
+      const openLoans = await prisma.transaction.findMany({
+        where: { bookId: book.id, status: { in: [TransactionStatus.BORROWED, TransactionStatus.OVERDUE] } }
+      });
+
+      const copies = Math.max(book.legacyTotalCopies ?? 0, openLoans.length);
+      for (let i = 0; i < copies; i++) {
+        const loan = openLoans[i];
+        const item = await this.createItem({
+          bookId: book.id,
+          status: loan ? ItemStatus.ON_LOAN : ItemStatus.AVAILABLE
+        });
+        if (loan) {
+          await prisma.transaction.update({
+            where: { id: loan.id },
+            data: { itemId: item.id }
+          });
+        }
+        created++;
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Add copies, or withdraw available copies, until the book has the requested number of copies
+   */
+  private async adjustCopyCount(bookId: string, totalCopies: number): Promise<void> {
+    const items = await this.getItemsByBook(bookId);
+    const current = countCopies(items).totalCopies;
+
+    for (let i = current; i < totalCopies; i++) {
+      await this.createItem({ bookId });
+    }
+
+    const removable = items.filter(item => item.status === ItemStatus.AVAILABLE).slice(0, Math.max(0, current - totalCopies));
+    for (const item of removable) {
+      await this.updateItem(item.id, { status: ItemStatus.WITHDRAWN });
+    }
+  }
+
+  /**
+   * Whether a copy can be lent to the patron: it is on the shelf, or on the hold shelf for their ready hold
+   */
+  private async isLendableTo(item: Item, userId: string): Promise<boolean> {
+    if (item.status === ItemStatus.AVAILABLE) return true;
+    if (item.status !== ItemStatus.ON_HOLD) return false;
+    const holds = await this.getHoldsByBook(item.bookId);
+    return holds.some(hold => hold.status === HoldStatus.READY && hold.itemId === item.id && hold.userId === userId);
+  }
+
+  /**
+   * Mark a copy as on loan to the patron and record the loan for it: the given item if it is on the shelf or set
+   * aside for them on the hold shelf, otherwise any available copy. If the loan cannot be recorded, the copy is
+   * put back where it was
+   */
+  private async checkOutItem<T>(bookId: string, userId: string, itemId: string | undefined, createLoan: (item: Item) => Promise<T>): Promise<T> {
+    if (!prisma) throw new Error("Database not available");
+    const available = itemId ? null : await prisma.item.findFirst({
+      where: { bookId, status: ItemStatus.AVAILABLE },
+      orderBy: { createdAt: 'asc' }
+    });
+    const item = itemId ? await this.getItem(itemId) : available && convertPrismaItem(available);
+
+    if (!item || item.bookId !== bookId || !(await this.isLendableTo(item, userId))) {
+      throw new Error("No available copy of this book");
+    }
+
+    // Only claim the copy if nobody else did in the meantime
+    const claimed = await prisma.item.updateMany({
+      where: { id: item.id, status: item.status },
+      data: { status: ItemStatus.ON_LOAN }
+    });
+    if (claimed.count === 0) {
+      throw new Error("No available copy of this book");
+    }
+
+    try {
+      return await createLoan(convertPrismaItem({ ...item, status: ItemStatus.ON_LOAN }));
+    } catch (error) {
+      await prisma.item.updateMany({
+        where: { id: item.id, status: ItemStatus.ON_LOAN },
+        data: { status: item.status }
+      });
+      throw error;
     }
   }
 
   // Transaction methods
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
     if (!prisma) throw new Error("Database not available");
-    const transaction = await prisma.transaction.create({
-      data: insertTransaction,
-      include: { book: true, user: true }
-    });
+    await this.policyEngine.assertCanBorrow(insertTransaction.userId, insertTransaction.bookId);
+    const dueDate = await this.calendar.rollForward(new Date(insertTransaction.dueDate));
+    const transaction = await this.checkOutItem(insertTransaction.bookId, insertTransaction.userId, insertTransaction.itemId, async item =>
+      prisma.transaction.create({
+        data: { ...insertTransaction, itemId: item.id, dueDate },
+        include: { book: BOOK_WITH_ITEMS, user: true }
+      })
+    );
 
     // Create notification and send push notification for book borrowed
     const { PushNotificationService } = await import('./push-service');
@@ -1094,11 +2256,23 @@ export class DatabaseStorage implements IStorage {
     return convertPrismaTransaction(transaction);
   }
 
+  async getTransaction(id: string): Promise<Transaction | null> {
+    try {
+      if (!prisma) return null;
+      const transaction = await prisma.transaction.findUnique({
+        where: { id }
+      });
+      return transaction ? convertPrismaTransaction(transaction) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   async getUserTransactions(userId: string): Promise<TransactionWithBook[]> {
     if (!prisma) return [];
     const transactions = await prisma.transaction.findMany({
-      where: { userId },
-      include: { book: true },
+      where: { userId, status: { not: TransactionStatus.CANCELLED } },
+      include: { book: BOOK_WITH_ITEMS },
       orderBy: { borrowedDate: 'desc' }
     });
     return transactions.map(t => ({
@@ -1110,9 +2284,10 @@ export class DatabaseStorage implements IStorage {
   async getAllTransactions(): Promise<TransactionWithUserAndBook[]> {
     if (!prisma) return [];
     const transactions = await prisma.transaction.findMany({
+      where: { status: { not: TransactionStatus.CANCELLED } },
       include: { 
         user: true, 
-        book: true 
+        book: BOOK_WITH_ITEMS 
       },
       orderBy: { borrowedDate: 'desc' }
     });
@@ -1123,6 +2298,41 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async listTransactions(query: TransactionListQuery): Promise<Page<TransactionWithUserAndBook>> {
+    if (!prisma) return toPage([], 0, query);
+    const borrowedDate = dateRange(query.from, query.to);
+    const where = {
+      AND: [
+        ...(query.status ? [{ status: query.status }] : []),
+        ...(query.active ? [{ status: { in: [TransactionStatus.BORROWED, TransactionStatus.OVERDUE] } }] : []),
+        ...(query.userId ? [{ userId: query.userId }] : []),
+        ...(query.bookId ? [{ bookId: query.bookId }] : []),
+        ...(borrowedDate ? [{ borrowedDate }] : []),
+        ...(query.search ? [{
+          OR: [
+            { user: { is: { fullName: containsInsensitive(query.search) } } },
+            { user: { is: { username: containsInsensitive(query.search) } } },
+            { book: { is: { title: containsInsensitive(query.search) } } },
+            { book: { is: { author: containsInsensitive(query.search) } } }
+          ]
+        }] : [])
+      ]
+    };
+    const [total, transactions] = await Promise.all([
+      prisma.transaction.count({ where }),
+      prisma.transaction.findMany({
+        where,
+        include: { user: true, book: BOOK_WITH_ITEMS },
+        ...pageArgs(query)
+      })
+    ]);
+    return toPage(transactions.map((t: any) => ({
+      ...convertPrismaTransaction(t),
+      user: convertPrismaUser(t.user),
+      book: convertPrismaBook(t.book)
+    })), total, query);
+  }
+
   async updateTransactionStatus(id: string, status: TransactionStatus, returnedDate?: Date): Promise<Transaction | null> {
     try {
       const updateData: any = { status };
@@ -1133,7 +2343,7 @@ export class DatabaseStorage implements IStorage {
       const transaction = await prisma.transaction.update({
         where: { id },
         data: updateData,
-        include: { book: true, user: true }
+        include: { book: BOOK_WITH_ITEMS, user: true }
       });
 
       // Create notification and send push notification for book returned
@@ -1155,11 +2365,11 @@ export class DatabaseStorage implements IStorage {
   async getActiveTransactions(): Promise<TransactionWithUserAndBook[]> {
     const transactions = await prisma.transaction.findMany({
       where: { 
-        status: TransactionStatus.BORROWED 
+        status: { in: [TransactionStatus.BORROWED, TransactionStatus.OVERDUE] }
       },
       include: { 
         user: true, 
-        book: true 
+        book: BOOK_WITH_ITEMS 
       },
       orderBy: { borrowedDate: 'desc' }
     });
@@ -1170,20 +2380,125 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  // Book Request methods
-  async createBookRequest(insertRequest: InsertBookRequest): Promise<BookRequest> {
-    const request = await prisma.bookRequest.create({
-      data: insertRequest
-    });
-    return convertPrismaBookRequest(request);
-  }
-
-  async getBookRequestsByUser(userId: string): Promise<BookRequestWithBook[]> {
-    const requests = await prisma.bookRequest.findMany({
-      where: { userId },
-      include: { book: true },
-      orderBy: { requestDate: 'desc' }
-    });
+  async markTransactionReminderSent(id: string, reminder: "DUE_SOON" | "OVERDUE"): Promise<Transaction | null> {
+    try {
+      const transaction = await prisma.transaction.update({
+        where: { id },
+        data: reminder === "DUE_SOON" ? { dueSoonNotifiedAt: new Date() } : { overdueNotifiedAt: new Date() }
+      });
+      return convertPrismaTransaction(transaction);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async renewTransaction(id: string, newDueDate: Date, method: RenewalMethod, approvedBy?: string): Promise<Transaction | null> {
+    try {
+      const existing = await prisma.transaction.findUnique({ where: { id } });
+      if (!existing || existing.status === TransactionStatus.RETURNED) {
+        return null;
+      }
+      const transaction = convertPrismaTransaction(existing);
+
+      // Throws a PolicyViolationError once the renewal limit is used up
+      await this.policyEngine.assertCanRenew(transaction);
+      newDueDate = await this.calendar.rollForward(newDueDate);
+
+      const renewal: Renewal = {
+        renewedAt: new Date(),
+        previousDueDate: transaction.dueDate,
+        newDueDate,
+        method,
+        approvedBy: approvedBy || null
+      };
+
+      // Move the due date and re-arm reminders for it
+      const updated = await prisma.transaction.update({
+        where: { id },
+        data: {
+          dueDate: newDueDate,
+          renewalCount: { increment: 1 },
+          renewals: [...(transaction.renewals || []), renewal].map(item => ({
+            ...item,
+            renewedAt: item.renewedAt.toISOString(),
+            previousDueDate: item.previousDueDate.toISOString(),
+            newDueDate: item.newDueDate.toISOString()
+          })),
+          ...(newDueDate > new Date() && { status: TransactionStatus.BORROWED }),
+          dueSoonNotifiedAt: null,
+          overdueNotifiedAt: null
+        }
+      });
+      return convertPrismaTransaction(updated);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) throw error;
+      return null;
+    }
+  }
+
+  // Puts a returned loan back on the borrower's account, e.g. when a check-in is undone
+  async reopenTransaction(id: string): Promise<Transaction | null> {
+    try {
+      const existing = await prisma.transaction.findUnique({ where: { id } });
+      if (!existing || existing.status !== TransactionStatus.RETURNED) {
+        return null;
+      }
+
+      const transaction = await prisma.transaction.update({
+        where: { id },
+        data: {
+          status: existing.dueDate < new Date() ? TransactionStatus.OVERDUE : TransactionStatus.BORROWED,
+          returnedDate: null
+        }
+      });
+      return convertPrismaTransaction(transaction);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Voids a loan that was checked out by mistake; only a loan that is not yet overdue can be cancelled
+  async cancelTransaction(id: string): Promise<Transaction | null> {
+    try {
+      const { count } = await prisma.transaction.updateMany({
+        where: { id, status: TransactionStatus.BORROWED },
+        data: { status: TransactionStatus.CANCELLED }
+      });
+      if (count === 0) return null;
+
+      const transaction = await prisma.transaction.findUnique({ where: { id } });
+      return transaction ? convertPrismaTransaction(transaction) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Book Request methods
+  async createBookRequest(insertRequest: InsertBookRequest): Promise<BookRequest> {
+    const request = await prisma.bookRequest.create({
+      data: insertRequest
+    });
+    return convertPrismaBookRequest(request);
+  }
+
+  async getBookRequest(id: string): Promise<BookRequest | null> {
+    try {
+      if (!prisma) return null;
+      const request = await prisma.bookRequest.findUnique({
+        where: { id }
+      });
+      return request ? convertPrismaBookRequest(request) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getBookRequestsByUser(userId: string): Promise<BookRequestWithBook[]> {
+    const requests = await prisma.bookRequest.findMany({
+      where: { userId },
+      include: { book: BOOK_WITH_ITEMS },
+      orderBy: { requestDate: 'desc' }
+    });
     return requests.map(r => ({
       ...convertPrismaBookRequest(r),
       book: convertPrismaBook(r.book)
@@ -1194,7 +2509,7 @@ export class DatabaseStorage implements IStorage {
     const requests = await prisma.bookRequest.findMany({
       include: { 
         user: true, 
-        book: true 
+        book: BOOK_WITH_ITEMS 
       },
       orderBy: { requestDate: 'desc' }
     });
@@ -1205,6 +2520,40 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async listBookRequests(query: BookRequestListQuery): Promise<Page<BookRequestWithUserAndBook>> {
+    if (!prisma) return toPage([], 0, query);
+    const requestDate = dateRange(query.from, query.to);
+    const where = {
+      AND: [
+        ...(query.status ? [{ status: query.status }] : []),
+        ...(query.userId ? [{ userId: query.userId }] : []),
+        ...(query.bookId ? [{ bookId: query.bookId }] : []),
+        ...(requestDate ? [{ requestDate }] : []),
+        ...(query.search ? [{
+          OR: [
+            { user: { is: { fullName: containsInsensitive(query.search) } } },
+            { user: { is: { username: containsInsensitive(query.search) } } },
+            { book: { is: { title: containsInsensitive(query.search) } } },
+            { book: { is: { author: containsInsensitive(query.search) } } }
+          ]
+        }] : [])
+      ]
+    };
+    const [total, requests] = await Promise.all([
+      prisma.bookRequest.count({ where }),
+      prisma.bookRequest.findMany({
+        where,
+        include: { user: true, book: BOOK_WITH_ITEMS },
+        ...pageArgs(query)
+      })
+    ]);
+    return toPage(requests.map((r: any) => ({
+      ...convertPrismaBookRequest(r),
+      user: convertPrismaUser(r.user),
+      book: convertPrismaBook(r.book)
+    })), total, query);
+  }
+
   async getPendingBookRequests(): Promise<BookRequestWithUserAndBook[]> {
     const requests = await prisma.bookRequest.findMany({
       where: { 
@@ -1212,7 +2561,7 @@ export class DatabaseStorage implements IStorage {
       },
       include: { 
         user: true, 
-        book: true 
+        book: BOOK_WITH_ITEMS 
       },
       orderBy: { requestDate: 'desc' }
     });
@@ -1223,11 +2572,11 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async updateBookRequestStatus(id: string, status: BookRequestStatus): Promise<BookRequest | null> {
+  async updateBookRequestStatus(id: string, status: BookRequestStatus, processedBy?: string): Promise<BookRequest | null> {
     try {
       const request = await prisma.bookRequest.update({
         where: { id },
-        data: { status }
+        data: { status, ...(processedBy && { processedBy, processedDate: new Date() }) }
       });
       return convertPrismaBookRequest(request);
     } catch (error) {
@@ -1235,11 +2584,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async rejectBookRequest(requestId: string): Promise<BookRequest | null> {
+  async rejectBookRequest(requestId: string, processedBy?: string): Promise<BookRequest | null> {
     try {
       const request = await prisma.bookRequest.findUnique({
         where: { id: requestId },
-        include: { book: true, user: true }
+        include: { book: BOOK_WITH_ITEMS, user: true }
       });
 
       if (!request) {
@@ -1247,7 +2596,7 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Update request status to rejected
-      const rejectedRequest = await this.updateBookRequestStatus(requestId, BookRequestStatus.REJECTED);
+      const rejectedRequest = await this.updateBookRequestStatus(requestId, BookRequestStatus.REJECTED, processedBy);
 
       // Create notification for rejected request
       await this.createNotification({
@@ -1263,11 +2612,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async approveBookRequest(requestId: string, librarianId: string, customDueDate?: Date): Promise<Transaction | null> {
+  async approveBookRequest(requestId: string, processedBy: string, customDueDate?: Date): Promise<Transaction | null> {
     try {
       const request = await prisma.bookRequest.findUnique({
         where: { id: requestId },
-        include: { book: true, user: true }
+        include: { book: BOOK_WITH_ITEMS, user: true }
       });
 
       if (!request || request.status !== BookRequestStatus.PENDING) {
@@ -1275,31 +2624,28 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Check if book is available
-      if (request.book.availableCopies <= 0) {
+      if (convertPrismaBook(request.book).availableCopies <= 0) {
         return null;
       }
 
-      // Create transaction with custom due date or default 14 days
-      const dueDate = customDueDate || (() => {
-        const defaultDue = new Date();
-        defaultDue.setDate(defaultDue.getDate() + 14);
-        return defaultDue;
-      })();
-
-      const transaction = await prisma.transaction.create({
-        data: {
-          userId: request.userId,
-          bookId: request.bookId,
-          dueDate,
-          status: TransactionStatus.BORROWED
-        }
-      });
-
-      // Update book availability
-      await this.updateBookAvailability(request.bookId, -1);
+      // Throws a PolicyViolationError for fines or loan limits; the policy sets the default loan period
+      const policy = await this.policyEngine.assertCanBorrow(request.userId, request.bookId);
+      const dueDate = await this.calendar.rollForward(customDueDate || this.policyEngine.dueDateFor(policy));
+
+      const transaction = await this.checkOutItem(request.bookId, request.userId, undefined, async item =>
+        prisma.transaction.create({
+          data: {
+            userId: request.userId,
+            bookId: request.bookId,
+            itemId: item.id,
+            dueDate,
+            status: TransactionStatus.BORROWED
+          }
+        })
+      );
 
       // Update request status
-      await this.updateBookRequestStatus(requestId, BookRequestStatus.FULFILLED);
+      await this.updateBookRequestStatus(requestId, BookRequestStatus.FULFILLED, processedBy);
 
       // Create notification for book borrowed via request approval
       await this.createNotification({
@@ -1311,6 +2657,7 @@ export class DatabaseStorage implements IStorage {
 
       return convertPrismaTransaction(transaction);
     } catch (error) {
+      if (error instanceof PolicyViolationError) throw error;
       return null;
     }
   }
@@ -1323,13 +2670,25 @@ export class DatabaseStorage implements IStorage {
     return convertPrismaExtensionRequest(extensionRequest);
   }
 
+  async getExtensionRequest(id: string): Promise<ExtensionRequest | null> {
+    try {
+      if (!prisma) return null;
+      const request = await prisma.extensionRequest.findUnique({
+        where: { id }
+      });
+      return request ? convertPrismaExtensionRequest(request) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   async getExtensionRequestsByUser(userId: string): Promise<ExtensionRequestWithUserAndTransaction[]> {
     const requests = await (prisma as any).extensionRequest.findMany({
       where: { userId },
       include: {
         user: true,
         transaction: {
-          include: { book: true }
+          include: { book: BOOK_WITH_ITEMS }
         }
       },
       orderBy: { requestDate: 'desc' }
@@ -1350,7 +2709,7 @@ export class DatabaseStorage implements IStorage {
       include: {
         user: true,
         transaction: {
-          include: { book: true }
+          include: { book: BOOK_WITH_ITEMS }
         }
       },
       orderBy: { requestDate: 'desc' }
@@ -1372,7 +2731,7 @@ export class DatabaseStorage implements IStorage {
       include: {
         user: true,
         transaction: {
-          include: { book: true }
+          include: { book: BOOK_WITH_ITEMS }
         }
       },
       orderBy: { requestDate: 'desc' }
@@ -1392,18 +2751,18 @@ export class DatabaseStorage implements IStorage {
     try {
       const request = await (prisma as any).extensionRequest.findUnique({
         where: { id: requestId },
-        include: { transaction: { include: { book: true } }, user: true }
+        include: { transaction: { include: { book: BOOK_WITH_ITEMS } }, user: true }
       });
 
       if (!request || request.status !== ExtensionRequestStatus.PENDING) {
         return null;
       }
 
-      // Update the transaction's due date with the custom date
-      await prisma.transaction.update({
-        where: { id: request.transactionId },
-        data: { dueDate: customDueDate }
-      });
+      // An extension is a renewal: counted against the policy limit and recorded in the loan's history
+      const transaction = await this.renewTransaction(request.transactionId, customDueDate, RenewalMethod.EXTENSION_REQUEST, processedBy);
+      if (!transaction) {
+        return null;
+      }
 
       // Update extension request status
       const updatedRequest = await (prisma as any).extensionRequest.update({
@@ -1419,12 +2778,13 @@ export class DatabaseStorage implements IStorage {
       const { PushNotificationService } = await import('./push-service');
       await PushNotificationService.sendNotificationToUser(request.userId, {
         title: "Extension Request Approved",
-        message: `Your extension request for "${request.transaction.book.title}" has been approved. New due date: ${customDueDate.toLocaleDateString()}`,
+        message: `Your extension request for "${request.transaction.book.title}" has been approved. New due date: ${new Date(transaction.dueDate).toLocaleDateString()}`,
         type: "EXTENSION_REQUEST_APPROVED" as any
       });
 
       return convertPrismaExtensionRequest(updatedRequest);
     } catch (error) {
+      if (error instanceof PolicyViolationError) throw error;
       return null;
     }
   }
@@ -1433,7 +2793,7 @@ export class DatabaseStorage implements IStorage {
     try {
       const request = await (prisma as any).extensionRequest.findUnique({
         where: { id: requestId },
-        include: { transaction: { include: { book: true } }, user: true }
+        include: { transaction: { include: { book: BOOK_WITH_ITEMS } }, user: true }
       });
 
       if (!request || request.status !== ExtensionRequestStatus.PENDING) {
@@ -1478,6 +2838,27 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async listNotifications(userId: string, query: NotificationListQuery): Promise<Page<Notification>> {
+    const where = {
+      AND: [
+        { userId },
+        ...(query.type ? [{ type: query.type }] : []),
+        ...(query.isRead !== undefined ? [{ isRead: query.isRead }] : []),
+        ...(query.search ? [{
+          OR: [
+            { title: containsInsensitive(query.search) },
+            { message: containsInsensitive(query.search) }
+          ]
+        }] : [])
+      ]
+    };
+    const [total, notifications] = await Promise.all([
+      prisma.notification.count({ where }),
+      prisma.notification.findMany({ where, ...pageArgs(query) })
+    ]);
+    return toPage(notifications, total, query);
+  }
+
   async markNotificationAsRead(id: string): Promise<Notification | null> {
     try {
       return await prisma.notification.update({
@@ -1594,6 +2975,209 @@ export class DatabaseStorage implements IStorage {
     return contents.map(convertPrismaBookAIContent);
   }
 
+  // AI content version methods - MongoDB implementation
+  async createAIContentVersion(version: InsertBookAIContentVersion): Promise<BookAIContentVersion> {
+    if (!prisma) throw new Error("Database not available");
+    const created = await prisma.bookAIContentVersion.create({
+      data: version
+    });
+    return convertPrismaAIContentVersion(created);
+  }
+
+  async getAIContentVersion(id: string): Promise<BookAIContentVersion | null> {
+    if (!prisma) return null;
+    const version = await prisma.bookAIContentVersion.findUnique({
+      where: { id }
+    });
+    return version ? convertPrismaAIContentVersion(version) : null;
+  }
+
+  async getAIContentVersions(filter: { bookId?: string; status?: AIContentStatus }): Promise<BookAIContentVersion[]> {
+    if (!prisma) return [];
+    const versions = await prisma.bookAIContentVersion.findMany({
+      where: {
+        ...(filter.bookId && { bookId: filter.bookId }),
+        ...(filter.status && { status: filter.status })
+      },
+      orderBy: [{ createdAt: 'desc' }, { version: 'desc' }]
+    });
+    return versions.map(convertPrismaAIContentVersion);
+  }
+
+  async updateAIContentVersion(id: string, updates: Partial<Pick<BookAIContentVersion, 'status' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>>): Promise<BookAIContentVersion | null> {
+    try {
+      if (!prisma) return null;
+      const updated = await prisma.bookAIContentVersion.update({
+        where: { id },
+        data: updates
+      });
+      return convertPrismaAIContentVersion(updated);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // AI content job methods - MongoDB implementation
+  async createAIContentJob(job: InsertAIContentJob): Promise<AIContentJob> {
+    if (!prisma) throw new Error("Database not available");
+    const created = await prisma.aIContentJob.create({
+      data: job
+    });
+    return convertPrismaAIContentJob(created);
+  }
+
+  async getAIContentJob(id: string): Promise<AIContentJob | null> {
+    if (!prisma) return null;
+    const job = await prisma.aIContentJob.findUnique({
+      where: { id }
+    });
+    return job ? convertPrismaAIContentJob(job) : null;
+  }
+
+  async getAIContentJobs(filter: { status?: AIContentJobStatus[] } = {}): Promise<AIContentJob[]> {
+    if (!prisma) return [];
+    const jobs = await prisma.aIContentJob.findMany({
+      where: filter.status ? { status: { in: filter.status } } : {},
+      orderBy: { createdAt: 'desc' }
+    });
+    return jobs.map(convertPrismaAIContentJob);
+  }
+
+  async updateAIContentJob(id: string, updates: Partial<Pick<AIContentJob, 'status' | 'total' | 'succeeded' | 'failed' | 'startedAt' | 'finishedAt'>>): Promise<AIContentJob | null> {
+    try {
+      if (!prisma) return null;
+      const updated = await prisma.aIContentJob.update({
+        where: { id },
+        data: updates
+      });
+      return convertPrismaAIContentJob(updated);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async createAIContentJobItems(items: InsertAIContentJobItem[]): Promise<number> {
+    if (!prisma) throw new Error("Database not available");
+    if (items.length === 0) return 0;
+    const result = await prisma.aIContentJobItem.createMany({
+      data: items
+    });
+    return result.count;
+  }
+
+  async getAIContentJobItems(jobId: string, status?: AIContentJobItemStatus): Promise<AIContentJobItem[]> {
+    if (!prisma) return [];
+    const items = await prisma.aIContentJobItem.findMany({
+      where: { jobId, ...(status && { status }) }
+    });
+    return items.map(convertPrismaAIContentJobItem);
+  }
+
+  async updateAIContentJobItem(id: string, updates: Partial<Pick<AIContentJobItem, 'status' | 'attempts' | 'error' | 'finishedAt'>>): Promise<AIContentJobItem | null> {
+    try {
+      if (!prisma) return null;
+      const updated = await prisma.aIContentJobItem.update({
+        where: { id },
+        data: updates
+      });
+      return convertPrismaAIContentJobItem(updated);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Quiz methods - MongoDB implementation
+  async createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    if (!prisma) throw new Error("Database not available");
+    const created = await prisma.quizAttempt.create({
+      data: attempt
+    });
+    return convertPrismaQuizAttempt(created);
+  }
+
+  async getQuizAttempts(filter: { userId?: string; bookId?: string }): Promise<QuizAttempt[]> {
+    if (!prisma) return [];
+    const attempts = await prisma.quizAttempt.findMany({
+      where: {
+        ...(filter.userId && { userId: filter.userId }),
+        ...(filter.bookId && { bookId: filter.bookId })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    return attempts.map(convertPrismaQuizAttempt);
+  }
+
+  async createQuizReviewItem(item: InsertQuizReviewItem): Promise<QuizReviewItem> {
+    if (!prisma) throw new Error("Database not available");
+    const created = await prisma.quizReviewItem.create({
+      data: item
+    });
+    return convertPrismaQuizReviewItem(created);
+  }
+
+  async getQuizReviewItem(id: string): Promise<QuizReviewItem | null> {
+    if (!prisma) return null;
+    const item = await prisma.quizReviewItem.findUnique({
+      where: { id }
+    });
+    return item ? convertPrismaQuizReviewItem(item) : null;
+  }
+
+  async getQuizReviewItems(filter: { userId: string; bookId?: string; dueBefore?: Date }): Promise<QuizReviewItem[]> {
+    if (!prisma) return [];
+    const items = await prisma.quizReviewItem.findMany({
+      where: {
+        userId: filter.userId,
+        ...(filter.bookId && { bookId: filter.bookId }),
+        ...(filter.dueBefore && { dueAt: { lte: filter.dueBefore } })
+      },
+      orderBy: { dueAt: 'asc' }
+    });
+    return items.map(convertPrismaQuizReviewItem);
+  }
+
+  async updateQuizReviewItem(id: string, updates: Partial<Pick<QuizReviewItem, 'box' | 'dueAt' | 'lastReviewedAt' | 'lastScore' | 'expectedAnswer'>>): Promise<QuizReviewItem | null> {
+    try {
+      if (!prisma) return null;
+      const updated = await prisma.quizReviewItem.update({
+        where: { id },
+        data: updates
+      });
+      return convertPrismaQuizReviewItem(updated);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async deleteQuizReviewItem(id: string): Promise<boolean> {
+    try {
+      if (!prisma) return false;
+      await prisma.quizReviewItem.delete({
+        where: { id }
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Book embedding methods - MongoDB implementation
+  async getBookEmbeddings(): Promise<BookEmbedding[]> {
+    if (!prisma) return [];
+    const embeddings = await prisma.bookEmbedding.findMany();
+    return embeddings.map(convertPrismaBookEmbedding);
+  }
+
+  async saveBookEmbedding(embedding: InsertBookEmbedding): Promise<BookEmbedding> {
+    if (!prisma) throw new Error("Database not available");
+    const saved = await prisma.bookEmbedding.upsert({
+      where: { bookId: embedding.bookId },
+      create: embedding,
+      update: { ...embedding, updatedAt: new Date() }
+    });
+    return convertPrismaBookEmbedding(saved);
+  }
+
   // AI Analytics methods - MongoDB implementation
   async createAIAnalytics(analytics: InsertAIAnalytics): Promise<AIAnalytics> {
     if (!prisma) throw new Error("Database not available");
@@ -1676,93 +3260,425 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Chat Session methods
-  async getChatSession(userId: string): Promise<ChatSession | null> {
+  async getChatSessionsByUser(userId: string): Promise<ChatSession[]> {
+    if (!prisma) return [];
+    const sessions = await prisma.chatSession.findMany({
+      where: { userId },
+      orderBy: { lastActivity: 'desc' }
+    });
+    return sessions.map(convertPrismaChatSession);
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | null> {
+    if (!prisma || !isObjectId(id)) return null;
     const session = await (prisma as any).chatSession.findUnique({
-      where: { userId }
+      where: { id }
     });
-    if (!session) return null;
-    
-    return {
-      id: session.id,
-      userId: session.userId,
-      messages: Array.isArray(session.messages) ? session.messages.map((msg: any) => ({
-        role: msg.role,
-        content: msg.content,
-        timestamp: new Date(msg.timestamp)
-      })) : [],
-      lastActivity: session.lastActivity,
-      createdAt: session.createdAt
-    };
+    return session ? convertPrismaChatSession(session) : null;
   }
 
   async createChatSession(sessionData: InsertChatSession): Promise<ChatSession> {
+    if (!prisma) throw new Error("Database not available");
     const session = await (prisma as any).chatSession.create({
       data: {
         userId: sessionData.userId,
+        ...(sessionData.title && { title: sessionData.title }),
         messages: sessionData.messages,
         lastActivity: new Date(),
         createdAt: new Date()
       }
     });
-    
-    return {
-      id: session.id,
-      userId: session.userId,
-      messages: Array.isArray(session.messages) ? session.messages.map((msg: any) => ({
-        role: msg.role,
-        content: msg.content,
-        timestamp: new Date(msg.timestamp)
-      })) : [],
-      lastActivity: session.lastActivity,
-      createdAt: session.createdAt
-    };
+    return convertPrismaChatSession(session);
   }
 
-  async updateChatSession(userId: string, messages: ChatMessage[]): Promise<ChatSession | null> {
+  async updateChatSession(id: string, updates: Partial<Pick<ChatSession, 'title' | 'messages'>>): Promise<ChatSession | null> {
+    if (!prisma) return null;
     try {
-      const session = await (prisma as any).chatSession.upsert({
-        where: { userId },
-        update: {
-          messages: messages,
-          lastActivity: new Date()
-        },
-        create: {
-          userId: userId,
-          messages: messages,
-          lastActivity: new Date(),
-          createdAt: new Date()
+      const session = await prisma.chatSession.update({
+        where: { id },
+        data: {
+          ...updates,
+          // Renaming is not activity
+          ...(updates.messages && { lastActivity: new Date() })
         }
       });
-      
-      return {
-        id: session.id,
-        userId: session.userId,
-        messages: Array.isArray(session.messages) ? session.messages.map((msg: any) => ({
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(msg.timestamp)
-        })) : [],
-        lastActivity: session.lastActivity,
-        createdAt: session.createdAt
-      };
+      return convertPrismaChatSession(session);
     } catch (error) {
       console.error('Error updating chat session:', error);
       return null;
     }
   }
 
-  async clearChatSession(userId: string): Promise<boolean> {
+  async appendChatMessages(id: string, messages: ChatMessage[]): Promise<ChatSession | null> {
+    if (!prisma || !isObjectId(id)) return null;
+    // messages is a Json field, which Prisma can only replace whole; $push appends without reading it first
+    const result = await prisma.$runCommandRaw({
+      update: "chat_sessions",
+      updates: [{
+        q: { _id: { $oid: id } },
+        u: {
+          $push: { messages: { $each: messages.map(message => ({ ...message, timestamp: message.timestamp.toISOString() })) } },
+          $set: { lastActivity: { $date: new Date().toISOString() } }
+        }
+      }]
+    });
+    return typeof result.n === "number" && result.n > 0 ? this.getChatSession(id) : null;
+  }
+
+  async deleteChatSession(id: string): Promise<boolean> {
+    if (!prisma) return false;
     try {
       await (prisma as any).chatSession.delete({
-        where: { userId }
+        where: { id }
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting chat session:', error);
+      return false;
+    }
+  }
+
+  async deleteChatSessionsByUser(userId: string): Promise<number> {
+    if (!prisma) return 0;
+    const result = await prisma.chatSession.deleteMany({
+      where: { userId }
+    });
+    return result.count;
+  }
+
+  // Hold queue methods
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    if (!prisma) throw new Error("Database not available");
+    const hold = await prisma.hold.create({
+      data: insertHold
+    });
+    return convertPrismaHold(hold);
+  }
+
+  async getHold(id: string): Promise<Hold | null> {
+    try {
+      if (!prisma) return null;
+      const hold = await prisma.hold.findUnique({
+        where: { id }
+      });
+      return hold ? convertPrismaHold(hold) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getHoldsByUser(userId: string): Promise<Hold[]> {
+    if (!prisma) return [];
+    const holds = await prisma.hold.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return holds.map(convertPrismaHold);
+  }
+
+  async getHoldsByBook(bookId: string): Promise<Hold[]> {
+    if (!prisma) return [];
+    const holds = await prisma.hold.findMany({
+      where: { bookId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return holds.map(convertPrismaHold);
+  }
+
+  async getActiveHolds(): Promise<Hold[]> {
+    if (!prisma) return [];
+    const holds = await prisma.hold.findMany({
+      where: { status: { in: [HoldStatus.WAITING, HoldStatus.READY] } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return holds.map(convertPrismaHold);
+  }
+
+  async updateHold(id: string, updates: Partial<Pick<Hold, "status" | "readyAt" | "pickupDeadline" | "closedAt" | "itemId">>): Promise<Hold | null> {
+    try {
+      if (!prisma) return null;
+      const hold = await prisma.hold.update({
+        where: { id },
+        data: updates
+      });
+      return convertPrismaHold(hold);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Fines & fees ledger methods
+  async createLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    if (!prisma) throw new Error("Database not available");
+    const entry = await prisma.ledgerEntry.create({
+      data: insertEntry
+    });
+    return convertPrismaLedgerEntry(entry);
+  }
+
+  async getLedgerEntry(id: string): Promise<LedgerEntry | null> {
+    try {
+      if (!prisma) return null;
+      const entry = await prisma.ledgerEntry.findUnique({
+        where: { id }
       });
+      return entry ? convertPrismaLedgerEntry(entry) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getUserLedger(userId: string): Promise<LedgerEntry[]> {
+    if (!prisma) return [];
+    const entries = await prisma.ledgerEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return entries.map(convertPrismaLedgerEntry);
+  }
+
+  async getAllLedgerEntries(): Promise<LedgerEntry[]> {
+    if (!prisma) return [];
+    const entries = await prisma.ledgerEntry.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+    return entries.map(convertPrismaLedgerEntry);
+  }
+
+  async getUserFineBalance(userId: string): Promise<number> {
+    return sumLedgerBalance(await this.getUserLedger(userId));
+  }
+
+  async getFineSettings(): Promise<FineSettings> {
+    const settings = prisma ? await prisma.fineSettings.findFirst() : null;
+    return settings
+      ? convertPrismaFineSettings(settings)
+      : { id: "default", ...DEFAULT_FINE_SETTINGS, updatedAt: new Date(0) };
+  }
+
+  async updateFineSettings(settings: Partial<UpdateFineSettings>): Promise<FineSettings> {
+    if (!prisma) throw new Error("Database not available");
+    const existing = await prisma.fineSettings.findFirst();
+    const saved = existing
+      ? await prisma.fineSettings.update({
+          where: { id: existing.id },
+          data: settings
+        })
+      : await prisma.fineSettings.create({
+          data: { ...DEFAULT_FINE_SETTINGS, ...settings }
+        });
+    return convertPrismaFineSettings(saved);
+  }
+
+  // Circulation policy methods
+  async getCirculationPolicies(): Promise<CirculationPolicy[]> {
+    if (!prisma) return [];
+    const policies = await prisma.circulationPolicy.findMany({
+      orderBy: [{ role: 'asc' }, { category: 'asc' }]
+    });
+    return policies.map(convertPrismaCirculationPolicy);
+  }
+
+  async saveCirculationPolicy(insertPolicy: InsertCirculationPolicy): Promise<CirculationPolicy> {
+    if (!prisma) throw new Error("Database not available");
+    // One policy per role and category: saving again replaces it
+    const category = insertPolicy.category || null;
+    const data = { ...insertPolicy, category };
+    const existing = await prisma.circulationPolicy.findFirst({
+      where: { role: insertPolicy.role, category }
+    });
+    const saved = existing
+      ? await prisma.circulationPolicy.update({ where: { id: existing.id }, data })
+      : await prisma.circulationPolicy.create({ data });
+    return convertPrismaCirculationPolicy(saved);
+  }
+
+  async deleteCirculationPolicy(id: string): Promise<boolean> {
+    try {
+      await prisma.circulationPolicy.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Academic calendar methods - MongoDB implementation
+  async getCalendarEvents(): Promise<CalendarEvent[]> {
+    if (!prisma) return [];
+    const events = await prisma.calendarEvent.findMany({ orderBy: { startDate: 'asc' } });
+    return events.map(convertPrismaCalendarEvent);
+  }
+
+  async createCalendarEvent(insertEvent: InsertCalendarEvent): Promise<CalendarEvent> {
+    if (!prisma) throw new Error("Database not available");
+    const event = await prisma.calendarEvent.create({ data: insertEvent });
+    return convertPrismaCalendarEvent(event);
+  }
+
+  async updateCalendarEvent(id: string, updates: Partial<InsertCalendarEvent>): Promise<CalendarEvent | null> {
+    if (!prisma) return null;
+    try {
+      const event = await prisma.calendarEvent.update({ where: { id }, data: updates });
+      return convertPrismaCalendarEvent(event);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    try {
+      await prisma.calendarEvent.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Report schedule methods - MongoDB implementation
+  async getReportSchedules(): Promise<ReportSchedule[]> {
+    if (!prisma) return [];
+    const schedules = await prisma.reportSchedule.findMany({ orderBy: { createdAt: 'asc' } });
+    return schedules.map(convertPrismaReportSchedule);
+  }
+
+  async createReportSchedule(insertSchedule: InsertReportSchedule): Promise<ReportSchedule> {
+    if (!prisma) throw new Error("Database not available");
+    const schedule = await prisma.reportSchedule.create({ data: insertSchedule });
+    return convertPrismaReportSchedule(schedule);
+  }
+
+  async updateReportSchedule(id: string, updates: Partial<InsertReportSchedule>): Promise<ReportSchedule | null> {
+    if (!prisma) return null;
+    try {
+      const schedule = await prisma.reportSchedule.update({ where: { id }, data: updates });
+      return convertPrismaReportSchedule(schedule);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async deleteReportSchedule(id: string): Promise<boolean> {
+    try {
+      await prisma.reportSchedule.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Audit log methods
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    if (!prisma) throw new Error("Database not available");
+    // Json fields take no plain null, so a missing snapshot is left unset
+    const { before, after, ...rest } = entry;
+    const log = await prisma.auditLog.create({
+      data: {
+        ...rest,
+        ...(before != null && { before: before as InputJsonValue }),
+        ...(after != null && { after: after as InputJsonValue })
+      }
+    });
+    return convertPrismaAuditLog(log);
+  }
+
+  async getAuditLogs(filter: AuditLogFilter): Promise<AuditLog[]> {
+    if (!prisma) return [];
+    const logs = await prisma.auditLog.findMany({
+      where: {
+        ...(filter.actor && { actorUsername: { contains: filter.actor, mode: 'insensitive' } }),
+        ...(filter.action && { action: filter.action }),
+        ...(filter.entityType && { entityType: filter.entityType }),
+        ...(filter.entityId && { entityId: filter.entityId }),
+        ...((filter.from || filter.to) && {
+          createdAt: { ...(filter.from && { gte: filter.from }), ...(filter.to && { lte: filter.to }) }
+        })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit || DEFAULT_AUDIT_LOG_LIMIT
+    });
+    return logs.map(convertPrismaAuditLog);
+  }
+
+  // AI usage methods
+  async createAIUsageRecord(insertRecord: InsertAIUsageRecord): Promise<AIUsageRecord> {
+    if (!prisma) throw new Error("Database not available");
+    const record = await prisma.aIUsageRecord.create({ data: insertRecord });
+    return convertPrismaAIUsageRecord(record);
+  }
+
+  async getAIUsageRecords(filter: AIUsageFilter): Promise<AIUsageRecord[]> {
+    if (!prisma) return [];
+    const records = await prisma.aIUsageRecord.findMany({
+      where: {
+        ...(filter.userId && { userId: filter.userId }),
+        ...((filter.from || filter.to) && {
+          createdAt: { ...(filter.from && { gte: filter.from }), ...(filter.to && { lte: filter.to }) }
+        })
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map(convertPrismaAIUsageRecord);
+  }
+
+  async getAIQuotas(): Promise<AIQuota[]> {
+    if (!prisma) return [];
+    const quotas = await prisma.aIQuota.findMany({ orderBy: { role: 'asc' } });
+    return quotas.map(convertPrismaAIQuota);
+  }
+
+  async saveAIQuota(insertQuota: InsertAIQuota): Promise<AIQuota> {
+    if (!prisma) throw new Error("Database not available");
+    // One quota per role: saving again replaces it
+    const quota = await prisma.aIQuota.upsert({
+      where: { role: insertQuota.role },
+      create: insertQuota,
+      update: { ...insertQuota, updatedAt: new Date() }
+    });
+    return convertPrismaAIQuota(quota);
+  }
+
+  async deleteAIQuota(id: string): Promise<boolean> {
+    try {
+      if (!prisma) return false;
+      await prisma.aIQuota.delete({ where: { id } });
       return true;
     } catch (error) {
-      console.error('Error clearing chat session:', error);
       return false;
     }
   }
+
+  async reserveAIRequest(userId: string, day: string, limit: number | null): Promise<number | null> {
+    if (!prisma) throw new Error("Database not available");
+    try {
+      await prisma.aIRequestCount.upsert({
+        where: { userId_day: { userId, day } },
+        create: { userId, day, requests: 0 },
+        update: {}
+      });
+    } catch (error) {
+      // Another request created the day's counter first
+      if ((error as { code?: string })?.code !== "P2002") throw error;
+    }
+
+    // The limit is part of the filter, so the check and the increment happen in one write
+    const { count } = await prisma.aIRequestCount.updateMany({
+      where: { userId, day, ...(limit !== null && { requests: { lt: limit } }) },
+      data: { requests: { increment: 1 }, updatedAt: new Date() }
+    });
+    if (count === 0) return null;
+    return this.getAIRequestCount(userId, day);
+  }
+
+  async getAIRequestCount(userId: string, day: string): Promise<number> {
+    if (!prisma) return 0;
+    const counter = await prisma.aIRequestCount.findUnique({ where: { userId_day: { userId, day } } });
+    return counter?.requests || 0;
+  }
 }
 
 // Use DatabaseStorage if MongoDB URI is available, otherwise fallback to MemStorage
-export const storage = process.env.MONGODB_URI ? new DatabaseStorage() : new MemStorage();
\ No newline at end of file
+export const storage = process.env.MONGODB_URI ? new DatabaseStorage() : new MemStorage();
+// Policy checks against the active storage, for routes and services that evaluate before acting
+export const circulationPolicy = new CirculationPolicyEngine(storage);
+
+export const academicCalendar = new CalendarService(storage);
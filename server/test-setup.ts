@@ -0,0 +1,4 @@
+import { vi } from "vitest";
+
+// db.ts refuses to load without MONGODB_URI; tests use MemStorage, which never touches Prisma
+vi.mock("./db", () => ({ prisma: null }));
@@ -1,6 +1,15 @@
 // Server-side type conversions to handle Prisma/Schema enum differences
 import type { User as PrismaUser, Book as PrismaBook, Transaction as PrismaTransaction, BookRequest as PrismaBookRequest, BookAIContent as PrismaBookAIContent, AIAnalytics as PrismaAIAnalytics, AIPrediction as PrismaAIPrediction } from "@prisma/client";
-import type { User, Book, Transaction, BookRequest, ExtensionRequest, BookAIContent, AIAnalytics, AIPrediction } from "@shared/schema";
+import type { User, Book, Transaction, BookRequest, ExtensionRequest, BookAIContent, AIAnalytics, AIPrediction, LedgerEntry, FineSettings, Hold, Item, CirculationPolicy, AuditLog, BookEmbedding, AIUsageRecord, AIQuota, ChatSession, BookAIContentVersion, AIContentJob, AIContentJobItem, QuizAttempt, QuizReviewItem, CalendarEvent, ReportSchedule } from "@shared/schema";
+import { ItemStatus } from "@shared/schema";
+
+// Book copy counts are derived from item status: lost and withdrawn copies are no longer holdings
+export function countCopies(items: { status: ItemStatus | string }[]): { totalCopies: number; availableCopies: number } {
+  return {
+    totalCopies: items.filter(item => item.status !== ItemStatus.LOST && item.status !== ItemStatus.WITHDRAWN).length,
+    availableCopies: items.filter(item => item.status === ItemStatus.AVAILABLE).length,
+  };
+}
 
 // Convert Prisma types to shared schema types
 export function convertPrismaUser(user: PrismaUser): User {
@@ -11,13 +20,25 @@ export function convertPrismaUser(user: PrismaUser): User {
 }
 
 export function convertPrismaBook(book: PrismaBook): Book {
-  return book as any;
+  const { items, legacyTotalCopies, ...rest } = book as any;
+  return {
+    ...rest,
+    ...countCopies(items || []),
+  };
 }
 
 export function convertPrismaTransaction(transaction: PrismaTransaction): Transaction {
+  // Renewal history is stored as JSON, so its dates come back as strings
+  const renewals = ((transaction as any).renewals as any[] | null) || [];
   return {
     ...transaction,
     status: transaction.status as any,
+    renewals: renewals.map(renewal => ({
+      ...renewal,
+      renewedAt: new Date(renewal.renewedAt),
+      previousDueDate: new Date(renewal.previousDueDate),
+      newDueDate: new Date(renewal.newDueDate),
+    })),
   };
 }
 
@@ -57,4 +78,138 @@ export function convertPrismaAIPrediction(prediction: PrismaAIPrediction): AIPre
     type: prediction.type as any,
     prediction: prediction.prediction as any,
   };
-}
\ No newline at end of file
+}
+
+export function convertPrismaLedgerEntry(entry: any): LedgerEntry {
+  return {
+    ...entry,
+    type: entry.type as any,
+    category: entry.category as any,
+  };
+}
+
+export function convertPrismaFineSettings(settings: any): FineSettings {
+  return {
+    ...settings,
+    categoryRates: (settings.categoryRates as Record<string, number> | null) || {},
+  };
+}
+
+export function convertPrismaCirculationPolicy(policy: any): CirculationPolicy {
+  return {
+    ...policy,
+    role: policy.role as any,
+  };
+}
+
+export function convertPrismaCalendarEvent(event: any): CalendarEvent {
+  return {
+    ...event,
+    type: event.type as any,
+  };
+}
+
+export function convertPrismaReportSchedule(schedule: any): ReportSchedule {
+  return {
+    ...schedule,
+    reportType: schedule.reportType as any,
+    format: schedule.format as any,
+    frequency: schedule.frequency as any,
+  };
+}
+
+export function convertPrismaAuditLog(log: any): AuditLog {
+  return {
+    ...log,
+    entityType: log.entityType as any,
+  };
+}
+
+export function convertPrismaBookEmbedding(embedding: any): BookEmbedding {
+  return {
+    ...embedding,
+  };
+}
+
+export function convertPrismaAIUsageRecord(record: any): AIUsageRecord {
+  return {
+    ...record,
+    role: record.role as any,
+    feature: record.feature as any,
+  };
+}
+
+export function convertPrismaAIQuota(quota: any): AIQuota {
+  return {
+    ...quota,
+    role: quota.role as any,
+  };
+}
+
+export function convertPrismaHold(hold: any): Hold {
+  return {
+    ...hold,
+    status: hold.status as any,
+  };
+}
+
+export function convertPrismaItem(item: any): Item {
+  return {
+    ...item,
+    status: item.status as any,
+    condition: item.condition as any,
+  };
+}
+
+export function convertPrismaChatSession(session: any): ChatSession {
+  return {
+    id: session.id,
+    userId: session.userId,
+    // Sessions saved before conversations had titles
+    title: session.title || "New conversation",
+    messages: Array.isArray(session.messages) ? session.messages.map((msg: any) => ({
+      role: msg.role,
+      content: msg.content,
+      timestamp: new Date(msg.timestamp)
+    })) : [],
+    lastActivity: session.lastActivity,
+    createdAt: session.createdAt
+  };
+}
+
+export function convertPrismaAIContentVersion(version: any): BookAIContentVersion {
+  return {
+    ...version,
+    field: version.field as any,
+    status: version.status as any,
+    source: version.source as any,
+  };
+}
+
+export function convertPrismaAIContentJob(job: any): AIContentJob {
+  return {
+    ...job,
+    status: job.status as any,
+  };
+}
+
+export function convertPrismaAIContentJobItem(item: any): AIContentJobItem {
+  return {
+    ...item,
+    status: item.status as any,
+  };
+}
+
+export function convertPrismaQuizAttempt(attempt: any): QuizAttempt {
+  return {
+    ...attempt,
+    answers: Array.isArray(attempt.answers) ? attempt.answers : [],
+    grader: attempt.grader as any,
+  };
+}
+
+export function convertPrismaQuizReviewItem(item: any): QuizReviewItem {
+  return {
+    ...item,
+  };
+}
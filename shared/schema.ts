@@ -25,25 +25,51 @@ export type Book = {
   category: string;
   description?: string | null;
   publisher?: string | null;
-  totalCopies: number;
-  availableCopies: number;
+  totalCopies: number; // Derived: copies that are not lost or withdrawn
+  availableCopies: number; // Derived: copies with status AVAILABLE
   createdAt: Date;
   transactions?: Transaction[];
   bookRequests?: BookRequest[];
 };
 
+// A physical copy of a book
+export type Item = {
+  id: string;
+  bookId: string;
+  barcode: string;
+  shelfLocation?: string | null;
+  condition: ItemCondition;
+  status: ItemStatus;
+  notes?: string | null;
+  createdAt: Date;
+  book?: Book;
+};
+
 export type Transaction = {
   id: string;
   userId: string;
   bookId: string;
+  itemId?: string | null; // The copy on loan
   borrowedDate: Date;
   dueDate: Date;
   returnedDate?: Date | null;
   status: TransactionStatus;
+  dueSoonNotifiedAt?: Date | null; // Set once the "due soon" reminder has gone out for the current due date
+  overdueNotifiedAt?: Date | null; // Set once the overdue notice has gone out for the current due date
+  renewalCount?: number; // Renewals so far, self-service or approved extensions
+  renewals?: Renewal[]; // Renewal history, oldest first
   user?: User;
   book?: Book;
 };
 
+export type Renewal = {
+  renewedAt: Date;
+  previousDueDate: Date;
+  newDueDate: Date;
+  method: RenewalMethod;
+  approvedBy?: string | null; // Librarian username for approved extension requests
+};
+
 export type BookRequest = {
   id: string;
   userId: string;
@@ -52,6 +78,8 @@ export type BookRequest = {
   status: BookRequestStatus;
   requestedBy: string;
   notes?: string | null;
+  processedBy?: string | null; // Username of the librarian who approved or rejected the request
+  processedDate?: Date | null;
   user?: User;
   book?: Book;
 };
@@ -71,11 +99,26 @@ export type ExtensionRequest = {
   transaction?: Transaction;
 };
 
+export type Hold = {
+  id: string;
+  userId: string;
+  bookId: string;
+  status: HoldStatus;
+  bookRequestId?: string | null; // Set when the hold was created from a request that could not be approved
+  itemId?: string | null; // Copy set aside on the hold shelf while READY
+  createdAt: Date;
+  readyAt?: Date | null; // When a copy was put on the hold shelf for this patron
+  pickupDeadline?: Date | null;
+  closedAt?: Date | null; // When the hold was fulfilled, cancelled or expired
+  user?: User;
+  book?: Book;
+};
+
 // Define Notification types manually to avoid import issues
 export type Notification = {
   id: string;
   userId: string;
-  type: "BOOK_BORROWED" | "BOOK_RETURNED" | "BOOK_DUE_SOON" | "BOOK_OVERDUE" | "BOOK_REQUEST_REJECTED" | "EXTENSION_REQUEST_APPROVED" | "EXTENSION_REQUEST_REJECTED";
+  type: "BOOK_BORROWED" | "BOOK_RETURNED" | "BOOK_DUE_SOON" | "BOOK_OVERDUE" | "BOOK_REQUEST_REJECTED" | "EXTENSION_REQUEST_APPROVED" | "EXTENSION_REQUEST_REJECTED" | "HOLD_PLACED" | "HOLD_READY" | "HOLD_EXPIRED" | "BOOK_RENEWED";
   title: string;
   message: string;
   isRead: boolean;
@@ -90,7 +133,11 @@ export enum NotificationType {
   BOOK_OVERDUE = "BOOK_OVERDUE",
   BOOK_REQUEST_REJECTED = "BOOK_REQUEST_REJECTED",
   EXTENSION_REQUEST_APPROVED = "EXTENSION_REQUEST_APPROVED",
-  EXTENSION_REQUEST_REJECTED = "EXTENSION_REQUEST_REJECTED"
+  EXTENSION_REQUEST_REJECTED = "EXTENSION_REQUEST_REJECTED",
+  HOLD_PLACED = "HOLD_PLACED",
+  HOLD_READY = "HOLD_READY",
+  HOLD_EXPIRED = "HOLD_EXPIRED",
+  BOOK_RENEWED = "BOOK_RENEWED"
 }
 
 // Define enums manually to avoid Prisma imports
@@ -103,7 +150,8 @@ export enum Role {
 export enum TransactionStatus {
   BORROWED = "BORROWED",
   RETURNED = "RETURNED",
-  OVERDUE = "OVERDUE"
+  OVERDUE = "OVERDUE",
+  CANCELLED = "CANCELLED" // Checked out by mistake and undone at the desk
 }
 
 export enum BookRequestStatus {
@@ -119,6 +167,36 @@ export enum ExtensionRequestStatus {
   REJECTED = "REJECTED"
 }
 
+export enum ItemStatus {
+  AVAILABLE = "AVAILABLE",
+  ON_LOAN = "ON_LOAN",
+  ON_HOLD = "ON_HOLD", // Set aside on the hold shelf for a patron
+  LOST = "LOST",
+  WITHDRAWN = "WITHDRAWN",
+  IN_REPAIR = "IN_REPAIR"
+}
+
+export enum ItemCondition {
+  NEW = "NEW",
+  GOOD = "GOOD",
+  FAIR = "FAIR",
+  POOR = "POOR",
+  DAMAGED = "DAMAGED"
+}
+
+export enum RenewalMethod {
+  SELF_SERVICE = "SELF_SERVICE",
+  EXTENSION_REQUEST = "EXTENSION_REQUEST"
+}
+
+export enum HoldStatus {
+  WAITING = "WAITING", // In the queue for the next returned copy
+  READY = "READY", // A copy is on the hold shelf awaiting pickup
+  FULFILLED = "FULFILLED",
+  CANCELLED = "CANCELLED",
+  EXPIRED = "EXPIRED"
+}
+
 // Input validation schemas for creating new records
 export const insertUserSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -152,16 +230,37 @@ export const updateProfileSchema = z.object({
 export const insertBookSchema = z.object({
   title: z.string().min(1, "Title is required"),
   author: z.string().min(1, "Author is required"),
-  isbn: z.string().optional(),
+  isbn: z.string().nullish(),
   category: z.string().min(1, "Category is required"),
-  description: z.string().optional(),
-  publisher: z.string().optional(),
-  totalCopies: z.number().min(1, "At least 1 copy is required"),
+  description: z.string().nullish(),
+  publisher: z.string().nullish(),
+  totalCopies: z.number().min(1, "At least 1 copy is required"), // Number of copies to create; afterwards derived from items
+});
+
+export const insertItemSchema = z.object({
+  bookId: z.string().min(1, "Book ID is required"),
+  barcode: z.string().trim().min(1, "Barcode is required").optional(), // Generated when omitted
+  shelfLocation: z.string().optional(),
+  condition: z.nativeEnum(ItemCondition).optional(),
+  status: z.nativeEnum(ItemStatus).optional(),
+  notes: z.string().optional(),
+});
+
+export const updateItemSchema = z.object({
+  barcode: z.string().trim().min(1, "Barcode is required").optional(),
+  shelfLocation: z.string().nullable().optional(),
+  condition: z.nativeEnum(ItemCondition).optional(),
+  // ON_LOAN and ON_HOLD are only set by circulation
+  status: z.nativeEnum(ItemStatus)
+    .refine(status => status !== ItemStatus.ON_LOAN && status !== ItemStatus.ON_HOLD, "Loan and hold status are set by circulation")
+    .optional(),
+  notes: z.string().nullable().optional(),
 });
 
 export const insertTransactionSchema = z.object({
   userId: z.string().min(1, "User ID is required"),
   bookId: z.string().min(1, "Book ID is required"),
+  itemId: z.string().optional(), // Specific copy; any available copy is used when omitted
   dueDate: z.date(),
   status: z.nativeEnum(TransactionStatus).optional(),
 });
@@ -191,6 +290,12 @@ export const insertExtensionRequestSchema = z.object({
   status: z.nativeEnum(ExtensionRequestStatus).optional(),
 });
 
+export const insertHoldSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  bookId: z.string().min(1, "Book ID is required"),
+  bookRequestId: z.string().optional(),
+});
+
 // Login schema
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -217,9 +322,12 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type InsertBook = z.infer<typeof insertBookSchema>;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type InsertItem = z.infer<typeof insertItemSchema>;
+export type UpdateItem = z.infer<typeof updateItemSchema>;
 export type InsertBookRequest = z.infer<typeof insertBookRequestSchema>;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type InsertExtensionRequest = z.infer<typeof insertExtensionRequestSchema>;
+export type InsertHold = z.infer<typeof insertHoldSchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
 export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>;
 export type VerifyOtpRequest = z.infer<typeof verifyOtpSchema>;
@@ -257,6 +365,15 @@ export type ExtensionRequestWithUserAndTransaction = ExtensionRequest & {
   transaction: TransactionWithBook;
 };
 
+export type HoldWithBook = Hold & {
+  book: Book;
+  queuePosition: number | null; // 1-based place in line while WAITING
+};
+
+export type HoldWithUserAndBook = HoldWithBook & {
+  user: User;
+};
+
 // Push subscription for Web Push API
 export type PushSubscription = {
   id: string;
@@ -289,6 +406,181 @@ export type BookAIContent = {
   book?: Book;
 };
 
+// Generated book content is reviewed one field at a time
+export const AI_CONTENT_FIELDS = ["summary", "studyGuide", "quotes", "comprehensionQA"] as const;
+export type AIContentField = typeof AI_CONTENT_FIELDS[number];
+export type AIContentValue = string | string[] | { question: string; answer: string }[];
+
+export enum AIContentStatus {
+  DRAFT = "DRAFT", // Waiting for a librarian's review
+  PUBLISHED = "PUBLISHED", // The version students see
+  REJECTED = "REJECTED",
+  SUPERSEDED = "SUPERSEDED" // Replaced by a newer draft or published version
+}
+
+export enum AIContentSource {
+  GENERATED = "GENERATED",
+  EDITED = "EDITED",
+  ROLLBACK = "ROLLBACK"
+}
+
+// One version of one field of a book's generated content. BookAIContent holds the published values.
+export type BookAIContentVersion = {
+  id: string;
+  bookId: string;
+  field: AIContentField;
+  version: number; // Counts up per book and field
+  value: AIContentValue;
+  status: AIContentStatus;
+  source: AIContentSource;
+  createdBy?: string | null; // User id; null for generation outside a request
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  createdAt: Date;
+};
+
+export type InsertBookAIContentVersion = Omit<BookAIContentVersion, 'id' | 'createdAt'>;
+
+// A book with drafts waiting for review
+export type AIContentReviewItem = {
+  book: Book;
+  drafts: BookAIContentVersion[];
+  published: BookAIContent | null;
+};
+
+// Everything about one book's content: published values, pending drafts and every version
+export type AIContentReviewDetail = AIContentReviewItem & {
+  history: BookAIContentVersion[];
+};
+
+export enum AIContentJobStatus {
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  CANCELLED = "CANCELLED"
+}
+
+export enum AIContentJobItemStatus {
+  PENDING = "PENDING",
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED"
+}
+
+// A batch of books to generate content for, worked through in the background
+export type AIContentJob = {
+  id: string;
+  createdBy?: string | null;
+  category?: string | null; // Only books in this category; all categories when null
+  onlyMissing: boolean; // Skip books that already have published content or drafts
+  status: AIContentJobStatus;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: Date;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+};
+
+export type InsertAIContentJob = Omit<AIContentJob, 'id' | 'createdAt'>;
+
+// One book of a job. Items still PENDING after a restart are picked up again.
+export type AIContentJobItem = {
+  id: string;
+  jobId: string;
+  bookId: string;
+  bookTitle: string;
+  status: AIContentJobItemStatus;
+  attempts: number;
+  error?: string | null;
+  finishedAt?: Date | null;
+};
+
+export type InsertAIContentJobItem = Omit<AIContentJobItem, 'id'>;
+
+export type AIContentJobDetail = AIContentJob & {
+  failures: AIContentJobItem[];
+};
+
+// Study quizzes built on a book's published comprehension Q&A
+export enum QuizGrader {
+  AI = "AI",
+  KEYWORD = "KEYWORD" // Used when the model is unavailable or its grades cannot be read
+}
+
+// A question as the student sees it, without the answer
+export type QuizQuestion = {
+  index: number; // Position in the book's comprehensionQA
+  question: string;
+};
+
+export type QuizAnswerResult = {
+  questionIndex: number;
+  question: string;
+  answer: string;
+  expectedAnswer: string;
+  score: number; // 0-1
+  correct: boolean;
+  feedback?: string | null;
+};
+
+export type QuizAttempt = {
+  id: string;
+  userId: string;
+  bookId: string;
+  answers: QuizAnswerResult[];
+  score: number; // Average of the answer scores, 0-1
+  correctCount: number;
+  grader: QuizGrader;
+  createdAt: Date;
+};
+
+export type InsertQuizAttempt = Omit<QuizAttempt, 'id' | 'createdAt'>;
+
+// A missed question scheduled for spaced repetition. Boxes 1-5 are reviewed after 1, 3, 7, 14 and 30 days.
+export type QuizReviewItem = {
+  id: string;
+  userId: string;
+  bookId: string;
+  question: string;
+  expectedAnswer: string;
+  box: number;
+  dueAt: Date;
+  lastReviewedAt?: Date | null;
+  lastScore?: number | null;
+  createdAt: Date;
+};
+
+export type InsertQuizReviewItem = Omit<QuizReviewItem, 'id' | 'createdAt'>;
+
+// A due review as the student sees it
+export type QuizReviewCard = Pick<QuizReviewItem, 'id' | 'bookId' | 'question' | 'box' | 'dueAt'> & {
+  bookTitle: string;
+};
+
+export type QuizReviewResult = {
+  result: QuizAnswerResult;
+  // The rescheduled item, or null once the question is mastered
+  item: QuizReviewItem | null;
+};
+
+export type QuizOverview = {
+  questions: QuizQuestion[];
+  attempts: QuizAttempt[]; // The student's own, newest first
+  dueReviews: number; // The student's reviews due for this book
+};
+
+export type QuizBookStats = {
+  bookId: string;
+  title: string;
+  author: string;
+  attempts: number;
+  students: number;
+  averageScore: number; // 0-1
+  lastAttemptAt: Date;
+  questions: { question: string; answered: number; averageScore: number }[];
+};
+
 export type AIAnalytics = {
   id: string;
   type: 'USAGE_PATTERN' | 'INVENTORY_INSIGHT' | 'USER_BEHAVIOR' | 'PERFORMANCE_METRIC';
@@ -311,6 +603,108 @@ export type AIPrediction = {
   validUntil?: Date | null;
 };
 
+// One feature's share of an overdue-risk prediction, in log-odds relative to an average loan
+export type OverdueRiskContribution = {
+  feature: string;
+  label: string;
+  value: number; // The feature's value for this loan
+  description: string; // The value in words, e.g. "3 other books on loan"
+  contribution: number; // Positive raises the risk, negative lowers it
+};
+
+// The `prediction` payload of OVERDUE_RISK predictions
+export type OverdueRiskPrediction = {
+  userId: string;
+  transactionId: string;
+  bookId: string;
+  riskScore: number; // Probability (0-1) that the loan comes back late
+  contributions: OverdueRiskContribution[]; // Largest effect first
+  factors: string[]; // Descriptions of the contributions that raise the risk most
+  recommendedActions: string[];
+  daysUntilDue: number;
+  confidence: number; // Held-out AUC of the model, 0.5 while it has too little history to be measured
+};
+
+// How the overdue-risk model did on the most recent past loans when trained only on the loans before them
+export type OverdueRiskBacktest = {
+  trainingLoans: number;
+  testLoans: number;
+  heldOutFrom: Date; // Loans borrowed from this date on were held out
+  lateLoans: number; // Held-out loans that came back late
+  precision: number | null; // Of the loans flagged at the alert threshold, the share that came back late; null when none was flagged
+  recall: number | null; // Of the late loans, the share that was flagged; null when none was late
+  accuracy: number;
+  auc: number | null; // Chance that a late loan scores higher than an on-time one; null when all loans had the same outcome
+};
+
+export type OverdueRiskModelReport = {
+  trainedAt: Date;
+  trained: boolean; // False while there are too few past loans to fit the model
+  trainingLoans: number;
+  lateRate: number; // Share of past loans that came back late
+  threshold: number; // Risk from which a loan is flagged
+  weights: { feature: string; label: string; weight: number }[]; // Per standard deviation of the feature, largest first
+  backtest: OverdueRiskBacktest | null; // Null while there are too few past loans to hold some out
+};
+
+// Loans borrowed in one week (weeks start on Monday, UTC)
+export type DemandWeek = {
+  weekStart: Date;
+  loans: number;
+};
+
+// Expected loans for a coming week with an 80% prediction interval
+export type DemandForecastWeek = {
+  weekStart: Date;
+  expected: number;
+  lower: number;
+  upper: number;
+};
+
+export type DemandForecast = {
+  key: string; // Book id, category name, or "all" for the whole library
+  label: string;
+  history: DemandWeek[]; // Oldest first, up to the week before the forecast starts
+  forecast: DemandForecastWeek[];
+  expectedLoans: number; // Over the whole forecast horizon
+  trendDirection: 'increasing' | 'decreasing' | 'stable';
+};
+
+export type BookDemandForecast = DemandForecast & {
+  bookId: string;
+  totalCopies: number;
+  averageLoanWeeks: number;
+  recommendedCopies: number; // Copies to meet the upper bound of the busiest forecast week
+};
+
+export type PurchaseSuggestion = {
+  bookId: string;
+  title: string;
+  author: string;
+  category: string;
+  totalCopies: number;
+  recommendedCopies: number;
+  copiesToBuy: number;
+  expectedLoans: number;
+  peakWeeklyLoans: number; // Upper bound of the busiest forecast week
+};
+
+// What seasonal indices are learned per: academic calendar periods, or weeks of the year
+export type DemandSeasonality = "calendar" | "weekOfYear";
+
+export type DemandForecastOverview = {
+  generatedAt: Date;
+  horizonWeeks: number;
+  seasonality: DemandSeasonality | null; // Null until there is enough loan history to learn it from
+  library: DemandForecast;
+  categories: (DemandForecast & { copiesToBuy: number })[]; // Most expected loans first
+  purchaseList: PurchaseSuggestion[]; // Most copies to buy first
+};
+
+export const demandForecastQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(4).max(52).default(16),
+});
+
 // Zod schemas for AI features
 export const insertBookAIContentSchema = z.object({
   bookId: z.string().min(1, "Book ID is required"),
@@ -323,6 +717,50 @@ export const insertBookAIContentSchema = z.object({
   })).optional(),
 });
 
+const aiContentValueSchemas: Record<AIContentField, z.ZodTypeAny> = {
+  summary: z.string().trim().min(1, "Summary is required"),
+  studyGuide: z.string().trim().min(1, "Study guide is required"),
+  quotes: z.array(z.string().trim().min(1)).min(1, "At least one quote is required"),
+  comprehensionQA: z.array(z.object({
+    question: z.string().trim().min(1),
+    answer: z.string().trim().min(1)
+  })).min(1, "At least one question is required"),
+};
+
+/**
+ * The schema for a value of the given content field
+ */
+export function aiContentValueSchema(field: AIContentField): z.ZodTypeAny {
+  return aiContentValueSchemas[field];
+}
+
+export const editAIContentVersionSchema = z.object({
+  value: z.unknown(),
+  // Publish the edited value straight away instead of leaving it as a draft
+  publish: z.boolean().optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const reviewAIContentVersionSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const createAIContentJobSchema = z.object({
+  category: z.string().trim().min(1).optional(),
+  onlyMissing: z.boolean().default(true),
+});
+
+export const submitQuizAttemptSchema = z.object({
+  answers: z.array(z.object({
+    questionIndex: z.number().int().min(0),
+    answer: z.string().trim().max(2000),
+  })).min(1, "Answer at least one question"),
+});
+
+export const quizReviewAnswerSchema = z.object({
+  answer: z.string().trim().max(2000),
+});
+
 export const insertAIAnalyticsSchema = z.object({
   type: z.enum(['USAGE_PATTERN', 'INVENTORY_INSIGHT', 'USER_BEHAVIOR', 'PERFORMANCE_METRIC']),
   title: z.string().min(1, "Title is required"),
@@ -349,10 +787,11 @@ export type InsertAIPrediction = z.infer<typeof insertAIPredictionSchema>;
 // User without sensitive fields for frontend
 export type SafeUser = Omit<User, 'password'>;
 
-// AI Chat Session types
+// AI Chat Session types; each session is one named conversation
 export type ChatSession = {
   id: string;
   userId: string;
+  title: string;
   messages: ChatMessage[];
   lastActivity: Date;
   createdAt: Date;
@@ -366,6 +805,7 @@ export type ChatMessage = {
 
 export const insertChatSessionSchema = z.object({
   userId: z.string().min(1, "User ID is required"),
+  title: z.string().optional(),
   messages: z.array(z.object({
     role: z.enum(['user', 'assistant']),
     content: z.string(),
@@ -373,4 +813,641 @@ export const insertChatSessionSchema = z.object({
   })),
 });
 
-export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
\ No newline at end of file
+export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
+
+// A conversation in the history list, without its messages
+export type ChatSessionSummary = Omit<ChatSession, 'messages'> & {
+  messageCount: number;
+  // Where a search matched, when the list is a search result
+  snippet?: string;
+};
+
+export const chatSessionListQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+});
+
+export const renameChatSessionSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(100),
+});
+
+// An account change the chat assistant proposed, waiting for the student to confirm it
+export type ChatPendingAction = {
+  id: string;
+  tool: string;
+  summary: string;
+  expiresAt: Date;
+};
+
+// Background job status exposed to admins
+export type BackgroundJobStatus = {
+  name: string;
+  intervalMs: number;
+  running: boolean;
+  runCount: number;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastResult: unknown;
+  lastError: string | null;
+  nextRunAt: Date | null;
+};
+
+// Fines & fee ledger. All amounts are stored in minor currency units (e.g. cents).
+export enum LedgerEntryType {
+  CHARGE = "CHARGE",
+  PAYMENT = "PAYMENT",
+  WAIVER = "WAIVER"
+}
+
+export enum FeeCategory {
+  LATE_RETURN = "LATE_RETURN",
+  LOST = "LOST",
+  DAMAGED = "DAMAGED",
+  OTHER = "OTHER"
+}
+
+export type LedgerEntry = {
+  id: string;
+  userId: string;
+  type: LedgerEntryType;
+  category?: FeeCategory | null; // Only set on charges
+  amount: number; // Always positive; the entry type decides the sign
+  description: string;
+  transactionId?: string | null;
+  relatedEntryId?: string | null; // Charge a waiver applies to
+  recordedBy?: string | null; // Librarian username, or null for system-assessed fines
+  createdAt: Date;
+};
+
+export type FineSettings = {
+  id: string;
+  currency: string;
+  defaultDailyRate: number;
+  categoryRates: Record<string, number>; // Book category -> daily late rate
+  gracePeriodDays: number;
+  maxFinePerItem: number;
+  lostItemFee: number;
+  damagedItemFee: number;
+  borrowingBlockThreshold: number; // Borrowing is blocked while the balance is above this
+  updatedAt: Date;
+};
+
+export type UserBalance = {
+  userId: string;
+  balance: number;
+  currency: string;
+  borrowingBlocked: boolean;
+  entries: LedgerEntry[];
+};
+
+export const insertLedgerEntrySchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  type: z.nativeEnum(LedgerEntryType),
+  category: z.nativeEnum(FeeCategory).optional(),
+  amount: z.number().int("Amount must be in minor units").positive("Amount must be greater than zero"),
+  description: z.string().min(1, "Description is required"),
+  transactionId: z.string().optional(),
+  relatedEntryId: z.string().optional(),
+  recordedBy: z.string().optional(),
+});
+
+export const fineSettingsSchema = z.object({
+  currency: z.string().length(3, "Use a 3-letter currency code"),
+  defaultDailyRate: z.number().int().min(0),
+  categoryRates: z.record(z.string(), z.number().int().min(0)),
+  gracePeriodDays: z.number().int().min(0),
+  maxFinePerItem: z.number().int().min(0),
+  lostItemFee: z.number().int().min(0),
+  damagedItemFee: z.number().int().min(0),
+  borrowingBlockThreshold: z.number().int().min(0),
+});
+
+export const recordPaymentSchema = z.object({
+  amount: z.number().int("Amount must be in minor units").positive("Amount must be greater than zero"),
+  note: z.string().optional(),
+});
+
+export const waiveChargeSchema = z.object({
+  amount: z.number().int().positive().optional(), // Defaults to the outstanding amount of the charge
+  reason: z.string().min(1, "A reason is required to waive a charge"),
+});
+
+export const createChargeSchema = z.object({
+  category: z.nativeEnum(FeeCategory),
+  amount: z.number().int().positive().optional(), // Defaults to the configured fee for LOST/DAMAGED
+  description: z.string().optional(),
+  transactionId: z.string().optional(),
+});
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type UpdateFineSettings = z.infer<typeof fineSettingsSchema>;
+// Circulation policies. A policy applies to a borrower role, optionally narrowed to one book category;
+// the most specific match wins and built-in defaults apply when nothing matches.
+export enum PolicyViolationCode {
+  LOAN_LIMIT_REACHED = "LOAN_LIMIT_REACHED",
+  RENEWAL_LIMIT_REACHED = "RENEWAL_LIMIT_REACHED",
+  HOLDS_NOT_ALLOWED = "HOLDS_NOT_ALLOWED",
+  OUTSTANDING_FINES = "OUTSTANDING_FINES"
+}
+
+export type CirculationPolicy = {
+  id: string;
+  role: Role;
+  category?: string | null; // null applies to every category
+  loanPeriodDays: number;
+  maxConcurrentLoans: number; // Counted within the category when the policy names one; the role-wide limit still applies
+  maxRenewals: number;
+  holdsAllowed: boolean;
+  updatedAt: Date;
+};
+
+export type PolicyViolation = {
+  message: string;
+  code: PolicyViolationCode;
+};
+
+export const circulationPolicySchema = z.object({
+  role: z.nativeEnum(Role),
+  category: z.string().trim().min(1).nullable().optional(),
+  loanPeriodDays: z.number().int().min(1, "Loan period must be at least one day"),
+  maxConcurrentLoans: z.number().int().min(0),
+  maxRenewals: z.number().int().min(0),
+  holdsAllowed: z.boolean(),
+});
+
+export type InsertCirculationPolicy = z.infer<typeof circulationPolicySchema>;
+
+// Academic calendar: terms and exam weeks are periods; holidays and closures are days the library is closed
+export enum CalendarEventType {
+  TERM = "TERM",
+  EXAM_WEEK = "EXAM_WEEK",
+  HOLIDAY = "HOLIDAY",
+  CLOSURE = "CLOSURE"
+}
+
+export type CalendarEvent = {
+  id: string;
+  type: CalendarEventType;
+  name: string;
+  startDate: Date; // Midnight, server time, of the first day
+  endDate: Date; // Midnight of the last day, inclusive
+  notes?: string | null;
+  icalUid?: string | null; // UID of the iCal event it was imported from, so re-imports update it
+  createdBy?: string | null; // Id of the admin who added or imported it
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type InsertCalendarEvent = Omit<CalendarEvent, "id" | "createdAt" | "updatedAt">;
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const calendarEventSchema = z.object({
+  type: z.nativeEnum(CalendarEventType),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  startDate: calendarDateSchema,
+  endDate: calendarDateSchema,
+  notes: z.string().trim().max(1000).nullable().optional(),
+}).refine(event => event.endDate >= event.startDate, { message: "The last day cannot be before the first", path: ["endDate"] });
+
+export const calendarEventQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+});
+
+// Form fields sent with an uploaded .ics file
+export const importCalendarSchema = z.object({
+  // Used for events whose name does not say what they are
+  defaultType: z.nativeEnum(CalendarEventType).default(CalendarEventType.HOLIDAY),
+});
+
+export type CalendarEventInput = z.infer<typeof calendarEventSchema>;
+
+export type CalendarImportResult = {
+  created: number;
+  updated: number;
+  skipped: { name: string; reason: string }[];
+};
+
+// Predefined reports, downloaded by staff or emailed to admins on a schedule
+export enum ReportType {
+  CIRCULATION_BY_CATEGORY = "CIRCULATION_BY_CATEGORY",
+  OVERDUE_LIST = "OVERDUE_LIST",
+  TOP_BORROWERS = "TOP_BORROWERS",
+  COLLECTION_USAGE = "COLLECTION_USAGE",
+  REQUEST_FULFILLMENT = "REQUEST_FULFILLMENT"
+}
+
+export enum ReportFormat {
+  CSV = "CSV",
+  XLSX = "XLSX",
+  PDF = "PDF"
+}
+
+export enum ReportFrequency {
+  WEEKLY = "WEEKLY", // Mondays, covering the week before
+  MONTHLY = "MONTHLY" // The 1st, covering the month before
+}
+
+export type ReportCell = string | number | null;
+
+export type ReportDefinition = {
+  type: ReportType;
+  title: string;
+  description: string;
+  columns: string[];
+};
+
+export type Report = ReportDefinition & {
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  rows: ReportCell[][];
+  summary: { label: string; value: ReportCell }[];
+};
+
+export const reportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  format: z.nativeEnum(ReportFormat).optional(), // Without one the report comes back as JSON
+}).refine(query => query.to >= query.from, { message: "The end of the range must not be before its start", path: ["to"] });
+
+export type ReportSchedule = {
+  id: string;
+  name: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  frequency: ReportFrequency;
+  recipients: string[]; // Email addresses
+  enabled: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date | null;
+  lastError?: string | null; // Why the last run failed; cleared by a successful one
+  createdBy: string; // Id of the admin who scheduled it
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type InsertReportSchedule = Omit<ReportSchedule, "id" | "createdAt" | "updatedAt">;
+
+export const reportScheduleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  reportType: z.nativeEnum(ReportType),
+  format: z.nativeEnum(ReportFormat),
+  frequency: z.nativeEnum(ReportFrequency),
+  recipients: z.array(z.string().trim().email("Recipients must be email addresses")).min(1, "Add at least one recipient").max(20),
+  enabled: z.boolean().default(true),
+});
+
+export type ReportScheduleInput = z.infer<typeof reportScheduleSchema>;
+
+// Catalog spreadsheets: exported with the columns the bulk upload reads, so an edited export can be uploaded again
+export enum CatalogFormat {
+  CSV = "CSV",
+  XLSX = "XLSX"
+}
+
+export const catalogExportQuerySchema = z.object({
+  format: z.nativeEnum(CatalogFormat).default(CatalogFormat.CSV),
+});
+
+export enum CatalogImportRowStatus {
+  NEW = "NEW",
+  CHANGED = "CHANGED",
+  UNCHANGED = "UNCHANGED",
+  INVALID = "INVALID"
+}
+
+export type CatalogImportRow = {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  status: CatalogImportRowStatus;
+  bookId?: string; // The existing book the row updates
+  title: string;
+  changes: { field: string; before: string | number | null; after: string | number | null }[];
+  errors: string[];
+};
+
+// What a bulk upload would do to the catalog, row by row
+export type CatalogImportDiff = {
+  new: number;
+  changed: number;
+  unchanged: number;
+  invalid: number;
+  rows: CatalogImportRow[];
+};
+
+export type CatalogImportResult = CatalogImportDiff & {
+  message: string;
+  imported: number; // Books created
+  updated: number;
+  errors: string[];
+  books: Book[]; // Books created or updated
+};
+
+// Outcome of a student renewal: renewed on the spot, or handed to librarians as an extension request
+export type RenewalResult =
+  | { renewed: true; transaction: Transaction }
+  | { renewed: false; reason: string; extensionRequest: ExtensionRequest };
+
+// Circulation desk. A scan is either a patron card (register number or username) or a copy barcode.
+export enum DeskAction {
+  CHECKED_OUT = "CHECKED_OUT",
+  CHECKED_IN = "CHECKED_IN"
+}
+
+export type DeskPatron = {
+  user: SafeUser;
+  loans: TransactionWithBook[]; // Open loans only
+  readyHolds: HoldWithBook[]; // Copies waiting on the hold shelf for this patron
+  balance: number;
+  currency: string;
+  borrowingBlocked: boolean;
+};
+
+export type DeskItemResult = {
+  kind: "ITEM";
+  action: DeskAction;
+  message: string;
+  transaction: Transaction;
+  book: Book;
+  item: Item;
+  fine?: LedgerEntry | null; // Late fine assessed on check-in
+  hold?: Hold | null; // Hold the returned copy was set aside for
+};
+
+export type DeskScanResult = { kind: "PATRON"; patron: DeskPatron } | DeskItemResult;
+
+export const deskScanSchema = z.object({
+  code: z.string().trim().min(1, "Scan a patron card or item barcode"),
+  patronId: z.string().optional(), // Patron currently at the desk; required to check items out
+});
+
+export const deskUndoSchema = z.object({
+  action: z.nativeEnum(DeskAction),
+  transactionId: z.string().min(1, "Transaction ID is required"),
+});
+
+// Audit trail of state-changing actions
+export enum AuditEntityType {
+  AUTH = "AUTH",
+  USER = "USER",
+  BOOK = "BOOK",
+  ITEM = "ITEM",
+  TRANSACTION = "TRANSACTION",
+  BOOK_REQUEST = "BOOK_REQUEST",
+  EXTENSION_REQUEST = "EXTENSION_REQUEST",
+  HOLD = "HOLD",
+  NOTIFICATION = "NOTIFICATION",
+  PUSH_SUBSCRIPTION = "PUSH_SUBSCRIPTION",
+  LEDGER_ENTRY = "LEDGER_ENTRY",
+  FINE_SETTINGS = "FINE_SETTINGS",
+  CIRCULATION_POLICY = "CIRCULATION_POLICY",
+  AI_CONTENT = "AI_CONTENT",
+  AI_ANALYTICS = "AI_ANALYTICS",
+  AI_PREDICTION = "AI_PREDICTION",
+  AI_QUOTA = "AI_QUOTA",
+  CHAT = "CHAT",
+  QUIZ = "QUIZ",
+  JOB = "JOB",
+  CALENDAR = "CALENDAR",
+  REPORT = "REPORT"
+}
+
+export type AuditLog = {
+  id: string;
+  actorId?: string | null; // Null for anonymous actions such as failed logins and password resets
+  actorUsername?: string | null;
+  actorRole?: string | null;
+  action: string; // e.g. BOOK_DELETED, USER_ROLE_CHANGED
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown; // Snapshot before the change, with secrets removed
+  after?: unknown; // Snapshot after the change (usually the response body), with secrets removed
+  statusCode: number;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+};
+
+export type InsertAuditLog = Omit<AuditLog, "id" | "createdAt">;
+
+// A bare YYYY-MM-DD day covers the whole day, server time: `from` its first moment, `to` its last
+const dayBoundSchema = (edge: "start" | "end") => z.preprocess(
+  value => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T${edge === "start" ? "00:00:00" : "23:59:59.999"}`)
+    : value,
+  z.coerce.date()
+);
+
+export const auditLogFilterSchema = z.object({
+  actor: z.string().trim().optional(), // Matches part of the actor's username
+  action: z.string().trim().optional(),
+  entityType: z.nativeEnum(AuditEntityType).optional(),
+  entityId: z.string().trim().optional(),
+  from: dayBoundSchema("start").optional(),
+  to: dayBoundSchema("end").optional(),
+  limit: z.coerce.number().int().min(1).max(5000).optional(),
+});
+
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+
+// Server-side pagination for list endpoints. A request with `page` or `pageSize` gets a Page<T> back;
+// one without them still gets the full array.
+export type Page<T> = {
+  items: T[];
+  total: number; // Matching records across all pages
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+export const MAX_PAGE_SIZE = 100;
+
+const booleanQueryParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+const pageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().trim().optional(),
+});
+
+export const bookListQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(["createdAt", "title", "author", "category"]).default("createdAt"),
+  category: z.string().trim().optional(),
+  available: booleanQueryParam.optional(), // Only books with an available copy
+});
+
+export const transactionListQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(["borrowedDate", "dueDate", "returnedDate"]).default("borrowedDate"),
+  status: z.nativeEnum(TransactionStatus).optional(),
+  active: booleanQueryParam.optional(), // Only loans not yet returned
+  userId: z.string().optional(),
+  bookId: z.string().optional(),
+  from: z.coerce.date().optional(), // Borrowed on or after
+  to: z.coerce.date().optional(), // Borrowed on or before
+});
+
+export const bookRequestListQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(["requestDate", "status"]).default("requestDate"),
+  status: z.nativeEnum(BookRequestStatus).optional(),
+  userId: z.string().optional(),
+  bookId: z.string().optional(),
+  from: z.coerce.date().optional(), // Requested on or after
+  to: z.coerce.date().optional(), // Requested on or before
+});
+
+export const userListQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(["createdAt", "fullName", "username"]).default("createdAt"),
+  role: z.nativeEnum(Role).optional(),
+});
+
+export const notificationListQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(["createdAt"]).default("createdAt"),
+  type: z.nativeEnum(NotificationType).optional(),
+  isRead: booleanQueryParam.optional(),
+});
+
+export type BookListQuery = z.infer<typeof bookListQuerySchema>;
+export type TransactionListQuery = z.infer<typeof transactionListQuerySchema>;
+export type BookRequestListQuery = z.infer<typeof bookRequestListQuerySchema>;
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+
+// A user row in the paginated admin user list
+export type UserListItem = SafeUser & {
+  activeLoans: number;
+};
+
+// Catalog search (see server/catalog-search.ts)
+export type HighlightSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type CatalogSearchHit = {
+  book: Book;
+  score: number;
+  highlights: Partial<Record<"title" | "author" | "description", HighlightSegment[]>>;
+};
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+export enum CatalogAvailability {
+  AVAILABLE = "AVAILABLE",
+  CHECKED_OUT = "CHECKED_OUT",
+}
+
+export type CatalogFacets = {
+  category: FacetCount[];
+  author: FacetCount[];
+  publisher: FacetCount[];
+  availability: FacetCount[];
+};
+
+export type CatalogSearchResult = Page<CatalogSearchHit> & {
+  facets: CatalogFacets;
+};
+
+export const catalogSearchQuerySchema = pageQuerySchema.pick({ page: true, pageSize: true }).extend({
+  q: z.string().trim().default(""),
+  category: z.string().trim().optional(),
+  author: z.string().trim().optional(),
+  publisher: z.string().trim().optional(),
+  availability: z.nativeEnum(CatalogAvailability).optional(),
+});
+
+export type CatalogSearchQuery = z.infer<typeof catalogSearchQuerySchema>;
+
+// Semantic search (see server/embedding-service.ts)
+export type BookEmbedding = {
+  id: string;
+  bookId: string;
+  provider: string; // Provider and model that produced the vector, e.g. "local-ngram-512"; vectors from different providers are not comparable
+  vector: number[];
+  contentHash: string; // Hash of the embedded text, so unchanged books are not re-embedded
+  updatedAt: Date;
+};
+
+export type InsertBookEmbedding = Omit<BookEmbedding, "id" | "updatedAt">;
+
+// AI usage metering and quotas (see server/ai-usage-service.ts)
+export const AI_FEATURES = ["chat", "content", "insights"] as const;
+export type AIFeature = typeof AI_FEATURES[number];
+
+export type AIUsageRecord = {
+  id: string;
+  userId?: string | null; // Null for calls made outside a user request, e.g. background jobs
+  username?: string | null;
+  role?: Role | null;
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  success: boolean;
+  createdAt: Date;
+};
+
+export type InsertAIUsageRecord = Omit<AIUsageRecord, "id" | "createdAt">;
+
+export type AIUsageFilter = {
+  userId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+// Daily limits per user for a role, across all AI features. Null means unlimited.
+export type AIQuota = {
+  id: string;
+  role: Role;
+  dailyRequests?: number | null;
+  dailyTokens?: number | null;
+  updatedAt: Date;
+};
+
+export const aiQuotaSchema = z.object({
+  role: z.nativeEnum(Role),
+  dailyRequests: z.number().int().min(0).nullable(),
+  dailyTokens: z.number().int().min(0).nullable(),
+});
+
+export type InsertAIQuota = z.infer<typeof aiQuotaSchema>;
+
+// A user's standing against their role's quota for today
+export type AIQuotaStatus = {
+  role: Role;
+  dailyRequests?: number | null;
+  dailyTokens?: number | null;
+  usedRequests: number;
+  usedTokens: number;
+  exceeded: boolean;
+  resetsAt: Date;
+};
+
+export const aiUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export type AIUsageTotals = {
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+  estimatedCostUsd: number;
+};
+
+export type AIUsageSummary = {
+  from: Date;
+  to: Date;
+  totals: AIUsageTotals;
+  daily: (AIUsageTotals & { date: string })[]; // date is YYYY-MM-DD
+  byFeature: (AIUsageTotals & { feature: AIFeature })[];
+  byModel: (AIUsageTotals & { provider: string; model: string })[];
+  topUsers: (AIUsageTotals & { userId: string; username?: string | null; role?: Role | null })[];
+};
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    setupFiles: ["server/test-setup.ts"],
+    // Tests run against MemStorage; without a database URL storage never connects to MongoDB
+    env: { MONGODB_URI: "" },
+  },
+});